@@ -0,0 +1,124 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+// Runs the product page extractor over the saved pages in
+// fixtures/product-pages and checks the fields it reads. No network needed:
+// `npm run check:extract`. Add a page and a case here when a shop's markup
+// turns out to need special handling.
+
+import { readFileSync } from 'fs';
+import { isDeepStrictEqual } from 'util';
+import { extractProductPage, parsePriceAmount } from '../server/extract';
+import type { ProductPage } from '../src/types';
+
+interface Case {
+  file: string;
+  // What the page teaches the extractor.
+  covers: string;
+  // Only the listed fields are compared; `null` expects no usable page.
+  expected: Partial<ProductPage> | null;
+}
+
+const PAGE_URL = 'https://shop.example/products/item';
+
+const CASES: Case[] = [
+  {
+    file: 'graph.html',
+    covers: 'Product inside a JSON-LD @graph, price from priceSpecification, ImageObject images',
+    expected: {
+      title: 'Glow Serum 30 ml',
+      brand: 'Lumen Skin',
+      price: { amount: '49.00', currency: 'EUR' },
+      rating: { value: 4.7, count: 1203 },
+      features: ['15% vitamin C', 'Fragrance free', 'Size: 30 ml'],
+      images: [
+        'https://shop.example/cdn/serum-front.jpg',
+        'https://cdn.lumenskin.example/serum-side.jpg',
+        'https://cdn.lumenskin.example/serum-front.jpg',
+      ],
+    },
+  },
+  {
+    file: 'array.html',
+    covers: 'top-level JSON-LD array after a broken block, @type list, AggregateOffer lowPrice',
+    expected: {
+      title: 'TrailMate Insulated Bottle & Cap',
+      brand: 'TrailMate',
+      price: { amount: '19.5', currency: 'USD' },
+      features: ['Keeps drinks cold for 24 hours', 'Leak-proof twist cap'],
+      images: ['https://trailmate.example/img/bottle.png'],
+    },
+  },
+  {
+    file: 'meta.html',
+    covers: 'no JSON-LD: OpenGraph and product meta tags, grouped price, relative and unsafe images',
+    expected: {
+      title: 'Desk Lamp Pro',
+      brand: 'Brightly',
+      description: 'A dimmable LED desk lamp with a wireless charging base.',
+      price: { amount: '1299.99', currency: 'GBP' },
+      images: [
+        'https://shop.example/images/lamp-main.jpg',
+        'https://brightly.example/images/lamp-angle.jpg',
+        'https://brightly.example/images/lamp-main.jpg',
+      ],
+    },
+  },
+  {
+    file: 'bare.html',
+    covers: 'no metadata: <title> for the name, description from the main paragraphs',
+    expected: {
+      title: 'Handmade Linen Apron',
+      description: 'Our apron is cut from stonewashed European linen and softens with every wash. Two deep front pockets hold your phone, a notebook and whatever else the kitchen needs.',
+      price: undefined,
+      features: [],
+      images: [],
+    },
+  },
+];
+
+const PRICES: [string, string | undefined][] = [
+  ['49.00', '49.00'],
+  ['1,299.99', '1299.99'],
+  ['1.299,99', '1299.99'],
+  ['€ 1 299,99', '1299.99'],
+  ['$1,000', '1000'],
+  ['12.345', '12345'],
+  ['19.50 - 29.50', '19.50'],
+  ['Free', undefined],
+];
+
+const failures: string[] = [];
+
+const check = (label: string, actual: unknown, expected: unknown) => {
+  if (!isDeepStrictEqual(actual, expected)) {
+    failures.push(`${label}\n  expected ${JSON.stringify(expected)}\n  got      ${JSON.stringify(actual)}`);
+  }
+};
+
+for (const { file, covers, expected } of CASES) {
+  const html = readFileSync(new URL(`./fixtures/product-pages/${file}`, import.meta.url), 'utf8');
+  const page = extractProductPage(html, PAGE_URL);
+  if (expected === null || page === null) {
+    check(`${file} (${covers})`, page, expected);
+    continue;
+  }
+  for (const [field, value] of Object.entries(expected)) {
+    check(`${file} ${field} (${covers})`, page[field as keyof ProductPage], value);
+  }
+}
+
+check('empty page', extractProductPage('<html><body></body></html>', PAGE_URL), null);
+
+for (const [text, amount] of PRICES) {
+  check(`price "${text}"`, parsePriceAmount(text), amount);
+}
+
+if (failures.length > 0) {
+  console.error(failures.join('\n\n'));
+  console.error(`\n${failures.length} check(s) failed.`);
+  process.exit(1);
+}
+console.log(`All ${CASES.length} pages and ${PRICES.length} prices extracted as expected.`);
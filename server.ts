@@ -0,0 +1,43 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import dotenv from 'dotenv';
+import express from 'express';
+import path from 'path';
+import { createServer as createViteServer } from 'vite';
+import { errorMiddleware } from './server/errors';
+import { apiRouter } from './server/routes';
+
+dotenv.config({ path: ['.env.local', '.env'], quiet: true });
+
+const PORT = Number(process.env.PORT) || 3000;
+
+async function startServer() {
+  const app = express();
+
+  app.use(express.json({ limit: '15mb' }));
+  app.use('/api', apiRouter);
+  app.use('/api', errorMiddleware);
+
+  if (process.env.NODE_ENV !== 'production') {
+    const vite = await createViteServer({
+      server: { middlewareMode: true },
+      appType: 'spa',
+    });
+    app.use(vite.middlewares);
+  } else {
+    const distPath = path.join(process.cwd(), 'dist');
+    app.use(express.static(distPath));
+    app.get('*', (_req, res) => {
+      res.sendFile(path.join(distPath, 'index.html'));
+    });
+  }
+
+  app.listen(PORT, '0.0.0.0', () => {
+    console.log(`Server running on http://localhost:${PORT}`);
+  });
+}
+
+startServer();
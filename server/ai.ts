@@ -0,0 +1,845 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { Type } from "@google/genai";
+import { getLatestPromptVersion } from './db';
+import { HttpError, ModelError } from './errors';
+import { parseOutput } from './output';
+import { delay, getProvider } from './providers';
+import type { ModelCall, ModelProvider } from './providers';
+import { fetchProductPage } from './remote';
+import { checkQuota, recordCall } from './usage';
+import type { ImageInput } from './validation';
+import { ANGLES } from '../src/lib/angles';
+import { appendDisclaimers, checkCompliance } from '../src/lib/compliance';
+import type { ComplianceReport } from '../src/lib/compliance';
+import { HOOK_FRAMEWORK_IDS, HOOK_FRAMEWORKS } from '../src/lib/hooks';
+import { DEFAULT_LANGUAGE, getLanguage, hookBudget, lengthBudget, unitsPerSecond } from '../src/lib/languages';
+import type { LanguageId } from '../src/lib/languages';
+import { estimateTimeline, isOverLength, trimTargets } from '../src/lib/pacing';
+import { DEFAULT_VARIATIONS, pacedPlatform } from '../src/lib/platforms';
+import { formatPrice, formatRating } from '../src/lib/productPage';
+import { builtInVersion, renderTemplate } from '../src/lib/prompts';
+import { numberVariations } from '../src/lib/remix';
+import { MAX_QUOTE_LENGTH, quoteSources } from '../src/lib/reviews';
+import type { PromptTemplateId, PromptTemplateVersion } from '../src/lib/prompts';
+import { GRADED_CRITERIA, MAX_SCORE, SCORE_CRITERIA_INFO } from '../src/lib/scoring';
+import type { RubricGrade } from '../src/lib/scoring';
+import { REVIEW_THEMES, SECTIONS, SECTION_LABELS, SHOT_TYPES } from '../src/types';
+import type {
+  BrandProfile,
+  HookIdea,
+  Persona,
+  ProductAnalysis,
+  ProductFacts,
+  ProductPage,
+  ReviewCluster,
+  ReviewTheme,
+  ScriptRequest,
+  ScriptSection,
+  ScriptVariation,
+  UrlAnalysis,
+} from '../src/types';
+
+// A request with its brand profile and persona already loaded by the route.
+export type BrandedRequest = ScriptRequest & { brand?: BrandProfile; persona?: Persona };
+
+const analysisSchema = {
+  type: Type.OBJECT,
+  properties: {
+    productName: { type: Type.STRING },
+    mainProblem: { type: Type.STRING },
+    keyBenefit: { type: Type.STRING },
+    secondaryBenefits: { type: Type.ARRAY, items: { type: Type.STRING } },
+    visibleFeatures: { type: Type.ARRAY, items: { type: Type.STRING } },
+  },
+  required: ["productName", "mainProblem", "keyBenefit", "secondaryBenefits", "visibleFeatures"]
+};
+
+// Script lines must not come back empty; the output check enforces it.
+const lineSchema = { type: Type.STRING, minLength: '1' };
+
+const shotsSchema = {
+  type: Type.ARRAY,
+  items: {
+    type: Type.OBJECT,
+    properties: {
+      section: { type: Type.STRING, enum: [...SECTIONS] },
+      shotType: { type: Type.STRING, enum: [...SHOT_TYPES] },
+      overlay: { type: Type.STRING },
+      direction: lineSchema,
+      start: { type: Type.NUMBER },
+      end: { type: Type.NUMBER },
+    },
+    required: ["section", "shotType", "overlay", "direction", "start", "end"]
+  }
+};
+
+const variationsSchema = (storyboard: boolean, count: number) => ({
+  type: Type.ARRAY,
+  minItems: String(count),
+  maxItems: String(count),
+  items: {
+    type: Type.OBJECT,
+    properties: {
+      id: { type: Type.INTEGER },
+      hook: lineSchema,
+      problem: lineSchema,
+      solution: lineSchema,
+      cta: lineSchema,
+      ...(storyboard ? { shots: shotsSchema } : {}),
+    },
+    required: ["id", "hook", "problem", "solution", "cta", ...(storyboard ? ["shots"] : [])]
+  }
+});
+
+const sectionTextSchema = {
+  type: Type.OBJECT,
+  properties: {
+    text: lineSchema,
+  },
+  required: ["text"]
+};
+
+const scriptSchema = {
+  type: Type.OBJECT,
+  properties: {
+    hook: lineSchema,
+    problem: lineSchema,
+    solution: lineSchema,
+    cta: lineSchema,
+  },
+  required: ["hook", "problem", "solution", "cta"]
+};
+
+const hooksSchema = {
+  type: Type.ARRAY,
+  items: {
+    type: Type.OBJECT,
+    properties: {
+      framework: { type: Type.STRING, enum: [...HOOK_FRAMEWORK_IDS] },
+      text: lineSchema,
+    },
+    required: ["framework", "text"]
+  }
+};
+
+// "~38 words" or "~106 characters", depending on the request's language.
+const lengthFor = (input: ScriptRequest) => {
+  const language = getLanguage(input.language);
+  return `~${lengthBudget(pacedPlatform(input.platform, input.wordsPerSecond), input.duration, language)} ${language.unit}`;
+};
+
+const platformRules = (input: ScriptRequest) => {
+  const platform = pacedPlatform(input.platform, input.wordsPerSecond);
+  const language = getLanguage(input.language);
+  return `PLATFORM: ${platform.label}
+    - Pacing: ~${unitsPerSecond(platform, language)} spoken ${language.unit} per second, so ${lengthFor(input)} in total.
+    - Hook: lands within ${platform.hookSeconds}s, at most ~${hookBudget(platform, language)} ${language.unit}.
+    - ${platform.ctaTiming}
+    ${platform.rules.map(rule => `- ${rule}`).join('\n    ')}`;
+};
+
+const languageRules = (input: ScriptRequest) => {
+  const language = getLanguage(input.language);
+  if (language.id === DEFAULT_LANGUAGE) return '';
+  return `LANGUAGE: ${language.label}
+    - Write every line natively in ${language.label}, the way creators in that market talk; never write English and translate it.
+    - Use local idioms, units and currency. Keep brand and product names as they are.
+    - JSON keys stay in English.`;
+};
+
+const brandRules = ({ brand }: BrandedRequest) => {
+  if (!brand) return '';
+  const rules = [
+    brand.voice && `- Voice: ${brand.voice}`,
+    brand.examples.length > 0 && `- Lines written in this voice:\n    ${brand.examples.map(line => `  "${line}"`).join('\n    ')}`,
+    brand.bannedWords.length > 0 && `- Never use these words: ${brand.bannedWords.join(', ')}.`,
+    brand.prohibitedClaims.length > 0 && `- Never make claims matching these patterns (or any rewording of them): ${brand.prohibitedClaims.join('; ')}.`,
+    ...brand.disclaimers.map(disclaimer => `- The CTA must end with this disclaimer, word for word: "${disclaimer}"`),
+  ].filter(Boolean);
+  return `BRAND: ${brand.name}
+    ${rules.join('\n    ')}`;
+};
+
+const audience = ({ persona }: BrandedRequest) => persona
+  ? `- Speak to the persona below and nobody else; do not broaden the audience.`
+  : '- Automatically determine the most likely target audience.';
+
+const personaRules = ({ persona }: BrandedRequest) => {
+  if (!persona) return '';
+  const details = [
+    persona.ageRange && `- Age: ${persona.ageRange}`,
+    persona.situation && `- Situation: ${persona.situation}`,
+    persona.objections.length > 0 && `- Objections to answer: ${persona.objections.join('; ')}`,
+    persona.scrollsOn && `- Where they scroll: ${persona.scrollsOn}`,
+    '- Use their words and their moments; the hook should make them feel singled out.',
+  ].filter(Boolean);
+  return `AUDIENCE: ${persona.name}
+    ${details.join('\n    ')}`;
+};
+
+const angleRules = ({ angle }: ScriptRequest) => angle
+  ? `ANGLE: ${ANGLES[angle].label}
+    - ${ANGLES[angle].description}
+    - Every script takes this angle.`
+  : '';
+
+const extraDetails = ({ secondaryBenefits, visibleFeatures }: ScriptRequest) => [
+  secondaryBenefits?.length ? `Secondary benefits: ${secondaryBenefits.join('; ')}` : '',
+  visibleFeatures?.length ? `Visible features (good for on-camera moments): ${visibleFeatures.join('; ')}` : '',
+].filter(Boolean).join('\n    ');
+
+const factLines = (facts: ProductFacts) => [
+  `- Title: ${facts.title}`,
+  facts.brand && `- Brand: ${facts.brand}`,
+  facts.price && `- Price: ${formatPrice(facts.price)}`,
+  facts.rating && `- Rating: ${formatRating(facts.rating)}`,
+  facts.features.length > 0 && `- Features:\n    ${facts.features.map(feature => `  - ${feature}`).join('\n    ')}`,
+  facts.description && `- Description: ${facts.description}`,
+].filter(Boolean).join('\n    ');
+
+const productFacts = ({ productFacts: facts }: ScriptRequest) => facts ? `PRODUCT PAGE FACTS:
+    ${factLines(facts)}
+    - Use these for prices, ratings and specifications; never invent ones the page does not state.` : '';
+
+const QUOTE_THEMES: Record<ReviewTheme, string> = {
+  pain: 'pain point',
+  outcome: 'desired outcome',
+  objection: 'objection',
+};
+
+const customerQuotes = ({ customerQuotes: quotes }: ScriptRequest) => quotes?.length ? `CUSTOMER VOICE (verbatim from reviews):
+    ${quotes.map(quote => `- (${QUOTE_THEMES[quote.theme]}) "${quote.text}"`).join('\n    ')}
+    - Echo this wording in the problem and solution so they sound like real customers; answer objections before the CTA.
+    - Paraphrase rather than presenting a quote as a named person's testimonial.` : '';
+
+const briefFor = (input: BrandedRequest) => {
+  const { productName, productUrl, mainProblem, keyBenefit, toneStyle, duration } = input;
+  return `Product: "${productName}"
+    ${productUrl ? `Product URL for context: ${productUrl}` : ''}
+    Problem: ${mainProblem}
+    Benefit: ${keyBenefit}
+    ${extraDetails(input)}
+    Tone: ${toneStyle}
+    Duration: ${duration}s (${lengthFor(input)}).
+
+    ${productFacts(input)}
+
+    ${customerQuotes(input)}
+
+    ${personaRules(input)}
+
+    ${angleRules(input)}
+
+    ${languageRules(input)}
+
+    ${platformRules(input)}
+
+    ${brandRules(input)}`;
+};
+
+const scriptText = (variation: ScriptVariation) =>
+  SECTIONS.map(section => `${SECTION_LABELS[section]}: ${variation[section]}`).join('\n    ');
+
+const MAX_RETRIES = 3;
+const RETRY_BASE_MS = 500;
+
+// Rate limits, outages and dropped connections are retried with exponential
+// backoff (~0.5s, 1s, 2s); anything else fails straight away.
+const withRetry = async (send: () => Promise<string>, signal?: AbortSignal, onRetry?: () => void) => {
+  for (let attempt = 0; ; attempt++) {
+    try {
+      return await send();
+    } catch (err) {
+      if (!(err instanceof ModelError) || !err.retryable || attempt >= MAX_RETRIES || signal?.aborted) throw err;
+      console.warn(`Model call failed (${err.code}), retrying:`, err.message);
+      await delay(RETRY_BASE_MS * 2 ** attempt * (1 + Math.random() / 4), signal);
+      onRetry?.();
+    }
+  }
+};
+
+const repairPrompt = (call: ModelCall, text: string, issues: string[]) => `Your previous answer did not match the required JSON format.
+
+    PROBLEMS:
+    ${issues.slice(0, 20).map(issue => `- ${issue}`).join('\n    ')}
+
+    PREVIOUS ANSWER:
+    ${text}
+
+    ORIGINAL REQUEST:
+    ${call.prompt}
+
+    Return the corrected JSON only. Keep everything that was already valid; fill in what is missing from the original request.`;
+
+interface RequestOptions {
+  signal?: AbortSignal;
+  // Streams the response; onRestart fires before a retry so earlier text can be discarded.
+  onText?: (delta: string) => void;
+  onRestart?: () => void;
+}
+
+// One attempt, logged with its usage whether it succeeds or not.
+const send = async (provider: ModelProvider, call: ModelCall, onText?: (delta: string) => void, signal?: AbortSignal) => {
+  const started = Date.now();
+  try {
+    const response = onText ? await provider.stream(call, onText, signal) : await provider.complete(call, signal);
+    recordCall(provider, call, { ...response, latencyMs: Date.now() - started });
+    return response.text;
+  } catch (err) {
+    const errorCode = signal?.aborted ? 'CANCELLED' : err instanceof HttpError ? err.code : 'INTERNAL';
+    recordCall(provider, call, { latencyMs: Date.now() - started, errorCode });
+    throw err;
+  }
+};
+
+// Sends a call and checks the response against its schema. A response that
+// does not match gets one repair attempt before the request fails. The
+// provider is looked up per call so settings changes apply immediately.
+const request = async <T>(call: ModelCall, { signal, onText, onRestart }: RequestOptions = {}): Promise<T> => {
+  checkQuota();
+  const provider = getProvider();
+  const text = await withRetry(() => send(provider, call, onText, signal), signal, onRestart);
+  const parsed = parseOutput<T>(text, call.schema);
+  if (parsed.issues.length === 0) return parsed.value!;
+
+  console.warn("Model output did not match the schema, asking for a repair:", parsed.issues);
+  const repairCall = { ...call, prompt: repairPrompt(call, text, parsed.issues), browse: false };
+  const repaired = parseOutput<T>(await withRetry(() => send(provider, repairCall, undefined, signal), signal), call.schema);
+  if (repaired.issues.length === 0) return repaired.value!;
+  console.error("Model output still invalid after repair:", repaired.issues);
+  throw new HttpError(502, 'INVALID_MODEL_OUTPUT', 'The AI returned an invalid format.');
+};
+
+type ScriptText = Pick<ScriptVariation, ScriptSection>;
+
+const stringList = (value: unknown) =>
+  Array.isArray(value) ? value.filter((item): item is string => typeof item === 'string' && !!item.trim()) : [];
+
+const toAnalysis = (result: Partial<ProductAnalysis>): ProductAnalysis => ({
+  productName: result.productName || '',
+  mainProblem: result.mainProblem || '',
+  keyBenefit: result.keyBenefit || '',
+  secondaryBenefits: stringList(result.secondaryBenefits),
+  visibleFeatures: stringList(result.visibleFeatures),
+});
+
+// The newest saved version of a template, or the built-in text if it was
+// never edited.
+export const activePrompt = (template: PromptTemplateId): PromptTemplateVersion =>
+  getLatestPromptVersion(template) ?? builtInVersion(template);
+
+const imageValues = (count: number) => ({
+  imageCount: count,
+  images: count === 1
+    ? 'this product image'
+    : `these ${count} photos of the same product (e.g. packaging, in use, texture close-ups); the first is the main shot`,
+});
+
+// The rule helpers indent continuation lines for the inline prompts above;
+// templates are written flush left.
+const flush = (text: string) => text.replace(/\n {4}/g, '\n');
+
+// Stands in for an extracted page in the editor preview.
+const SAMPLE_PAGE: ProductPage = {
+  url: 'https://example.com/product',
+  title: 'Glow Serum 30ml',
+  brand: 'Glow',
+  price: { amount: '29.99', currency: 'USD' },
+  rating: { value: 4.6, count: 1203 },
+  features: ['Hyaluronic acid and niacinamide', 'Fragrance-free'],
+  description: 'A lightweight daily serum for lasting hydration.',
+  images: [],
+};
+
+const urlValues = (url: string, page: ProductPage | null) => ({
+  url,
+  pageContent: page ? flush(`PAGE CONTENT (read from the page's structured data):
+    ${factLines(page)}`) : '',
+});
+
+const scriptValues = (input: BrandedRequest) => {
+  const { productName, productUrl, mainProblem, keyBenefit, toneStyle, duration, storyboard = false, fixedHook } = input;
+  const count = input.variationCount ?? DEFAULT_VARIATIONS;
+  return {
+    count,
+    scripts: count === 1 ? 'script' : 'scripts',
+    productName,
+    productUrl: productUrl ?? '',
+    productContext: productUrl ? `Product URL for context: ${productUrl}` : '',
+    mainProblem,
+    keyBenefit,
+    extraDetails: flush(extraDetails(input)),
+    productFacts: flush(productFacts(input)),
+    customerQuotes: flush(customerQuotes(input)),
+    audience: audience(input),
+    personaRules: flush(personaRules(input)),
+    angleRules: flush(angleRules(input)),
+    toneStyle,
+    duration,
+    wordLimit: lengthFor(input),
+    fixedHookRule: fixedHook ? `- Every script MUST open with exactly this hook, word for word: "${fixedHook}". Build the problem, solution and CTA around it.` : '',
+    languageRules: flush(languageRules(input)),
+    platformRules: flush(platformRules(input)),
+    brandRules: flush(brandRules(input)),
+    storyboardRules: storyboard ? `STORYBOARD:
+- Also return "shots": exactly one shot per section, in order hook, problem, solution, cta.
+- shotType: one of ${SHOT_TYPES.join(', ')}.
+- overlay: on-screen text overlay, max 6 words.
+- direction: what the camera and creator do during the line.
+- start/end: approximate timestamps in seconds, covering 0 to ${duration} without gaps.` : '',
+    outputFormat: `Return an array of ${count} objects, each with: id (number), hook (string), problem (string), solution (string), cta (string)${storyboard ? ', shots (array)' : ''}.`,
+  };
+};
+
+// Renders unsaved template text for the editor. Analysis templates have no
+// request to draw from, so they use the form's URL or a placeholder.
+export const previewPrompt = (template: PromptTemplateId, text: string, input: BrandedRequest) => {
+  const values = template === 'analyzeImage' ? imageValues(1)
+    : template === 'analyzeUrl' ? urlValues(input.productUrl ?? 'https://example.com/product', SAMPLE_PAGE)
+    : scriptValues(input);
+  return renderTemplate(text, values);
+};
+
+export const analyzeImages = async (images: ImageInput[], signal?: AbortSignal): Promise<ProductAnalysis> => {
+  const prompt = renderTemplate(activePrompt('analyzeImage').text, imageValues(images.length));
+  return toAnalysis(await request<ProductAnalysis>({ task: { kind: 'analysis' }, prompt, schema: analysisSchema, images }, { signal }));
+};
+
+// Reads the page's structured data first and hands it to the model as
+// grounded context. Providers that cannot browse can still analyze pages
+// whose details were extracted.
+export const analyzeUrl = async (url: string, signal?: AbortSignal): Promise<UrlAnalysis> => {
+  const page = await fetchProductPage(url, signal);
+  const { info } = getProvider();
+  if (!page && !info.canBrowse) {
+    throw new HttpError(400, 'INVALID_REQUEST', `No product details could be read from that page, and ${info.label} cannot browse it. Fill in the details by hand or pick another provider in Settings.`);
+  }
+  const prompt = renderTemplate(activePrompt('analyzeUrl').text, urlValues(url, page));
+  const analysis = toAnalysis(await request<ProductAnalysis>({
+    task: { kind: 'analysis' },
+    prompt,
+    schema: analysisSchema,
+    browse: info.canBrowse,
+  }, { signal }));
+  return page ? { ...analysis, productName: analysis.productName || page.title, page } : analysis;
+};
+
+// Also reports which version of the template wrote the scripts, so saved runs
+// can record it.
+export const generateScripts = async (
+  input: BrandedRequest,
+  options: RequestOptions = {}
+): Promise<{ variations: ScriptVariation[]; promptVersion: number }> => {
+  const { productUrl, storyboard = false, fixedHook } = input;
+  const count = input.variationCount ?? DEFAULT_VARIATIONS;
+  const template = activePrompt('generateScripts');
+  const prompt = renderTemplate(template.text, scriptValues(input));
+
+  const result = await request<ScriptVariation[]>({
+    task: { kind: 'scripts', input, count },
+    prompt,
+    schema: variationsSchema(storyboard, count),
+    browse: !!productUrl,
+  }, { ...options, onText: options.onText ?? (() => {}) });
+  const { persona, angle } = input;
+  return {
+    variations: numberVariations(result.map(v => ({
+      ...v,
+      ...(fixedHook ? { hook: fixedHook } : {}),
+      ...(persona ? { persona: { id: persona.id, name: persona.name } } : {}),
+      ...(angle ? { angle } : {}),
+    }))),
+    promptVersion: template.version,
+  };
+};
+
+export const generateHooks = async (input: BrandedRequest, count: number, signal?: AbortSignal): Promise<HookIdea[]> => {
+  const platform = pacedPlatform(input.platform, input.wordsPerSecond);
+  const language = getLanguage(input.language);
+  const prompt = `Write ${count} scroll-stopping opening hooks for a UGC video ad.
+    ${briefFor(input)}
+
+    FRAMEWORKS (label every hook with exactly one):
+    ${HOOK_FRAMEWORK_IDS.map(id => `- ${id}: ${HOOK_FRAMEWORKS[id].description}`).join('\n    ')}
+
+    RULES:
+    - Use every framework at least once, then spread the rest evenly.
+    - Each hook is a single spoken line of at most ~${hookBudget(platform, language)} ${language.unit}.
+    - No two hooks may start with the same words.
+    - Speak to the viewer directly; no hashtags or emojis.
+
+    STRICT JSON OUTPUT:
+    Return an array of ${count} objects, each with: framework (string), text (string).`;
+
+  const result = await request<HookIdea[]>({ task: { kind: 'hooks', input, count }, prompt, schema: hooksSchema }, { signal });
+  return result.map(hook => ({ framework: hook.framework, text: hook.text.trim() }));
+};
+
+export const regenerateSection = async (
+  input: BrandedRequest,
+  variation: ScriptVariation,
+  section: ScriptSection,
+  signal?: AbortSignal
+): Promise<ScriptVariation> => {
+  const label = SECTION_LABELS[section];
+  const prompt = `You are editing one section of an existing UGC video script.
+    ${briefFor(input)}
+
+    CURRENT SCRIPT:
+    ${scriptText(variation)}
+
+    TASK:
+    - Rewrite ONLY the ${label}. Every other section stays exactly as it is.
+    - The new ${label} must read naturally between the sections around it.
+    - Make it clearly different from the current ${label}, not a light paraphrase.
+    - Keep the overall script within the duration.
+
+    STRICT JSON OUTPUT:
+    Return an object with: text (string), the new ${label}.`;
+
+  const result = await request<{ text: string }>({ task: { kind: 'section', input, variation, section }, prompt, schema: sectionTextSchema }, { signal });
+  return { ...variation, [section]: result.text.trim() };
+};
+
+export const refineVariation = async (
+  input: BrandedRequest,
+  variation: ScriptVariation,
+  instruction: string,
+  signal?: AbortSignal
+): Promise<ScriptVariation> => {
+  const prompt = `You are revising an existing UGC video script.
+    ${briefFor(input)}
+
+    CURRENT SCRIPT:
+    ${scriptText(variation)}
+
+    INSTRUCTION: ${instruction}
+
+    RULES:
+    - Apply the instruction; leave anything it does not ask to change as close to the original as possible.
+    - Keep the Hook → Problem → Solution → CTA structure.
+    - Keep the overall script within the duration.
+
+    STRICT JSON OUTPUT:
+    Return an object with: hook (string), problem (string), solution (string), cta (string).`;
+
+  const result = await request<ScriptText>({ task: { kind: 'revision', input, variation, instruction }, prompt, schema: scriptSchema }, { signal });
+  return fitToDuration(input, {
+    ...variation,
+    hook: result.hook.trim(),
+    problem: result.problem.trim(),
+    solution: result.solution.trim(),
+    cta: result.cta.trim(),
+  }, signal);
+};
+
+// Rewrites the joins of a script assembled from sections of different
+// variations, so it reads as one take rather than four.
+export const smoothTransitions = async (
+  input: BrandedRequest,
+  variation: ScriptVariation,
+  signal?: AbortSignal
+): Promise<ScriptVariation> => {
+  const prompt = `You are polishing a UGC video script whose sections were taken from different drafts.
+    ${briefFor(input)}
+
+    CURRENT SCRIPT:
+    ${scriptText(variation)}
+
+    TASK:
+    - Smooth the transitions so each section follows naturally from the one before it.
+    - Only change the words at the start and end of a section that connect it to its neighbours.
+    - Keep each section's message, claims and wording otherwise as they are; the Hook's opening line stays exactly the same.
+    - Remove repetition between sections, such as the product being introduced twice.
+    - Keep the overall script within the duration.
+
+    STRICT JSON OUTPUT:
+    Return an object with: hook (string), problem (string), solution (string), cta (string).`;
+
+  const result = await request<ScriptText>({ task: { kind: 'transitions', input, variation }, prompt, schema: scriptSchema }, { signal });
+  return {
+    ...variation,
+    hook: result.hook.trim(),
+    problem: result.problem.trim(),
+    solution: result.solution.trim(),
+    cta: result.cta.trim(),
+    ...(variation.remix ? { remix: { ...variation.remix, smoothed: true } } : {}),
+  };
+};
+
+export const fixCompliance = async (
+  input: BrandedRequest,
+  variation: ScriptVariation,
+  report: ComplianceReport,
+  signal?: AbortSignal
+): Promise<ScriptVariation> => {
+  const issues = [
+    ...report.matches.map(m => `- ${SECTION_LABELS[m.section]}: "${variation[m.section].slice(m.start, m.end)}" breaks the ${m.kind === 'claim' ? 'prohibited claim' : 'banned word'} rule "${m.rule}".`),
+    ...report.missingDisclaimers.map(d => `- Missing required disclaimer: "${d}"`),
+  ];
+  const prompt = `You are making an existing UGC video script compliant with the brand rules.
+    ${briefFor(input)}
+
+    CURRENT SCRIPT:
+    ${scriptText(variation)}
+
+    VIOLATIONS:
+    ${issues.join('\n    ')}
+
+    RULES:
+    - Rephrase only what is flagged; keep everything else as close to the original as possible.
+    - Do not swap a prohibited claim for a synonym that makes the same promise.
+    - Add missing disclaimers at the end of the CTA, word for word.
+    - Keep the overall script within the duration.
+
+    STRICT JSON OUTPUT:
+    Return an object with: hook (string), problem (string), solution (string), cta (string).`;
+
+  const result = await request<ScriptText>({ task: { kind: 'revision', input, variation, flagged: report.matches }, prompt, schema: scriptSchema }, { signal });
+  const revised = {
+    ...variation,
+    hook: result.hook.trim(),
+    problem: result.problem.trim(),
+    solution: result.solution.trim(),
+    cta: result.cta.trim(),
+  };
+  // Disclaimers the model left out go in before the trim, so it makes room
+  // for them; any the trim still loses are put back last.
+  const disclaimers = (script: ScriptVariation) => input.brand ? checkCompliance(script, input.brand).missingDisclaimers : [];
+  const fitted = await fitToDuration(input, appendDisclaimers(revised, disclaimers(revised)), signal);
+  return appendDisclaimers(fitted, disclaimers(fitted));
+};
+
+// Shortens the sections in `targets` to at most the given length. Sections
+// without a target are kept exactly as they were, and the brand's
+// disclaimers word for word.
+export const trimVariation = async (
+  input: BrandedRequest,
+  variation: ScriptVariation,
+  targets: Partial<Record<ScriptSection, number>>,
+  signal?: AbortSignal
+): Promise<ScriptVariation> => {
+  const language = getLanguage(input.language);
+  const trimmed = SECTIONS.filter(section => targets[section] !== undefined);
+  const keep = input.brand?.disclaimers.filter(d => trimmed.some(section => variation[section].includes(d))) ?? [];
+  const prompt = `You are tightening an existing UGC video script that runs longer than its ${input.duration}s slot.
+    ${briefFor(input)}
+
+    CURRENT SCRIPT:
+    ${scriptText(variation)}
+
+    SHORTEN:
+    ${trimmed.map(section => `- ${SECTION_LABELS[section]}: at most ${targets[section]} ${language.unit}.`).join('\n    ')}
+
+    RULES:
+    - Cut filler and repetition first; keep the claim, the product name and the call to action.
+    - Each shortened section must still read naturally between the sections around it.
+    - Sections not listed above are returned unchanged.
+    ${keep.length > 0 ? `- Keep these disclaimers word for word: ${keep.map(d => `"${d}"`).join(', ')}.` : ''}
+
+    STRICT JSON OUTPUT:
+    Return an object with: hook (string), problem (string), solution (string), cta (string).`;
+
+  const result = await request<ScriptText>({ task: { kind: 'revision', input, variation, targets, keep }, prompt, schema: scriptSchema }, { signal });
+  return { ...variation, ...Object.fromEntries(trimmed.map(section => [section, result[section].trim()])) };
+};
+
+// Trims a script that runs over its duration, and returns one that fits as
+// it is. Revisions go through it too, since the model does not always keep
+// to the length it was asked for.
+export const fitToDuration = async (
+  input: BrandedRequest,
+  variation: ScriptVariation,
+  signal?: AbortSignal
+): Promise<ScriptVariation> => {
+  const timeline = estimateTimeline(variation, pacedPlatform(input.platform, input.wordsPerSecond), input.duration, getLanguage(input.language));
+  return isOverLength(timeline) ? trimVariation(input, variation, trimTargets(timeline), signal) : variation;
+};
+
+const localizedSchema = (withOverlays: boolean) => ({
+  type: Type.OBJECT,
+  properties: {
+    ...scriptSchema.properties,
+    ...(withOverlays ? { overlays: { type: Type.ARRAY, items: { type: Type.STRING } } } : {}),
+  },
+  required: [...scriptSchema.required, ...(withOverlays ? ["overlays"] : [])]
+});
+
+// Translates a finished script section by section, adapting rather than
+// translating literally. Shot overlays are localized too; timings stay.
+export const localizeVariation = async (
+  input: BrandedRequest,
+  variation: ScriptVariation,
+  language: LanguageId,
+  signal?: AbortSignal
+): Promise<ScriptVariation> => {
+  const target = { ...input, language };
+  const { label } = getLanguage(language);
+  const overlays = variation.shots?.map(shot => shot.overlay) ?? [];
+  const prompt = `You are localizing an existing UGC video script into ${label}.
+    ${briefFor(target)}
+
+    CURRENT SCRIPT:
+    ${scriptText(variation)}
+    ${overlays.length > 0 ? `On-screen overlays, in order: ${JSON.stringify(overlays)}` : ''}
+
+    RULES:
+    - Each section maps to the same section: Hook → Hook, Problem → Problem, Solution → Solution, CTA → CTA.
+    - Adapt wording, idioms and references so it sounds native; keep the meaning and the angle of each section.
+    - Stay within the ${label} length budget above, even if that means tightening lines.
+    ${overlays.length > 0 ? `- Also return "overlays": the ${overlays.length} on-screen overlays localized, same order, max 6 words each.` : ''}
+
+    STRICT JSON OUTPUT:
+    Return an object with: hook (string), problem (string), solution (string), cta (string)${overlays.length > 0 ? ', overlays (array of strings)' : ''}.`;
+
+  const result = await request<ScriptText & { overlays?: string[] }>({
+    task: { kind: 'localize', input, variation, language },
+    prompt,
+    schema: localizedSchema(overlays.length > 0),
+  }, { signal });
+  const localizedOverlays = stringList(result.overlays);
+  return {
+    ...variation,
+    hook: result.hook,
+    problem: result.problem,
+    solution: result.solution,
+    cta: result.cta,
+    ...(variation.shots ? {
+      shots: variation.shots.map((shot, idx) => ({ ...shot, overlay: localizedOverlays[idx] ?? shot.overlay })),
+    } : {}),
+  };
+};
+
+const gradesSchema = (count: number) => ({
+  type: Type.ARRAY,
+  minItems: String(count),
+  maxItems: String(count),
+  items: {
+    type: Type.OBJECT,
+    properties: Object.fromEntries(GRADED_CRITERIA.map(criterion => [criterion, {
+      type: Type.OBJECT,
+      properties: {
+        score: { type: Type.NUMBER, minimum: 0, maximum: MAX_SCORE },
+        note: lineSchema,
+      },
+      required: ["score", "note"]
+    }])),
+    required: [...GRADED_CRITERIA]
+  }
+});
+
+// Grades each variation against the rubric as a media buyer would. The
+// client combines these with its own heuristic scores.
+export const gradeVariations = async (
+  input: BrandedRequest,
+  variations: ScriptVariation[],
+  signal?: AbortSignal
+): Promise<RubricGrade[]> => {
+  const prompt = `You are a performance-marketing creative strategist grading UGC video scripts before they are shot.
+    ${briefFor(input)}
+
+    SCRIPTS:
+    ${variations.map((v, idx) => `#${idx + 1}\n    ${scriptText(v)}`).join('\n\n    ')}
+
+    RUBRIC (score each from 0 to ${MAX_SCORE}; 5 is an average ad, 9+ is rare):
+    ${GRADED_CRITERIA.map(criterion => `- ${criterion}: ${SCORE_CRITERIA_INFO[criterion].label}. ${SCORE_CRITERIA_INFO[criterion].rubric}`).join('\n    ')}
+
+    RULES:
+    - Grade each script on its own merits; do not force a spread between them.
+    - Each note is one short sentence (max 15 words) naming the main strength or the fix that would raise the score.
+    - Write the notes in English, whatever language the scripts are in.
+
+    STRICT JSON OUTPUT:
+    Return an array of ${variations.length} objects in script order, each with: ${GRADED_CRITERIA.join(', ')}; each of those is an object with score (number) and note (string).`;
+
+  const result = await request<RubricGrade[]>({
+    task: { kind: 'grade', input, variations },
+    prompt,
+    schema: gradesSchema(variations.length),
+  }, { signal });
+  return result.map(grade => Object.fromEntries(GRADED_CRITERIA.map(criterion => [
+    criterion,
+    { score: grade[criterion].score, note: grade[criterion].note.trim() },
+  ])) as RubricGrade);
+};
+
+const MAX_CLUSTERS_PER_THEME = 6;
+const MAX_QUOTES_PER_CLUSTER = 4;
+
+const reviewClustersSchema = {
+  type: Type.ARRAY,
+  items: {
+    type: Type.OBJECT,
+    properties: {
+      theme: { type: Type.STRING, enum: [...REVIEW_THEMES] },
+      label: lineSchema,
+      summary: lineSchema,
+      quotes: { type: Type.ARRAY, items: lineSchema },
+      reviews: { type: Type.ARRAY, items: { type: Type.INTEGER, minimum: 1 } },
+    },
+    required: ["theme", "label", "summary", "quotes", "reviews"]
+  }
+};
+
+type MinedCluster = Omit<ReviewCluster, 'mentions'> & { reviews: number[] };
+
+// Groups reviews into pain points, desired outcomes and objections. Quotes
+// the model did not copy word for word are dropped, and so are clusters left
+// without any.
+export const mineReviews = async (
+  reviews: string[],
+  productName: string | undefined,
+  signal?: AbortSignal
+): Promise<ReviewCluster[]> => {
+  const prompt = `You are a direct-response copywriter doing voice-of-customer research${productName ? ` for "${productName}"` : ''}.
+    Group the customer reviews below into recurring themes:
+    - pain: the problem or frustration customers had before buying.
+    - outcome: the result they wanted or got, in their words.
+    - objection: a doubt, complaint or reason someone might not buy.
+
+    REVIEWS:
+    ${reviews.map((review, idx) => `#${idx + 1}: ${review}`).join('\n    ')}
+
+    RULES:
+    - At most ${MAX_CLUSTERS_PER_THEME} themes of each kind, biggest first. Skip themes only one review raises unless there are fewer than 10 reviews.
+    - label: 2 to 5 words. summary: one sentence in the customers' own vocabulary, usable as an ad's problem or benefit line.
+    - quotes: up to ${MAX_QUOTES_PER_CLUSTER} short snippets copied EXACTLY from the reviews (same words and spelling, max 25 words each). Never paraphrase.
+    - reviews: the numbers of every review that raises the theme.
+    - Write labels and summaries in the language of the reviews.
+
+    STRICT JSON OUTPUT:
+    Return an array of objects, each with: theme ("pain", "outcome" or "objection"), label (string), summary (string), quotes (array of strings), reviews (array of numbers).`;
+
+  const result = await request<MinedCluster[]>({
+    task: { kind: 'reviews', reviews },
+    prompt,
+    schema: reviewClustersSchema,
+  }, { signal });
+
+  const clusters = result
+    .map(cluster => {
+      const quotes = [...new Set(cluster.quotes.map(quote => quote.trim()))]
+        .filter(quote => quote.length <= MAX_QUOTE_LENGTH && quoteSources(quote, reviews).length > 0)
+        .slice(0, MAX_QUOTES_PER_CLUSTER);
+      // Reviews are numbered from 1 in the prompt; a quote's own review
+      // counts even if the model left it out.
+      const sources = new Set([
+        ...cluster.reviews.filter(idx => idx <= reviews.length).map(idx => idx - 1),
+        ...quotes.flatMap(quote => quoteSources(quote, reviews)),
+      ]);
+      return {
+        theme: cluster.theme,
+        label: cluster.label.trim(),
+        summary: cluster.summary.trim(),
+        quotes,
+        mentions: sources.size,
+      };
+    })
+    .filter(cluster => cluster.quotes.length > 0)
+    .sort((a, b) => b.mentions - a.mentions);
+  return REVIEW_THEMES.flatMap(theme => clusters.filter(cluster => cluster.theme === theme).slice(0, MAX_CLUSTERS_PER_THEME));
+};
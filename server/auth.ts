@@ -0,0 +1,94 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+// Local accounts for reviewing scripts. Passwords are hashed with scrypt and
+// a signed-in browser holds a random session token in an httpOnly cookie.
+// The first account is created by whoever sets the app up and becomes its
+// admin; after that, only admins add people.
+
+import { randomBytes, scryptSync, timingSafeEqual } from 'crypto';
+import type { Request, Response } from 'express';
+import { createSession, createUser, deleteSession, findUserByName, getSessionUser } from './db';
+import type { UserRole } from '../src/lib/approval';
+import { HttpError } from './errors';
+import type { User } from '../src/types';
+
+const SESSION_COOKIE = 'vidpromt_session';
+const SESSION_DAYS = 30;
+const KEY_LENGTH = 64;
+
+const hashPassword = (password: string) => {
+  const salt = randomBytes(16);
+  return `${salt.toString('hex')}:${scryptSync(password, salt, KEY_LENGTH).toString('hex')}`;
+};
+
+const passwordMatches = (password: string, stored: string) => {
+  const [salt, hash] = stored.split(':');
+  const expected = Buffer.from(hash, 'hex');
+  const actual = scryptSync(password, Buffer.from(salt, 'hex'), expected.length);
+  return timingSafeEqual(actual, expected);
+};
+
+// There is no cookie-parser; the one cookie we need is read by hand.
+const sessionToken = (req: Request) => {
+  for (const pair of req.headers.cookie?.split(';') ?? []) {
+    const [name, ...value] = pair.trim().split('=');
+    if (name === SESSION_COOKIE) return decodeURIComponent(value.join('='));
+  }
+  return undefined;
+};
+
+export const sessionUser = (req: Request): User | null => {
+  const token = sessionToken(req);
+  return token ? getSessionUser(token) : null;
+};
+
+// `action` finishes the sentence "Sign in to …".
+export const requireUser = (req: Request, action = 'review scripts'): User => {
+  const user = sessionUser(req);
+  if (!user) throw new HttpError(401, 'UNAUTHORIZED', `Sign in to ${action}.`);
+  return user;
+};
+
+export const requireAdmin = (req: Request, action: string): User => {
+  const user = requireUser(req, action);
+  if (user.role !== 'admin') throw new HttpError(403, 'FORBIDDEN', `Only an admin can ${action}.`);
+  return user;
+};
+
+const startSession = (req: Request, res: Response, user: User) => {
+  const token = randomBytes(32).toString('base64url');
+  const maxAge = SESSION_DAYS * 24 * 60 * 60 * 1000;
+  createSession(token, user.id, new Date(Date.now() + maxAge).toISOString());
+  res.cookie(SESSION_COOKIE, token, { httpOnly: true, sameSite: 'lax', secure: req.secure, maxAge, path: '/' });
+};
+
+export const addUser = (name: string, password: string, role: UserRole): User => {
+  const user = createUser(name, hashPassword(password), role);
+  if (!user) throw new HttpError(400, 'INVALID_REQUEST', `The name "${name}" is already taken.`);
+  return user;
+};
+
+// Creates the first, admin account and signs it in.
+export const setUp = (req: Request, res: Response, name: string, password: string): User => {
+  const user = addUser(name, password, 'admin');
+  startSession(req, res, user);
+  return user;
+};
+
+export const signIn = (req: Request, res: Response, name: string, password: string): User => {
+  const account = findUserByName(name);
+  if (!account || !passwordMatches(password, account.passwordHash)) {
+    throw new HttpError(401, 'UNAUTHORIZED', 'Wrong name or password.');
+  }
+  startSession(req, res, account.user);
+  return account.user;
+};
+
+export const signOut = (req: Request, res: Response) => {
+  const token = sessionToken(req);
+  if (token) deleteSession(token);
+  res.clearCookie(SESSION_COOKIE, { path: '/' });
+};
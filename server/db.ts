@@ -0,0 +1,948 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import Database from 'better-sqlite3';
+import fs from 'fs';
+import path from 'path';
+import type { AngleId } from '../src/lib/angles';
+import type { ScriptStatus, UserRole } from '../src/lib/approval';
+import type { LanguageId } from '../src/lib/languages';
+import type { PlatformId } from '../src/lib/platforms';
+import type { PromptTemplateId, PromptTemplateVersion } from '../src/lib/prompts';
+import type { ProviderId } from '../src/lib/providers';
+import type {
+  ActivityChange,
+  ActivityEntry,
+  BoardItem,
+  BrandProfile,
+  BrandProfileInput,
+  ModelCallLog,
+  Persona,
+  PersonaInput,
+  SavedRun,
+  SavedVariation,
+  ScriptComment,
+  ScriptRequest,
+  ScriptSection,
+  ScriptVariation,
+  SharedCampaign,
+  ShareLink,
+  UsageTotals,
+  User,
+} from '../src/types';
+
+const DB_PATH = process.env.DATABASE_PATH || path.join(process.cwd(), 'data', 'vidpromt.db');
+
+let db: Database.Database | null = null;
+
+// CREATE TABLE IF NOT EXISTS leaves older databases untouched, so columns
+// added after the first release are backfilled here.
+const addColumnIfMissing = (database: Database.Database, table: string, column: string, definition: string) => {
+  const columns = database.prepare(`PRAGMA table_info(${table})`).all() as { name: string }[];
+  if (!columns.some(c => c.name === column)) {
+    database.exec(`ALTER TABLE ${table} ADD COLUMN ${column} ${definition}`);
+  }
+};
+
+export const getDb = () => {
+  if (db) return db;
+
+  fs.mkdirSync(path.dirname(DB_PATH), { recursive: true });
+  db = new Database(DB_PATH);
+  db.pragma('journal_mode = WAL');
+  db.pragma('foreign_keys = ON');
+
+  db.exec(`
+    CREATE TABLE IF NOT EXISTS runs (
+      id INTEGER PRIMARY KEY AUTOINCREMENT,
+      product_name TEXT NOT NULL,
+      product_url TEXT,
+      main_problem TEXT NOT NULL,
+      key_benefit TEXT NOT NULL,
+      tone_style TEXT NOT NULL,
+      duration TEXT NOT NULL,
+      created_at TEXT NOT NULL DEFAULT (strftime('%Y-%m-%dT%H:%M:%fZ', 'now'))
+    );
+
+    CREATE TABLE IF NOT EXISTS variations (
+      id INTEGER PRIMARY KEY AUTOINCREMENT,
+      run_id INTEGER NOT NULL REFERENCES runs(id) ON DELETE CASCADE,
+      position INTEGER NOT NULL,
+      data TEXT NOT NULL,
+      starred INTEGER NOT NULL DEFAULT 0
+    );
+
+    CREATE TABLE IF NOT EXISTS brand_profiles (
+      id INTEGER PRIMARY KEY AUTOINCREMENT,
+      name TEXT NOT NULL,
+      voice TEXT NOT NULL DEFAULT '',
+      examples TEXT NOT NULL DEFAULT '[]',
+      banned_words TEXT NOT NULL DEFAULT '[]',
+      disclaimers TEXT NOT NULL DEFAULT '[]',
+      prohibited_claims TEXT NOT NULL DEFAULT '[]',
+      created_at TEXT NOT NULL DEFAULT (strftime('%Y-%m-%dT%H:%M:%fZ', 'now'))
+    );
+
+    CREATE TABLE IF NOT EXISTS personas (
+      id INTEGER PRIMARY KEY AUTOINCREMENT,
+      name TEXT NOT NULL,
+      age_range TEXT NOT NULL DEFAULT '',
+      situation TEXT NOT NULL DEFAULT '',
+      objections TEXT NOT NULL DEFAULT '[]',
+      scrolls_on TEXT NOT NULL DEFAULT '',
+      created_at TEXT NOT NULL DEFAULT (strftime('%Y-%m-%dT%H:%M:%fZ', 'now'))
+    );
+
+    CREATE TABLE IF NOT EXISTS settings (
+      key TEXT PRIMARY KEY,
+      value TEXT NOT NULL
+    );
+
+    CREATE TABLE IF NOT EXISTS prompt_templates (
+      template TEXT NOT NULL,
+      version INTEGER NOT NULL,
+      text TEXT NOT NULL,
+      note TEXT NOT NULL DEFAULT '',
+      created_at TEXT NOT NULL DEFAULT (strftime('%Y-%m-%dT%H:%M:%fZ', 'now')),
+      PRIMARY KEY (template, version)
+    );
+
+    CREATE TABLE IF NOT EXISTS shares (
+      token TEXT PRIMARY KEY,
+      title TEXT NOT NULL,
+      input TEXT NOT NULL,
+      variations TEXT NOT NULL,
+      created_at TEXT NOT NULL DEFAULT (strftime('%Y-%m-%dT%H:%M:%fZ', 'now')),
+      expires_at TEXT,
+      revoked_at TEXT
+    );
+
+    CREATE TABLE IF NOT EXISTS model_calls (
+      id INTEGER PRIMARY KEY AUTOINCREMENT,
+      user TEXT NOT NULL,
+      task TEXT NOT NULL,
+      provider TEXT NOT NULL,
+      model TEXT NOT NULL,
+      product TEXT,
+      input_tokens INTEGER NOT NULL,
+      output_tokens INTEGER NOT NULL,
+      estimated INTEGER NOT NULL DEFAULT 0,
+      cost REAL NOT NULL DEFAULT 0,
+      latency_ms INTEGER NOT NULL,
+      error_code TEXT,
+      created_at TEXT NOT NULL DEFAULT (strftime('%Y-%m-%dT%H:%M:%fZ', 'now'))
+    );
+
+    CREATE TABLE IF NOT EXISTS users (
+      id INTEGER PRIMARY KEY AUTOINCREMENT,
+      name TEXT NOT NULL UNIQUE COLLATE NOCASE,
+      -- scrypt, as "salt:hash" in hex
+      password_hash TEXT NOT NULL,
+      created_at TEXT NOT NULL DEFAULT (strftime('%Y-%m-%dT%H:%M:%fZ', 'now'))
+    );
+
+    CREATE TABLE IF NOT EXISTS sessions (
+      token TEXT PRIMARY KEY,
+      user_id INTEGER NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+      created_at TEXT NOT NULL DEFAULT (strftime('%Y-%m-%dT%H:%M:%fZ', 'now')),
+      expires_at TEXT NOT NULL
+    );
+
+    CREATE TABLE IF NOT EXISTS comments (
+      id INTEGER PRIMARY KEY AUTOINCREMENT,
+      variation_id INTEGER NOT NULL REFERENCES variations(id) ON DELETE CASCADE,
+      user_id INTEGER REFERENCES users(id) ON DELETE SET NULL,
+      section TEXT NOT NULL,
+      body TEXT NOT NULL,
+      created_at TEXT NOT NULL DEFAULT (strftime('%Y-%m-%dT%H:%M:%fZ', 'now'))
+    );
+
+    CREATE TABLE IF NOT EXISTS activity (
+      id INTEGER PRIMARY KEY AUTOINCREMENT,
+      -- Copied from the run, so entries outlive its deletion.
+      run_id INTEGER NOT NULL,
+      product_name TEXT NOT NULL,
+      -- NULL for changes to the whole run, and once the script is deleted.
+      variation_id INTEGER REFERENCES variations(id) ON DELETE SET NULL,
+      user_id INTEGER REFERENCES users(id) ON DELETE SET NULL,
+      -- JSON ActivityChange
+      change TEXT NOT NULL,
+      created_at TEXT NOT NULL DEFAULT (strftime('%Y-%m-%dT%H:%M:%fZ', 'now'))
+    );
+
+    CREATE INDEX IF NOT EXISTS idx_runs_product_name ON runs(product_name);
+    CREATE INDEX IF NOT EXISTS idx_variations_run_id ON variations(run_id);
+    CREATE INDEX IF NOT EXISTS idx_model_calls_created_at ON model_calls(created_at);
+    CREATE INDEX IF NOT EXISTS idx_comments_variation_id ON comments(variation_id);
+    CREATE INDEX IF NOT EXISTS idx_activity_variation_id ON activity(variation_id);
+  `);
+
+  addColumnIfMissing(db, 'runs', 'storyboard', 'INTEGER NOT NULL DEFAULT 0');
+  addColumnIfMissing(db, 'runs', 'platform', 'TEXT');
+  addColumnIfMissing(db, 'runs', 'variation_count', 'INTEGER');
+  addColumnIfMissing(db, 'runs', 'secondary_benefits', 'TEXT');
+  addColumnIfMissing(db, 'runs', 'visible_features', 'TEXT');
+  addColumnIfMissing(db, 'runs', 'language', 'TEXT');
+  addColumnIfMissing(db, 'runs', 'words_per_second', 'REAL');
+  addColumnIfMissing(db, 'runs', 'prompt_version', 'INTEGER');
+  addColumnIfMissing(db, 'runs', 'product_facts', 'TEXT');
+  addColumnIfMissing(db, 'runs', 'customer_quotes', 'TEXT');
+  addColumnIfMissing(db, 'runs', 'brand_profile_id', 'INTEGER REFERENCES brand_profiles(id) ON DELETE SET NULL');
+  addColumnIfMissing(db, 'runs', 'persona_id', 'INTEGER REFERENCES personas(id) ON DELETE SET NULL');
+  addColumnIfMissing(db, 'runs', 'angle', 'TEXT');
+  addColumnIfMissing(db, 'variations', 'status', "TEXT NOT NULL DEFAULT 'draft'");
+  addColumnIfMissing(db, 'users', 'role', "TEXT NOT NULL DEFAULT 'member'");
+  addColumnIfMissing(db, 'model_calls', 'ip', 'TEXT');
+  // Who created a share link; links made before owners were recorded have none.
+  addColumnIfMissing(db, 'shares', 'user_id', 'INTEGER REFERENCES users(id) ON DELETE SET NULL');
+  // The activity log used to be deleted along with its scripts. Keeping it
+  // means a different foreign key, which SQLite can only get by rebuilding
+  // the table.
+  const activityColumns = db.prepare('PRAGMA table_info(activity)').all() as { name: string }[];
+  if (!activityColumns.some(c => c.name === 'product_name')) {
+    const database = db;
+    database.transaction(() => {
+      database.exec(`
+        ALTER TABLE activity RENAME TO activity_old;
+        CREATE TABLE activity (
+          id INTEGER PRIMARY KEY AUTOINCREMENT,
+          run_id INTEGER NOT NULL,
+          product_name TEXT NOT NULL,
+          variation_id INTEGER REFERENCES variations(id) ON DELETE SET NULL,
+          user_id INTEGER REFERENCES users(id) ON DELETE SET NULL,
+          change TEXT NOT NULL,
+          created_at TEXT NOT NULL DEFAULT (strftime('%Y-%m-%dT%H:%M:%fZ', 'now'))
+        );
+        INSERT INTO activity (id, run_id, product_name, variation_id, user_id, change, created_at)
+          SELECT a.id, v.run_id, r.product_name, a.variation_id, a.user_id, a.change, a.created_at
+          FROM activity_old a
+          JOIN variations v ON v.id = a.variation_id
+          JOIN runs r ON r.id = v.run_id;
+        DROP TABLE activity_old;
+        CREATE INDEX idx_activity_variation_id ON activity(variation_id);
+      `);
+    })();
+  }
+  // Accounts created before roles existed: the oldest one runs the app.
+  db.exec(`
+    UPDATE users SET role = 'admin'
+    WHERE id = (SELECT MIN(id) FROM users) AND NOT EXISTS (SELECT 1 FROM users WHERE role = 'admin')
+  `);
+
+  return db;
+};
+
+interface RunRow {
+  id: number;
+  product_name: string;
+  product_url: string | null;
+  main_problem: string;
+  key_benefit: string;
+  // JSON arrays
+  secondary_benefits: string | null;
+  visible_features: string | null;
+  // JSON object
+  product_facts: string | null;
+  customer_quotes: string | null;
+  tone_style: string;
+  duration: string;
+  storyboard: number;
+  platform: string | null;
+  language: string | null;
+  words_per_second: number | null;
+  variation_count: number | null;
+  brand_profile_id: number | null;
+  persona_id: number | null;
+  angle: string | null;
+  prompt_version: number | null;
+  created_at: string;
+}
+
+interface VariationRow {
+  id: number;
+  run_id: number;
+  position: number;
+  data: string;
+  starred: number;
+  status: string;
+}
+
+const toVariation = (row: VariationRow): SavedVariation => ({
+  id: row.id,
+  starred: row.starred === 1,
+  status: row.status as ScriptStatus,
+  script: JSON.parse(row.data) as ScriptVariation,
+});
+
+const toRun = (row: RunRow, variations: VariationRow[]): SavedRun => ({
+  id: row.id,
+  createdAt: row.created_at,
+  input: {
+    productName: row.product_name,
+    productUrl: row.product_url ?? undefined,
+    mainProblem: row.main_problem,
+    keyBenefit: row.key_benefit,
+    secondaryBenefits: row.secondary_benefits ? JSON.parse(row.secondary_benefits) : undefined,
+    visibleFeatures: row.visible_features ? JSON.parse(row.visible_features) : undefined,
+    productFacts: row.product_facts ? JSON.parse(row.product_facts) : undefined,
+    customerQuotes: row.customer_quotes ? JSON.parse(row.customer_quotes) : undefined,
+    toneStyle: row.tone_style,
+    duration: row.duration,
+    storyboard: row.storyboard === 1,
+    platform: (row.platform ?? undefined) as PlatformId | undefined,
+    language: (row.language ?? undefined) as LanguageId | undefined,
+    wordsPerSecond: row.words_per_second ?? undefined,
+    variationCount: row.variation_count ?? undefined,
+    brandProfileId: row.brand_profile_id ?? undefined,
+    personaId: row.persona_id ?? undefined,
+    angle: (row.angle ?? undefined) as AngleId | undefined,
+  },
+  promptVersion: row.prompt_version ?? undefined,
+  variations: variations.map(toVariation),
+});
+
+const variationsFor = (runIds: number[]) => {
+  const byRun = new Map<number, VariationRow[]>();
+  if (runIds.length === 0) return byRun;
+
+  const rows = getDb()
+    .prepare(`SELECT * FROM variations WHERE run_id IN (${runIds.map(() => '?').join(',')}) ORDER BY position`)
+    .all(...runIds) as VariationRow[];
+  for (const row of rows) {
+    byRun.set(row.run_id, [...(byRun.get(row.run_id) ?? []), row]);
+  }
+  return byRun;
+};
+
+export const listRuns = (options: { query?: string; starredOnly?: boolean; limit?: number } = {}): SavedRun[] => {
+  const where: string[] = [];
+  const params: unknown[] = [];
+
+  if (options.query) {
+    where.push(`product_name LIKE ? ESCAPE '\\'`);
+    params.push(`%${options.query.replace(/[\\%_]/g, (c) => `\\${c}`)}%`);
+  }
+  if (options.starredOnly) {
+    where.push('EXISTS (SELECT 1 FROM variations v WHERE v.run_id = runs.id AND v.starred = 1)');
+  }
+
+  const rows = getDb()
+    .prepare(`SELECT * FROM runs ${where.length ? `WHERE ${where.join(' AND ')}` : ''} ORDER BY created_at DESC, id DESC LIMIT ?`)
+    .all(...params, options.limit ?? 100) as RunRow[];
+
+  const variations = variationsFor(rows.map((r) => r.id));
+  return rows.map((row) => toRun(row, variations.get(row.id) ?? []));
+};
+
+export const getRun = (id: number): SavedRun | null => {
+  const row = getDb().prepare('SELECT * FROM runs WHERE id = ?').get(id) as RunRow | undefined;
+  if (!row) return null;
+  return toRun(row, variationsFor([id]).get(id) ?? []);
+};
+
+export const saveRun = (input: ScriptRequest, scripts: ScriptVariation[], promptVersion?: number): SavedRun => {
+  const database = getDb();
+  const insertRun = database.prepare(`
+    INSERT INTO runs (
+      product_name, product_url, main_problem, key_benefit, secondary_benefits, visible_features,
+      tone_style, duration, storyboard, platform, language, words_per_second, variation_count, brand_profile_id,
+      persona_id, angle, prompt_version, product_facts, customer_quotes
+    )
+    VALUES (
+      @productName, @productUrl, @mainProblem, @keyBenefit, @secondaryBenefits, @visibleFeatures,
+      @toneStyle, @duration, @storyboard, @platform, @language, @wordsPerSecond, @variationCount, @brandProfileId,
+      @personaId, @angle, @promptVersion, @productFacts, @customerQuotes
+    )
+  `);
+  const insertVariation = database.prepare('INSERT INTO variations (run_id, position, data) VALUES (?, ?, ?)');
+
+  const runId = database.transaction(() => {
+    const { lastInsertRowid } = insertRun.run({
+      ...input,
+      productUrl: input.productUrl ?? null,
+      secondaryBenefits: input.secondaryBenefits ? JSON.stringify(input.secondaryBenefits) : null,
+      visibleFeatures: input.visibleFeatures ? JSON.stringify(input.visibleFeatures) : null,
+      storyboard: input.storyboard ? 1 : 0,
+      platform: input.platform ?? null,
+      language: input.language ?? null,
+      wordsPerSecond: input.wordsPerSecond ?? null,
+      variationCount: input.variationCount ?? null,
+      brandProfileId: input.brandProfileId ?? null,
+      personaId: input.personaId ?? null,
+      angle: input.angle ?? null,
+      promptVersion: promptVersion ?? null,
+      productFacts: input.productFacts ? JSON.stringify(input.productFacts) : null,
+      customerQuotes: input.customerQuotes ? JSON.stringify(input.customerQuotes) : null,
+    });
+    scripts.forEach((script, position) => {
+      insertVariation.run(lastInsertRowid, position, JSON.stringify(script));
+    });
+    return Number(lastInsertRowid);
+  })();
+
+  return getRun(runId)!;
+};
+
+const logActivity = (variationId: number, userId: number, change: ActivityChange) => {
+  getDb().prepare(`
+    INSERT INTO activity (run_id, product_name, variation_id, user_id, change)
+    SELECT v.run_id, r.product_name, v.id, ?, ? FROM variations v JOIN runs r ON r.id = v.run_id WHERE v.id = ?
+  `).run(userId, JSON.stringify(change), variationId);
+};
+
+// Appends a script, such as a remix, after the run's other variations.
+// Returns null when the run does not exist.
+export const addVariation = (runId: number, script: ScriptVariation, userId: number): SavedVariation | null => {
+  const database = getDb();
+  return database.transaction(() => {
+    if (!database.prepare('SELECT 1 FROM runs WHERE id = ?').get(runId)) return null;
+    const { lastInsertRowid } = database.prepare(`
+      INSERT INTO variations (run_id, position, data)
+      VALUES (?, (SELECT COALESCE(MAX(position) + 1, 0) FROM variations WHERE run_id = ?), ?)
+    `).run(runId, runId, JSON.stringify(script));
+    logActivity(Number(lastInsertRowid), userId, { type: 'added' });
+    return toVariation(database.prepare('SELECT * FROM variations WHERE id = ?').get(lastInsertRowid) as VariationRow);
+  })();
+};
+
+// The run's scripts and comments go with it; its activity log is kept, with
+// an entry for the deletion.
+export const deleteRun = (id: number, userId: number): boolean => {
+  const database = getDb();
+  return database.transaction(() => {
+    database.prepare(`
+      INSERT INTO activity (run_id, product_name, user_id, change)
+      SELECT id, product_name, ?, ? FROM runs WHERE id = ?
+    `).run(userId, JSON.stringify({ type: 'run-deleted' } satisfies ActivityChange), id);
+    return database.prepare('DELETE FROM runs WHERE id = ?').run(id).changes > 0;
+  })();
+};
+
+// Every change that takes effect is logged against the user who made it.
+export const updateVariation = (
+  id: number,
+  patch: { starred?: boolean; script?: ScriptVariation; status?: ScriptStatus },
+  userId: number
+): SavedVariation | null => {
+  const database = getDb();
+  const select = database.prepare('SELECT * FROM variations WHERE id = ?');
+
+  return database.transaction(() => {
+    const before = select.get(id) as VariationRow | undefined;
+    if (!before) return null;
+
+    const data = patch.script ? JSON.stringify(patch.script) : null;
+    database.prepare(`
+      UPDATE variations
+      SET starred = COALESCE(@starred, starred), data = COALESCE(@data, data), status = COALESCE(@status, status)
+      WHERE id = @id
+    `).run({
+      id,
+      starred: patch.starred === undefined ? null : patch.starred ? 1 : 0,
+      data,
+      status: patch.status ?? null,
+    });
+
+    if (patch.status && patch.status !== before.status) {
+      logActivity(id, userId, { type: 'status', from: before.status as ScriptStatus, to: patch.status });
+    }
+    if (data && data !== before.data) logActivity(id, userId, { type: 'edit' });
+    if (patch.starred !== undefined && patch.starred !== (before.starred === 1)) {
+      logActivity(id, userId, { type: 'star', starred: patch.starred });
+    }
+    return toVariation(select.get(id) as VariationRow);
+  })();
+};
+
+interface BoardRow extends VariationRow {
+  product_name: string;
+  comments: number;
+  updated_at: string;
+}
+
+export const listBoard = (options: { status?: ScriptStatus; query?: string; limit?: number } = {}): BoardItem[] => {
+  const where: string[] = [];
+  const params: unknown[] = [];
+
+  if (options.status) {
+    where.push('v.status = ?');
+    params.push(options.status);
+  }
+  if (options.query) {
+    where.push(`r.product_name LIKE ? ESCAPE '\\'`);
+    params.push(`%${options.query.replace(/[\\%_]/g, (c) => `\\${c}`)}%`);
+  }
+
+  const rows = getDb().prepare(`
+    SELECT v.*, r.product_name,
+      (SELECT COUNT(*) FROM comments c WHERE c.variation_id = v.id) AS comments,
+      COALESCE((SELECT MAX(a.created_at) FROM activity a WHERE a.variation_id = v.id), r.created_at) AS updated_at
+    FROM variations v JOIN runs r ON r.id = v.run_id
+    ${where.length ? `WHERE ${where.join(' AND ')}` : ''}
+    ORDER BY updated_at DESC, v.id DESC
+    LIMIT ?
+  `).all(...params, options.limit ?? 500) as BoardRow[];
+
+  return rows.map((row) => ({
+    runId: row.run_id,
+    productName: row.product_name,
+    position: row.position,
+    variation: toVariation(row),
+    comments: row.comments,
+    updatedAt: row.updated_at,
+  }));
+};
+
+interface CommentRow {
+  id: number;
+  variation_id: number;
+  user_id: number | null;
+  user_name: string | null;
+  section: string;
+  body: string;
+  created_at: string;
+}
+
+const toComment = (row: CommentRow): ScriptComment => ({
+  id: row.id,
+  variationId: row.variation_id,
+  section: row.section as ScriptSection,
+  body: row.body,
+  authorId: row.user_id ?? undefined,
+  author: row.user_name ?? undefined,
+  createdAt: row.created_at,
+});
+
+const SELECT_COMMENTS = 'SELECT c.*, u.name AS user_name FROM comments c LEFT JOIN users u ON u.id = c.user_id';
+
+export const listComments = (variationId: number): ScriptComment[] =>
+  (getDb().prepare(`${SELECT_COMMENTS} WHERE c.variation_id = ? ORDER BY c.created_at, c.id`).all(variationId) as CommentRow[])
+    .map(toComment);
+
+export const getComment = (id: number): ScriptComment | null => {
+  const row = getDb().prepare(`${SELECT_COMMENTS} WHERE c.id = ?`).get(id) as CommentRow | undefined;
+  return row ? toComment(row) : null;
+};
+
+// Returns null when the variation does not exist.
+export const addComment = (variationId: number, userId: number, section: ScriptSection, body: string): ScriptComment | null => {
+  const database = getDb();
+  return database.transaction(() => {
+    if (!database.prepare('SELECT 1 FROM variations WHERE id = ?').get(variationId)) return null;
+    const { lastInsertRowid } = database
+      .prepare('INSERT INTO comments (variation_id, user_id, section, body) VALUES (?, ?, ?, ?)')
+      .run(variationId, userId, section, body);
+    logActivity(variationId, userId, { type: 'comment', section });
+    return getComment(Number(lastInsertRowid));
+  })();
+};
+
+export const deleteComment = (id: number): boolean =>
+  getDb().prepare('DELETE FROM comments WHERE id = ?').run(id).changes > 0;
+
+interface ActivityRow {
+  id: number;
+  variation_id: number | null;
+  run_id: number;
+  product_name: string;
+  user_name: string | null;
+  change: string;
+  created_at: string;
+}
+
+const toActivityEntry = (row: ActivityRow): ActivityEntry => ({
+  id: row.id,
+  runId: row.run_id,
+  variationId: row.variation_id ?? undefined,
+  productName: row.product_name,
+  user: row.user_name ?? undefined,
+  change: JSON.parse(row.change) as ActivityChange,
+  createdAt: row.created_at,
+});
+
+// Newest first, for one variation or across all of them.
+export const listActivity = (options: { variationId?: number; limit?: number } = {}): ActivityEntry[] =>
+  (getDb().prepare(`
+    SELECT a.*, u.name AS user_name
+    FROM activity a
+    LEFT JOIN users u ON u.id = a.user_id
+    ${options.variationId === undefined ? '' : 'WHERE a.variation_id = ?'}
+    ORDER BY a.created_at DESC, a.id DESC
+    LIMIT ?
+  `).all(...(options.variationId === undefined ? [] : [options.variationId]), options.limit ?? 50) as ActivityRow[])
+    .map(toActivityEntry);
+
+interface UserRow {
+  id: number;
+  name: string;
+  role: string;
+}
+
+const toUser = (row: UserRow): User => ({ id: row.id, name: row.name, role: row.role as UserRole });
+
+export const hasUsers = () => getDb().prepare('SELECT 1 FROM users LIMIT 1').get() !== undefined;
+
+export const listUsers = (): User[] =>
+  (getDb().prepare('SELECT id, name, role FROM users ORDER BY name').all() as UserRow[]).map(toUser);
+
+// Names are unique regardless of case; returns null when one is taken.
+export const createUser = (name: string, passwordHash: string, role: UserRole): User | null => {
+  const database = getDb();
+  const { changes, lastInsertRowid } = database
+    .prepare('INSERT INTO users (name, password_hash, role) VALUES (?, ?, ?) ON CONFLICT (name) DO NOTHING')
+    .run(name, passwordHash, role);
+  return changes > 0 ? { id: Number(lastInsertRowid), name, role } : null;
+};
+
+export const getUser = (id: number): User | null => {
+  const row = getDb().prepare('SELECT id, name, role FROM users WHERE id = ?').get(id) as UserRow | undefined;
+  return row ? toUser(row) : null;
+};
+
+export const countAdmins = () =>
+  (getDb().prepare(`SELECT COUNT(*) AS admins FROM users WHERE role = 'admin'`).get() as { admins: number }).admins;
+
+export const updateUserRole = (id: number, role: UserRole): User | null => {
+  getDb().prepare('UPDATE users SET role = ? WHERE id = ?').run(role, id);
+  return getUser(id);
+};
+
+export const findUserByName = (name: string): { user: User; passwordHash: string } | null => {
+  const row = getDb().prepare('SELECT id, name, role, password_hash FROM users WHERE name = ?').get(name) as
+    (UserRow & { password_hash: string }) | undefined;
+  return row ? { user: toUser(row), passwordHash: row.password_hash } : null;
+};
+
+// Also clears out sessions that have expired since the last sign-in.
+export const createSession = (token: string, userId: number, expiresAt: string) => {
+  const database = getDb();
+  database.transaction(() => {
+    database.prepare(`DELETE FROM sessions WHERE expires_at <= strftime('%Y-%m-%dT%H:%M:%fZ', 'now')`).run();
+    database.prepare('INSERT INTO sessions (token, user_id, expires_at) VALUES (?, ?, ?)').run(token, userId, expiresAt);
+  })();
+};
+
+export const getSessionUser = (token: string): User | null => {
+  const row = getDb().prepare(`
+    SELECT u.id, u.name, u.role FROM sessions s JOIN users u ON u.id = s.user_id
+    WHERE s.token = ? AND s.expires_at > strftime('%Y-%m-%dT%H:%M:%fZ', 'now')
+  `).get(token) as UserRow | undefined;
+  return row ? toUser(row) : null;
+};
+
+export const deleteSession = (token: string) => {
+  getDb().prepare('DELETE FROM sessions WHERE token = ?').run(token);
+};
+
+interface BrandProfileRow {
+  id: number;
+  name: string;
+  voice: string;
+  examples: string;
+  banned_words: string;
+  disclaimers: string;
+  prohibited_claims: string;
+  created_at: string;
+}
+
+const toBrandProfile = (row: BrandProfileRow): BrandProfile => ({
+  id: row.id,
+  name: row.name,
+  voice: row.voice,
+  examples: JSON.parse(row.examples),
+  bannedWords: JSON.parse(row.banned_words),
+  disclaimers: JSON.parse(row.disclaimers),
+  prohibitedClaims: JSON.parse(row.prohibited_claims),
+});
+
+const brandProfileParams = (input: BrandProfileInput) => ({
+  name: input.name,
+  voice: input.voice,
+  examples: JSON.stringify(input.examples),
+  bannedWords: JSON.stringify(input.bannedWords),
+  disclaimers: JSON.stringify(input.disclaimers),
+  prohibitedClaims: JSON.stringify(input.prohibitedClaims),
+});
+
+export const listBrandProfiles = (): BrandProfile[] =>
+  (getDb().prepare('SELECT * FROM brand_profiles ORDER BY name COLLATE NOCASE, id').all() as BrandProfileRow[]).map(toBrandProfile);
+
+export const getBrandProfile = (id: number): BrandProfile | null => {
+  const row = getDb().prepare('SELECT * FROM brand_profiles WHERE id = ?').get(id) as BrandProfileRow | undefined;
+  return row ? toBrandProfile(row) : null;
+};
+
+export const createBrandProfile = (input: BrandProfileInput): BrandProfile => {
+  const { lastInsertRowid } = getDb().prepare(`
+    INSERT INTO brand_profiles (name, voice, examples, banned_words, disclaimers, prohibited_claims)
+    VALUES (@name, @voice, @examples, @bannedWords, @disclaimers, @prohibitedClaims)
+  `).run(brandProfileParams(input));
+  return getBrandProfile(Number(lastInsertRowid))!;
+};
+
+export const updateBrandProfile = (id: number, input: BrandProfileInput): BrandProfile | null => {
+  const { changes } = getDb().prepare(`
+    UPDATE brand_profiles
+    SET name = @name, voice = @voice, examples = @examples, banned_words = @bannedWords,
+        disclaimers = @disclaimers, prohibited_claims = @prohibitedClaims
+    WHERE id = @id
+  `).run({ id, ...brandProfileParams(input) });
+  return changes === 0 ? null : getBrandProfile(id);
+};
+
+export const deleteBrandProfile = (id: number): boolean =>
+  getDb().prepare('DELETE FROM brand_profiles WHERE id = ?').run(id).changes > 0;
+
+interface PersonaRow {
+  id: number;
+  name: string;
+  age_range: string;
+  situation: string;
+  objections: string;
+  scrolls_on: string;
+  created_at: string;
+}
+
+const toPersona = (row: PersonaRow): Persona => ({
+  id: row.id,
+  name: row.name,
+  ageRange: row.age_range,
+  situation: row.situation,
+  objections: JSON.parse(row.objections),
+  scrollsOn: row.scrolls_on,
+});
+
+const personaParams = (input: PersonaInput) => ({
+  ...input,
+  objections: JSON.stringify(input.objections),
+});
+
+export const listPersonas = (): Persona[] =>
+  (getDb().prepare('SELECT * FROM personas ORDER BY name COLLATE NOCASE, id').all() as PersonaRow[]).map(toPersona);
+
+export const getPersona = (id: number): Persona | null => {
+  const row = getDb().prepare('SELECT * FROM personas WHERE id = ?').get(id) as PersonaRow | undefined;
+  return row ? toPersona(row) : null;
+};
+
+export const createPersona = (input: PersonaInput): Persona => {
+  const { lastInsertRowid } = getDb().prepare(`
+    INSERT INTO personas (name, age_range, situation, objections, scrolls_on)
+    VALUES (@name, @ageRange, @situation, @objections, @scrollsOn)
+  `).run(personaParams(input));
+  return getPersona(Number(lastInsertRowid))!;
+};
+
+export const updatePersona = (id: number, input: PersonaInput): Persona | null => {
+  const { changes } = getDb().prepare(`
+    UPDATE personas
+    SET name = @name, age_range = @ageRange, situation = @situation, objections = @objections, scrolls_on = @scrollsOn
+    WHERE id = @id
+  `).run({ id, ...personaParams(input) });
+  return changes === 0 ? null : getPersona(id);
+};
+
+export const deletePersona = (id: number): boolean =>
+  getDb().prepare('DELETE FROM personas WHERE id = ?').run(id).changes > 0;
+
+// Small app-wide settings, stored as JSON under a key.
+export const getSetting = <T>(key: string): T | undefined => {
+  const row = getDb().prepare('SELECT value FROM settings WHERE key = ?').get(key) as { value: string } | undefined;
+  return row ? JSON.parse(row.value) as T : undefined;
+};
+
+export const setSetting = (key: string, value: unknown) => {
+  getDb()
+    .prepare('INSERT INTO settings (key, value) VALUES (?, ?) ON CONFLICT(key) DO UPDATE SET value = excluded.value')
+    .run(key, JSON.stringify(value));
+};
+
+interface PromptTemplateRow {
+  template: string;
+  version: number;
+  text: string;
+  note: string;
+  created_at: string;
+}
+
+const toPromptVersion = (row: PromptTemplateRow): PromptTemplateVersion => ({
+  template: row.template as PromptTemplateId,
+  version: row.version,
+  text: row.text,
+  note: row.note,
+  createdAt: row.created_at,
+});
+
+// Saved versions of a template, newest first. The built-in text is not stored.
+export const listPromptVersions = (template: PromptTemplateId): PromptTemplateVersion[] =>
+  (getDb().prepare('SELECT * FROM prompt_templates WHERE template = ? ORDER BY version DESC').all(template) as PromptTemplateRow[])
+    .map(toPromptVersion);
+
+export const getLatestPromptVersion = (template: PromptTemplateId): PromptTemplateVersion | null => {
+  const row = getDb()
+    .prepare('SELECT * FROM prompt_templates WHERE template = ? ORDER BY version DESC LIMIT 1')
+    .get(template) as PromptTemplateRow | undefined;
+  return row ? toPromptVersion(row) : null;
+};
+
+// Versions are never edited or deleted; rolling back saves an old text again.
+export const savePromptVersion = (template: PromptTemplateId, text: string, note: string): PromptTemplateVersion => {
+  const database = getDb();
+  const row = database.transaction(() => {
+    const { next } = database
+      .prepare('SELECT COALESCE(MAX(version), 0) + 1 AS next FROM prompt_templates WHERE template = ?')
+      .get(template) as { next: number };
+    database.prepare('INSERT INTO prompt_templates (template, version, text, note) VALUES (?, ?, ?, ?)').run(template, next, text, note);
+    return database.prepare('SELECT * FROM prompt_templates WHERE template = ? AND version = ?').get(template, next) as PromptTemplateRow;
+  })();
+  return toPromptVersion(row);
+};
+
+interface ShareRow {
+  token: string;
+  title: string;
+  // JSON
+  input: string;
+  variations: string;
+  created_at: string;
+  expires_at: string | null;
+  revoked_at: string | null;
+  user_id: number | null;
+}
+
+const toShareLink = (row: ShareRow): ShareLink => {
+  const input = JSON.parse(row.input) as ScriptRequest;
+  return {
+    token: row.token,
+    title: row.title,
+    productName: input.productName,
+    variationCount: (JSON.parse(row.variations) as unknown[]).length,
+    createdAt: row.created_at,
+    expiresAt: row.expires_at ?? undefined,
+    revokedAt: row.revoked_at ?? undefined,
+  };
+};
+
+const toSharedCampaign = (row: ShareRow): SharedCampaign => ({
+  token: row.token,
+  title: row.title,
+  input: JSON.parse(row.input),
+  variations: JSON.parse(row.variations),
+  createdAt: row.created_at,
+  expiresAt: row.expires_at ?? undefined,
+});
+
+// Leave `userId` out for everyone's links.
+export const listShares = (userId?: number, limit = 100): ShareLink[] =>
+  (getDb()
+    .prepare(`SELECT * FROM shares ${userId === undefined ? '' : 'WHERE user_id = ?'} ORDER BY created_at DESC LIMIT ?`)
+    .all(...(userId === undefined ? [limit] : [userId, limit])) as ShareRow[]).map(toShareLink);
+
+// Revoked and expired links are returned too; the caller decides what to serve.
+export const getShare = (token: string): { campaign: SharedCampaign; revoked: boolean; ownerId: number | null } | null => {
+  const row = getDb().prepare('SELECT * FROM shares WHERE token = ?').get(token) as ShareRow | undefined;
+  return row ? { campaign: toSharedCampaign(row), revoked: row.revoked_at !== null, ownerId: row.user_id } : null;
+};
+
+export const createShare = (
+  token: string,
+  share: { title: string; input: ScriptRequest; variations: ScriptVariation[]; expiresAt?: string },
+  userId: number
+): ShareLink => {
+  const database = getDb();
+  database.prepare(`
+    INSERT INTO shares (token, title, input, variations, expires_at, user_id)
+    VALUES (?, ?, ?, ?, ?, ?)
+  `).run(token, share.title, JSON.stringify(share.input), JSON.stringify(share.variations), share.expiresAt ?? null, userId);
+  return toShareLink(database.prepare('SELECT * FROM shares WHERE token = ?').get(token) as ShareRow);
+};
+
+// Revoking is permanent, and revoking twice keeps the first time.
+export const revokeShare = (token: string): ShareLink | null => {
+  const database = getDb();
+  database
+    .prepare(`UPDATE shares SET revoked_at = COALESCE(revoked_at, strftime('%Y-%m-%dT%H:%M:%fZ', 'now')) WHERE token = ?`)
+    .run(token);
+  const row = database.prepare('SELECT * FROM shares WHERE token = ?').get(token) as ShareRow | undefined;
+  return row ? toShareLink(row) : null;
+};
+
+interface ModelCallRow {
+  id: number;
+  user: string;
+  task: string;
+  provider: string;
+  model: string;
+  product: string | null;
+  input_tokens: number;
+  output_tokens: number;
+  estimated: number;
+  cost: number;
+  latency_ms: number;
+  error_code: string | null;
+  created_at: string;
+}
+
+const toModelCallLog = (row: ModelCallRow): ModelCallLog => ({
+  id: row.id,
+  createdAt: row.created_at,
+  user: row.user,
+  task: row.task,
+  provider: row.provider as ProviderId,
+  model: row.model,
+  ...(row.product ? { product: row.product } : {}),
+  inputTokens: row.input_tokens,
+  outputTokens: row.output_tokens,
+  estimated: !!row.estimated,
+  cost: row.cost,
+  latencyMs: row.latency_ms,
+  ...(row.error_code ? { errorCode: row.error_code } : {}),
+});
+
+// `ip` is the address of the request that made the call, when there was one.
+export const logModelCall = (call: Omit<ModelCallLog, 'id' | 'createdAt'> & { ip?: string }) => {
+  getDb()
+    .prepare(`INSERT INTO model_calls (user, ip, task, provider, model, product, input_tokens, output_tokens, estimated, cost, latency_ms, error_code)
+      VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`)
+    .run(call.user, call.ip ?? null, call.task, call.provider, call.model, call.product ?? null, call.inputTokens, call.outputTokens,
+      call.estimated ? 1 : 0, call.cost, call.latencyMs, call.errorCode ?? null);
+};
+
+const TOTALS = `COUNT(*) AS calls,
+  COALESCE(SUM(error_code IS NOT NULL), 0) AS failed,
+  COALESCE(SUM(input_tokens), 0) AS inputTokens,
+  COALESCE(SUM(output_tokens), 0) AS outputTokens,
+  COALESCE(SUM(cost), 0) AS cost,
+  COALESCE(ROUND(AVG(latency_ms)), 0) AS avgLatencyMs`;
+
+// `since` is an ISO timestamp. Narrows to the calls of one user or made from
+// one address when given; leave both out for everyone's calls.
+export const usageTotals = (since: string, who: { user?: string; ip?: string } = {}): UsageTotals => {
+  const filters = (['user', 'ip'] as const).filter(column => who[column] !== undefined);
+  return getDb()
+    .prepare(`SELECT ${TOTALS} FROM model_calls WHERE created_at >= ? ${filters.map(column => `AND ${column} = ?`).join(' ')}`)
+    .get(since, ...filters.map(column => who[column])) as UsageTotals;
+};
+
+// Days are UTC, as the timestamps are.
+export const usageByDay = (since: string) =>
+  getDb()
+    .prepare(`SELECT substr(created_at, 1, 10) AS day, ${TOTALS} FROM model_calls WHERE created_at >= ? GROUP BY day ORDER BY day DESC`)
+    .all(since) as (UsageTotals & { day: string })[];
+
+// Calls without a product (mostly product analysis) are grouped under ''.
+export const usageByProduct = (since: string, limit = 50) =>
+  getDb()
+    .prepare(`SELECT COALESCE(product, '') AS product, ${TOTALS} FROM model_calls WHERE created_at >= ?
+      GROUP BY COALESCE(product, '') ORDER BY cost DESC, inputTokens + outputTokens DESC LIMIT ?`)
+    .all(since, limit) as (UsageTotals & { product: string })[];
+
+export const usageByUser = (since: string) =>
+  getDb()
+    .prepare(`SELECT user, ${TOTALS} FROM model_calls WHERE created_at >= ? GROUP BY user ORDER BY inputTokens + outputTokens DESC`)
+    .all(since) as (UsageTotals & { user: string })[];
+
+export const listModelCalls = (limit = 50): ModelCallLog[] =>
+  (getDb().prepare('SELECT * FROM model_calls ORDER BY id DESC LIMIT ?').all(limit) as ModelCallRow[]).map(toModelCallLog);
@@ -0,0 +1,83 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import type { NextFunction, Request, RequestHandler, Response } from 'express';
+import type { ApiErrorBody, ApiErrorCode } from '../src/types';
+
+export class HttpError extends Error {
+  status: number;
+  code: ApiErrorCode;
+
+  constructor(status: number, code: ApiErrorCode, message: string) {
+    super(message);
+    this.name = 'HttpError';
+    this.status = status;
+    this.code = code;
+  }
+}
+
+// A failed call to the model provider. Retryable failures (rate limits,
+// outages, dropped connections) are worth sending again after a pause.
+export class ModelError extends HttpError {
+  retryable: boolean;
+
+  constructor(status: number, code: ApiErrorCode, message: string, retryable = false) {
+    super(status, code, message);
+    this.name = 'ModelError';
+    this.retryable = retryable;
+  }
+}
+
+// Express 4 does not forward rejected promises to the error middleware.
+export const asyncHandler = (
+  fn: (req: Request, res: Response) => Promise<void>
+): RequestHandler => (req, res, next) => {
+  fn(req, res).catch(next);
+};
+
+// body-parser's errors carry a `type` naming what was wrong with the body.
+const bodyErrorType = (err: unknown) =>
+  err instanceof Error && 'type' in err && typeof err.type === 'string' ? err.type : undefined;
+
+export const toErrorResponse = (err: unknown): { status: number; body: ApiErrorBody } => {
+  let status = 500;
+  let body: ApiErrorBody = { error: { code: 'INTERNAL', message: 'Unexpected server error.' } };
+
+  if (err instanceof HttpError) {
+    status = err.status;
+    body = { error: { code: err.code, message: err.message } };
+  } else if (bodyErrorType(err) === 'entity.parse.failed') {
+    status = 400;
+    body = { error: { code: 'INVALID_REQUEST', message: 'Request body is not valid JSON.' } };
+  } else if (bodyErrorType(err) === 'entity.too.large') {
+    status = 413;
+    body = { error: { code: 'INVALID_REQUEST', message: 'Request body is too large.' } };
+  } else {
+    console.error('Unhandled API error:', err);
+  }
+
+  return { status, body };
+};
+
+export const errorMiddleware = (err: unknown, _req: Request, res: Response, next: NextFunction) => {
+  // The client went away (usually a cancelled request); there is no one to answer.
+  if (res.destroyed) return;
+  if (res.headersSent) {
+    next(err);
+    return;
+  }
+  const { status, body } = toErrorResponse(err);
+  res.status(status).json(body);
+};
+
+// Aborts when the client disconnects before the response finished, so model
+// calls for cancelled requests stop instead of running to completion.
+export const clientAbortSignal = (res: Response): AbortSignal => {
+  const controller = new AbortController();
+  res.on('close', () => {
+    if (!res.writableFinished) controller.abort();
+  });
+  return controller.signal;
+};
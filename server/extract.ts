@@ -0,0 +1,248 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+// Reads product details from a page's HTML: schema.org Product JSON-LD first,
+// then OpenGraph/product meta tags, then the markup itself for feature lists
+// and description text. Pure (HTML in, facts out) so it can be checked
+// against saved pages without a network.
+
+import { MAX_PAGE_FEATURES, MAX_PAGE_IMAGES } from '../src/lib/productPage';
+import type { ProductPage } from '../src/types';
+
+const MAX_DESCRIPTION = 1500;
+const MAX_FEATURE_LENGTH = 300;
+
+type JsonObject = Record<string, unknown>;
+
+const NAMED_ENTITIES: Record<string, string> = {
+  amp: '&', lt: '<', gt: '>', quot: '"', apos: "'", nbsp: ' ',
+  ndash: '–', mdash: '—', hellip: '…', rsquo: '’', lsquo: '‘', rdquo: '”', ldquo: '“',
+  trade: '™', reg: '®', copy: '©', deg: '°', times: '×', euro: '€', pound: '£', yen: '¥',
+};
+
+export const decodeEntities = (text: string) =>
+  text.replace(/&(#x[0-9a-f]+|#\d+|[a-z]+);/gi, (match, entity: string) => {
+    if (entity[0] === '#') {
+      const code = entity[1] === 'x' || entity[1] === 'X' ? parseInt(entity.slice(2), 16) : parseInt(entity.slice(1), 10);
+      return code > 0 && code <= 0x10ffff ? String.fromCodePoint(code) : match;
+    }
+    return NAMED_ENTITIES[entity.toLowerCase()] ?? match;
+  });
+
+const collapse = (text: string) => text.replace(/\s+/g, ' ').trim();
+
+// Visible text of an HTML fragment, on one line.
+const textOf = (html: string) =>
+  collapse(decodeEntities(html.replace(/<br\s*\/?>/gi, ' ').replace(/<[^>]*>/g, ' ')));
+
+const attributes = (tag: string) => {
+  const attrs: Record<string, string> = {};
+  for (const [, name, , doubleQuoted, singleQuoted, bare] of tag.matchAll(/([\w:.-]+)\s*=\s*("([^"]*)"|'([^']*)'|([^\s"'>]+))/g)) {
+    attrs[name.toLowerCase()] ??= decodeEntities(doubleQuoted ?? singleQuoted ?? bare ?? '');
+  }
+  return attrs;
+};
+
+// property/name → every content value, in page order.
+const metaTags = (html: string) => {
+  const meta = new Map<string, string[]>();
+  for (const [tag] of html.matchAll(/<meta\b[^>]*>/gi)) {
+    const attrs = attributes(tag);
+    const key = (attrs.property ?? attrs.name ?? attrs.itemprop)?.toLowerCase();
+    const content = attrs.content?.trim();
+    if (key && content) meta.set(key, [...(meta.get(key) ?? []), content]);
+  }
+  return meta;
+};
+
+const jsonLdBlocks = (html: string): unknown[] =>
+  [...html.matchAll(/<script\b[^>]*type\s*=\s*["']?application\/ld\+json["']?[^>]*>([\s\S]*?)<\/script>/gi)].flatMap(([, body]) => {
+    try {
+      return [JSON.parse(body.trim().replace(/^<!--|-->$/g, ''))];
+    } catch {
+      return [];
+    }
+  });
+
+const isType = (node: JsonObject, type: string) => {
+  const types = node['@type'];
+  return Array.isArray(types) ? types.includes(type) : types === type;
+};
+
+// Depth-first search through @graph, arrays and nested entities.
+const findNode = (value: unknown, match: (node: JsonObject) => boolean, depth = 0): JsonObject | undefined => {
+  if (depth > 8 || !value || typeof value !== 'object') return undefined;
+  if (Array.isArray(value)) {
+    for (const item of value) {
+      const found = findNode(item, match, depth + 1);
+      if (found) return found;
+    }
+    return undefined;
+  }
+  const node = value as JsonObject;
+  if (match(node)) return node;
+  for (const child of Object.values(node)) {
+    const found = findNode(child, match, depth + 1);
+    if (found) return found;
+  }
+  return undefined;
+};
+
+const str = (value: unknown): string | undefined => {
+  if (typeof value === 'string') return collapse(decodeEntities(value)) || undefined;
+  if (typeof value === 'number') return String(value);
+  if (value && typeof value === 'object' && !Array.isArray(value)) {
+    return str((value as JsonObject).name ?? (value as JsonObject)['@value']);
+  }
+  return undefined;
+};
+
+const num = (value: unknown): number | undefined => {
+  const parsed = typeof value === 'number' ? value : typeof value === 'string' ? parseFloat(value.replace(',', '.')) : NaN;
+  return Number.isFinite(parsed) ? parsed : undefined;
+};
+
+const list = (value: unknown): unknown[] => value === undefined || value === null ? [] : Array.isArray(value) ? value : [value];
+
+const imageUrls = (value: unknown): string[] =>
+  list(value).flatMap(item => {
+    if (typeof item === 'string') return [item];
+    if (item && typeof item === 'object') {
+      const url = (item as JsonObject).url ?? (item as JsonObject).contentUrl;
+      return typeof url === 'string' ? [url] : [];
+    }
+    return [];
+  });
+
+// The first number in a price as a plain decimal: "1,299.99", "1.299,99" and
+// "€ 1 299,99" all give "1299.99". A point or comma before one or two final
+// digits is the decimal mark; any other separator groups thousands.
+export const parsePriceAmount = (text: string): string | undefined => {
+  const number = /\d(?:[\d.,]|\s(?=\d{3}(?!\d)))*/.exec(text)?.[0].replace(/\s/g, '').replace(/[.,]+$/, '');
+  if (!number) return undefined;
+  const decimals = /[.,](\d{1,2})$/.exec(number);
+  const whole = (decimals ? number.slice(0, decimals.index) : number).replace(/[.,]/g, '');
+  return decimals ? `${whole}.${decimals[1]}` : whole;
+};
+
+const productPrice = (product: JsonObject): ProductPage['price'] => {
+  for (const offer of list(product.offers)) {
+    if (!offer || typeof offer !== 'object') continue;
+    const o = offer as JsonObject;
+    const spec = list(o.priceSpecification)[0] as JsonObject | undefined;
+    const amount = parsePriceAmount(str(o.price ?? o.lowPrice ?? spec?.price) ?? '');
+    if (amount) return { amount, currency: str(o.priceCurrency ?? spec?.priceCurrency) };
+  }
+  return undefined;
+};
+
+const productRating = (product: JsonObject): ProductPage['rating'] => {
+  const rating = product.aggregateRating as JsonObject | undefined;
+  const value = num(rating?.ratingValue);
+  if (!rating || value === undefined) return undefined;
+  const count = num(rating.reviewCount ?? rating.ratingCount);
+  const best = num(rating.bestRating);
+  return {
+    value,
+    ...(count !== undefined ? { count: Math.round(count) } : {}),
+    ...(best !== undefined && best !== 5 ? { best } : {}),
+  };
+};
+
+// "Color: Rose gold"-style lines from schema.org additionalProperty.
+const productProperties = (product: JsonObject) =>
+  list(product.additionalProperty).flatMap(item => {
+    if (!item || typeof item !== 'object') return [];
+    const name = str((item as JsonObject).name);
+    const value = str((item as JsonObject).value);
+    return name && value ? [`${name}: ${value}`] : [];
+  });
+
+const FEATURE_LIST = /<(ul|ol)\b([^>]*)>([\s\S]*?)<\/\1>/gi;
+const FEATURE_HINT = /feature|bullet|highlight|benefit|key-?points|spec/i;
+
+// Items of lists whose id or class looks like a feature list.
+const featureBullets = (html: string) => {
+  for (const [, , attrs, body] of html.matchAll(FEATURE_LIST)) {
+    const { id = '', class: className = '' } = attributes(attrs);
+    if (!FEATURE_HINT.test(`${id} ${className}`)) continue;
+    const items = [...body.matchAll(/<li\b[^>]*>([\s\S]*?)(?=<li\b|$)/gi)].map(([, item]) => textOf(item)).filter(Boolean);
+    if (items.length > 0) return items;
+  }
+  return [];
+};
+
+// Falls back to the first paragraphs of the main content when the page has
+// no description in its metadata.
+const mainText = (html: string) => {
+  const region = /<main\b[\s\S]*?<\/main>/i.exec(html)?.[0] ?? /<article\b[\s\S]*?<\/article>/i.exec(html)?.[0] ?? html;
+  return [...region.matchAll(/<p\b[^>]*>([\s\S]*?)<\/p>/gi)]
+    .map(([, paragraph]) => textOf(paragraph))
+    .filter(text => text.length >= 40)
+    .slice(0, 4)
+    .join(' ');
+};
+
+const truncate = (text: string, max: number) =>
+  text.length <= max ? text : `${text.slice(0, max - 1).replace(/\s+\S*$/, '')}…`;
+
+const absoluteUrl = (src: string, base: string) => {
+  try {
+    const url = new URL(src, base);
+    return url.protocol === 'http:' || url.protocol === 'https:' ? url.href : undefined;
+  } catch {
+    return undefined;
+  }
+};
+
+const unique = (items: string[]) => [...new Set(items)];
+
+// Returns null when the page offers nothing usable (not even a title).
+export const extractProductPage = (html: string, url: string): ProductPage | null => {
+  const cleaned = html.replace(/<!--[\s\S]*?-->/g, '').replace(/<(style|noscript|template)\b[\s\S]*?<\/\1>/gi, '');
+  const product = findNode(jsonLdBlocks(cleaned), node => isType(node, 'Product') || isType(node, 'ProductGroup')) ?? {};
+  // Scripts go only after JSON-LD has been read.
+  const markup = cleaned.replace(/<script\b[\s\S]*?<\/script>/gi, '');
+  const meta = metaTags(markup);
+  const first = (...keys: string[]) => keys.map(key => meta.get(key)?.[0]).find(Boolean);
+
+  const title = str(product.name)
+    ?? first('og:title', 'twitter:title')
+    ?? textOf(/<h1\b[^>]*>([\s\S]*?)<\/h1>/i.exec(markup)?.[1] ?? '')
+    ?? '';
+  const pageTitle = textOf(/<title\b[^>]*>([\s\S]*?)<\/title>/i.exec(markup)?.[1] ?? '');
+  const name = title || pageTitle;
+  if (!name) return null;
+
+  const metaAmount = parsePriceAmount(first('product:price:amount', 'og:price:amount') ?? '');
+  const price = productPrice(product)
+    ?? (metaAmount ? { amount: metaAmount, currency: first('product:price:currency', 'og:price:currency') } : undefined);
+
+  const brand = str(product.brand) ?? first('og:brand', 'product:brand');
+  const rating = productRating(product);
+  const description = str(product.description) ?? first('og:description', 'description', 'twitter:description') ?? mainText(markup);
+  const features = unique([...featureBullets(markup), ...productProperties(product)])
+    .map(feature => truncate(feature, MAX_FEATURE_LENGTH))
+    .slice(0, MAX_PAGE_FEATURES);
+
+  const images = unique([
+    ...imageUrls(product.image),
+    ...(meta.get('og:image') ?? []),
+    ...(meta.get('og:image:url') ?? []),
+    ...(meta.get('og:image:secure_url') ?? []),
+    ...(meta.get('twitter:image') ?? []),
+  ].flatMap(src => absoluteUrl(src, url) ?? [])).slice(0, MAX_PAGE_IMAGES);
+
+  return {
+    url,
+    title: truncate(name, 300),
+    ...(brand ? { brand: truncate(brand, 100) } : {}),
+    ...(description ? { description: truncate(description, MAX_DESCRIPTION) } : {}),
+    ...(price ? { price: { amount: truncate(price.amount, 30), ...(price.currency ? { currency: price.currency.slice(0, 10) } : {}) } } : {}),
+    ...(rating ? { rating } : {}),
+    features,
+    images,
+  };
+};
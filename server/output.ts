@@ -0,0 +1,80 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+// Checks model output against the schema that was sent with the request.
+// Providers treat the schema as a hint (and local models often ignore it), so
+// nothing reaches a route handler without passing through here.
+
+import { Type } from "@google/genai";
+import type { Schema } from "@google/genai";
+
+const rangeIssues = (schema: Schema, value: number, path: string): string[] => {
+  if (schema.minimum !== undefined && value < schema.minimum) return [`${path}: must be at least ${schema.minimum}`];
+  if (schema.maximum !== undefined && value > schema.maximum) return [`${path}: must be at most ${schema.maximum}`];
+  return [];
+};
+
+// Lists every way `value` differs from `schema`, as "path: problem" lines.
+export const schemaIssues = (schema: Schema, value: unknown, path = 'response'): string[] => {
+  switch (schema.type) {
+    case Type.OBJECT: {
+      if (!value || typeof value !== 'object' || Array.isArray(value)) return [`${path}: expected an object`];
+      const record = value as Record<string, unknown>;
+      const missing = (schema.required ?? [])
+        .filter(key => record[key] === undefined || record[key] === null)
+        .map(key => `${path}.${key}: missing`);
+      const invalid = Object.entries(schema.properties ?? {})
+        .filter(([key]) => record[key] !== undefined && record[key] !== null)
+        .flatMap(([key, property]) => schemaIssues(property, record[key], `${path}.${key}`));
+      return [...missing, ...invalid];
+    }
+    case Type.ARRAY: {
+      if (!Array.isArray(value)) return [`${path}: expected an array`];
+      const issues: string[] = [];
+      if (schema.minItems !== undefined && value.length < Number(schema.minItems)) {
+        issues.push(`${path}: expected at least ${schema.minItems} items, got ${value.length}`);
+      }
+      if (schema.maxItems !== undefined && value.length > Number(schema.maxItems)) {
+        issues.push(`${path}: expected at most ${schema.maxItems} items, got ${value.length}`);
+      }
+      return schema.items
+        ? [...issues, ...value.flatMap((item, idx) => schemaIssues(schema.items!, item, `${path}[${idx}]`))]
+        : issues;
+    }
+    case Type.STRING:
+      if (typeof value !== 'string') return [`${path}: expected a string`];
+      if (schema.minLength !== undefined && value.trim().length < Number(schema.minLength)) return [`${path}: must not be empty`];
+      if (schema.enum && !schema.enum.includes(value)) return [`${path}: must be one of ${schema.enum.join(', ')}`];
+      return [];
+    case Type.NUMBER:
+      if (typeof value !== 'number' || !Number.isFinite(value)) return [`${path}: expected a number`];
+      return rangeIssues(schema, value, path);
+    case Type.INTEGER:
+      if (!Number.isInteger(value)) return [`${path}: expected an integer`];
+      return rangeIssues(schema, value as number, path);
+    case Type.BOOLEAN:
+      return typeof value === 'boolean' ? [] : [`${path}: expected true or false`];
+    default:
+      return [];
+  }
+};
+
+// `value` is only meaningful when `issues` is empty.
+export interface ParsedOutput<T> {
+  value?: T;
+  issues: string[];
+}
+
+export const parseOutput = <T>(text: string, schema: Schema): ParsedOutput<T> => {
+  let value: unknown;
+  try {
+    // Local models like to wrap JSON in a Markdown code fence.
+    value = JSON.parse(text.trim().replace(/^```(?:json)?\s*|\s*```$/g, ''));
+  } catch {
+    return { issues: [text.trim() ? 'response: not valid JSON' : 'response: empty'] };
+  }
+  const issues = schemaIssues(schema, value);
+  return { value: value as T, issues };
+};
@@ -0,0 +1,117 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import type { Schema } from '@google/genai';
+import { HttpError, ModelError } from '../errors';
+import type { ImageInput } from '../validation';
+import type { ComplianceMatch } from '../../src/lib/compliance';
+import type { LanguageId } from '../../src/lib/languages';
+import type { ProviderInfo } from '../../src/lib/providers';
+import type { ScriptRequest, ScriptSection, ScriptVariation } from '../../src/types';
+
+// What a call is for, with the inputs it was built from. Real providers only
+// read the prompt; the mock answers from these.
+export type ModelTask =
+  | { kind: 'analysis' }
+  | { kind: 'scripts'; input: ScriptRequest; count: number }
+  | { kind: 'hooks'; input: ScriptRequest; count: number }
+  | { kind: 'section'; input: ScriptRequest; variation: ScriptVariation; section: ScriptSection }
+  | {
+    kind: 'revision';
+    input: ScriptRequest;
+    variation: ScriptVariation;
+    // Set when refining from a free-text instruction.
+    instruction?: string;
+    // Set when fixing compliance: the phrases that broke the brand rules.
+    flagged?: ComplianceMatch[];
+    // Set when trimming: the length each listed section must fit.
+    targets?: Partial<Record<ScriptSection, number>>;
+    // Phrases the trim must leave intact, such as required disclaimers.
+    keep?: string[];
+  }
+  | { kind: 'transitions'; input: ScriptRequest; variation: ScriptVariation }
+  | { kind: 'localize'; input: ScriptRequest; variation: ScriptVariation; language: LanguageId }
+  | { kind: 'grade'; input: ScriptRequest; variations: ScriptVariation[] }
+  | { kind: 'reviews'; reviews: string[] };
+
+export interface ModelCall {
+  task: ModelTask;
+  prompt: string;
+  // JSON the model must return, written in the Gemini schema dialect;
+  // other providers convert it. Responses are checked against it too.
+  schema: Schema;
+  images?: ImageInput[];
+  // Let the model open URLs mentioned in the prompt, where supported.
+  browse?: boolean;
+}
+
+export interface TokenUsage {
+  inputTokens: number;
+  outputTokens: number;
+}
+
+export interface ModelResponse {
+  // The raw response text, expected to be JSON.
+  text: string;
+  // As reported by the provider; unset when it reports none.
+  usage?: TokenUsage;
+}
+
+export interface ModelProvider {
+  info: ProviderInfo;
+  model: string;
+  complete(call: ModelCall, signal?: AbortSignal): Promise<ModelResponse>;
+  // Reports each chunk of text as it arrives.
+  stream(call: ModelCall, onText?: (delta: string) => void, signal?: AbortSignal): Promise<ModelResponse>;
+}
+
+// Resolves after `ms`, or rejects as soon as the signal aborts.
+export const delay = (ms: number, signal?: AbortSignal) => new Promise<void>((resolve, reject) => {
+  if (signal?.aborted) return reject(signal.reason);
+  const onAbort = () => {
+    clearTimeout(timer);
+    reject(signal!.reason);
+  };
+  const timer = setTimeout(() => {
+    signal?.removeEventListener('abort', onAbort);
+    resolve();
+  }, ms);
+  signal?.addEventListener('abort', onAbort, { once: true });
+});
+
+const NETWORK_ERROR_CODES = ['ECONNREFUSED', 'ECONNRESET', 'ENOTFOUND', 'ETIMEDOUT', 'EAI_AGAIN', 'UND_ERR_SOCKET', 'UND_ERR_CONNECT_TIMEOUT'];
+
+const isNetworkError = (err: unknown) => {
+  const cause = (err as { cause?: { code?: string } })?.cause;
+  return (err instanceof TypeError && /fetch failed/i.test(err.message))
+    || NETWORK_ERROR_CODES.includes(cause?.code ?? '');
+};
+
+export const errorForStatus = (status: number) => {
+  if (status === 429) {
+    return new ModelError(429, 'QUOTA_EXCEEDED', "The AI provider's rate limit or quota was reached.", true);
+  }
+  if (status === 408 || status >= 500) {
+    return new ModelError(502, 'MODEL_ERROR', `The AI service is having problems (HTTP ${status}).`, true);
+  }
+  return new ModelError(502, 'MODEL_ERROR', `The AI service rejected the request (HTTP ${status}).`);
+};
+
+export const safetyBlocked = () =>
+  new ModelError(422, 'SAFETY_BLOCKED', 'The AI provider blocked this request for safety reasons.');
+
+// Sorts a provider failure into something the client can explain.
+export const toModelError = (err: unknown, label: string, signal?: AbortSignal) => {
+  // Cancelled by the client: nobody is waiting for a response, so don't log.
+  if (signal?.aborted) return err;
+  if (err instanceof HttpError) return err;
+  console.error(`${label} request failed:`, err);
+  const status = (err as { status?: unknown })?.status;
+  if (typeof status === 'number') return errorForStatus(status);
+  if (isNetworkError(err)) {
+    return new ModelError(502, 'MODEL_UNREACHABLE', `Could not reach ${label}.`, true);
+  }
+  return new ModelError(502, 'MODEL_ERROR', 'The AI service request failed.');
+};
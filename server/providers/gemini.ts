@@ -0,0 +1,97 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { FinishReason, GoogleGenAI } from "@google/genai";
+import type { GenerateContentResponse, GenerateContentResponseUsageMetadata } from "@google/genai";
+import { HttpError } from '../errors';
+import { safetyBlocked, toModelError } from './base';
+import type { ModelCall, ModelProvider, TokenUsage } from './base';
+import { PROVIDERS } from '../../src/lib/providers';
+
+let client: GoogleGenAI | null = null;
+
+const getClient = () => {
+  if (!process.env.GEMINI_API_KEY) {
+    throw new HttpError(500, 'MISSING_API_KEY', 'GEMINI_API_KEY is not configured on the server.');
+  }
+  client ??= new GoogleGenAI({ apiKey: process.env.GEMINI_API_KEY });
+  return client;
+};
+
+const BLOCKED_FINISH_REASONS: (FinishReason | undefined)[] = [
+  FinishReason.SAFETY,
+  FinishReason.BLOCKLIST,
+  FinishReason.PROHIBITED_CONTENT,
+  FinishReason.SPII,
+];
+
+// Blocked responses come back as a success with no text.
+const checkBlocked = (response: GenerateContentResponse) => {
+  if (response.promptFeedback?.blockReason || BLOCKED_FINISH_REASONS.includes(response.candidates?.[0]?.finishReason)) {
+    throw safetyBlocked();
+  }
+};
+
+// Thinking tokens are billed as output.
+const usageOf = (metadata?: GenerateContentResponseUsageMetadata): TokenUsage | undefined =>
+  metadata?.promptTokenCount === undefined ? undefined : {
+    inputTokens: metadata.promptTokenCount,
+    outputTokens: (metadata.candidatesTokenCount ?? 0) + (metadata.thoughtsTokenCount ?? 0),
+  };
+
+const paramsFor = (model: string, call: ModelCall, signal?: AbortSignal) => ({
+  model,
+  contents: call.images?.length
+    ? [{
+      parts: [
+        { text: call.prompt },
+        ...call.images.map(image => ({ inlineData: { mimeType: image.mimeType, data: image.data } })),
+      ]
+    }]
+    : call.prompt,
+  config: {
+    tools: call.browse ? [{ urlContext: {} }] : [],
+    responseMimeType: "application/json",
+    responseSchema: call.schema,
+    abortSignal: signal,
+  }
+});
+
+export const geminiProvider = (model: string): ModelProvider => ({
+  info: PROVIDERS.gemini,
+  model,
+
+  async complete(call, signal) {
+    const ai = getClient();
+    try {
+      const response = await ai.models.generateContent(paramsFor(model, call, signal));
+      checkBlocked(response);
+      return { text: response.text ?? '', usage: usageOf(response.usageMetadata) };
+    } catch (err) {
+      throw toModelError(err, 'Gemini', signal);
+    }
+  },
+
+  async stream(call, onText, signal) {
+    const ai = getClient();
+    let text = '';
+    // Each chunk carries the running totals; the last one has the final count.
+    let usage: TokenUsage | undefined;
+    try {
+      const stream = await ai.models.generateContentStream(paramsFor(model, call, signal));
+      for await (const chunk of stream) {
+        checkBlocked(chunk);
+        usage = usageOf(chunk.usageMetadata) ?? usage;
+        const delta = chunk.text ?? '';
+        if (!delta) continue;
+        text += delta;
+        onText?.(delta);
+      }
+    } catch (err) {
+      throw toModelError(err, 'Gemini', signal);
+    }
+    return { text, usage };
+  },
+});
@@ -0,0 +1,58 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { getSetting, setSetting } from '../db';
+import { geminiProvider } from './gemini';
+import { mockProvider } from './mock';
+import { openAiProvider } from './openai';
+import type { ModelProvider } from './base';
+import { DEFAULT_OPENAI_BASE_URL, DEFAULT_PROVIDER, PROVIDER_IDS, PROVIDERS } from '../../src/lib/providers';
+import type { ProviderId } from '../../src/lib/providers';
+import type { ProviderSettings } from '../../src/types';
+
+export { delay } from './base';
+export type { ModelCall, ModelProvider, ModelResponse, ModelTask, TokenUsage } from './base';
+
+const SETTINGS_KEY = 'provider';
+
+// The server OPENAI_API_KEY belongs to. Base URLs saved from the settings
+// panel get no key, so changing the URL cannot send it somewhere else.
+const envBaseUrl = () => (process.env.OPENAI_BASE_URL || DEFAULT_OPENAI_BASE_URL).replace(/\/+$/, '');
+
+// Used until settings are saved from the UI. AI_PROVIDER=mock runs the whole
+// app offline.
+const defaultSettings = (): ProviderSettings => {
+  const provider = PROVIDER_IDS.includes(process.env.AI_PROVIDER as ProviderId)
+    ? process.env.AI_PROVIDER as ProviderId
+    : DEFAULT_PROVIDER;
+  return {
+    provider,
+    model: process.env.AI_MODEL || PROVIDERS[provider].defaultModel,
+    ...(PROVIDERS[provider].usesBaseUrl ? { baseUrl: envBaseUrl() } : {}),
+  };
+};
+
+export const getProviderSettings = (): ProviderSettings =>
+  getSetting<ProviderSettings>(SETTINGS_KEY) ?? defaultSettings();
+
+export const saveProviderSettings = (settings: ProviderSettings): ProviderSettings => {
+  setSetting(SETTINGS_KEY, settings);
+  return settings;
+};
+
+// Read per call, so a change in the settings panel applies to the next request.
+export const getProvider = (): ModelProvider => {
+  const { provider, model, baseUrl } = getProviderSettings();
+  switch (provider) {
+    case 'openai': {
+      const url = baseUrl ?? envBaseUrl();
+      return openAiProvider(model, url, url === envBaseUrl() ? process.env.OPENAI_API_KEY : undefined);
+    }
+    case 'mock':
+      return mockProvider(model);
+    default:
+      return geminiProvider(model);
+  }
+};
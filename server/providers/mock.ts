@@ -0,0 +1,243 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+// Offline provider for demos and testing. Answers are built from fixtures and
+// the request itself, so the same input always gives the same output.
+
+import { delay } from './base';
+import type { ModelProvider, ModelTask } from './base';
+import { ANGLE_IDS } from '../../src/lib/angles';
+import type { ComplianceMatch } from '../../src/lib/compliance';
+import { HOOK_FRAMEWORK_IDS } from '../../src/lib/hooks';
+import type { HookFramework } from '../../src/lib/hooks';
+import { getLanguage } from '../../src/lib/languages';
+import { PROVIDERS } from '../../src/lib/providers';
+import { GRADED_CRITERIA, heuristicScores } from '../../src/lib/scoring';
+import { SECTIONS, SHOT_TYPES } from '../../src/types';
+import type { HookIdea, ProductAnalysis, ReviewTheme, ScriptRequest, ScriptSection, ScriptVariation, StoryboardShot } from '../../src/types';
+
+const ANALYSIS: ProductAnalysis = {
+  productName: 'HydraGlow Vitamin C Serum',
+  mainProblem: 'Dull, uneven skin that makeup only covers up',
+  keyBenefit: 'Visibly brighter skin in two weeks',
+  secondaryBenefits: ['Absorbs in seconds', 'Fragrance-free', 'One bottle lasts three months'],
+  visibleFeatures: ['Amber glass dropper bottle', 'Lightweight golden serum', 'Minimal white label'],
+};
+
+const lower = (text: string) => text.charAt(0).toLowerCase() + text.slice(1);
+
+const HOOKS: ((input: ScriptRequest) => string)[] = [
+  ({ mainProblem }) => `Still dealing with ${lower(mainProblem)}? Watch this.`,
+  ({ productName }) => `I didn't expect ${productName} to actually work.`,
+  () => `Stop scrolling if you've tried everything already.`,
+  ({ keyBenefit }) => `${keyBenefit}. No, really.`,
+];
+
+const PROBLEMS: ((input: ScriptRequest) => string)[] = [
+  ({ mainProblem }) => `For months it was ${lower(mainProblem)}, and nothing I bought made a difference.`,
+  ({ mainProblem }) => `${mainProblem}. Sound familiar? I was done wasting money on fixes that don't last.`,
+  ({ mainProblem }) => `Every morning started the same way: ${lower(mainProblem)}.`,
+];
+
+const SOLUTIONS: ((input: ScriptRequest) => string)[] = [
+  ({ productName, keyBenefit }) => `Then I found ${productName}. ${keyBenefit}, and it fits into the routine I already have.`,
+  ({ productName, keyBenefit }) => `${productName} changed that. ${keyBenefit} without any extra effort.`,
+  ({ productName, keyBenefit, secondaryBenefits }) => `With ${productName} I get ${lower(keyBenefit)}${secondaryBenefits?.[0] ? `, plus ${lower(secondaryBenefits[0])}` : ''}.`,
+];
+
+const CTAS = [
+  'Tap the link and try it for yourself.',
+  'Grab yours before it sells out again.',
+  'Link below. Thank me later.',
+];
+
+const HOOKS_BY_FRAMEWORK: Record<HookFramework, (input: ScriptRequest) => string> = {
+  question: ({ mainProblem }) => `Is ${lower(mainProblem)} ruining your day too?`,
+  pov: ({ productName }) => `POV: you finally tried ${productName}.`,
+  'bold-claim': ({ keyBenefit }) => `${keyBenefit}. I'll prove it.`,
+  statistic: ({ productName }) => `9 out of 10 people keep using ${productName} after one week.`,
+  negative: () => `Stop buying fixes that only last an hour.`,
+  storytime: () => `Storytime: the product my best friend wouldn't stop texting me about.`,
+  'pattern-interrupt': ({ mainProblem }) => `Stop scrolling if ${lower(mainProblem)} sounds like you.`,
+};
+
+const pick = <T>(items: T[], idx: number) => items[idx % items.length];
+
+// Four shots spread over the duration, one per section.
+const shotsFor = (variation: Omit<ScriptVariation, 'shots'>, duration: number): StoryboardShot[] => {
+  const marks = [0, 0.2, 0.45, 0.8, 1].map(mark => Math.round(mark * duration * 10) / 10);
+  return SECTIONS.map((section, idx) => ({
+    section,
+    shotType: pick([...SHOT_TYPES], idx),
+    overlay: variation[section].split(/\s+/).slice(0, 4).join(' '),
+    direction: `Creator delivers the ${section} line to camera.`,
+    start: marks[idx],
+    end: marks[idx + 1],
+  }));
+};
+
+const scriptFor = (input: ScriptRequest, idx: number): ScriptVariation => {
+  // Each angle starts from different fixtures, so matrix cells differ.
+  const take = idx + (input.angle ? ANGLE_IDS.indexOf(input.angle) : 0);
+  const script = {
+    id: idx + 1,
+    hook: input.fixedHook ?? pick(HOOKS, take)(input),
+    problem: pick(PROBLEMS, take)(input),
+    solution: pick(SOLUTIONS, take)(input),
+    cta: pick(CTAS, take),
+  };
+  return input.storyboard ? { ...script, shots: shotsFor(script, Number(input.duration)) } : script;
+};
+
+// A different take on one section: the next fixture that differs from it.
+const alternativeFor = (input: ScriptRequest, variation: ScriptVariation, section: ScriptSection) => {
+  const options: Record<ScriptSection, string[]> = {
+    hook: HOOKS.map(hook => hook(input)),
+    problem: PROBLEMS.map(problem => problem(input)),
+    solution: SOLUTIONS.map(solution => solution(input)),
+    cta: CTAS,
+  };
+  const current = options[section].indexOf(variation[section]);
+  return pick(options[section], current + 1);
+};
+
+const shorten = (text: string, units: number, input: ScriptRequest) =>
+  getLanguage(input.language).unit === 'characters'
+    ? [...text].slice(0, units).join('')
+    : text.split(/\s+/).slice(0, units).join(' ');
+
+const lengthOf = (text: string, input: ScriptRequest) =>
+  getLanguage(input.language).unit === 'characters' ? [...text].length : text.split(/\s+/).length;
+
+// Shortens what is around the kept phrases and puts them back at the end.
+const shortenKeeping = (text: string, units: number, input: ScriptRequest, keep: string[]) => {
+  const kept = keep.filter(phrase => text.includes(phrase));
+  const rest = kept.reduce((remaining, phrase) => remaining.replace(phrase, ' '), text).replace(/\s+/g, ' ').trim();
+  const room = units - kept.reduce((sum, phrase) => sum + lengthOf(phrase, input), 0);
+  return [room > 0 ? shorten(rest, room, input) : '', ...kept].filter(Boolean).join(' ');
+};
+
+// Offline compliance fixes drop the flagged phrases. A section left with
+// nothing gets a different fixture instead.
+const withoutFlagged = (input: ScriptRequest, variation: ScriptVariation, flagged: ComplianceMatch[]) =>
+  Object.fromEntries(SECTIONS.map(section => {
+    const text = variation[section];
+    const removed = flagged.filter(match => match.section === section);
+    // Match offsets are UTF-16 indexes, as are slice's.
+    let kept = '';
+    let from = 0;
+    for (const { start, end } of [...removed].sort((a, b) => a.start - b.start)) {
+      if (start > from) kept += text.slice(from, start);
+      from = Math.max(from, end);
+    }
+    kept += text.slice(from);
+    const tidied = kept.replace(/\s+/g, ' ').replace(/\s+([,.!?;:])/g, '$1').replace(/^[\s,;:]+/, '').trim();
+    return [section, tidied || alternativeFor(input, variation, section)];
+  }));
+
+const SHORTER = /\b(short(er|en)?|trim|cut|tight(er|en)?|concise|brief(er)?)\b/i;
+
+// Offline refinements: asking for something shorter cuts every section by a
+// third; any other instruction gets the next fixture hook.
+const refine = (input: ScriptRequest, variation: ScriptVariation, instruction: string) =>
+  Object.fromEntries(SECTIONS.map(section => [
+    section,
+    SHORTER.test(instruction)
+      ? shorten(variation[section], Math.ceil(lengthOf(variation[section], input) * 2 / 3), input)
+      : section === 'hook' ? alternativeFor(input, variation, section) : variation[section],
+  ]));
+
+// Sentences are sorted into themes by keyword, checked in this order.
+const REVIEW_KEYWORDS: [ReviewTheme, RegExp, string, string][] = [
+  ['objection', /\b(but|expensive|pric(e|ey)|wish|however|return(ed)?|refund|disappoint\w*|smell\w*)\b/i, 'Doubts and complaints', 'Some buyers were unsure it was worth it.'],
+  ['pain', /\b(used to|before|tired of|struggl\w*|nothing (else )?worked|problem|hated?|always had)\b/i, 'Life before the product', 'Customers were fed up with a problem nothing else fixed.'],
+  ['outcome', /\b(now|finally|love[sd]?|works?|better|results?|recommend\w*|obsessed)\b/i, 'Results customers love', 'Customers finally got the result they wanted.'],
+];
+
+const mineReviews = (reviews: string[]) => {
+  const matches = new Map<ReviewTheme, { quotes: string[]; reviews: Set<number> }>();
+  reviews.forEach((review, idx) => {
+    for (const sentence of review.match(/[^.!?]+[.!?]*/g) ?? []) {
+      const found = REVIEW_KEYWORDS.find(([, pattern]) => pattern.test(sentence));
+      if (!found) continue;
+      const match = matches.get(found[0]) ?? { quotes: [], reviews: new Set<number>() };
+      match.quotes.push(sentence.trim());
+      match.reviews.add(idx + 1);
+      matches.set(found[0], match);
+    }
+  });
+  return REVIEW_KEYWORDS.flatMap(([theme, , label, summary]) => {
+    const match = matches.get(theme);
+    return match ? [{ theme, label, summary, quotes: match.quotes.slice(0, 4), reviews: [...match.reviews] }] : [];
+  });
+};
+
+const respond = (task: ModelTask): unknown => {
+  switch (task.kind) {
+    case 'analysis':
+      return ANALYSIS;
+    case 'scripts':
+      return Array.from({ length: task.count }, (_, idx) => scriptFor(task.input, idx));
+    case 'hooks':
+      return Array.from({ length: task.count }, (_, idx): HookIdea => {
+        const framework = pick([...HOOK_FRAMEWORK_IDS], idx);
+        return { framework, text: HOOKS_BY_FRAMEWORK[framework](task.input) };
+      });
+    case 'section':
+      return { text: alternativeFor(task.input, task.variation, task.section) };
+    case 'transitions':
+      return Object.fromEntries(SECTIONS.map(section => [section, task.variation[section]]));
+    case 'revision': {
+      if (task.instruction !== undefined) return refine(task.input, task.variation, task.instruction);
+      if (task.flagged) return withoutFlagged(task.input, task.variation, task.flagged);
+      const { targets = {}, keep = [] } = task;
+      return Object.fromEntries(SECTIONS.map(section => [
+        section,
+        targets[section] === undefined ? task.variation[section] : shortenKeeping(task.variation[section], targets[section]!, task.input, keep),
+      ]));
+    }
+    case 'localize': {
+      const tag = `[${task.language.toUpperCase()}]`;
+      return {
+        ...Object.fromEntries(SECTIONS.map(section => [section, `${tag} ${task.variation[section]}`])),
+        overlays: task.variation.shots?.map(shot => `${tag} ${shot.overlay}`) ?? [],
+      };
+    }
+    case 'grade':
+      // Agrees with the heuristics, to the nearest whole point.
+      return task.variations.map(variation => {
+        const heuristics = heuristicScores(variation, task.input);
+        return Object.fromEntries(GRADED_CRITERIA.map(criterion => [
+          criterion,
+          { score: Math.round(heuristics[criterion].score), note: `Mock grade. ${heuristics[criterion].note}.` },
+        ]));
+      });
+    case 'reviews':
+      return mineReviews(task.reviews);
+  }
+};
+
+const CHUNK_SIZE = 40;
+// Paced so the streaming UI has something to show.
+const CHUNK_DELAY_MS = 15;
+
+export const mockProvider = (model: string): ModelProvider => ({
+  info: PROVIDERS.mock,
+  model,
+
+  async complete(call, signal) {
+    await delay(0, signal);
+    return { text: JSON.stringify(respond(call.task)) };
+  },
+
+  async stream(call, onText, signal) {
+    const text = JSON.stringify(respond(call.task));
+    for (let offset = 0; offset < text.length; offset += CHUNK_SIZE) {
+      await delay(CHUNK_DELAY_MS, signal);
+      onText?.(text.slice(offset, offset + CHUNK_SIZE));
+    }
+    return { text };
+  },
+});
@@ -0,0 +1,147 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+// Talks to any server implementing OpenAI's /chat/completions, which covers
+// OpenAI itself and local runners such as Ollama and llama.cpp.
+
+import type { Schema } from '@google/genai';
+import { errorForStatus, safetyBlocked, toModelError } from './base';
+import type { ModelCall, ModelProvider, TokenUsage } from './base';
+import { PROVIDERS } from '../../src/lib/providers';
+
+// Gemini schemas use upper-case type names and string counts; JSON Schema
+// wants lower-case names and numbers.
+const toJsonSchema = (schema: Schema): Record<string, unknown> => ({
+  ...(schema.type ? { type: schema.type.toLowerCase() } : {}),
+  ...(schema.enum ? { enum: schema.enum } : {}),
+  ...(schema.properties ? {
+    properties: Object.fromEntries(Object.entries(schema.properties).map(([key, value]) => [key, toJsonSchema(value)])),
+  } : {}),
+  ...(schema.required ? { required: schema.required } : {}),
+  ...(schema.items ? { items: toJsonSchema(schema.items) } : {}),
+  ...(schema.minItems !== undefined ? { minItems: Number(schema.minItems) } : {}),
+  ...(schema.maxItems !== undefined ? { maxItems: Number(schema.maxItems) } : {}),
+  ...(schema.minimum !== undefined ? { minimum: schema.minimum } : {}),
+  ...(schema.maximum !== undefined ? { maximum: schema.maximum } : {}),
+});
+
+const requestBody = (model: string, call: ModelCall, stream: boolean) => ({
+  model,
+  stream,
+  // Adds a final chunk with the token counts.
+  ...(stream ? { stream_options: { include_usage: true } } : {}),
+  messages: [{
+    role: 'user',
+    content: call.images?.length
+      ? [
+        { type: 'text', text: call.prompt },
+        ...call.images.map(image => ({ type: 'image_url', image_url: { url: `data:${image.mimeType};base64,${image.data}` } })),
+      ]
+      : call.prompt,
+  }],
+  response_format: {
+    type: 'json_schema',
+    json_schema: { name: 'response', schema: toJsonSchema(call.schema) },
+  },
+});
+
+interface Usage {
+  prompt_tokens?: number;
+  completion_tokens?: number;
+}
+
+interface CompletionResponse {
+  choices?: { finish_reason?: string; message?: { content?: string; refusal?: string } }[];
+  usage?: Usage;
+}
+
+interface StreamChunk {
+  choices?: { finish_reason?: string; delta?: { content?: string; refusal?: string } }[];
+  usage?: Usage | null;
+}
+
+const usageOf = (usage?: Usage | null): TokenUsage | undefined =>
+  usage?.prompt_tokens === undefined ? undefined : {
+    inputTokens: usage.prompt_tokens,
+    outputTokens: usage.completion_tokens ?? 0,
+  };
+
+// `apiKey` is only passed for the base URL it was configured with.
+export const openAiProvider = (model: string, baseUrl: string, apiKey?: string): ModelProvider => {
+  const post = async (call: ModelCall, stream: boolean, signal?: AbortSignal) => {
+    let response: Response;
+    try {
+      response = await fetch(`${baseUrl}/chat/completions`, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          ...(apiKey ? { Authorization: `Bearer ${apiKey}` } : {}),
+        },
+        body: JSON.stringify(requestBody(model, call, stream)),
+        signal,
+      });
+    } catch (err) {
+      throw toModelError(err, `OpenAI-compatible (${baseUrl})`, signal);
+    }
+    if (!response.ok) {
+      const detail = await response.text().catch(() => '');
+      console.error(`OpenAI-compatible request failed with ${response.status}:`, detail);
+      throw errorForStatus(response.status);
+    }
+    return response;
+  };
+
+  return {
+    info: PROVIDERS.openai,
+    model,
+
+    async complete(call, signal) {
+      const response = await post(call, false, signal);
+      let body: CompletionResponse;
+      try {
+        body = await response.json() as CompletionResponse;
+      } catch (err) {
+        throw toModelError(err, 'OpenAI-compatible', signal);
+      }
+      const choice = body.choices?.[0];
+      if (choice?.finish_reason === 'content_filter' || choice?.message?.refusal) throw safetyBlocked();
+      return { text: choice?.message?.content ?? '', usage: usageOf(body.usage) };
+    },
+
+    // Server-sent events: one "data: {json}" line per chunk, then "data: [DONE]".
+    async stream(call, onText, signal) {
+      const response = await post(call, true, signal);
+      const reader = response.body!.getReader();
+      const decoder = new TextDecoder();
+      let buffer = '';
+      let text = '';
+      let usage: TokenUsage | undefined;
+      try {
+        while (true) {
+          const { done, value } = await reader.read();
+          if (done) break;
+          buffer += decoder.decode(value, { stream: true });
+          const lines = buffer.split('\n');
+          buffer = lines.pop() ?? '';
+          for (const line of lines) {
+            const data = line.trim().replace(/^data:\s*/, '');
+            if (!line.startsWith('data:') || data === '[DONE]') continue;
+            const chunk = JSON.parse(data) as StreamChunk;
+            usage = usageOf(chunk.usage) ?? usage;
+            const choice = chunk.choices?.[0];
+            if (choice?.finish_reason === 'content_filter' || choice?.delta?.refusal) throw safetyBlocked();
+            const delta = choice?.delta?.content ?? '';
+            if (!delta) continue;
+            text += delta;
+            onText?.(delta);
+          }
+        }
+      } catch (err) {
+        throw toModelError(err, 'OpenAI-compatible', signal);
+      }
+      return { text, usage };
+    },
+  };
+};
@@ -0,0 +1,167 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+// Fetches product pages and their images on the client's behalf. The URLs
+// come from users, so only public addresses are allowed (including after
+// redirects), and responses are capped in size and time.
+
+import { lookup } from 'dns';
+import type { LookupAddress } from 'dns';
+import http from 'http';
+import type { IncomingMessage } from 'http';
+import https from 'https';
+import { isIP } from 'net';
+import type { LookupFunction } from 'net';
+import { HttpError } from './errors';
+import { extractProductPage } from './extract';
+import type { ProductPage } from '../src/types';
+
+const FETCH_TIMEOUT_MS = 10000;
+const MAX_REDIRECTS = 5;
+export const MAX_PAGE_BYTES = 3 * 1024 * 1024;
+export const MAX_IMAGE_BYTES = 10 * 1024 * 1024;
+
+const USER_AGENT = 'Mozilla/5.0 (compatible; VidPromt/1.0)';
+
+const fetchFailed = (message: string) => new HttpError(502, 'FETCH_FAILED', message);
+
+const isPrivateV4 = (address: string) => {
+  const [a, b] = address.split('.').map(Number);
+  return a === 0 || a === 10 || a === 127
+    || (a === 100 && b >= 64 && b <= 127)
+    || (a === 169 && b === 254)
+    || (a === 172 && b >= 16 && b <= 31)
+    || (a === 192 && b === 168)
+    || a >= 224;
+};
+
+const isPrivateAddress = (address: string) => {
+  if (isIP(address) === 4) return isPrivateV4(address);
+  const lower = address.toLowerCase();
+  const mapped = /^::ffff:(\d+\.\d+\.\d+\.\d+)$/.exec(lower);
+  if (mapped) return isPrivateV4(mapped[1]);
+  return lower === '::' || lower === '::1' || /^f[cd]/.test(lower) || /^fe[89ab]/.test(lower);
+};
+
+const notPublic = () => new HttpError(400, 'INVALID_REQUEST', 'Only public web addresses can be fetched.');
+
+// Host names are checked by the lookup the connection itself uses, so a name
+// cannot resolve to a public address for the check and a private one for the
+// request. Hosts given as addresses never reach it and are checked up front.
+const publicLookup: LookupFunction = (hostname, options, callback) => {
+  lookup(hostname, { ...options, all: true }, (err, addresses) => {
+    if (err || addresses.length === 0) {
+      callback(fetchFailed(`Could not find ${hostname}.`), '', 0);
+    } else if (addresses.some(({ address }) => isPrivateAddress(address))) {
+      callback(notPublic(), '', 0);
+    } else if ((options as { all?: boolean }).all) {
+      (callback as unknown as (err: null, addresses: LookupAddress[]) => void)(null, addresses);
+    } else {
+      callback(null, addresses[0].address, addresses[0].family);
+    }
+  });
+};
+
+const assertPublicUrl = (url: URL) => {
+  if (url.protocol !== 'http:' && url.protocol !== 'https:') {
+    throw new HttpError(400, 'INVALID_REQUEST', 'Only http(s) addresses can be fetched.');
+  }
+  const host = url.hostname.replace(/^\[|\]$/g, '');
+  if (isIP(host) && isPrivateAddress(host)) throw notPublic();
+};
+
+const get = (url: URL, accept: string, signal: AbortSignal) => new Promise<IncomingMessage>((resolve, reject) => {
+  const client = url.protocol === 'https:' ? https : http;
+  client.get(url, {
+    headers: { 'User-Agent': USER_AGENT, Accept: accept, 'Accept-Encoding': 'identity' },
+    lookup: publicLookup,
+    signal,
+  }, resolve).on('error', reject);
+});
+
+// Reads the body up to `maxBytes`, failing instead of buffering more.
+const readLimited = async (response: IncomingMessage, maxBytes: number) => {
+  const declared = Number(response.headers['content-length']);
+  if (declared > maxBytes) throw fetchFailed('The file is too large.');
+
+  const chunks: Buffer[] = [];
+  let size = 0;
+  for await (const chunk of response as AsyncIterable<Buffer>) {
+    size += chunk.byteLength;
+    if (size > maxBytes) throw fetchFailed('The file is too large.');
+    chunks.push(chunk);
+  }
+  return Buffer.concat(chunks);
+};
+
+export interface RemoteFile {
+  // After redirects.
+  url: string;
+  contentType: string;
+  body: Buffer;
+}
+
+export const fetchRemote = async (
+  rawUrl: string,
+  options: { accept: string; maxBytes: number; signal?: AbortSignal }
+): Promise<RemoteFile> => {
+  const timeout = AbortSignal.timeout(FETCH_TIMEOUT_MS);
+  const signal = options.signal ? AbortSignal.any([options.signal, timeout]) : timeout;
+  let url = new URL(rawUrl);
+
+  try {
+    for (let redirects = 0; ; redirects++) {
+      assertPublicUrl(url);
+      const response = await get(url, options.accept, signal);
+      const status = response.statusCode ?? 0;
+      const location = response.headers.location;
+      if (status < 200 || status >= 300) response.resume();
+      if (status >= 300 && status < 400 && location) {
+        if (redirects >= MAX_REDIRECTS) throw fetchFailed('Too many redirects.');
+        url = new URL(location, url);
+        continue;
+      }
+      if (status < 200 || status >= 300) throw fetchFailed(`${url.hostname} answered with HTTP ${status}.`);
+      try {
+        return {
+          url: url.href,
+          contentType: response.headers['content-type'] ?? '',
+          body: await readLimited(response, options.maxBytes),
+        };
+      } finally {
+        response.destroy();
+      }
+    }
+  } catch (err) {
+    if (err instanceof HttpError || options.signal?.aborted) throw err;
+    if (timeout.aborted) throw fetchFailed(`${url.hostname} took too long to answer.`);
+    console.error('Remote fetch failed:', err);
+    throw fetchFailed(`Could not load ${url.hostname}.`);
+  }
+};
+
+// Decodes with the charset the server declared, falling back to UTF-8.
+export const decodeText = ({ contentType, body }: RemoteFile) => {
+  const charset = /charset=["']?([\w-]+)/i.exec(contentType)?.[1];
+  try {
+    return new TextDecoder(charset ?? 'utf-8').decode(body);
+  } catch {
+    return new TextDecoder('utf-8').decode(body);
+  }
+};
+
+// The page's product details, or null if it could not be fetched or read;
+// URL analysis then falls back to what the model can find by itself.
+export const fetchProductPage = async (url: string, signal?: AbortSignal): Promise<ProductPage | null> => {
+  try {
+    const file = await fetchRemote(url, { accept: 'text/html,application/xhtml+xml', maxBytes: MAX_PAGE_BYTES, signal });
+    if (!/html|xml/i.test(file.contentType)) return null;
+    return extractProductPage(decodeText(file), file.url);
+  } catch (err) {
+    if (signal?.aborted) throw err;
+    console.warn(`Product page extraction failed for ${url}:`, err instanceof Error ? err.message : err);
+    return null;
+  }
+};
@@ -0,0 +1,493 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { randomBytes } from 'crypto';
+import express from 'express';
+import { canReview, REVIEW_DECISIONS } from '../src/lib/approval';
+import { DEFAULT_BRIEF_SETTINGS } from '../src/lib/brief';
+import { checkCompliance, isCompliant } from '../src/lib/compliance';
+import { builtInVersion } from '../src/lib/prompts';
+import { isExpired } from '../src/lib/share';
+import type { BriefSettings, GenerationEvent, ScriptRequest } from '../src/types';
+import {
+  addComment,
+  addVariation,
+  countAdmins,
+  createBrandProfile,
+  createPersona,
+  createShare,
+  deleteBrandProfile,
+  deleteComment,
+  deletePersona,
+  deleteRun,
+  getBrandProfile,
+  getComment,
+  getPersona,
+  getRun,
+  getSetting,
+  getShare,
+  getUser,
+  hasUsers,
+  listActivity,
+  listBoard,
+  listBrandProfiles,
+  listComments,
+  listPersonas,
+  listPromptVersions,
+  listRuns,
+  listShares,
+  listUsers,
+  revokeShare,
+  savePromptVersion,
+  saveRun,
+  setSetting,
+  updateBrandProfile,
+  updatePersona,
+  updateUserRole,
+  updateVariation,
+} from './db';
+import { addUser, requireAdmin, requireUser, sessionUser, setUp, signIn, signOut } from './auth';
+import { asyncHandler, clientAbortSignal, HttpError, toErrorResponse } from './errors';
+import {
+  analyzeImages,
+  analyzeUrl,
+  fitToDuration,
+  fixCompliance,
+  generateHooks,
+  generateScripts,
+  gradeVariations,
+  localizeVariation,
+  mineReviews,
+  previewPrompt,
+  refineVariation,
+  regenerateSection,
+  smoothTransitions,
+} from './ai';
+import type { BrandedRequest } from './ai';
+import { getProviderSettings, saveProviderSettings } from './providers';
+import { fetchRemote, MAX_IMAGE_BYTES } from './remote';
+import { saveUsageQuotas, trackUser, usageReport } from './usage';
+import {
+  parseAddVariationBody,
+  parseBoardStatus,
+  parseBrandProfileBody,
+  parseBriefSettingsBody,
+  parseCommentBody,
+  parseCredentialsBody,
+  parseGradeBody,
+  parseHooksBody,
+  parseId,
+  parseImagesBody,
+  parseLocalizeBody,
+  parseNewUserBody,
+  parsePersonaBody,
+  parsePromptPreviewBody,
+  parsePromptTemplateBody,
+  parseProviderSettingsBody,
+  parseRefineBody,
+  parseRegenerateBody,
+  parseReviewsBody,
+  parseRoleBody,
+  parseSaveRunBody,
+  parseScriptRequest,
+  parseShareBody,
+  parseShareToken,
+  parseTemplateId,
+  parseUrlBody,
+  parseUsageQuotasBody,
+  parseVariationBody,
+  parseVariationPatch,
+} from './validation';
+
+export const apiRouter = express.Router();
+
+// Model calls made while handling a request count towards its user's usage.
+apiRouter.use(trackUser);
+
+const BRIEF_SETTINGS_KEY = 'briefSettings';
+
+// Loads the brand profile and persona a request refers to, so prompts can
+// include their rules.
+const withBrand = (input: ScriptRequest): BrandedRequest => {
+  const brand = input.brandProfileId === undefined ? undefined : getBrandProfile(input.brandProfileId);
+  if (brand === null) throw new HttpError(404, 'NOT_FOUND', 'Brand profile not found.');
+  const persona = input.personaId === undefined ? undefined : getPersona(input.personaId);
+  if (persona === null) throw new HttpError(404, 'NOT_FOUND', 'Persona not found.');
+  return { ...input, brand, persona };
+};
+
+apiRouter.get('/health', (_req, res) => {
+  res.json({ status: 'ok' });
+});
+
+apiRouter.post('/analyze-image', asyncHandler(async (req, res) => {
+  const { images } = parseImagesBody(req.body);
+  res.json(await analyzeImages(images, clientAbortSignal(res)));
+}));
+
+apiRouter.post('/analyze-url', asyncHandler(async (req, res) => {
+  const { url } = parseUrlBody(req.body);
+  res.json(await analyzeUrl(url, clientAbortSignal(res)));
+}));
+
+// Proxies images found on product pages, which the browser cannot read
+// cross-origin, so they can go through the photo analyzer like uploads.
+apiRouter.get('/page-image', asyncHandler(async (req, res) => {
+  const { url } = parseUrlBody({ url: req.query.url });
+  const image = await fetchRemote(url, { accept: 'image/*', maxBytes: MAX_IMAGE_BYTES, signal: clientAbortSignal(res) });
+  if (!image.contentType.startsWith('image/')) {
+    throw new HttpError(502, 'FETCH_FAILED', 'That link is not an image.');
+  }
+  res.type(image.contentType).setHeader('Cache-Control', 'private, max-age=3600');
+  res.send(image.body);
+}));
+
+// Streams newline-delimited GenerationEvents. Errors raised before the first
+// chunk still get a regular JSON error response with the matching status.
+apiRouter.post('/generate-scripts', asyncHandler(async (req, res) => {
+  const input = withBrand(parseScriptRequest(req.body));
+  const signal = clientAbortSignal(res);
+  const send = (event: GenerationEvent) => {
+    if (!res.headersSent) {
+      res.status(200).type('application/x-ndjson').setHeader('Cache-Control', 'no-cache');
+    }
+    res.write(`${JSON.stringify(event)}\n`);
+  };
+
+  try {
+    const { variations, promptVersion } = await generateScripts(input, {
+      signal,
+      onText: (text) => send({ type: 'delta', text }),
+      onRestart: () => send({ type: 'restart' }),
+    });
+    send({ type: 'done', variations, promptVersion });
+    res.end();
+  } catch (err) {
+    if (signal.aborted) return;
+    if (!res.headersSent) throw err;
+    send({ type: 'error', error: toErrorResponse(err).body.error });
+    res.end();
+  }
+}));
+
+apiRouter.post('/hooks', asyncHandler(async (req, res) => {
+  const { input, count } = parseHooksBody(req.body);
+  res.json({ hooks: await generateHooks(withBrand(input), count, clientAbortSignal(res)) });
+}));
+
+apiRouter.post('/regenerate-section', asyncHandler(async (req, res) => {
+  const { input, variation, section } = parseRegenerateBody(req.body);
+  res.json(await regenerateSection(withBrand(input), variation, section, clientAbortSignal(res)));
+}));
+
+apiRouter.post('/refine-variation', asyncHandler(async (req, res) => {
+  const { input, variation, instruction } = parseRefineBody(req.body);
+  res.json(await refineVariation(withBrand(input), variation, instruction, clientAbortSignal(res)));
+}));
+
+apiRouter.post('/smooth-remix', asyncHandler(async (req, res) => {
+  const { input, variation } = parseVariationBody(req.body);
+  res.json(await smoothTransitions(withBrand(input), variation, clientAbortSignal(res)));
+}));
+
+apiRouter.post('/localize', asyncHandler(async (req, res) => {
+  const { input, variation, language } = parseLocalizeBody(req.body);
+  res.json(await localizeVariation(withBrand(input), variation, language, clientAbortSignal(res)));
+}));
+
+// Rewrites the flagged phrases of a script generated under a brand profile.
+// Disclaimers the model still leaves out are appended to the CTA before the
+// result is fitted to the duration.
+apiRouter.post('/fix-compliance', asyncHandler(async (req, res) => {
+  const { input, variation } = parseVariationBody(req.body);
+  const branded = withBrand(input);
+  if (!branded.brand) throw new HttpError(400, 'INVALID_REQUEST', '"brandProfileId" is required.');
+
+  const report = checkCompliance(variation, branded.brand);
+  if (isCompliant(report)) {
+    res.json(variation);
+    return;
+  }
+  res.json(await fixCompliance(branded, variation, report, clientAbortSignal(res)));
+}));
+
+// Shortens the longest sections of a script that runs over its duration.
+// Scripts that already fit are returned as they are.
+apiRouter.post('/trim-variation', asyncHandler(async (req, res) => {
+  const { input, variation } = parseVariationBody(req.body);
+  res.json(await fitToDuration(withBrand(input), variation, clientAbortSignal(res)));
+}));
+
+// The model's half of script scoring; the heuristic half runs in the client.
+apiRouter.post('/grade-variations', asyncHandler(async (req, res) => {
+  const { input, variations } = parseGradeBody(req.body);
+  res.json({ grades: await gradeVariations(withBrand(input), variations, clientAbortSignal(res)) });
+}));
+
+apiRouter.post('/mine-reviews', asyncHandler(async (req, res) => {
+  const { reviews, productName } = parseReviewsBody(req.body);
+  res.json({ clusters: await mineReviews(reviews, productName, clientAbortSignal(res)) });
+}));
+
+apiRouter.get('/runs', (req, res) => {
+  const query = typeof req.query.q === 'string' ? req.query.q.trim() : '';
+  res.json({ runs: listRuns({ query, starredOnly: req.query.starred === 'true' }) });
+});
+
+apiRouter.get('/runs/:id', (req, res) => {
+  const run = getRun(parseId(req.params.id));
+  if (!run) throw new HttpError(404, 'NOT_FOUND', 'Run not found.');
+  res.json(run);
+});
+
+apiRouter.post('/runs', (req, res) => {
+  requireUser(req, 'save scripts');
+  const { input, variations, promptVersion } = parseSaveRunBody(req.body);
+  // Reject unknown profiles with a 404 rather than a foreign key failure.
+  withBrand(input);
+  res.status(201).json(saveRun(input, variations, promptVersion));
+});
+
+apiRouter.post('/runs/:id/variations', (req, res) => {
+  const user = requireUser(req, 'change saved scripts');
+  const variation = addVariation(parseId(req.params.id), parseAddVariationBody(req.body), user.id);
+  if (!variation) throw new HttpError(404, 'NOT_FOUND', 'Run not found.');
+  res.status(201).json(variation);
+});
+
+apiRouter.delete('/runs/:id', (req, res) => {
+  const user = requireUser(req, 'delete saved scripts');
+  if (!deleteRun(parseId(req.params.id), user.id)) throw new HttpError(404, 'NOT_FOUND', 'Run not found.');
+  res.status(204).end();
+});
+
+// Every change is made by a signed-in user so the activity log says who made
+// it; only reviewers and admins can approve a script or ask for changes.
+apiRouter.patch('/variations/:id', (req, res) => {
+  const patch = parseVariationPatch(req.body);
+  const user = requireUser(req, 'change saved scripts');
+  if (patch.status && REVIEW_DECISIONS.includes(patch.status) && !canReview(user.role)) {
+    throw new HttpError(403, 'FORBIDDEN', 'Only reviewers can approve scripts or request changes.');
+  }
+  const variation = updateVariation(parseId(req.params.id), patch, user.id);
+  if (!variation) throw new HttpError(404, 'NOT_FOUND', 'Variation not found.');
+  res.json(variation);
+});
+
+apiRouter.get('/variations/:id/review', (req, res) => {
+  const id = parseId(req.params.id);
+  res.json({ comments: listComments(id), activity: listActivity({ variationId: id }) });
+});
+
+apiRouter.post('/variations/:id/comments', (req, res) => {
+  const user = requireUser(req);
+  const { section, body } = parseCommentBody(req.body);
+  const comment = addComment(parseId(req.params.id), user.id, section, body);
+  if (!comment) throw new HttpError(404, 'NOT_FOUND', 'Variation not found.');
+  res.status(201).json(comment);
+});
+
+apiRouter.delete('/comments/:id', (req, res) => {
+  const user = requireUser(req);
+  const comment = getComment(parseId(req.params.id));
+  if (!comment) throw new HttpError(404, 'NOT_FOUND', 'Comment not found.');
+  if (comment.authorId !== user.id) throw new HttpError(403, 'FORBIDDEN', 'Only the author can delete a comment.');
+  deleteComment(comment.id);
+  res.status(204).end();
+});
+
+apiRouter.get('/board', (req, res) => {
+  const query = typeof req.query.q === 'string' ? req.query.q.trim() : '';
+  res.json({ items: listBoard({ status: parseBoardStatus(req.query.status), query }) });
+});
+
+apiRouter.get('/activity', (_req, res) => {
+  res.json({ activity: listActivity() });
+});
+
+// `setup` is true until the first account exists.
+apiRouter.get('/session', (req, res) => {
+  res.json({ user: sessionUser(req), setup: !hasUsers() });
+});
+
+apiRouter.post('/session', (req, res) => {
+  const { name, password } = parseCredentialsBody(req.body);
+  res.json(signIn(req, res, name, password));
+});
+
+apiRouter.delete('/session', (req, res) => {
+  signOut(req, res);
+  res.status(204).end();
+});
+
+apiRouter.get('/users', (req, res) => {
+  requireAdmin(req, 'manage accounts');
+  res.json({ users: listUsers() });
+});
+
+// Handlers run synchronously, so two first sign-ups cannot both see an
+// empty users table.
+apiRouter.post('/users', (req, res) => {
+  if (!hasUsers()) {
+    const { name, password } = parseCredentialsBody(req.body);
+    res.status(201).json(setUp(req, res, name, password));
+    return;
+  }
+  requireAdmin(req, 'add accounts');
+  const { name, password, role } = parseNewUserBody(req.body);
+  res.status(201).json(addUser(name, password, role));
+});
+
+apiRouter.patch('/users/:id', (req, res) => {
+  requireAdmin(req, 'manage accounts');
+  const role = parseRoleBody(req.body);
+  const user = getUser(parseId(req.params.id));
+  if (!user) throw new HttpError(404, 'NOT_FOUND', 'User not found.');
+  if (user.role === 'admin' && role !== 'admin' && countAdmins() === 1) {
+    throw new HttpError(400, 'INVALID_REQUEST', 'Keep at least one admin.');
+  }
+  res.json(updateUserRole(user.id, role));
+});
+
+apiRouter.get('/brand-profiles', (_req, res) => {
+  res.json({ profiles: listBrandProfiles() });
+});
+
+// Brand rules bind everyone's scripts, so only signed-in users change them.
+apiRouter.post('/brand-profiles', (req, res) => {
+  requireUser(req, 'change brand profiles');
+  res.status(201).json(createBrandProfile(parseBrandProfileBody(req.body)));
+});
+
+apiRouter.put('/brand-profiles/:id', (req, res) => {
+  requireUser(req, 'change brand profiles');
+  const profile = updateBrandProfile(parseId(req.params.id), parseBrandProfileBody(req.body));
+  if (!profile) throw new HttpError(404, 'NOT_FOUND', 'Brand profile not found.');
+  res.json(profile);
+});
+
+apiRouter.delete('/brand-profiles/:id', (req, res) => {
+  requireUser(req, 'change brand profiles');
+  if (!deleteBrandProfile(parseId(req.params.id))) throw new HttpError(404, 'NOT_FOUND', 'Brand profile not found.');
+  res.status(204).end();
+});
+
+apiRouter.get('/personas', (_req, res) => {
+  res.json({ personas: listPersonas() });
+});
+
+// Personas are shared by everyone, so only signed-in users change them.
+apiRouter.post('/personas', (req, res) => {
+  requireUser(req, 'change personas');
+  res.status(201).json(createPersona(parsePersonaBody(req.body)));
+});
+
+apiRouter.put('/personas/:id', (req, res) => {
+  requireUser(req, 'change personas');
+  const persona = updatePersona(parseId(req.params.id), parsePersonaBody(req.body));
+  if (!persona) throw new HttpError(404, 'NOT_FOUND', 'Persona not found.');
+  res.json(persona);
+});
+
+apiRouter.delete('/personas/:id', (req, res) => {
+  requireUser(req, 'change personas');
+  if (!deletePersona(parseId(req.params.id))) throw new HttpError(404, 'NOT_FOUND', 'Persona not found.');
+  res.status(204).end();
+});
+
+apiRouter.get('/provider', (_req, res) => {
+  res.json(getProviderSettings());
+});
+
+apiRouter.put('/provider', (req, res) => {
+  requireAdmin(req, 'change the model provider');
+  res.json(saveProviderSettings(parseProviderSettingsBody(req.body)));
+});
+
+apiRouter.get('/usage', (req, res) => {
+  const user = requireUser(req, 'see usage');
+  res.json(usageReport(user.role === 'admin'));
+});
+
+apiRouter.put('/usage/quotas', (req, res) => {
+  requireAdmin(req, 'change the usage limits');
+  res.json(saveUsageQuotas(parseUsageQuotasBody(req.body)));
+});
+
+apiRouter.get('/brief-settings', (_req, res) => {
+  res.json(getSetting<BriefSettings>(BRIEF_SETTINGS_KEY) ?? DEFAULT_BRIEF_SETTINGS);
+});
+
+// The header goes on every brief the app exports, so only admins change it.
+apiRouter.put('/brief-settings', (req, res) => {
+  requireAdmin(req, 'change the brief header');
+  const settings = parseBriefSettingsBody(req.body);
+  setSetting(BRIEF_SETTINGS_KEY, settings);
+  res.json(settings);
+});
+
+// Every version of a template, newest (the one in use) first, ending with the
+// built-in text as version 0.
+apiRouter.get('/prompt-templates/:template', (req, res) => {
+  const template = parseTemplateId(req.params.template);
+  res.json({ versions: [...listPromptVersions(template), builtInVersion(template)] });
+});
+
+// The newest version is used for every generation, so only admins save one.
+apiRouter.post('/prompt-templates/:template', (req, res) => {
+  requireAdmin(req, 'change the prompt templates');
+  const template = parseTemplateId(req.params.template);
+  const { text, note } = parsePromptTemplateBody(req.body, template);
+  res.status(201).json(savePromptVersion(template, text, note));
+});
+
+apiRouter.post('/prompt-templates/:template/preview', (req, res) => {
+  const template = parseTemplateId(req.params.template);
+  const { text, input } = parsePromptPreviewBody(req.body, template);
+  res.json({ prompt: previewPrompt(template, text, withBrand(input)) });
+});
+
+// Links are managed by whoever created them. Admins see and can revoke every
+// link, including ones whose owner was removed.
+apiRouter.get('/shares', (req, res) => {
+  const user = requireUser(req, 'see your share links');
+  res.json({ shares: listShares(user.role === 'admin' ? undefined : user.id) });
+});
+
+apiRouter.post('/shares', (req, res) => {
+  const user = requireUser(req, 'share scripts');
+  const { title, input, variations, expiresInDays } = parseShareBody(req.body);
+  const expiresAt = expiresInDays === undefined
+    ? undefined
+    : new Date(Date.now() + expiresInDays * 24 * 60 * 60 * 1000).toISOString();
+  const token = randomBytes(16).toString('base64url');
+  res.status(201).json(createShare(token, { title: title ?? input.productName, input, variations, expiresAt }, user.id));
+});
+
+// The public side of a link: the snapshot, unless it expired or was revoked.
+apiRouter.get('/shares/:token', (req, res) => {
+  const share = getShare(parseShareToken(req.params.token));
+  if (!share) throw new HttpError(404, 'NOT_FOUND', 'Share link not found.');
+  if (share.revoked) throw new HttpError(410, 'LINK_REVOKED', 'This link has been turned off by its owner.');
+  if (isExpired(share.campaign.expiresAt)) throw new HttpError(410, 'LINK_EXPIRED', 'This link has expired.');
+  res.setHeader('Cache-Control', 'no-store');
+  res.setHeader('X-Robots-Tag', 'noindex');
+  res.json(share.campaign);
+});
+
+apiRouter.delete('/shares/:token', (req, res) => {
+  const user = requireUser(req, 'revoke share links');
+  const token = parseShareToken(req.params.token);
+  const share = getShare(token);
+  if (!share) throw new HttpError(404, 'NOT_FOUND', 'Share link not found.');
+  if (share.ownerId !== user.id && user.role !== 'admin') {
+    throw new HttpError(403, 'FORBIDDEN', 'Only the person who created a link can revoke it.');
+  }
+  res.json(revokeShare(token));
+});
+
+apiRouter.use(() => {
+  throw new HttpError(404, 'NOT_FOUND', 'Unknown API route.');
+});
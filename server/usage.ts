@@ -0,0 +1,130 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+// Logs every model call with its token usage and enforces the daily quotas.
+// Calls are attributed to the user of the API request that made them, which
+// is tracked per request so the functions in ai.ts need not pass it along.
+
+import { AsyncLocalStorage } from 'async_hooks';
+import type { Request, RequestHandler } from 'express';
+import { sessionUser } from './auth';
+import { getSetting, listModelCalls, logModelCall, setSetting, usageByDay, usageByProduct, usageByUser, usageTotals } from './db';
+import { HttpError } from './errors';
+import type { ModelCall, ModelProvider, TokenUsage } from './providers';
+import { estimateCost, formatTokens, USAGE_HISTORY_DAYS } from '../src/lib/usage';
+import type { UsageQuotas, UsageReport } from '../src/types';
+
+const QUOTAS_KEY = 'usageQuotas';
+
+// Roughly what Gemini charges per image; used when usage has to be estimated.
+const IMAGE_TOKENS = 258;
+
+interface Requester {
+  // Signed-in users are counted by name, everyone else by the address their
+  // requests come from.
+  user: string;
+  ip: string;
+  signedIn: boolean;
+}
+
+const requester = new AsyncLocalStorage<Requester>();
+
+const requesterOf = (req: Request): Requester => {
+  const ip = (req.ip ?? 'unknown').replace(/^::ffff:/, '');
+  const name = sessionUser(req)?.name;
+  return { user: name ?? ip, ip, signedIn: name !== undefined };
+};
+
+export const trackUser: RequestHandler = (req, _res, next) => {
+  requester.run(requesterOf(req), next);
+};
+
+const currentUser = () => requester.getStore()?.user ?? 'server';
+
+// What counts towards the per-user limit. Accounts are only added by admins,
+// so a signed-in user is held to their own calls; a signed-out one to every
+// call from their address, signed in or not, so signing out does not start
+// the count again.
+const userUsage = (since: string) => {
+  const current = requester.getStore();
+  if (!current) return usageTotals(since, { user: 'server' });
+  return current.signedIn ? usageTotals(since, { user: current.user }) : usageTotals(since, { ip: current.ip });
+};
+
+const startOfDay = (daysAgo = 0) => {
+  const day = new Date();
+  day.setUTCHours(0, 0, 0, 0);
+  day.setUTCDate(day.getUTCDate() - daysAgo);
+  return day.toISOString();
+};
+
+export const getUsageQuotas = (): UsageQuotas => getSetting<UsageQuotas>(QUOTAS_KEY) ?? {};
+
+export const saveUsageQuotas = (quotas: UsageQuotas): UsageQuotas => {
+  setSetting(QUOTAS_KEY, quotas);
+  return quotas;
+};
+
+const usedTokens = ({ inputTokens, outputTokens }: { inputTokens: number; outputTokens: number }) => inputTokens + outputTokens;
+
+// Called before a model call; throws once today's tokens have reached the
+// global or the user's limit.
+export const checkQuota = () => {
+  const { userDailyTokens, globalDailyTokens } = getUsageQuotas();
+  const today = startOfDay();
+  if (globalDailyTokens && usedTokens(usageTotals(today)) >= globalDailyTokens) {
+    throw new HttpError(429, 'DAILY_LIMIT', `The team's daily limit of ${formatTokens(globalDailyTokens)} tokens has been used up. It resets at midnight UTC.`);
+  }
+  if (userDailyTokens && usedTokens(userUsage(today)) >= userDailyTokens) {
+    throw new HttpError(429, 'DAILY_LIMIT', `You have used your daily limit of ${formatTokens(userDailyTokens)} tokens. It resets at midnight UTC.`);
+  }
+};
+
+const estimateTokens = (text: string) => Math.ceil(text.length / 4);
+
+// Providers that report no usage (the mock, some local servers) get an
+// estimate from the text, flagged as such.
+export const recordCall = (
+  provider: ModelProvider,
+  call: ModelCall,
+  result: { text?: string; usage?: TokenUsage; latencyMs: number; errorCode?: string }
+) => {
+  const usage = result.usage ?? (result.errorCode ? { inputTokens: 0, outputTokens: 0 } : {
+    inputTokens: estimateTokens(call.prompt) + (call.images?.length ?? 0) * IMAGE_TOKENS,
+    outputTokens: estimateTokens(result.text ?? ''),
+  });
+  try {
+    logModelCall({
+      user: currentUser(),
+      ip: requester.getStore()?.ip,
+      task: call.task.kind,
+      provider: provider.info.id,
+      model: provider.model,
+      product: 'input' in call.task ? call.task.input.productName : undefined,
+      ...usage,
+      estimated: !result.usage && !result.errorCode,
+      cost: estimateCost(provider.model, usage.inputTokens, usage.outputTokens),
+      latencyMs: result.latencyMs,
+      errorCode: result.errorCode,
+    });
+  } catch (err) {
+    // Losing a log line must not fail the request it describes.
+    console.error('Failed to log model call:', err);
+  }
+};
+
+// Other people's names and what they worked on are only shown to admins.
+export const usageReport = (admin: boolean): UsageReport => {
+  const today = startOfDay();
+  const since = startOfDay(USAGE_HISTORY_DAYS - 1);
+  return {
+    user: currentUser(),
+    quotas: getUsageQuotas(),
+    today: { user: userUsage(today), global: usageTotals(today) },
+    days: usageByDay(since),
+    products: usageByProduct(since),
+    ...(admin ? { users: usageByUser(today), recent: listModelCalls() } : {}),
+  };
+};
@@ -0,0 +1,532 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { HttpError } from './errors';
+import { ANGLE_IDS } from '../src/lib/angles';
+import { MAX_COMMENT_LENGTH, MAX_PASSWORD_LENGTH, MAX_USER_NAME, MIN_PASSWORD_LENGTH, SCRIPT_STATUSES, USER_ROLES } from '../src/lib/approval';
+import type { ScriptStatus, UserRole } from '../src/lib/approval';
+import { MAX_BRIEF_GUIDELINE_LENGTH, MAX_BRIEF_GUIDELINES } from '../src/lib/brief';
+import { patternToRegExp } from '../src/lib/compliance';
+import { DEFAULT_HOOKS, MAX_HOOKS, MIN_HOOKS } from '../src/lib/hooks';
+import { IMAGE_MIME_TYPES, MAX_IMAGES } from '../src/lib/images';
+import { LANGUAGE_IDS } from '../src/lib/languages';
+import { MAX_PAGE_FEATURES } from '../src/lib/productPage';
+import { MAX_TEMPLATE_LENGTH, PROMPT_TEMPLATE_IDS, unknownVariables } from '../src/lib/prompts';
+import type { PromptTemplateId } from '../src/lib/prompts';
+import { PROVIDER_IDS, PROVIDERS } from '../src/lib/providers';
+import { MAX_CUSTOMER_QUOTES, MAX_QUOTE_LENGTH, MAX_REVIEW_LENGTH, MAX_REVIEWS } from '../src/lib/reviews';
+import { MAX_SHARE_EXPIRY_DAYS, MAX_SHARE_TITLE } from '../src/lib/share';
+import { MAX_DAILY_TOKENS } from '../src/lib/usage';
+import type { LanguageId } from '../src/lib/languages';
+import type { ImageMimeType } from '../src/lib/images';
+import { getPlatform, MAX_VARIATIONS, MAX_WORDS_PER_SECOND, MIN_VARIATIONS, MIN_WORDS_PER_SECOND, PLATFORM_IDS } from '../src/lib/platforms';
+import { REVIEW_THEMES, SECTIONS, SHOT_TYPES, TONES } from '../src/types';
+import type { BrandProfileInput, BriefSettings, CustomerQuote, PersonaInput, ProductFacts, ProviderSettings, RemixSources, ScriptRequest, ScriptSection, ScriptVariation, StoryboardShot, UsageQuotas } from '../src/types';
+
+const invalid = (message: string) => new HttpError(400, 'INVALID_REQUEST', message);
+
+export const asObject = (body: unknown): Record<string, unknown> => {
+  if (!body || typeof body !== 'object' || Array.isArray(body)) {
+    throw invalid('Request body must be a JSON object.');
+  }
+  return body as Record<string, unknown>;
+};
+
+export const requireString = (body: Record<string, unknown>, field: string, maxLength = 2000): string => {
+  const value = body[field];
+  if (typeof value !== 'string' || !value.trim()) {
+    throw invalid(`"${field}" is required.`);
+  }
+  if (value.length > maxLength) {
+    throw invalid(`"${field}" must be at most ${maxLength} characters.`);
+  }
+  return value.trim();
+};
+
+export const optionalString = (body: Record<string, unknown>, field: string, maxLength = 2000): string | undefined => {
+  const value = body[field];
+  if (value === undefined || value === null || value === '') return undefined;
+  if (typeof value !== 'string') {
+    throw invalid(`"${field}" must be a string.`);
+  }
+  if (value.length > maxLength) {
+    throw invalid(`"${field}" must be at most ${maxLength} characters.`);
+  }
+  return value.trim() || undefined;
+};
+
+export const requireUrl = (body: Record<string, unknown>, field: string): string => {
+  const value = requireString(body, field);
+  try {
+    const url = new URL(value);
+    if (url.protocol !== 'http:' && url.protocol !== 'https:') throw new Error();
+  } catch {
+    throw invalid(`"${field}" must be an http(s) URL.`);
+  }
+  return value;
+};
+
+export const requireOneOf = <T extends string>(body: Record<string, unknown>, field: string, allowed: readonly T[]): T => {
+  const value = body[field];
+  if (typeof value !== 'string' || !allowed.includes(value as T)) {
+    throw invalid(`"${field}" must be one of: ${allowed.join(', ')}.`);
+  }
+  return value as T;
+};
+
+export const optionalBoolean = (body: Record<string, unknown>, field: string): boolean | undefined => {
+  const value = body[field];
+  if (value === undefined || value === null) return undefined;
+  if (typeof value !== 'boolean') {
+    throw invalid(`"${field}" must be a boolean.`);
+  }
+  return value;
+};
+
+const requireNumber = (body: Record<string, unknown>, field: string): number => {
+  const value = body[field];
+  if (typeof value !== 'number' || !Number.isFinite(value)) {
+    throw invalid(`"${field}" must be a number.`);
+  }
+  return value;
+};
+
+export interface ImageInput {
+  mimeType: ImageMimeType;
+  data: string;
+}
+
+// Accepts a data URL, whose MIME type is used, or bare base64, which is
+// assumed to be JPEG.
+const parseImage = (value: unknown, field: string): ImageInput => {
+  if (typeof value !== 'string' || !value) {
+    throw invalid(`"${field}" must be a base64-encoded image.`);
+  }
+  const dataUrl = /^data:([^;,]+);base64,(.*)$/s.exec(value);
+  const mimeType = dataUrl ? dataUrl[1] : 'image/jpeg';
+  const data = dataUrl ? dataUrl[2] : value;
+  if (!IMAGE_MIME_TYPES.includes(mimeType as ImageMimeType)) {
+    throw invalid(`"${field}" must be one of: ${IMAGE_MIME_TYPES.join(', ')}.`);
+  }
+  if (!data || !/^[A-Za-z0-9+/=\s]+$/.test(data)) {
+    throw invalid(`"${field}" must be a base64-encoded image.`);
+  }
+  return { mimeType: mimeType as ImageMimeType, data };
+};
+
+// { images: [...] }, or the single { image } the API originally accepted.
+export const parseImagesBody = (raw: unknown): { images: ImageInput[] } => {
+  const body = asObject(raw);
+  if (body.images === undefined && body.image !== undefined) {
+    return { images: [parseImage(body.image, 'image')] };
+  }
+  if (!Array.isArray(body.images) || body.images.length === 0 || body.images.length > MAX_IMAGES) {
+    throw invalid(`"images" must be an array of 1 to ${MAX_IMAGES} images.`);
+  }
+  return { images: body.images.map((image, idx) => parseImage(image, `images[${idx}]`)) };
+};
+
+export const parseUrlBody = (raw: unknown): { url: string } => {
+  const body = asObject(raw);
+  return { url: requireUrl(body, 'url') };
+};
+
+const optionalInteger = (body: Record<string, unknown>, field: string, min: number, max: number): number | undefined => {
+  const value = body[field];
+  if (value === undefined || value === null) return undefined;
+  if (typeof value !== 'number' || !Number.isInteger(value) || value < min || value > max) {
+    throw invalid(`"${field}" must be an integer from ${min} to ${max}.`);
+  }
+  return value;
+};
+
+const optionalNumber = (body: Record<string, unknown>, field: string, min: number, max: number): number | undefined => {
+  const value = body[field];
+  if (value === undefined || value === null) return undefined;
+  if (typeof value !== 'number' || !Number.isFinite(value) || value < min || value > max) {
+    throw invalid(`"${field}" must be a number from ${min} to ${max}.`);
+  }
+  return value;
+};
+
+const optionalStringList = (body: Record<string, unknown>, field: string, maxItems: number, maxLength: number): string[] => {
+  const value = body[field];
+  if (value === undefined || value === null) return [];
+  if (!Array.isArray(value) || value.some(item => typeof item !== 'string')) {
+    throw invalid(`"${field}" must be an array of strings.`);
+  }
+  const items = value.map(item => item.trim()).filter(Boolean);
+  if (items.length > maxItems) {
+    throw invalid(`"${field}" can have at most ${maxItems} entries.`);
+  }
+  if (items.some(item => item.length > maxLength)) {
+    throw invalid(`Entries in "${field}" must be at most ${maxLength} characters.`);
+  }
+  return items;
+};
+
+const nonEmpty = <T>(items: T[]) => items.length > 0 ? items : undefined;
+
+const parseProductFacts = (raw: unknown): ProductFacts | undefined => {
+  if (raw === undefined || raw === null) return undefined;
+  const body = asObject(raw);
+  const price = body.price === undefined || body.price === null ? undefined : asObject(body.price);
+  const rating = body.rating === undefined || body.rating === null ? undefined : asObject(body.rating);
+  return {
+    title: requireString(body, 'title', 300),
+    brand: optionalString(body, 'brand', 100),
+    description: optionalString(body, 'description', 2000),
+    price: price && {
+      amount: requireString(price, 'amount', 30),
+      currency: optionalString(price, 'currency', 10),
+    },
+    rating: rating && {
+      value: requireNumber(rating, 'value'),
+      count: optionalInteger(rating, 'count', 0, Number.MAX_SAFE_INTEGER),
+      best: optionalNumber(rating, 'best', 1, 100),
+    },
+    features: optionalStringList(body, 'features', MAX_PAGE_FEATURES, 300),
+  };
+};
+
+const parseCustomerQuotes = (raw: unknown): CustomerQuote[] | undefined => {
+  if (raw === undefined || raw === null) return undefined;
+  if (!Array.isArray(raw) || raw.length > MAX_CUSTOMER_QUOTES) {
+    throw invalid(`"customerQuotes" must be an array of at most ${MAX_CUSTOMER_QUOTES} quotes.`);
+  }
+  return nonEmpty(raw.map(item => {
+    const quote = asObject(item);
+    return {
+      theme: requireOneOf(quote, 'theme', REVIEW_THEMES),
+      text: requireString(quote, 'text', MAX_QUOTE_LENGTH),
+    };
+  }));
+};
+
+export const parseScriptRequest = (raw: unknown): ScriptRequest => {
+  const body = asObject(raw);
+  const productUrl = optionalString(body, 'productUrl');
+  if (productUrl) requireUrl(body, 'productUrl');
+  const platform = body.platform === undefined ? undefined : requireOneOf(body, 'platform', PLATFORM_IDS);
+  return {
+    productName: requireString(body, 'productName', 200),
+    productUrl,
+    mainProblem: requireString(body, 'mainProblem'),
+    keyBenefit: requireString(body, 'keyBenefit'),
+    secondaryBenefits: nonEmpty(optionalStringList(body, 'secondaryBenefits', 10, 300)),
+    visibleFeatures: nonEmpty(optionalStringList(body, 'visibleFeatures', 10, 300)),
+    toneStyle: requireOneOf(body, 'toneStyle', TONES),
+    duration: requireOneOf(body, 'duration', getPlatform(platform).durations),
+    platform,
+    language: body.language === undefined ? undefined : requireOneOf(body, 'language', LANGUAGE_IDS),
+    wordsPerSecond: optionalNumber(body, 'wordsPerSecond', MIN_WORDS_PER_SECOND, MAX_WORDS_PER_SECOND),
+    variationCount: optionalInteger(body, 'variationCount', MIN_VARIATIONS, MAX_VARIATIONS),
+    storyboard: optionalBoolean(body, 'storyboard'),
+    fixedHook: optionalString(body, 'fixedHook', 300),
+    brandProfileId: optionalInteger(body, 'brandProfileId', 1, Number.MAX_SAFE_INTEGER),
+    personaId: optionalInteger(body, 'personaId', 1, Number.MAX_SAFE_INTEGER),
+    angle: body.angle === undefined ? undefined : requireOneOf(body, 'angle', ANGLE_IDS),
+    productFacts: parseProductFacts(body.productFacts),
+    customerQuotes: parseCustomerQuotes(body.customerQuotes),
+  };
+};
+
+export const parseHooksBody = (raw: unknown): { input: ScriptRequest; count: number } => {
+  const body = asObject(raw);
+  return {
+    input: parseScriptRequest(body.input),
+    count: optionalInteger(body, 'count', MIN_HOOKS, MAX_HOOKS) ?? DEFAULT_HOOKS,
+  };
+};
+
+export const parseReviewsBody = (raw: unknown): { reviews: string[]; productName?: string } => {
+  const body = asObject(raw);
+  const reviews = optionalStringList(body, 'reviews', MAX_REVIEWS, MAX_REVIEW_LENGTH);
+  if (reviews.length === 0) {
+    throw invalid('"reviews" must contain at least one review.');
+  }
+  return { reviews, productName: optionalString(body, 'productName', 200) };
+};
+
+export const parseBrandProfileBody = (raw: unknown): BrandProfileInput => {
+  const body = asObject(raw);
+  const prohibitedClaims = optionalStringList(body, 'prohibitedClaims', 100, 200);
+  const broken = prohibitedClaims.find(pattern => !patternToRegExp(pattern));
+  if (broken) {
+    throw invalid(`"${broken}" is not a valid claim pattern.`);
+  }
+  return {
+    name: requireString(body, 'name', 100),
+    voice: optionalString(body, 'voice') ?? '',
+    examples: optionalStringList(body, 'examples', 20, 300),
+    bannedWords: optionalStringList(body, 'bannedWords', 200, 100),
+    disclaimers: optionalStringList(body, 'disclaimers', 10, 300),
+    prohibitedClaims,
+  };
+};
+
+export const parsePersonaBody = (raw: unknown): PersonaInput => {
+  const body = asObject(raw);
+  return {
+    name: requireString(body, 'name', 100),
+    ageRange: optionalString(body, 'ageRange', 50) ?? '',
+    situation: optionalString(body, 'situation', 1000) ?? '',
+    objections: optionalStringList(body, 'objections', 20, 300),
+    scrollsOn: optionalString(body, 'scrollsOn', 300) ?? '',
+  };
+};
+
+export const parseProviderSettingsBody = (raw: unknown): ProviderSettings => {
+  const body = asObject(raw);
+  const provider = requireOneOf(body, 'provider', PROVIDER_IDS);
+  return {
+    provider,
+    model: optionalString(body, 'model', 100) ?? PROVIDERS[provider].defaultModel,
+    ...(PROVIDERS[provider].usesBaseUrl ? { baseUrl: requireUrl(body, 'baseUrl').replace(/\/+$/, '') } : {}),
+  };
+};
+
+export const parseBriefSettingsBody = (raw: unknown): BriefSettings => {
+  const body = asObject(raw);
+  const accentColor = requireString(body, 'accentColor', 7);
+  if (!/^#[0-9a-f]{6}$/i.test(accentColor)) {
+    throw invalid('"accentColor" must be a hex colour like #4f46e5.');
+  }
+  return {
+    agencyName: optionalString(body, 'agencyName', 100) ?? '',
+    contact: optionalString(body, 'contact', 200) ?? '',
+    accentColor: accentColor.toLowerCase(),
+    dos: optionalStringList(body, 'dos', MAX_BRIEF_GUIDELINES, MAX_BRIEF_GUIDELINE_LENGTH),
+    donts: optionalStringList(body, 'donts', MAX_BRIEF_GUIDELINES, MAX_BRIEF_GUIDELINE_LENGTH),
+  };
+};
+
+// Leaving a limit out (or null) removes it.
+export const parseUsageQuotasBody = (raw: unknown): UsageQuotas => {
+  const body = asObject(raw);
+  const userDailyTokens = optionalInteger(body, 'userDailyTokens', 1, MAX_DAILY_TOKENS);
+  const globalDailyTokens = optionalInteger(body, 'globalDailyTokens', 1, MAX_DAILY_TOKENS);
+  return {
+    ...(userDailyTokens ? { userDailyTokens } : {}),
+    ...(globalDailyTokens ? { globalDailyTokens } : {}),
+  };
+};
+
+export const parseTemplateId = (raw: string): PromptTemplateId => {
+  if (!PROMPT_TEMPLATE_IDS.includes(raw as PromptTemplateId)) {
+    throw invalid(`Unknown prompt template "${raw}".`);
+  }
+  return raw as PromptTemplateId;
+};
+
+const requireTemplateText = (body: Record<string, unknown>, template: PromptTemplateId): string => {
+  const text = requireString(body, 'text', MAX_TEMPLATE_LENGTH);
+  const unknown = unknownVariables(template, text);
+  if (unknown.length > 0) {
+    throw invalid(`Unknown ${unknown.length === 1 ? 'variable' : 'variables'}: ${unknown.map(name => `{{${name}}}`).join(', ')}.`);
+  }
+  return text;
+};
+
+export const parsePromptTemplateBody = (raw: unknown, template: PromptTemplateId): { text: string; note: string } => {
+  const body = asObject(raw);
+  return {
+    text: requireTemplateText(body, template),
+    note: optionalString(body, 'note', 200) ?? '',
+  };
+};
+
+export const parsePromptPreviewBody = (raw: unknown, template: PromptTemplateId): { text: string; input: ScriptRequest } => {
+  const body = asObject(raw);
+  return {
+    text: requireTemplateText(body, template),
+    input: parseScriptRequest(body.input),
+  };
+};
+
+export const parseId = (raw: string): number => {
+  const id = Number(raw);
+  if (!Number.isInteger(id) || id <= 0) {
+    throw invalid('Invalid id.');
+  }
+  return id;
+};
+
+const parseShots = (raw: unknown): StoryboardShot[] | undefined => {
+  if (raw === undefined || raw === null) return undefined;
+  if (!Array.isArray(raw)) {
+    throw invalid('"shots" must be an array.');
+  }
+  return raw.map(item => {
+    const shot = asObject(item);
+    return {
+      section: requireOneOf(shot, 'section', SECTIONS),
+      shotType: requireOneOf(shot, 'shotType', SHOT_TYPES),
+      overlay: optionalString(shot, 'overlay', 200) ?? '',
+      direction: requireString(shot, 'direction'),
+      start: requireNumber(shot, 'start'),
+      end: requireNumber(shot, 'end'),
+    };
+  });
+};
+
+export const parseVariations = (raw: unknown): ScriptVariation[] => {
+  if (!Array.isArray(raw) || raw.length === 0) {
+    throw invalid('"variations" must be a non-empty array.');
+  }
+  return raw.map((item, idx) => {
+    const v = asObject(item);
+    const shots = parseShots(v.shots);
+    const persona = v.persona === undefined || v.persona === null ? undefined : asObject(v.persona);
+    const remix = v.remix === undefined || v.remix === null ? undefined : asObject(v.remix);
+    return {
+      id: typeof v.id === 'number' ? v.id : idx + 1,
+      hook: requireString(v, 'hook'),
+      problem: requireString(v, 'problem'),
+      solution: requireString(v, 'solution'),
+      cta: requireString(v, 'cta'),
+      ...(shots ? { shots } : {}),
+      ...(persona ? { persona: { id: requireNumber(persona, 'id'), name: requireString(persona, 'name', 100) } } : {}),
+      ...(v.angle === undefined ? {} : { angle: requireOneOf(v, 'angle', ANGLE_IDS) }),
+      ...(remix ? { remix: parseRemix(remix) } : {}),
+    };
+  });
+};
+
+const parseRemix = (remix: Record<string, unknown>): NonNullable<ScriptVariation['remix']> => {
+  const sources = asObject(remix.sources);
+  return {
+    sources: Object.fromEntries(SECTIONS.map(section => [section, requireNumber(sources, section)])) as RemixSources,
+    smoothed: optionalBoolean(remix, 'smoothed') ?? false,
+  };
+};
+
+export const parseAddVariationBody = (raw: unknown): ScriptVariation =>
+  parseVariations([asObject(raw).variation])[0];
+
+export const parseGradeBody = (raw: unknown): { input: ScriptRequest; variations: ScriptVariation[] } => {
+  const body = asObject(raw);
+  const variations = parseVariations(body.variations);
+  if (variations.length > MAX_VARIATIONS) {
+    throw invalid(`At most ${MAX_VARIATIONS} variations can be graded at once.`);
+  }
+  return { input: parseScriptRequest(body.input), variations };
+};
+
+export const parseSaveRunBody = (raw: unknown): { input: ScriptRequest; variations: ScriptVariation[]; promptVersion?: number } => {
+  const body = asObject(raw);
+  return {
+    input: parseScriptRequest(body.input),
+    variations: parseVariations(body.variations),
+    promptVersion: optionalInteger(body, 'promptVersion', 0, Number.MAX_SAFE_INTEGER),
+  };
+};
+
+export const parseShareBody = (raw: unknown): { title?: string; input: ScriptRequest; variations: ScriptVariation[]; expiresInDays?: number } => {
+  const body = asObject(raw);
+  return {
+    title: optionalString(body, 'title', MAX_SHARE_TITLE),
+    input: parseScriptRequest(body.input),
+    variations: parseVariations(body.variations),
+    expiresInDays: optionalInteger(body, 'expiresInDays', 1, MAX_SHARE_EXPIRY_DAYS),
+  };
+};
+
+// Tokens are generated server-side; anything else cannot name a share.
+export const parseShareToken = (raw: string): string => {
+  if (!/^[\w-]{16,64}$/.test(raw)) {
+    throw new HttpError(404, 'NOT_FOUND', 'Share link not found.');
+  }
+  return raw;
+};
+
+export const parseVariationPatch = (raw: unknown): { starred?: boolean; script?: ScriptVariation; status?: ScriptStatus } => {
+  const body = asObject(raw);
+  const patch = {
+    starred: optionalBoolean(body, 'starred'),
+    script: body.script === undefined ? undefined : parseVariations([body.script])[0],
+    status: body.status === undefined ? undefined : requireOneOf(body, 'status', SCRIPT_STATUSES),
+  };
+  if (patch.starred === undefined && patch.script === undefined && patch.status === undefined) {
+    throw invalid('Provide "starred", "script" or "status".');
+  }
+  return patch;
+};
+
+export const parseBoardStatus = (raw: unknown): ScriptStatus | undefined => {
+  if (raw === undefined || raw === '') return undefined;
+  if (!SCRIPT_STATUSES.includes(raw as ScriptStatus)) {
+    throw invalid(`"status" must be one of: ${SCRIPT_STATUSES.join(', ')}.`);
+  }
+  return raw as ScriptStatus;
+};
+
+// Passwords are taken as typed; only the name is trimmed.
+export const parseCredentialsBody = (raw: unknown): { name: string; password: string } => {
+  const body = asObject(raw);
+  const name = requireString(body, 'name', MAX_USER_NAME);
+  const { password } = body;
+  if (typeof password !== 'string' || password.length < MIN_PASSWORD_LENGTH) {
+    throw invalid(`"password" must be at least ${MIN_PASSWORD_LENGTH} characters.`);
+  }
+  if (password.length > MAX_PASSWORD_LENGTH) {
+    throw invalid(`"password" must be at most ${MAX_PASSWORD_LENGTH} characters.`);
+  }
+  return { name, password };
+};
+
+// Accounts added by an admin; the role defaults to member.
+export const parseNewUserBody = (raw: unknown): { name: string; password: string; role: UserRole } => {
+  const body = asObject(raw);
+  return {
+    ...parseCredentialsBody(body),
+    role: body.role === undefined ? 'member' : requireOneOf(body, 'role', USER_ROLES),
+  };
+};
+
+export const parseRoleBody = (raw: unknown): UserRole => requireOneOf(asObject(raw), 'role', USER_ROLES);
+
+export const parseCommentBody = (raw: unknown): { section: ScriptSection; body: string } => {
+  const body = asObject(raw);
+  return {
+    section: requireOneOf(body, 'section', SECTIONS),
+    body: requireString(body, 'body', MAX_COMMENT_LENGTH),
+  };
+};
+
+export const parseRegenerateBody = (raw: unknown): { input: ScriptRequest; variation: ScriptVariation; section: ScriptSection } => {
+  const body = asObject(raw);
+  return {
+    input: parseScriptRequest(body.input),
+    variation: parseVariations([body.variation])[0],
+    section: requireOneOf(body, 'section', SECTIONS),
+  };
+};
+
+export const parseVariationBody = (raw: unknown): { input: ScriptRequest; variation: ScriptVariation } => {
+  const body = asObject(raw);
+  return {
+    input: parseScriptRequest(body.input),
+    variation: parseVariations([body.variation])[0],
+  };
+};
+
+export const parseLocalizeBody = (raw: unknown): { input: ScriptRequest; variation: ScriptVariation; language: LanguageId } => {
+  const body = asObject(raw);
+  return {
+    input: parseScriptRequest(body.input),
+    variation: parseVariations([body.variation])[0],
+    language: requireOneOf(body, 'language', LANGUAGE_IDS),
+  };
+};
+
+export const parseRefineBody = (raw: unknown): { input: ScriptRequest; variation: ScriptVariation; instruction: string } => {
+  const body = asObject(raw);
+  return {
+    input: parseScriptRequest(body.input),
+    variation: parseVariations([body.variation])[0],
+    instruction: requireString(body, 'instruction', 500),
+  };
+};
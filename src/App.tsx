@@ -3,37 +3,161 @@
  * SPDX-License-Identifier: Apache-2.0
  */
 
-import React, { useState, useRef } from 'react';
-import { GoogleGenAI, Type } from "@google/genai";
+import React, { useEffect, useState, useRef } from 'react';
 import { motion, AnimatePresence } from "motion/react";
-import { Sparkles, Clock, Target, AlertCircle, CheckCircle, Loader2, Copy, Upload, X, Zap } from "lucide-react";
+import { Sparkles, Clock, Target, AlertCircle, CheckCircle, Loader2, Copy, Upload, X, Zap, Clapperboard, ChevronLeft, ChevronRight, RefreshCw, Share2, FileText, Shuffle } from "lucide-react";
+import * as api from './api';
+import AccountMenu from './components/AccountMenu';
+import BatchPanel from './components/BatchPanel';
+import BoardPanel from './components/BoardPanel';
+import BrandProfilesPanel from './components/BrandProfilesPanel';
+import CustomerQuotesCard from './components/CustomerQuotesCard';
+import HistoryPanel from './components/HistoryPanel';
+import HookLab from './components/HookLab';
+import MatrixPanel from './components/MatrixPanel';
+import PersonasPanel from './components/PersonasPanel';
+import ProductPageCard from './components/ProductPageCard';
+import PromptsPanel from './components/PromptsPanel';
+import RemixPanel from './components/RemixPanel';
+import ReviewMiner from './components/ReviewMiner';
+import SettingsPanel from './components/SettingsPanel';
+import TeamPanel from './components/TeamPanel';
+import UsagePanel from './components/UsagePanel';
+import SharePanel from './components/SharePanel';
+import BriefPanel from './components/BriefPanel';
+import { ANGLE_IDS, ANGLES } from './lib/angles';
+import type { AngleId } from './lib/angles';
+import { checkCompliance } from './lib/compliance';
+import { MAX_IMAGES, resizeImage } from './lib/images';
+import { DEFAULT_LANGUAGE, LANGUAGE_IDS, LANGUAGES, lengthBudget, unitsPerSecond } from './lib/languages';
+import type { LanguageId } from './lib/languages';
+import type { ProductImage } from './lib/images';
+import { estimateTimeline } from './lib/pacing';
+import { scoreVariation } from './lib/scoring';
+import type { RubricGrade } from './lib/scoring';
+import { factsFromPage } from './lib/productPage';
+import { addClusterQuotes } from './lib/reviews';
+import { numberVariations } from './lib/remix';
+import { campaignText, copyText, variationText } from './lib/share';
+import { DEFAULT_PLATFORM, DEFAULT_VARIATIONS, MAX_VARIATIONS, MAX_WORDS_PER_SECOND, MIN_VARIATIONS, MIN_WORDS_PER_SECOND, pacedPlatform, PLATFORM_IDS, PLATFORMS } from './lib/platforms';
+import type { PlatformId } from './lib/platforms';
+import VariationCard from './components/VariationCard';
+import { TONES } from './types';
+import type { BrandProfile, CustomerQuote, LocalizedVariation, Persona, ProductAnalysis, ProductPage, ReviewCluster, SavedRun, SavedVariation, ScriptRequest, ScriptSection, ScriptVariation, User } from './types';
 
-// Initialize Gemini API
-const ai = new GoogleGenAI({ apiKey: process.env.GEMINI_API_KEY || "" });
-
-interface ScriptVariation {
-  id: number;
-  hook: string;
-  problem: string;
-  solution: string;
-  cta: string;
-}
+// Optional list fields are edited one entry per line.
+const toList = (text: string) => {
+  const items = text.split('\n').map(line => line.trim()).filter(Boolean);
+  return items.length > 0 ? items : undefined;
+};
 
 export default function App() {
   const [productName, setProductName] = useState('');
   const [productUrl, setProductUrl] = useState('');
   const [mainProblem, setMainProblem] = useState('');
   const [keyBenefit, setKeyBenefit] = useState('');
+  const [secondaryBenefits, setSecondaryBenefits] = useState('');
+  const [visibleFeatures, setVisibleFeatures] = useState('');
   const [toneStyle, setToneStyle] = useState('Energetic');
+  const [platform, setPlatform] = useState<PlatformId>(DEFAULT_PLATFORM);
   const [duration, setDuration] = useState('10');
+  const [variationCount, setVariationCount] = useState(DEFAULT_VARIATIONS);
+  const [storyboard, setStoryboard] = useState(false);
+  const [language, setLanguage] = useState<LanguageId>(DEFAULT_LANGUAGE);
+  // null follows the platform's rate.
+  const [wordsPerSecond, setWordsPerSecond] = useState<number | null>(null);
+  const [brandProfiles, setBrandProfiles] = useState<BrandProfile[]>([]);
+  const [brandProfileId, setBrandProfileId] = useState<number | null>(null);
+  const [personas, setPersonas] = useState<Persona[]>([]);
+  // null lets the model pick the audience and approach.
+  const [personaId, setPersonaId] = useState<number | null>(null);
+  const [angle, setAngle] = useState<AngleId | null>(null);
   const [loading, setLoading] = useState(false);
   const [analyzing, setAnalyzing] = useState(false);
   const [fetchingUrl, setFetchingUrl] = useState(false);
+  // Details read from the analyzed product page; dropped when the URL changes.
+  const [productPage, setProductPage] = useState<ProductPage | null>(null);
+  const [addingPageImage, setAddingPageImage] = useState<string | null>(null);
+  // Review quotes picked in the Reviews tab, sent with every generation.
+  const [customerQuotes, setCustomerQuotes] = useState<CustomerQuote[]>([]);
   const [variations, setVariations] = useState<ScriptVariation[]>([]);
+  // One stack of previous revisions per results card, indexed like `variations`.
+  const [undoStacks, setUndoStacks] = useState<ScriptVariation[][]>([]);
+  // Translation shown next to each card, if any; dropped when the card changes.
+  const [localizations, setLocalizations] = useState<(LocalizedVariation | undefined)[]>([]);
+  // Model rubric grades, parallel to variations; cleared when a card changes.
+  const [grades, setGrades] = useState<(RubricGrade | undefined)[]>([]);
+  const [grading, setGrading] = useState(false);
+  const [sortByScore, setSortByScore] = useState(false);
   const [error, setError] = useState<string | null>(null);
-  const [selectedImage, setSelectedImage] = useState<string | null>(null);
+  const [images, setImages] = useState<ProductImage[]>([]);
   const [isDragging, setIsDragging] = useState(false);
+  const [view, setView] = useState<'results' | 'library' | 'board' | 'hooks' | 'reviews' | 'matrix' | 'batch' | 'brands' | 'personas' | 'prompts' | 'usage' | 'settings'>('results');
+  const [currentRun, setCurrentRun] = useState<SavedRun | null>(null);
+  const [libraryVersion, setLibraryVersion] = useState(0);
+  const [user, setUser] = useState<User | null>(null);
+  const [setup, setSetup] = useState(false);
   const fileInputRef = useRef<HTMLInputElement>(null);
+  // In-flight requests. Starting a new one, cancelling or resetting aborts the
+  // previous controller, and handlers ignore results from a stale controller.
+  const imageRequest = useRef<AbortController | null>(null);
+  const urlRequest = useRef<AbortController | null>(null);
+  const generationRequest = useRef<AbortController | null>(null);
+  // Bumped whenever `variations` is replaced wholesale, so per-card revisions
+  // that resolve afterwards are dropped instead of landing on the wrong card.
+  const variationsEpoch = useRef(0);
+
+  const startRequest = (ref: React.MutableRefObject<AbortController | null>) => {
+    ref.current?.abort();
+    const controller = new AbortController();
+    ref.current = controller;
+    return controller;
+  };
+
+  const cancelRequest = (ref: React.MutableRefObject<AbortController | null>) => {
+    ref.current?.abort();
+    ref.current = null;
+  };
+
+  useEffect(() => {
+    api.listBrandProfiles()
+      .then(setBrandProfiles)
+      .catch(err => {
+        console.error("Brand profiles load error:", err);
+        setError(api.errorMessage(err, "Failed to load brand profiles."));
+      });
+    api.listPersonas()
+      .then(setPersonas)
+      .catch(err => {
+        console.error("Personas load error:", err);
+        setError(api.errorMessage(err, "Failed to load personas."));
+      });
+    api.getSession()
+      .then(session => {
+        setUser(session.user);
+        setSetup(session.setup);
+      })
+      .catch(err => console.error("Session load error:", err));
+  }, []);
+
+  // Mirrors ON DELETE SET NULL: references to deleted profiles are dropped.
+  const changeBrandProfiles = (next: BrandProfile[]) => {
+    const exists = (id?: number | null) => id == null || next.some(p => p.id === id);
+    setBrandProfiles(next);
+    if (!exists(brandProfileId)) setBrandProfileId(null);
+    setCurrentRun(run => run && !exists(run.input.brandProfileId)
+      ? { ...run, input: { ...run.input, brandProfileId: undefined } }
+      : run);
+  };
+
+  const changePersonas = (next: Persona[]) => {
+    const exists = (id?: number | null) => id == null || next.some(p => p.id === id);
+    setPersonas(next);
+    if (!exists(personaId)) setPersonaId(null);
+    setCurrentRun(run => run && !exists(run.input.personaId)
+      ? { ...run, input: { ...run.input, personaId: undefined } }
+      : run);
+  };
 
   const handleDragOver = (e: React.DragEvent) => {
     e.preventDefault();
@@ -44,248 +168,498 @@ export default function App() {
     setIsDragging(false);
   };
 
+  // Resizes the new photos, appends them to the gallery and re-analyzes the
+  // whole set so every photo informs a single result.
+  const addImages = async (files: File[]) => {
+    const accepted = files.filter(file => file.type.startsWith('image/'));
+    if (accepted.length === 0) return;
+    const room = MAX_IMAGES - images.length;
+    if (room <= 0) {
+      setError(`You can add up to ${MAX_IMAGES} photos. Remove one first.`);
+      return;
+    }
+
+    let added: ProductImage[];
+    try {
+      added = await Promise.all(accepted.slice(0, room).map(resizeImage));
+    } catch (err) {
+      console.error("Image resize error:", err);
+      setError(err instanceof Error ? err.message : "Failed to read that image.");
+      return;
+    }
+    const next = [...images, ...added];
+    setImages(next);
+    analyzeImages(next);
+    if (accepted.length > room) setError(`Only the first ${MAX_IMAGES} photos were added.`);
+  };
+
   const handleDrop = (e: React.DragEvent) => {
     e.preventDefault();
     setIsDragging(false);
-    const file = e.dataTransfer.files?.[0];
-    if (file && file.type.startsWith('image/')) {
-      const reader = new FileReader();
-      reader.onloadend = () => {
-        setSelectedImage(reader.result as string);
-        analyzeImage(reader.result as string);
-      };
-      reader.readAsDataURL(file);
-    }
+    addImages(Array.from(e.dataTransfer.files ?? []));
   };
 
   const handleImageUpload = (e: React.ChangeEvent<HTMLInputElement>) => {
-    const file = e.target.files?.[0];
-    if (file) {
-      const reader = new FileReader();
-      reader.onloadend = () => {
-        setSelectedImage(reader.result as string);
-        analyzeImage(reader.result as string);
-      };
-      reader.readAsDataURL(file);
+    addImages(Array.from(e.target.files ?? []));
+    // Allows picking the same file again after removing it.
+    e.target.value = '';
+  };
+
+  const removeImage = (id: string) => {
+    setImages(prev => prev.filter(image => image.id !== id));
+  };
+
+  const moveImage = (idx: number, offset: -1 | 1) => {
+    setImages(prev => {
+      const next = [...prev];
+      [next[idx], next[idx + offset]] = [next[idx + offset], next[idx]];
+      return next;
+    });
+  };
+
+  const preset = PLATFORMS[platform];
+  const pacing = pacedPlatform(platform, wordsPerSecond ?? undefined);
+  const pacingLanguage = LANGUAGES[language];
+
+  const changePlatform = (next: PlatformId) => {
+    setPlatform(next);
+    if (!PLATFORMS[next].durations.includes(duration)) {
+      setDuration(PLATFORMS[next].defaultDuration);
     }
   };
 
-  const analyzeImage = async (base64Image: string) => {
+  const applyAnalysis = (result: ProductAnalysis) => {
+    setProductName(result.productName);
+    setMainProblem(result.mainProblem);
+    setKeyBenefit(result.keyBenefit);
+    setSecondaryBenefits(result.secondaryBenefits.join('\n'));
+    setVisibleFeatures(result.visibleFeatures.join('\n'));
+  };
+
+  const analyzeImages = async (gallery: ProductImage[]) => {
+    const controller = startRequest(imageRequest);
     setAnalyzing(true);
     setError(null);
-    
-    const imageData = base64Image.split(',')[1];
-    
-    const prompt = `Analyze this product image. Extract details for a UGC video script.
-    Return a JSON object with:
-    - productName: Name/type of product.
-    - mainProblem: The specific pain point this product solves.
-    - keyBenefit: The primary selling point.
-    
-    Be concise and marketing-focused.`;
 
     try {
-      const response = await ai.models.generateContent({
-        model: "gemini-3-flash-preview",
-        contents: [
-          {
-            parts: [
-              { text: prompt },
-              {
-                inlineData: {
-                  mimeType: "image/jpeg",
-                  data: imageData
-                }
-              }
-            ]
-          }
-        ],
-        config: {
-          responseMimeType: "application/json",
-          responseSchema: {
-            type: Type.OBJECT,
-            properties: {
-              productName: { type: Type.STRING },
-              mainProblem: { type: Type.STRING },
-              keyBenefit: { type: Type.STRING },
-            },
-            required: ["productName", "mainProblem", "keyBenefit"]
-          }
-        }
-      });
-
-      const resultText = response.text || "{}";
-      try {
-        const result = JSON.parse(resultText);
-        setProductName(result.productName || '');
-        setMainProblem(result.mainProblem || '');
-        setKeyBenefit(result.keyBenefit || '');
-      } catch (e) {
-        console.error("Failed to parse analysis result:", resultText);
-        setError("AI returned an invalid format. Please try again or fill manually.");
-      }
+      const result = await api.analyzeImages(gallery.map(image => image.dataUrl), controller.signal);
+      if (!controller.signal.aborted) applyAnalysis(result);
     } catch (err) {
+      if (controller.signal.aborted) return;
       console.error("Analysis error:", err);
-      setError("Failed to analyze image. Please fill details manually.");
+      setError(api.errorMessage(err, "Failed to analyze image. Please fill details manually."));
     } finally {
-      setAnalyzing(false);
+      if (imageRequest.current === controller) {
+        imageRequest.current = null;
+        setAnalyzing(false);
+      }
     }
   };
 
+  const cancelAnalyzeImages = () => {
+    cancelRequest(imageRequest);
+    setAnalyzing(false);
+  };
+
   const analyzeUrl = async () => {
     if (!productUrl) {
       setError("Please provide a product URL.");
       return;
     }
 
+    const controller = startRequest(urlRequest);
     setFetchingUrl(true);
     setError(null);
 
-    const prompt = `Analyze the content of this URL: ${productUrl}. Extract details for a UGC video script.
-    Return a JSON object with:
-    - productName: Name/type of product.
-    - mainProblem: The specific pain point this product solves.
-    - keyBenefit: The primary selling point.
-    
-    Be concise and marketing-focused.`;
-
     try {
-      const response = await ai.models.generateContent({
-        model: "gemini-3-flash-preview",
-        contents: prompt,
-        config: {
-          tools: [{ urlContext: {} }],
-          responseMimeType: "application/json",
-          responseSchema: {
-            type: Type.OBJECT,
-            properties: {
-              productName: { type: Type.STRING },
-              mainProblem: { type: Type.STRING },
-              keyBenefit: { type: Type.STRING },
-            },
-            required: ["productName", "mainProblem", "keyBenefit"]
-          }
-        }
-      });
-
-      const resultText = response.text || "{}";
-      try {
-        const result = JSON.parse(resultText);
-        setProductName(result.productName || '');
-        setMainProblem(result.mainProblem || '');
-        setKeyBenefit(result.keyBenefit || '');
-      } catch (e) {
-        console.error("Failed to parse URL analysis result:", resultText);
-        setError("AI failed to extract details from the URL. Please fill manually.");
-      }
+      const result = await api.analyzeUrl(productUrl, controller.signal);
+      if (controller.signal.aborted) return;
+      applyAnalysis(result);
+      setProductPage(result.page ?? null);
     } catch (err) {
+      if (controller.signal.aborted) return;
       console.error("URL Analysis error:", err);
-      setError("Failed to analyze URL. Please check the link or fill manually.");
+      setError(api.errorMessage(err, "Failed to analyze URL. Please check the link or fill manually."));
+    } finally {
+      if (urlRequest.current === controller) {
+        urlRequest.current = null;
+        setFetchingUrl(false);
+      }
+    }
+  };
+
+  const cancelAnalyzeUrl = () => {
+    cancelRequest(urlRequest);
+    setFetchingUrl(false);
+  };
+
+  const addPageImage = async (url: string) => {
+    setAddingPageImage(url);
+    setError(null);
+    try {
+      await addImages([await api.fetchPageImage(url)]);
+    } catch (err) {
+      console.error("Page image error:", err);
+      setError(api.errorMessage(err, "Failed to load that image. Save it and upload it instead."));
     } finally {
-      setFetchingUrl(false);
+      setAddingPageImage(null);
     }
   };
 
-  const generateScripts = async () => {
+  const loadVariations = (next: ScriptVariation[]) => {
+    variationsEpoch.current++;
+    setVariations(next);
+    setUndoStacks([]);
+    setLocalizations([]);
+    setGrades([]);
+  };
+
+  const formInput = (): ScriptRequest => ({
+    productName,
+    productUrl: productUrl || undefined,
+    mainProblem,
+    keyBenefit,
+    secondaryBenefits: toList(secondaryBenefits),
+    visibleFeatures: toList(visibleFeatures),
+    toneStyle,
+    duration,
+    platform,
+    variationCount,
+    storyboard,
+    language,
+    wordsPerSecond: wordsPerSecond ?? undefined,
+    brandProfileId: brandProfileId ?? undefined,
+    personaId: personaId ?? undefined,
+    angle: angle ?? undefined,
+    productFacts: productPage ? factsFromPage(productPage) : undefined,
+    customerQuotes: customerQuotes.length > 0 ? customerQuotes : undefined,
+  });
+
+  const generateScripts = async (overrides: Partial<ScriptRequest> = {}) => {
     if (!productName || !mainProblem || !keyBenefit) {
       setError("Please provide product details to generate scripts.");
       return;
     }
 
+    const controller = startRequest(generationRequest);
     setLoading(true);
     setError(null);
-    setVariations([]);
-
-    const wordLimit = duration === '10' ? '20' : '30';
-    
-    const prompt = `Generate 3 professional UGC video scripts for "${productName}".
-    ${productUrl ? `Product URL for context: ${productUrl}` : ''}
-    Problem: ${mainProblem}
-    Benefit: ${keyBenefit}
-    Tone: ${toneStyle}
-    Duration: ${duration}s (~${wordLimit} words).
-
-    CONTEXT:
-    - Automatically determine the most likely target audience.
-    - Optimize for high-engagement short-form platforms (TikTok, Reels, Shorts).
-    - Structure: Hook → Problem → Solution → CTA.
-    - Style: Natural, conversational, creator-led.
-    - Ensure each script is distinct and creative.
-
-    STRICT JSON OUTPUT:
-    Return an array of 3 objects, each with: id (number), hook (string), problem (string), solution (string), cta (string).`;
+    loadVariations([]);
+    setCurrentRun(null);
+    setView('results');
+
+    const input = { ...formInput(), ...overrides };
 
     try {
-      const response = await ai.models.generateContent({
-        model: "gemini-3-flash-preview",
-        contents: prompt,
-        config: {
-          tools: productUrl ? [{ urlContext: {} }] : [],
-          responseMimeType: "application/json",
-          responseSchema: {
-            type: Type.ARRAY,
-            items: {
-              type: Type.OBJECT,
-              properties: {
-                id: { type: Type.INTEGER },
-                hook: { type: Type.STRING },
-                problem: { type: Type.STRING },
-                solution: { type: Type.STRING },
-                cta: { type: Type.STRING },
-              },
-              required: ["id", "hook", "problem", "solution", "cta"]
-            }
-          }
-        }
+      const { variations: result, promptVersion } = await api.generateScripts(input, {
+        signal: controller.signal,
+        onPartial: (partial) => {
+          if (controller.signal.aborted) return;
+          setVariations(partial.map((v, idx) => ({
+            id: idx + 1,
+            hook: v.hook ?? '',
+            problem: v.problem ?? '',
+            solution: v.solution ?? '',
+            cta: v.cta ?? '',
+          })));
+        },
       });
-
-      const resultText = response.text || "[]";
+      if (controller.signal.aborted) return;
+      loadVariations(result);
+      setLoading(false);
+      if (!user) {
+        setError("Scripts generated. Sign in to save them to your library.");
+        return;
+      }
       try {
-        const result = JSON.parse(resultText);
-        setVariations(result);
-      } catch (e) {
-        console.error("Failed to parse generation result:", resultText);
-        setError("AI returned an invalid format. Please try again.");
+        const run = await api.saveRun(input, result, promptVersion);
+        if (generationRequest.current !== controller) return;
+        setCurrentRun(run);
+        setLibraryVersion(v => v + 1);
+      } catch (err) {
+        console.error("Save error:", err);
+        setError("Scripts generated, but saving them to your library failed.");
       }
     } catch (err) {
+      if (controller.signal.aborted) return;
       console.error("Generation error:", err);
-      setError("Failed to generate scripts. Please try again.");
+      loadVariations([]);
+      setError(api.errorMessage(err, "Failed to generate scripts. Please try again."));
     } finally {
-      setLoading(false);
+      if (generationRequest.current === controller) {
+        generationRequest.current = null;
+        setLoading(false);
+      }
+    }
+  };
+
+  // For tabs that generate from the form: null, with the error shown, when
+  // the product details are missing.
+  const checkedInput = (purpose: string) => () => {
+    if (!productName || !mainProblem || !keyBenefit) {
+      setError(`Please provide product details to generate ${purpose}.`);
+      return null;
+    }
+    setError(null);
+    return formInput();
+  };
+
+  const applyReviewCluster = (cluster: ReviewCluster) => {
+    if (cluster.theme === 'pain') setMainProblem(cluster.summary);
+    if (cluster.theme === 'outcome') setKeyBenefit(cluster.summary);
+    setCustomerQuotes(prev => addClusterQuotes(prev, cluster));
+  };
+
+  const cancelGeneration = () => {
+    cancelRequest(generationRequest);
+    setLoading(false);
+    loadVariations([]);
+  };
+
+  const openRun = (run: SavedRun) => {
+    setProductName(run.input.productName);
+    setProductUrl(run.input.productUrl ?? '');
+    // Saved runs keep the facts but not the page's images.
+    setProductPage(run.input.productFacts ? { ...run.input.productFacts, url: run.input.productUrl ?? '', images: [] } : null);
+    setMainProblem(run.input.mainProblem);
+    setKeyBenefit(run.input.keyBenefit);
+    setCustomerQuotes(run.input.customerQuotes ?? []);
+    setSecondaryBenefits(run.input.secondaryBenefits?.join('\n') ?? '');
+    setVisibleFeatures(run.input.visibleFeatures?.join('\n') ?? '');
+    setToneStyle(run.input.toneStyle);
+    setPlatform(run.input.platform ?? DEFAULT_PLATFORM);
+    setDuration(run.input.duration);
+    setVariationCount(run.input.variationCount ?? DEFAULT_VARIATIONS);
+    setStoryboard(run.input.storyboard ?? false);
+    setLanguage(run.input.language ?? DEFAULT_LANGUAGE);
+    setWordsPerSecond(run.input.wordsPerSecond ?? null);
+    setBrandProfileId(run.input.brandProfileId ?? null);
+    setPersonaId(run.input.personaId ?? null);
+    setAngle(run.input.angle ?? null);
+    // Runs saved before ids were renumbered may repeat them.
+    loadVariations(numberVariations(run.variations.map(v => v.script)));
+    setCurrentRun(run);
+    setError(null);
+    setView('results');
+  };
+
+  const openRunById = async (runId: number) => {
+    try {
+      openRun(await api.getRun(runId));
+    } catch (err) {
+      console.error("Run load error:", err);
+      setError(api.errorMessage(err, "Failed to open the run."));
+    }
+  };
+
+  const updateSavedVariation = (variation: SavedVariation) => {
+    setCurrentRun(run => run && {
+      ...run,
+      variations: run.variations.map(v => v.id === variation.id ? variation : v),
+    });
+  };
+
+  const toggleStar = async (variation: SavedVariation) => {
+    try {
+      updateSavedVariation(await api.setStarred(variation.id, !variation.starred));
+      setLibraryVersion(v => v + 1);
+    } catch (err) {
+      console.error("Star error:", err);
+      setError(api.errorMessage(err, "Failed to update favorite."));
+    }
+  };
+
+  // Replaces one card's script and mirrors the change into the library when
+  // the run has been saved.
+  const commitVariation = (idx: number, next: ScriptVariation) => {
+    setVariations(prev => prev.map((v, i) => i === idx ? next : v));
+    setLocalization(idx, undefined);
+    setGrades(prev => prev.map((grade, i) => i === idx ? undefined : grade));
+    const saved = currentRun?.variations[idx];
+    if (saved && !user) {
+      setError("Revision applied. Sign in to save it to your library.");
+    } else if (saved) {
+      api.updateScript(saved.id, next)
+        .then(updated => {
+          updateSavedVariation(updated);
+          setLibraryVersion(v => v + 1);
+        })
+        .catch(err => {
+          console.error("Save revision error:", err);
+          setError("Revision applied, but saving it to your library failed.");
+        });
+    }
+  };
+
+  // Saved runs get the remix appended before it is shown, so the results and
+  // the run's saved variations stay in step.
+  const addRemix = async (remix: ScriptVariation) => {
+    if (currentRun) {
+      const saved = await api.addVariation(currentRun.id, remix);
+      setCurrentRun(run => run && { ...run, variations: [...run.variations, saved] });
+      setLibraryVersion(v => v + 1);
+    }
+    setVariations(prev => [...prev, remix]);
+    setRemixing(false);
+  };
+
+  const setLocalization = (idx: number, localized: LocalizedVariation | undefined) => {
+    setLocalizations(prev => {
+      const next = [...prev];
+      next[idx] = localized;
+      return next;
+    });
+  };
+
+  const reviseVariation = (idx: number, previous: ScriptVariation, next: ScriptVariation) => {
+    setUndoStacks(prev => {
+      const stacks = [...prev];
+      stacks[idx] = [...(stacks[idx] ?? []), previous];
+      return stacks;
+    });
+    commitVariation(idx, next);
+  };
+
+  const undoRevision = (idx: number) => {
+    const stack = undoStacks[idx];
+    if (!stack?.length) return;
+    setUndoStacks(prev => {
+      const stacks = [...prev];
+      stacks[idx] = stack.slice(0, -1);
+      return stacks;
+    });
+    commitVariation(idx, stack[stack.length - 1]);
+  };
+
+  const regenerateSection = async (idx: number, section: ScriptSection) => {
+    const current = variations[idx];
+    const epoch = variationsEpoch.current;
+    setError(null);
+    try {
+      const next = await api.regenerateSection(currentRun?.input ?? formInput(), current, section);
+      if (epoch === variationsEpoch.current) reviseVariation(idx, current, next);
+    } catch (err) {
+      if (epoch !== variationsEpoch.current) return;
+      console.error("Regenerate error:", err);
+      setError(api.errorMessage(err, "Failed to regenerate that section. Please try again."));
+    }
+  };
+
+  const refineVariation = async (idx: number, instruction: string) => {
+    const current = variations[idx];
+    const epoch = variationsEpoch.current;
+    setError(null);
+    try {
+      const next = await api.refineVariation(currentRun?.input ?? formInput(), current, instruction);
+      if (epoch !== variationsEpoch.current) return false;
+      reviseVariation(idx, current, next);
+      return true;
+    } catch (err) {
+      if (epoch !== variationsEpoch.current) return false;
+      console.error("Refine error:", err);
+      setError(api.errorMessage(err, "Failed to refine the script. Please try again."));
+      return false;
+    }
+  };
+
+  const fixCompliance = async (idx: number) => {
+    const current = variations[idx];
+    const epoch = variationsEpoch.current;
+    setError(null);
+    try {
+      const next = await api.fixCompliance(currentRun?.input ?? formInput(), current);
+      if (epoch === variationsEpoch.current) reviseVariation(idx, current, next);
+    } catch (err) {
+      if (epoch !== variationsEpoch.current) return;
+      console.error("Compliance fix error:", err);
+      setError(api.errorMessage(err, "Failed to fix the flagged phrases. Please try again."));
+    }
+  };
+
+  const localizeVariation = async (idx: number, target: LanguageId) => {
+    const current = variations[idx];
+    const epoch = variationsEpoch.current;
+    setError(null);
+    try {
+      const variation = await api.localizeVariation(currentRun?.input ?? formInput(), current, target);
+      if (epoch === variationsEpoch.current) setLocalization(idx, { language: target, variation });
+    } catch (err) {
+      if (epoch !== variationsEpoch.current) return;
+      console.error("Localize error:", err);
+      setError(api.errorMessage(err, "Failed to translate the script. Please try again."));
+    }
+  };
+
+  const trimVariation = async (idx: number) => {
+    const current = variations[idx];
+    const epoch = variationsEpoch.current;
+    setError(null);
+    try {
+      const next = await api.trimVariation(currentRun?.input ?? formInput(), current);
+      if (epoch === variationsEpoch.current) reviseVariation(idx, current, next);
+    } catch (err) {
+      if (epoch !== variationsEpoch.current) return;
+      console.error("Trim error:", err);
+      setError(api.errorMessage(err, "Failed to trim the script. Please try again."));
+    }
+  };
+
+  const gradeVariations = async () => {
+    const epoch = variationsEpoch.current;
+    setGrading(true);
+    setError(null);
+    try {
+      const result = await api.gradeVariations(currentRun?.input ?? formInput(), variations);
+      if (epoch === variationsEpoch.current) setGrades(result);
+    } catch (err) {
+      if (epoch !== variationsEpoch.current) return;
+      console.error("Grade error:", err);
+      setError(api.errorMessage(err, "Failed to grade the scripts. Please try again."));
+    } finally {
+      setGrading(false);
     }
   };
 
   const resetForm = () => {
+    cancelRequest(imageRequest);
+    cancelRequest(urlRequest);
+    cancelRequest(generationRequest);
+    setAnalyzing(false);
+    setFetchingUrl(false);
+    setLoading(false);
     setProductName('');
     setProductUrl('');
+    setProductPage(null);
     setMainProblem('');
     setKeyBenefit('');
-    setSelectedImage(null);
-    setVariations([]);
+    setCustomerQuotes([]);
+    setSecondaryBenefits('');
+    setVisibleFeatures('');
+    setImages([]);
+    loadVariations([]);
+    setCurrentRun(null);
     setError(null);
   };
 
   const [copiedId, setCopiedId] = useState<number | null>(null);
+  const [sharing, setSharing] = useState(false);
+  const [briefing, setBriefing] = useState(false);
+  const [remixing, setRemixing] = useState(false);
 
-  const copyToClipboard = (text: string, id: number) => {
-    if (!navigator.clipboard) {
-      // Fallback for non-secure contexts if necessary, though this app should be secure
-      const textArea = document.createElement("textarea");
-      textArea.value = text;
-      document.body.appendChild(textArea);
-      textArea.select();
-      try {
-        document.execCommand('copy');
-        setCopiedId(id);
-        setTimeout(() => setCopiedId(null), 2000);
-      } catch (err) {
-        console.error('Fallback copy failed', err);
-      }
-      document.body.removeChild(textArea);
-      return;
-    }
+  const resultsInput = currentRun?.input ?? formInput();
+  const resultsBrandId = resultsInput.brandProfileId;
+  const resultsBrand = brandProfiles.find(p => p.id === resultsBrandId);
+  const resultsPacing = pacedPlatform(resultsInput.platform, resultsInput.wordsPerSecond);
+  const resultsLanguage = LANGUAGES[resultsInput.language ?? DEFAULT_LANGUAGE];
+  const resultsScores = loading ? [] : variations.map((v, idx) => scoreVariation(v, resultsInput, grades[idx]));
+  // Card positions; each card keeps its original number.
+  const resultsOrder = variations.map((_, idx) => idx);
+  if (sortByScore && resultsScores.length > 0) {
+    resultsOrder.sort((a, b) => resultsScores[b].overall - resultsScores[a].overall);
+  }
 
-    navigator.clipboard.writeText(text).then(() => {
+  const copyToClipboard = (text: string, id: number) => {
+    copyText(text).then(() => {
       setCopiedId(id);
       setTimeout(() => setCopiedId(null), 2000);
     }).catch(err => {
@@ -314,6 +688,15 @@ export default function App() {
             <span className="text-[10px] font-bold uppercase tracking-[0.2em] text-gray-400">Professional UGC Engine</span>
             <div className="w-px h-4 bg-gray-200" />
             <button className="text-sm font-semibold hover:text-indigo-600 transition-colors">Support</button>
+            <div className="w-px h-4 bg-gray-200" />
+            <AccountMenu
+              user={user}
+              setup={setup}
+              onChange={(next) => {
+                setUser(next);
+                if (next) setSetup(false);
+              }}
+            />
           </div>
         </div>
       </header>
@@ -330,25 +713,26 @@ export default function App() {
 
             <div className="space-y-8">
               {/* Magic Upload */}
-              <div className="group">
+              <div className="space-y-3">
                 <div 
                   onClick={() => fileInputRef.current?.click()}
                   onDragOver={handleDragOver}
                   onDragLeave={handleDragLeave}
                   onDrop={handleDrop}
-                  className={`relative h-56 rounded-[2rem] border-2 border-dashed transition-all cursor-pointer flex flex-col items-center justify-center overflow-hidden ${isDragging ? 'border-indigo-500 bg-indigo-50' : selectedImage ? 'border-indigo-200 bg-indigo-50/20' : 'border-gray-200 hover:border-indigo-400 hover:bg-gray-50 shadow-sm'}`}
+                  className={`group relative h-56 rounded-[2rem] border-2 border-dashed transition-all cursor-pointer flex flex-col items-center justify-center overflow-hidden ${isDragging ? 'border-indigo-500 bg-indigo-50' : images.length > 0 ? 'border-indigo-200 bg-indigo-50/20' : 'border-gray-200 hover:border-indigo-400 hover:bg-gray-50 shadow-sm'}`}
                 >
-                  <input type="file" ref={fileInputRef} onChange={handleImageUpload} accept="image/*" className="hidden" />
+                  <input type="file" ref={fileInputRef} onChange={handleImageUpload} accept="image/*" multiple className="hidden" />
                   
-                  {selectedImage ? (
+                  {images.length > 0 ? (
                     <>
-                      <img src={selectedImage} alt="Preview" className="w-full h-full object-cover" />
+                      <img src={images[0].dataUrl} alt="Preview" className="w-full h-full object-cover" />
                       <div className="absolute inset-0 bg-black/60 opacity-0 group-hover:opacity-100 transition-opacity flex items-center justify-center backdrop-blur-sm">
-                        <p className="text-white text-sm font-bold tracking-wide uppercase">Replace Photo</p>
+                        <p className="text-white text-sm font-bold tracking-wide uppercase">{images.length < MAX_IMAGES ? 'Add More Photos' : 'Gallery Full'}</p>
                       </div>
                       <button 
-                        onClick={(e) => { e.stopPropagation(); setSelectedImage(null); }}
+                        onClick={(e) => { e.stopPropagation(); setImages([]); }}
                         className="absolute top-4 right-4 p-2 bg-white/90 rounded-full text-gray-600 hover:text-red-600 shadow-xl"
+                        title="Remove all photos"
                       >
                         <X className="w-4 h-4" />
                       </button>
@@ -358,8 +742,8 @@ export default function App() {
                       <div className="w-14 h-14 bg-gray-50 rounded-2xl flex items-center justify-center mx-auto mb-4 group-hover:scale-110 transition-transform shadow-sm">
                         <Upload className="w-6 h-6 text-gray-400 group-hover:text-indigo-600" />
                       </div>
-                      <p className="text-sm font-bold text-gray-900">Drop Product Photo</p>
-                      <p className="text-xs text-gray-400 mt-2 font-medium">AI will handle everything else</p>
+                      <p className="text-sm font-bold text-gray-900">Drop Product Photos</p>
+                      <p className="text-xs text-gray-400 mt-2 font-medium">Packaging, in use, texture: up to {MAX_IMAGES}</p>
                     </div>
                   )}
 
@@ -367,9 +751,57 @@ export default function App() {
                     <div className="absolute inset-0 bg-white/90 backdrop-blur-md flex flex-col items-center justify-center">
                       <div className="w-10 h-10 border-2 border-indigo-100 border-t-indigo-600 rounded-full animate-spin mb-4" />
                       <p className="text-[10px] font-black text-indigo-600 uppercase tracking-[0.3em]">Analyzing...</p>
+                      <button
+                        onClick={(e) => { e.stopPropagation(); cancelAnalyzeImages(); }}
+                        className="mt-4 px-4 py-2 rounded-xl text-[10px] font-black uppercase tracking-widest text-gray-400 hover:text-red-600 hover:bg-red-50 transition-all"
+                      >
+                        Cancel
+                      </button>
                     </div>
                   )}
                 </div>
+
+                {images.length > 0 && (
+                  <div className="flex items-center gap-2">
+                    <div className="flex gap-2 overflow-x-auto">
+                      {images.map((image, idx) => (
+                        <div key={image.id} className={`group/thumb relative shrink-0 w-16 h-16 rounded-xl overflow-hidden border-2 ${idx === 0 ? 'border-indigo-400' : 'border-transparent'}`}>
+                          <img src={image.dataUrl} alt={image.name} className="w-full h-full object-cover" />
+                          <div className="absolute inset-0 bg-black/60 opacity-0 group-hover/thumb:opacity-100 transition-opacity flex items-center justify-center">
+                            <button
+                              onClick={() => moveImage(idx, -1)}
+                              disabled={idx === 0}
+                              className="p-0.5 text-white disabled:opacity-30"
+                              title="Move left"
+                            >
+                              <ChevronLeft className="w-3.5 h-3.5" />
+                            </button>
+                            <button onClick={() => removeImage(image.id)} className="p-0.5 text-white hover:text-red-400" title="Remove photo">
+                              <X className="w-3.5 h-3.5" />
+                            </button>
+                            <button
+                              onClick={() => moveImage(idx, 1)}
+                              disabled={idx === images.length - 1}
+                              className="p-0.5 text-white disabled:opacity-30"
+                              title="Move right"
+                            >
+                              <ChevronRight className="w-3.5 h-3.5" />
+                            </button>
+                          </div>
+                        </div>
+                      ))}
+                    </div>
+                    <span className="ml-auto text-[10px] font-black text-gray-300">{images.length}/{MAX_IMAGES}</span>
+                    <button
+                      onClick={() => analyzeImages(images)}
+                      disabled={analyzing}
+                      className="p-2 rounded-xl text-gray-300 hover:text-indigo-600 hover:bg-indigo-50 disabled:hover:bg-transparent transition-all"
+                      title="Analyze all photos again"
+                    >
+                      <RefreshCw className="w-4 h-4" />
+                    </button>
+                  </div>
+                )}
               </div>
 
               {/* Manual Fields */}
@@ -384,17 +816,34 @@ export default function App() {
                       placeholder="https://example.com/product"
                       className="flex-1 px-5 py-4 rounded-2xl bg-gray-50 border-transparent focus:bg-white focus:ring-4 focus:ring-indigo-500/5 transition-all outline-none font-medium text-sm shadow-sm"
                       value={productUrl}
-                      onChange={(e) => setProductUrl(e.target.value)}
+                      onChange={(e) => {
+                        setProductUrl(e.target.value);
+                        setProductPage(null);
+                      }}
                     />
                     <button 
-                      onClick={analyzeUrl}
-                      disabled={fetchingUrl || !productUrl}
-                      className="px-4 bg-indigo-600 hover:bg-indigo-700 disabled:bg-gray-200 text-white rounded-2xl transition-all flex items-center justify-center shadow-lg shadow-indigo-600/10"
-                      title="Fetch details from URL"
+                      onClick={fetchingUrl ? cancelAnalyzeUrl : analyzeUrl}
+                      disabled={!fetchingUrl && !productUrl}
+                      className={`group/url px-4 ${fetchingUrl ? 'bg-gray-900 hover:bg-red-600' : 'bg-indigo-600 hover:bg-indigo-700'} disabled:bg-gray-200 text-white rounded-2xl transition-all flex items-center justify-center shadow-lg shadow-indigo-600/10`}
+                      title={fetchingUrl ? "Cancel" : "Fetch details from URL"}
                     >
-                      {fetchingUrl ? <Loader2 className="w-4 h-4 animate-spin" /> : <Sparkles className="w-4 h-4" />}
+                      {fetchingUrl ? (
+                        <>
+                          <Loader2 className="w-4 h-4 animate-spin group-hover/url:hidden" />
+                          <X className="w-4 h-4 hidden group-hover/url:block" />
+                        </>
+                      ) : <Sparkles className="w-4 h-4" />}
                     </button>
                   </div>
+                  {productPage && (
+                    <ProductPageCard
+                      page={productPage}
+                      addingImage={addingPageImage}
+                      canAddImages={images.length < MAX_IMAGES}
+                      onAddImage={addPageImage}
+                      onRemove={() => setProductPage(null)}
+                    />
+                  )}
                 </div>
 
                 <div className="space-y-2">
@@ -434,7 +883,48 @@ export default function App() {
                   />
                 </div>
 
+                {customerQuotes.length > 0 && (
+                  <CustomerQuotesCard
+                    quotes={customerQuotes}
+                    onRemove={(quote) => setCustomerQuotes(prev => prev.filter(q => q.text !== quote.text))}
+                    onClear={() => setCustomerQuotes([])}
+                  />
+                )}
+
                 <div className="grid grid-cols-2 gap-4">
+                  <div className="space-y-2">
+                    <label className="text-[10px] font-black uppercase tracking-[0.2em] text-gray-400">More Benefits</label>
+                    <textarea 
+                      placeholder="Optional, one per line"
+                      className="w-full px-5 py-4 rounded-2xl bg-gray-50 border-transparent focus:bg-white focus:ring-4 focus:ring-indigo-500/5 transition-all outline-none font-medium text-sm min-h-[100px] resize-none shadow-sm"
+                      value={secondaryBenefits}
+                      onChange={(e) => setSecondaryBenefits(e.target.value)}
+                    />
+                  </div>
+                  <div className="space-y-2">
+                    <label className="text-[10px] font-black uppercase tracking-[0.2em] text-gray-400">Visible Features</label>
+                    <textarea 
+                      placeholder="Optional, one per line"
+                      className="w-full px-5 py-4 rounded-2xl bg-gray-50 border-transparent focus:bg-white focus:ring-4 focus:ring-indigo-500/5 transition-all outline-none font-medium text-sm min-h-[100px] resize-none shadow-sm"
+                      value={visibleFeatures}
+                      onChange={(e) => setVisibleFeatures(e.target.value)}
+                    />
+                  </div>
+                </div>
+
+                <div className="grid grid-cols-2 gap-4">
+                  <div className="space-y-2">
+                    <label className="text-[10px] font-black uppercase tracking-[0.2em] text-gray-400">Platform</label>
+                    <select 
+                      className="w-full px-5 py-4 rounded-2xl bg-gray-50 border-transparent focus:bg-white focus:ring-4 focus:ring-indigo-500/5 transition-all outline-none appearance-none cursor-pointer font-medium text-sm shadow-sm"
+                      value={platform}
+                      onChange={(e) => changePlatform(e.target.value as PlatformId)}
+                    >
+                      {PLATFORM_IDS.map(id => (
+                        <option key={id} value={id}>{PLATFORMS[id].label}</option>
+                      ))}
+                    </select>
+                  </div>
                   <div className="space-y-2">
                     <label className="text-[10px] font-black uppercase tracking-[0.2em] text-gray-400">Tone</label>
                     <select 
@@ -442,30 +932,142 @@ export default function App() {
                       value={toneStyle}
                       onChange={(e) => setToneStyle(e.target.value)}
                     >
-                      <option>Energetic</option>
-                      <option>Casual</option>
-                      <option>Bold</option>
-                      <option>Emotional</option>
+                      {TONES.map(tone => (
+                        <option key={tone}>{tone}</option>
+                      ))}
                     </select>
                   </div>
+                </div>
+
+                <div className="grid grid-cols-2 gap-4">
                   <div className="space-y-2">
                     <label className="text-[10px] font-black uppercase tracking-[0.2em] text-gray-400">Length</label>
                     <div className="flex bg-gray-50 p-1.5 rounded-2xl shadow-sm">
-                      <button 
-                        onClick={() => setDuration('10')}
-                        className={`flex-1 py-2.5 text-xs font-bold rounded-xl transition-all ${duration === '10' ? 'bg-white text-indigo-600 shadow-sm' : 'text-gray-400 hover:text-gray-600'}`}
-                      >
-                        10s
-                      </button>
-                      <button 
-                        onClick={() => setDuration('15')}
-                        className={`flex-1 py-2.5 text-xs font-bold rounded-xl transition-all ${duration === '15' ? 'bg-white text-indigo-600 shadow-sm' : 'text-gray-400 hover:text-gray-600'}`}
-                      >
-                        15s
-                      </button>
+                      {preset.durations.map(d => (
+                        <button 
+                          key={d}
+                          onClick={() => setDuration(d)}
+                          className={`flex-1 py-2.5 text-xs font-bold rounded-xl transition-all ${duration === d ? 'bg-white text-indigo-600 shadow-sm' : 'text-gray-400 hover:text-gray-600'}`}
+                        >
+                          {d}s
+                        </button>
+                      ))}
                     </div>
                   </div>
+                  <div className="space-y-2">
+                    <label className="text-[10px] font-black uppercase tracking-[0.2em] text-gray-400">Variations</label>
+                    <select 
+                      className="w-full px-5 py-4 rounded-2xl bg-gray-50 border-transparent focus:bg-white focus:ring-4 focus:ring-indigo-500/5 transition-all outline-none appearance-none cursor-pointer font-medium text-sm shadow-sm"
+                      value={variationCount}
+                      onChange={(e) => setVariationCount(Number(e.target.value))}
+                    >
+                      {Array.from({ length: MAX_VARIATIONS - MIN_VARIATIONS + 1 }, (_, i) => MIN_VARIATIONS + i).map(n => (
+                        <option key={n} value={n}>{n} {n === 1 ? 'script' : 'scripts'}</option>
+                      ))}
+                    </select>
+                  </div>
+                </div>
+                <p className="text-[10px] font-bold text-gray-300 -mt-3 flex items-center gap-1.5">
+                  <Clock className="w-3 h-3" />
+                  ~{lengthBudget(pacing, duration, pacingLanguage)} {pacingLanguage.unit} at {unitsPerSecond(pacing, pacingLanguage)} {pacingLanguage.unit}/sec · hook within {preset.hookSeconds}s · {preset.ctaTiming}
+                </p>
+
+                <div className="space-y-2">
+                  <div className="flex items-center justify-between">
+                    <label className="text-[10px] font-black uppercase tracking-[0.2em] text-gray-400">Speaking Rate</label>
+                    <span className="text-[10px] font-bold text-gray-400 flex items-center gap-2">
+                      {pacing.wordsPerSecond.toFixed(1)} words/sec
+                      {wordsPerSecond !== null && (
+                        <button
+                          onClick={() => setWordsPerSecond(null)}
+                          className="font-black uppercase tracking-widest text-indigo-600 hover:text-indigo-700"
+                          title={`Back to the ${preset.label} rate`}
+                        >
+                          Reset
+                        </button>
+                      )}
+                    </span>
+                  </div>
+                  <input
+                    type="range"
+                    min={MIN_WORDS_PER_SECOND}
+                    max={MAX_WORDS_PER_SECOND}
+                    step={0.1}
+                    value={pacing.wordsPerSecond}
+                    onChange={(e) => setWordsPerSecond(Number(e.target.value))}
+                    className="w-full accent-indigo-600 cursor-pointer"
+                  />
+                </div>
+
+                <div className="grid grid-cols-2 gap-4">
+                  <div className="space-y-2">
+                    <label className="text-[10px] font-black uppercase tracking-[0.2em] text-gray-400">Language</label>
+                    <select 
+                      className="w-full px-5 py-4 rounded-2xl bg-gray-50 border-transparent focus:bg-white focus:ring-4 focus:ring-indigo-500/5 transition-all outline-none appearance-none cursor-pointer font-medium text-sm shadow-sm"
+                      value={language}
+                      onChange={(e) => setLanguage(e.target.value as LanguageId)}
+                    >
+                      {LANGUAGE_IDS.map(id => (
+                        <option key={id} value={id}>{LANGUAGES[id].nativeLabel}</option>
+                      ))}
+                    </select>
+                  </div>
+                  <div className="space-y-2">
+                    <label className="text-[10px] font-black uppercase tracking-[0.2em] text-gray-400">Brand Profile</label>
+                    <select 
+                      className="w-full px-5 py-4 rounded-2xl bg-gray-50 border-transparent focus:bg-white focus:ring-4 focus:ring-indigo-500/5 transition-all outline-none appearance-none cursor-pointer font-medium text-sm shadow-sm"
+                      value={brandProfileId ?? ''}
+                      onChange={(e) => setBrandProfileId(e.target.value ? Number(e.target.value) : null)}
+                    >
+                      <option value="">No brand profile</option>
+                      {brandProfiles.map(profile => (
+                        <option key={profile.id} value={profile.id}>{profile.name}</option>
+                      ))}
+                    </select>
+                  </div>
+                </div>
+
+                <div className="grid grid-cols-2 gap-4">
+                  <div className="space-y-2">
+                    <label className="text-[10px] font-black uppercase tracking-[0.2em] text-gray-400">Persona</label>
+                    <select 
+                      className="w-full px-5 py-4 rounded-2xl bg-gray-50 border-transparent focus:bg-white focus:ring-4 focus:ring-indigo-500/5 transition-all outline-none appearance-none cursor-pointer font-medium text-sm shadow-sm"
+                      value={personaId ?? ''}
+                      onChange={(e) => setPersonaId(e.target.value ? Number(e.target.value) : null)}
+                    >
+                      <option value="">Auto audience</option>
+                      {personas.map(persona => (
+                        <option key={persona.id} value={persona.id}>{persona.name}</option>
+                      ))}
+                    </select>
+                  </div>
+                  <div className="space-y-2">
+                    <label className="text-[10px] font-black uppercase tracking-[0.2em] text-gray-400">Angle</label>
+                    <select 
+                      className="w-full px-5 py-4 rounded-2xl bg-gray-50 border-transparent focus:bg-white focus:ring-4 focus:ring-indigo-500/5 transition-all outline-none appearance-none cursor-pointer font-medium text-sm shadow-sm"
+                      value={angle ?? ''}
+                      onChange={(e) => setAngle((e.target.value || null) as AngleId | null)}
+                    >
+                      <option value="">Any angle</option>
+                      {ANGLE_IDS.map(id => (
+                        <option key={id} value={id}>{ANGLES[id].label}</option>
+                      ))}
+                    </select>
+                  </div>
                 </div>
+
+                <button
+                  onClick={() => setStoryboard(!storyboard)}
+                  className="w-full flex items-center justify-between px-5 py-4 rounded-2xl bg-gray-50 shadow-sm transition-all"
+                  title="Also generate a shot list for each script"
+                >
+                  <span className="text-[10px] font-black uppercase tracking-[0.2em] text-gray-400 flex items-center gap-2">
+                    <Clapperboard className="w-3 h-3" /> Storyboard Mode
+                  </span>
+                  <span className={`w-9 h-5 rounded-full p-0.5 transition-colors ${storyboard ? 'bg-indigo-600' : 'bg-gray-200'}`}>
+                    <span className={`block w-4 h-4 bg-white rounded-full shadow-sm transition-transform ${storyboard ? 'translate-x-4' : ''}`} />
+                  </span>
+                </button>
               </div>
 
               {error && (
@@ -476,12 +1078,15 @@ export default function App() {
 
               <div className="flex gap-4">
                 <button 
-                  onClick={generateScripts}
-                  disabled={loading || analyzing}
+                  onClick={loading ? cancelGeneration : () => generateScripts()}
+                  disabled={analyzing && !loading}
                   className="flex-[2] py-5 bg-black hover:bg-gray-900 disabled:bg-gray-200 text-white font-bold rounded-2xl shadow-2xl shadow-black/10 transition-all flex items-center justify-center gap-3 group active:scale-[0.98]"
                 >
                   {loading ? (
-                    <Loader2 className="w-5 h-5 animate-spin" />
+                    <>
+                      <Loader2 className="w-5 h-5 animate-spin" />
+                      Cancel
+                    </>
                   ) : (
                     <>
                       Generate Scripts
@@ -491,7 +1096,6 @@ export default function App() {
                 </button>
                 <button 
                   onClick={resetForm}
-                  disabled={loading || analyzing}
                   className="flex-1 py-5 bg-white border border-gray-200 hover:bg-gray-50 disabled:bg-gray-50 text-gray-500 font-bold rounded-2xl transition-all flex items-center justify-center gap-2 active:scale-[0.98]"
                   title="Reset Form"
                 >
@@ -505,105 +1109,291 @@ export default function App() {
           {/* Output Section */}
           <section className="space-y-8">
             <div className="flex items-center justify-between">
-              <h2 className="text-xl font-black tracking-tight">Results</h2>
+              <div className="flex flex-wrap items-center gap-x-6 gap-y-2">
+                <button
+                  onClick={() => setView('results')}
+                  className={`text-xl font-black tracking-tight transition-colors ${view === 'results' ? 'text-[#1A1A1A]' : 'text-gray-300 hover:text-gray-500'}`}
+                >
+                  Results
+                </button>
+                <button
+                  onClick={() => setView('hooks')}
+                  className={`text-xl font-black tracking-tight transition-colors ${view === 'hooks' ? 'text-[#1A1A1A]' : 'text-gray-300 hover:text-gray-500'}`}
+                >
+                  Hook Lab
+                </button>
+                <button
+                  onClick={() => setView('reviews')}
+                  className={`text-xl font-black tracking-tight transition-colors ${view === 'reviews' ? 'text-[#1A1A1A]' : 'text-gray-300 hover:text-gray-500'}`}
+                >
+                  Reviews
+                </button>
+                <button
+                  onClick={() => setView('matrix')}
+                  className={`text-xl font-black tracking-tight transition-colors ${view === 'matrix' ? 'text-[#1A1A1A]' : 'text-gray-300 hover:text-gray-500'}`}
+                >
+                  Matrix
+                </button>
+                <button
+                  onClick={() => setView('batch')}
+                  className={`text-xl font-black tracking-tight transition-colors ${view === 'batch' ? 'text-[#1A1A1A]' : 'text-gray-300 hover:text-gray-500'}`}
+                >
+                  Batch
+                </button>
+                <button
+                  onClick={() => setView('library')}
+                  className={`text-xl font-black tracking-tight transition-colors ${view === 'library' ? 'text-[#1A1A1A]' : 'text-gray-300 hover:text-gray-500'}`}
+                >
+                  Library
+                </button>
+                <button
+                  onClick={() => setView('board')}
+                  className={`text-xl font-black tracking-tight transition-colors ${view === 'board' ? 'text-[#1A1A1A]' : 'text-gray-300 hover:text-gray-500'}`}
+                >
+                  Board
+                </button>
+                <button
+                  onClick={() => setView('brands')}
+                  className={`text-xl font-black tracking-tight transition-colors ${view === 'brands' ? 'text-[#1A1A1A]' : 'text-gray-300 hover:text-gray-500'}`}
+                >
+                  Brands
+                </button>
+                <button
+                  onClick={() => setView('personas')}
+                  className={`text-xl font-black tracking-tight transition-colors ${view === 'personas' ? 'text-[#1A1A1A]' : 'text-gray-300 hover:text-gray-500'}`}
+                >
+                  Personas
+                </button>
+                <button
+                  onClick={() => setView('prompts')}
+                  className={`text-xl font-black tracking-tight transition-colors ${view === 'prompts' ? 'text-[#1A1A1A]' : 'text-gray-300 hover:text-gray-500'}`}
+                >
+                  Prompts
+                </button>
+                <button
+                  onClick={() => setView('usage')}
+                  className={`text-xl font-black tracking-tight transition-colors ${view === 'usage' ? 'text-[#1A1A1A]' : 'text-gray-300 hover:text-gray-500'}`}
+                >
+                  Usage
+                </button>
+                <button
+                  onClick={() => setView('settings')}
+                  className={`text-xl font-black tracking-tight transition-colors ${view === 'settings' ? 'text-[#1A1A1A]' : 'text-gray-300 hover:text-gray-500'}`}
+                >
+                  Settings
+                </button>
+              </div>
               <div className="flex items-center gap-4">
-                {variations.length > 0 && (
+                {view === 'results' && variations.length > 0 && !loading && (
+                  <button
+                    onClick={() => setSharing(!sharing)}
+                    className={`flex items-center gap-2 px-4 py-2 rounded-xl text-xs font-bold transition-all ${sharing ? 'bg-indigo-50 text-indigo-600' : 'bg-gray-50 text-gray-500 hover:bg-indigo-50 hover:text-indigo-600'}`}
+                  >
+                    <Share2 className="w-4 h-4" />
+                    Share
+                  </button>
+                )}
+                {view === 'results' && variations.length > 0 && !loading && (
+                  <button
+                    onClick={() => setBriefing(!briefing)}
+                    className={`flex items-center gap-2 px-4 py-2 rounded-xl text-xs font-bold transition-all ${briefing ? 'bg-indigo-50 text-indigo-600' : 'bg-gray-50 text-gray-500 hover:bg-indigo-50 hover:text-indigo-600'}`}
+                  >
+                    <FileText className="w-4 h-4" />
+                    Brief
+                  </button>
+                )}
+                {view === 'results' && variations.length > 1 && !loading && (
+                  <button
+                    onClick={() => setRemixing(!remixing)}
+                    className={`flex items-center gap-2 px-4 py-2 rounded-xl text-xs font-bold transition-all ${remixing ? 'bg-indigo-50 text-indigo-600' : 'bg-gray-50 text-gray-500 hover:bg-indigo-50 hover:text-indigo-600'}`}
+                  >
+                    <Shuffle className="w-4 h-4" />
+                    Remix
+                  </button>
+                )}
+                {view === 'results' && variations.length > 0 && !loading && (
                   <button 
-                    onClick={() => {
-                      const allText = variations.map((v, i) => `Variation ${i + 1}:\nHook: ${v.hook}\nProblem: ${v.problem}\nSolution: ${v.solution}\nCTA: ${v.cta}`).join('\n\n---\n\n');
-                      copyToClipboard(allText, -1); // -1 for "Copy All"
-                    }}
+                    onClick={() => copyToClipboard(campaignText(variations), -1)}
                     className={`flex items-center gap-2 px-4 py-2 rounded-xl text-xs font-bold transition-all ${copiedId === -1 ? 'bg-green-50 text-green-600' : 'bg-gray-50 text-gray-500 hover:bg-indigo-50 hover:text-indigo-600'}`}
                   >
                     {copiedId === -1 ? <CheckCircle className="w-4 h-4" /> : <Copy className="w-4 h-4" />}
                     {copiedId === -1 ? 'All Copied' : 'Copy All'}
                   </button>
                 )}
-                {variations.length > 0 && (
+                {view === 'results' && variations.length > 0 && !loading && (
                   <div className="flex items-center gap-2 px-3 py-1.5 bg-indigo-50 rounded-full">
                     <div className="w-1.5 h-1.5 bg-indigo-600 rounded-full animate-pulse" />
-                    <span className="text-[10px] font-black uppercase tracking-widest text-indigo-600">3 Variations Ready</span>
+                    <span className="text-[10px] font-black uppercase tracking-widest text-indigo-600">{variations.length} {variations.length === 1 ? 'Variation' : 'Variations'} Ready</span>
                   </div>
                 )}
               </div>
             </div>
 
             <div className="space-y-8">
-              <AnimatePresence mode="wait">
-                {loading ? (
-                  <motion.div 
-                    key="loading"
-                    initial={{ opacity: 0 }}
-                    animate={{ opacity: 1 }}
-                    exit={{ opacity: 0 }}
-                    className="flex flex-col items-center justify-center h-[600px] bg-white rounded-[2.5rem] border border-gray-100 shadow-sm"
-                  >
-                    <div className="relative">
-                      <div className="w-20 h-20 border-2 border-indigo-50 border-t-indigo-600 rounded-full animate-spin" />
-                      <Zap className="w-8 h-8 text-indigo-600 absolute top-1/2 left-1/2 -translate-x-1/2 -translate-y-1/2 fill-indigo-600" />
-                    </div>
-                    <p className="mt-6 text-sm font-black uppercase tracking-[0.3em] text-gray-300">Generating...</p>
-                  </motion.div>
-                ) : variations.length > 0 ? (
-                  <div className="grid gap-8">
-                    {variations.map((v, idx) => (
-                      <motion.div
-                        key={idx}
-                        initial={{ opacity: 0, y: 30 }}
-                        animate={{ opacity: 1, y: 0 }}
-                        transition={{ delay: idx * 0.15, type: "spring", stiffness: 100 }}
-                        className="bg-white p-10 rounded-[2.5rem] border border-gray-100 shadow-sm hover:shadow-xl hover:shadow-indigo-500/5 transition-all group relative"
-                      >
-                        <div className="flex items-center justify-between mb-8">
-                          <div className="flex items-center gap-3">
-                            <span className="w-8 h-8 bg-gray-50 rounded-lg flex items-center justify-center text-xs font-black text-gray-400">0{idx + 1}</span>
-                            <span className="text-[10px] font-black uppercase tracking-[0.2em] text-indigo-500">UGC Variation</span>
+              {/* Kept mounted so hook batches, pins, mined reviews and running matrices and CSV batches survive tab switches. */}
+              <div hidden={view !== 'hooks'}>
+                <HookLab
+                  getInput={checkedInput('hooks')}
+                  onBuildScript={(hook) => generateScripts({ fixedHook: hook.text, variationCount: 1 })}
+                  generating={loading}
+                />
+              </div>
+              <div hidden={view !== 'reviews'}>
+                <ReviewMiner productName={productName} quotes={customerQuotes} onUseCluster={applyReviewCluster} />
+              </div>
+              <div hidden={view !== 'matrix'}>
+                <MatrixPanel
+                  personas={personas}
+                  getInput={checkedInput('the matrix')}
+                  onSaved={() => setLibraryVersion(v => v + 1)}
+                  onOpen={openRun}
+                  onManagePersonas={() => setView('personas')}
+                />
+              </div>
+              <div hidden={view !== 'batch'}>
+                <BatchPanel
+                  getSettings={() => ({ platform, variationCount, storyboard, language, wordsPerSecond: wordsPerSecond ?? undefined, brandProfileId: brandProfileId ?? undefined })}
+                  onSaved={() => setLibraryVersion(v => v + 1)}
+                  onOpen={openRun}
+                />
+              </div>
+              {view === 'library' ? (
+                <HistoryPanel
+                  refreshKey={libraryVersion}
+                  activeRunId={currentRun?.id ?? null}
+                  onOpen={openRun}
+                  onDeleted={(runId) => setCurrentRun(run => run?.id === runId ? null : run)}
+                  onStarChange={updateSavedVariation}
+                />
+              ) : view === 'board' ? (
+                <BoardPanel
+                  user={user}
+                  refreshKey={libraryVersion}
+                  onOpenRun={openRunById}
+                  onChange={updateSavedVariation}
+                />
+              ) : view === 'brands' ? (
+                <BrandProfilesPanel profiles={brandProfiles} user={user} onChange={changeBrandProfiles} />
+              ) : view === 'personas' ? (
+                <PersonasPanel personas={personas} user={user} onChange={changePersonas} />
+              ) : view === 'prompts' ? (
+                <PromptsPanel getInput={formInput} user={user} />
+              ) : view === 'usage' ? (
+                <UsagePanel user={user} />
+              ) : view === 'settings' ? (
+                <div className="space-y-8">
+                  <SettingsPanel user={user} />
+                  {user?.role === 'admin' && <TeamPanel user={user} onUserChange={setUser} />}
+                </div>
+              ) : view === 'hooks' || view === 'reviews' || view === 'matrix' || view === 'batch' ? null : (
+                <AnimatePresence mode="wait">
+                  {loading && variations.length === 0 ? (
+                    <motion.div 
+                      key="loading"
+                      initial={{ opacity: 0 }}
+                      animate={{ opacity: 1 }}
+                      exit={{ opacity: 0 }}
+                      className="flex flex-col items-center justify-center h-[600px] bg-white rounded-[2.5rem] border border-gray-100 shadow-sm"
+                    >
+                      <div className="relative">
+                        <div className="w-20 h-20 border-2 border-indigo-50 border-t-indigo-600 rounded-full animate-spin" />
+                        <Zap className="w-8 h-8 text-indigo-600 absolute top-1/2 left-1/2 -translate-x-1/2 -translate-y-1/2 fill-indigo-600" />
+                      </div>
+                      <p className="mt-6 text-sm font-black uppercase tracking-[0.3em] text-gray-300">Generating...</p>
+                    </motion.div>
+                  ) : variations.length > 0 ? (
+                    <div className="grid gap-8">
+                      <AnimatePresence>
+                        {sharing && !loading && (
+                          <SharePanel input={resultsInput} variations={variations} user={user} onClose={() => setSharing(false)} />
+                        )}
+                        {briefing && !loading && (
+                          <BriefPanel
+                            input={resultsInput}
+                            variations={variations}
+                            brand={resultsBrand}
+                            images={images}
+                            user={user}
+                            onClose={() => setBriefing(false)}
+                          />
+                        )}
+                        {remixing && !loading && (
+                          <RemixPanel
+                            input={resultsInput}
+                            variations={variations}
+                            onSave={addRemix}
+                            onClose={() => setRemixing(false)}
+                          />
+                        )}
+                      </AnimatePresence>
+                      {!loading && (
+                        <div className="flex items-center justify-between gap-4">
+                          <div className="flex items-center gap-1 p-1 bg-gray-50 rounded-xl">
+                            {([[false, 'As generated'], [true, 'Best score']] as const).map(([byScore, label]) => (
+                              <button
+                                key={label}
+                                onClick={() => setSortByScore(byScore)}
+                                className={`px-3 py-1.5 rounded-lg text-[10px] font-black uppercase tracking-widest transition-all ${sortByScore === byScore ? 'bg-white text-indigo-600 shadow-sm' : 'text-gray-400 hover:text-gray-600'}`}
+                              >
+                                {label}
+                              </button>
+                            ))}
                           </div>
-                          <button 
-                            onClick={() => copyToClipboard(`Hook: ${v.hook}\nProblem: ${v.problem}\nSolution: ${v.solution}\nCTA: ${v.cta}`, idx)}
-                            className={`p-3 rounded-xl transition-all ${copiedId === idx ? 'text-green-600 bg-green-50' : 'text-gray-300 hover:text-indigo-600 hover:bg-indigo-50'}`}
-                            title="Copy Script"
+                          <button
+                            onClick={gradeVariations}
+                            disabled={grading}
+                            className="flex items-center gap-2 px-4 py-2 rounded-xl text-xs font-bold bg-gray-50 text-gray-500 hover:bg-indigo-50 hover:text-indigo-600 disabled:opacity-50 transition-all"
+                            title="Have the AI grade hook, problem, benefit and CTA against a rubric"
                           >
-                            {copiedId === idx ? <CheckCircle className="w-5 h-5" /> : <Copy className="w-5 h-5" />}
+                            {grading ? <Loader2 className="w-4 h-4 animate-spin" /> : <Sparkles className="w-4 h-4" />}
+                            {grades.some(Boolean) ? 'Re-grade with AI' : 'Grade with AI'}
                           </button>
                         </div>
-                        
-                        <div className="space-y-6">
-                          <div className="space-y-2">
-                            <span className="text-[9px] font-black text-gray-300 uppercase tracking-widest">The Hook</span>
-                            <p className="text-lg font-bold leading-snug text-gray-900 italic">"{v.hook}"</p>
-                          </div>
-                          <div className="space-y-2">
-                            <span className="text-[9px] font-black text-gray-300 uppercase tracking-widest">The Problem</span>
-                            <p className="text-base font-medium leading-relaxed text-gray-600">{v.problem}</p>
-                          </div>
-                          <div className="space-y-2">
-                            <span className="text-[9px] font-black text-gray-300 uppercase tracking-widest">The Solution</span>
-                            <p className="text-base font-medium leading-relaxed text-gray-600">{v.solution}</p>
-                          </div>
-                          <div className="pt-4 border-t border-gray-50">
-                            <span className="text-[9px] font-black text-indigo-300 uppercase tracking-widest">Call to Action</span>
-                            <p className="text-lg font-black text-indigo-600 mt-1">{v.cta}</p>
-                          </div>
-                        </div>
-                      </motion.div>
-                    ))}
-                  </div>
-                ) : (
-                  <motion.div 
-                    key="empty"
-                    initial={{ opacity: 0 }}
-                    animate={{ opacity: 1 }}
-                    className="flex flex-col items-center justify-center h-[600px] bg-gray-50/30 rounded-[2.5rem] border border-dashed border-gray-200"
-                  >
-                    <div className="w-16 h-16 bg-white rounded-2xl flex items-center justify-center mb-6 shadow-sm">
-                      <Zap className="w-8 h-8 text-gray-200 fill-gray-100" />
+                      )}
+                      {resultsOrder.map(idx => [idx, variations[idx]] as const).map(([idx, v]) => (
+                        <VariationCard
+                          key={idx}
+                          variation={v}
+                          index={idx}
+                          productName={currentRun?.input.productName ?? productName}
+                          duration={currentRun?.input.duration ?? duration}
+                          language={resultsInput.language}
+                          copied={copiedId === idx}
+                          onCopy={() => copyToClipboard(variationText(v), idx)}
+                          saved={currentRun?.variations[idx]}
+                          onToggleStar={toggleStar}
+                          onRegenerateSection={(section) => regenerateSection(idx, section)}
+                          onRefine={(instruction) => refineVariation(idx, instruction)}
+                          undoCount={undoStacks[idx]?.length ?? 0}
+                          onUndo={() => undoRevision(idx)}
+                          compliance={resultsBrand && checkCompliance(v, resultsBrand)}
+                          onFixCompliance={resultsBrand && (() => fixCompliance(idx))}
+                          timeline={estimateTimeline(v, resultsPacing, resultsInput.duration, resultsLanguage)}
+                          onTrim={() => trimVariation(idx)}
+                          score={resultsScores[idx]}
+                          localized={localizations[idx]}
+                          onLocalize={(target) => localizeVariation(idx, target)}
+                          onCloseLocalized={() => setLocalization(idx, undefined)}
+                          streaming={loading}
+                        />
+                      ))}
                     </div>
-                    <p className="text-gray-400 text-sm font-bold">Ready for your next viral hit.</p>
-                    <p className="text-gray-300 text-xs mt-2">Upload a photo to begin.</p>
-                  </motion.div>
-                )}
-              </AnimatePresence>
+                  ) : (
+                    <motion.div 
+                      key="empty"
+                      initial={{ opacity: 0 }}
+                      animate={{ opacity: 1 }}
+                      className="flex flex-col items-center justify-center h-[600px] bg-gray-50/30 rounded-[2.5rem] border border-dashed border-gray-200"
+                    >
+                      <div className="w-16 h-16 bg-white rounded-2xl flex items-center justify-center mb-6 shadow-sm">
+                        <Zap className="w-8 h-8 text-gray-200 fill-gray-100" />
+                      </div>
+                      <p className="text-gray-400 text-sm font-bold">Ready for your next viral hit.</p>
+                      <p className="text-gray-300 text-xs mt-2">Upload a photo to begin.</p>
+                    </motion.div>
+                  )}
+                </AnimatePresence>
+              )}
             </div>
           </section>
         </div>
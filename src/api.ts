@@ -0,0 +1,347 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import type { ScriptStatus, UserRole } from './lib/approval';
+import type { LanguageId } from './lib/languages';
+import type { PromptTemplateId, PromptTemplateVersion } from './lib/prompts';
+import type { RubricGrade } from './lib/scoring';
+import { parsePartialJson } from './lib/partialJson';
+import type {
+  ActivityEntry,
+  ApiErrorBody,
+  ApiErrorCode,
+  BoardItem,
+  BrandProfile,
+  BrandProfileInput,
+  BriefSettings,
+  GenerationEvent,
+  HookIdea,
+  Persona,
+  PersonaInput,
+  ProductAnalysis,
+  ProviderSettings,
+  ReviewCluster,
+  SavedRun,
+  SavedVariation,
+  ScriptComment,
+  ScriptRequest,
+  ScriptSection,
+  ScriptVariation,
+  SharedCampaign,
+  ShareLink,
+  UrlAnalysis,
+  UsageQuotas,
+  UsageReport,
+  User,
+} from './types';
+
+export class ApiError extends Error {
+  code: ApiErrorCode | 'NETWORK';
+  status: number;
+
+  constructor(code: ApiErrorCode | 'NETWORK', message: string, status = 0) {
+    super(message);
+    this.name = 'ApiError';
+    this.code = code;
+    this.status = status;
+  }
+}
+
+export const isAbortError = (err: unknown) =>
+  err instanceof DOMException && err.name === 'AbortError';
+
+// Resolves with the raw response once it is known to be successful.
+const fetchApi = async (path: string, init?: RequestInit): Promise<Response> => {
+  let response: Response;
+  try {
+    response = await fetch(path, {
+      ...init,
+      headers: { 'Content-Type': 'application/json', ...init?.headers },
+    });
+  } catch (err) {
+    if (isAbortError(err)) throw err;
+    throw new ApiError('NETWORK', 'Could not reach the server.');
+  }
+
+  if (!response.ok) {
+    const body = await response.json().catch(() => null) as ApiErrorBody | null;
+    throw new ApiError(
+      body?.error?.code ?? 'INTERNAL',
+      body?.error?.message ?? `Request failed with status ${response.status}.`,
+      response.status
+    );
+  }
+  return response;
+};
+
+const request = async <T>(path: string, init?: RequestInit): Promise<T> => {
+  const response = await fetchApi(path, init);
+  return await response.json().catch(() => null) as T;
+};
+
+const post = <T>(path: string, body: unknown, signal?: AbortSignal) =>
+  request<T>(path, { method: 'POST', body: JSON.stringify(body), signal });
+
+// Takes data URLs; the server reads each image's MIME type from its prefix.
+export const analyzeImages = (images: string[], signal?: AbortSignal) =>
+  post<ProductAnalysis>('/api/analyze-image', { images }, signal);
+
+export const analyzeUrl = (url: string, signal?: AbortSignal) =>
+  post<UrlAnalysis>('/api/analyze-url', { url }, signal);
+
+// Downloads an image found on a product page through the server, as a File
+// the photo gallery can resize and analyze like an upload.
+export const fetchPageImage = async (url: string, signal?: AbortSignal) => {
+  const response = await fetchApi(`/api/page-image?${new URLSearchParams({ url })}`, { signal });
+  const blob = await response.blob();
+  const name = decodeURIComponent(new URL(url).pathname.split('/').pop() || 'page-image');
+  return new File([blob], name, { type: blob.type });
+};
+
+// Streams the generation, calling onPartial with every variation parsed so
+// far (fields fill in as they arrive) and resolving with the final array and
+// the prompt version that wrote it.
+export const generateScripts = async (
+  input: ScriptRequest,
+  options: { signal?: AbortSignal; onPartial?: (variations: Partial<ScriptVariation>[]) => void } = {}
+): Promise<{ variations: ScriptVariation[]; promptVersion: number }> => {
+  const response = await fetchApi('/api/generate-scripts', {
+    method: 'POST',
+    body: JSON.stringify(input),
+    signal: options.signal,
+  });
+  if (!response.body) {
+    throw new ApiError('INTERNAL', 'Streaming is not supported by this browser.');
+  }
+
+  const reader = response.body.pipeThrough(new TextDecoderStream()).getReader();
+  let buffer = '';
+  let text = '';
+  while (true) {
+    const { value, done } = await reader.read();
+    if (done) break;
+    buffer += value;
+    const lines = buffer.split('\n');
+    buffer = lines.pop() ?? '';
+
+    for (const line of lines) {
+      if (!line.trim()) continue;
+      const event = JSON.parse(line) as GenerationEvent;
+      if (event.type === 'delta') {
+        text += event.text;
+        const partial = parsePartialJson(text);
+        if (Array.isArray(partial)) {
+          options.onPartial?.(partial.filter(v => v && typeof v === 'object'));
+        }
+      } else if (event.type === 'restart') {
+        text = '';
+        options.onPartial?.([]);
+      } else if (event.type === 'done') {
+        return { variations: event.variations, promptVersion: event.promptVersion };
+      } else {
+        throw new ApiError(event.error.code, event.error.message, response.status);
+      }
+    }
+  }
+  throw new ApiError('NETWORK', 'The connection closed before generation finished.');
+};
+
+export const generateHooks = async (input: ScriptRequest, count: number, signal?: AbortSignal) =>
+  (await post<{ hooks: HookIdea[] }>('/api/hooks', { input, count }, signal)).hooks;
+
+export const regenerateSection = (input: ScriptRequest, variation: ScriptVariation, section: ScriptSection, signal?: AbortSignal) =>
+  post<ScriptVariation>('/api/regenerate-section', { input, variation, section }, signal);
+
+export const refineVariation = (input: ScriptRequest, variation: ScriptVariation, instruction: string, signal?: AbortSignal) =>
+  post<ScriptVariation>('/api/refine-variation', { input, variation, instruction }, signal);
+
+export const smoothRemix = (input: ScriptRequest, variation: ScriptVariation, signal?: AbortSignal) =>
+  post<ScriptVariation>('/api/smooth-remix', { input, variation }, signal);
+
+export const localizeVariation = (input: ScriptRequest, variation: ScriptVariation, language: LanguageId, signal?: AbortSignal) =>
+  post<ScriptVariation>('/api/localize', { input, variation, language }, signal);
+
+export const fixCompliance = (input: ScriptRequest, variation: ScriptVariation, signal?: AbortSignal) =>
+  post<ScriptVariation>('/api/fix-compliance', { input, variation }, signal);
+
+export const trimVariation = (input: ScriptRequest, variation: ScriptVariation, signal?: AbortSignal) =>
+  post<ScriptVariation>('/api/trim-variation', { input, variation }, signal);
+
+// One grade per variation, in the same order.
+export const gradeVariations = async (input: ScriptRequest, variations: ScriptVariation[], signal?: AbortSignal) =>
+  (await post<{ grades: RubricGrade[] }>('/api/grade-variations', { input, variations }, signal)).grades;
+
+// Themes across the reviews, pain points first, each with verbatim quotes.
+export const mineReviews = async (reviews: string[], productName?: string, signal?: AbortSignal) =>
+  (await post<{ clusters: ReviewCluster[] }>('/api/mine-reviews', { reviews, productName }, signal)).clusters;
+
+export const listRuns = async (params: { query?: string; starredOnly?: boolean } = {}) => {
+  const search = new URLSearchParams();
+  if (params.query) search.set('q', params.query);
+  if (params.starredOnly) search.set('starred', 'true');
+  return (await request<{ runs: SavedRun[] }>(`/api/runs?${search}`)).runs;
+};
+
+export const getRun = (id: number) =>
+  request<SavedRun>(`/api/runs/${id}`);
+
+export const saveRun = (input: ScriptRequest, variations: ScriptVariation[], promptVersion?: number) =>
+  post<SavedRun>('/api/runs', { input, variations, promptVersion });
+
+export const addVariation = (runId: number, variation: ScriptVariation) =>
+  post<SavedVariation>(`/api/runs/${runId}/variations`, { variation });
+
+export const deleteRun = (id: number) =>
+  request<void>(`/api/runs/${id}`, { method: 'DELETE' });
+
+const patchVariation = (variationId: number, patch: { starred?: boolean; script?: ScriptVariation; status?: ScriptStatus }) =>
+  request<SavedVariation>(`/api/variations/${variationId}`, { method: 'PATCH', body: JSON.stringify(patch) });
+
+export const setStarred = (variationId: number, starred: boolean) =>
+  patchVariation(variationId, { starred });
+
+export const updateScript = (variationId: number, script: ScriptVariation) =>
+  patchVariation(variationId, { script });
+
+export const setStatus = (variationId: number, status: ScriptStatus) =>
+  patchVariation(variationId, { status });
+
+export const getBoard = async (params: { status?: ScriptStatus; query?: string } = {}, signal?: AbortSignal) => {
+  const search = new URLSearchParams();
+  if (params.status) search.set('status', params.status);
+  if (params.query) search.set('q', params.query);
+  return (await request<{ items: BoardItem[] }>(`/api/board?${search}`, { signal })).items;
+};
+
+// Comments oldest first, activity newest first.
+export const getReview = (variationId: number, signal?: AbortSignal) =>
+  request<{ comments: ScriptComment[]; activity: ActivityEntry[] }>(`/api/variations/${variationId}/review`, { signal });
+
+export const addComment = (variationId: number, section: ScriptSection, body: string) =>
+  post<ScriptComment>(`/api/variations/${variationId}/comments`, { section, body });
+
+export const deleteComment = (id: number) =>
+  request<void>(`/api/comments/${id}`, { method: 'DELETE' });
+
+export const listActivity = async (signal?: AbortSignal) =>
+  (await request<{ activity: ActivityEntry[] }>('/api/activity', { signal })).activity;
+
+// `setup` is true until the first account, which becomes the admin, exists.
+export const getSession = () =>
+  request<{ user: User | null; setup: boolean }>('/api/session');
+
+export const signIn = (name: string, password: string) =>
+  post<User>('/api/session', { name, password });
+
+export const setUp = (name: string, password: string) =>
+  post<User>('/api/users', { name, password });
+
+export const listUsers = async () =>
+  (await request<{ users: User[] }>('/api/users')).users;
+
+export const addUser = (name: string, password: string, role: UserRole) =>
+  post<User>('/api/users', { name, password, role });
+
+export const setRole = (userId: number, role: UserRole) =>
+  request<User>(`/api/users/${userId}`, { method: 'PATCH', body: JSON.stringify({ role }) });
+
+export const signOut = () =>
+  request<void>('/api/session', { method: 'DELETE' });
+
+export const listBrandProfiles = async () =>
+  (await request<{ profiles: BrandProfile[] }>('/api/brand-profiles')).profiles;
+
+export const createBrandProfile = (profile: BrandProfileInput) =>
+  post<BrandProfile>('/api/brand-profiles', profile);
+
+export const updateBrandProfile = (id: number, profile: BrandProfileInput) =>
+  request<BrandProfile>(`/api/brand-profiles/${id}`, { method: 'PUT', body: JSON.stringify(profile) });
+
+export const deleteBrandProfile = (id: number) =>
+  request<void>(`/api/brand-profiles/${id}`, { method: 'DELETE' });
+
+export const listPersonas = async () =>
+  (await request<{ personas: Persona[] }>('/api/personas')).personas;
+
+export const createPersona = (persona: PersonaInput) =>
+  post<Persona>('/api/personas', persona);
+
+export const updatePersona = (id: number, persona: PersonaInput) =>
+  request<Persona>(`/api/personas/${id}`, { method: 'PUT', body: JSON.stringify(persona) });
+
+export const deletePersona = (id: number) =>
+  request<void>(`/api/personas/${id}`, { method: 'DELETE' });
+
+export const getProviderSettings = () =>
+  request<ProviderSettings>('/api/provider');
+
+export const updateProviderSettings = (settings: ProviderSettings) =>
+  request<ProviderSettings>('/api/provider', { method: 'PUT', body: JSON.stringify(settings) });
+
+export const getUsage = (signal?: AbortSignal) =>
+  request<UsageReport>('/api/usage', { signal });
+
+export const updateUsageQuotas = (quotas: UsageQuotas) =>
+  request<UsageQuotas>('/api/usage/quotas', { method: 'PUT', body: JSON.stringify(quotas) });
+
+export const getBriefSettings = () =>
+  request<BriefSettings>('/api/brief-settings');
+
+export const updateBriefSettings = (settings: BriefSettings) =>
+  request<BriefSettings>('/api/brief-settings', { method: 'PUT', body: JSON.stringify(settings) });
+
+export const listShares = async () =>
+  (await request<{ shares: ShareLink[] }>('/api/shares')).shares;
+
+export const createShare = (share: { title?: string; input: ScriptRequest; variations: ScriptVariation[]; expiresInDays?: number }) =>
+  post<ShareLink>('/api/shares', share);
+
+export const getSharedCampaign = (token: string, signal?: AbortSignal) =>
+  request<SharedCampaign>(`/api/shares/${encodeURIComponent(token)}`, { signal });
+
+export const revokeShare = (token: string) =>
+  request<ShareLink>(`/api/shares/${encodeURIComponent(token)}`, { method: 'DELETE' });
+
+// Maps API error codes onto the copy shown in the error banner. Anything
+// unrecognised falls back to the caller's action-specific message.
+export const errorMessage = (err: unknown, fallback: string): string => {
+  if (!(err instanceof ApiError)) return fallback;
+  switch (err.code) {
+    case 'INVALID_REQUEST':
+      return err.message;
+    case 'MISSING_API_KEY':
+      return "The server is missing its Gemini API key. Add GEMINI_API_KEY or pick another provider in Settings.";
+    case 'INVALID_MODEL_OUTPUT':
+      return "AI returned an invalid format, even after trying to repair it. Please try again or fill manually.";
+    case 'QUOTA_EXCEEDED':
+      return "The AI provider's rate limit or quota was reached. Wait a minute and try again.";
+    case 'SAFETY_BLOCKED':
+      return "The AI provider blocked this request for safety reasons. Try rephrasing the product details.";
+    case 'FETCH_FAILED':
+      return `${err.message} Fill in the details by hand or try another link.`;
+    case 'LINK_EXPIRED':
+    case 'LINK_REVOKED':
+    case 'DAILY_LIMIT':
+    case 'UNAUTHORIZED':
+    case 'FORBIDDEN':
+      return err.message;
+    case 'MODEL_UNREACHABLE':
+      return "The server could not reach the AI provider. Check the provider settings or try again shortly.";
+    case 'NETWORK':
+      return "Could not reach the server. Check your connection and try again.";
+    default:
+      return fallback;
+  }
+};
+
+// Newest first; the first entry is the version in use.
+export const listPromptVersions = async (template: PromptTemplateId) =>
+  (await request<{ versions: PromptTemplateVersion[] }>(`/api/prompt-templates/${template}`)).versions;
+
+export const savePromptVersion = (template: PromptTemplateId, text: string, note: string) =>
+  post<PromptTemplateVersion>(`/api/prompt-templates/${template}`, { text, note });
+
+export const previewPrompt = async (template: PromptTemplateId, text: string, input: ScriptRequest, signal?: AbortSignal) =>
+  (await post<{ prompt: string }>(`/api/prompt-templates/${template}/preview`, { text, input }, signal)).prompt;
@@ -0,0 +1,130 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import React, { useState } from 'react';
+import { Loader2, LogOut, UserRound } from "lucide-react";
+import * as api from '../api';
+import { MAX_PASSWORD_LENGTH, MAX_USER_NAME, MIN_PASSWORD_LENGTH } from '../lib/approval';
+import type { User } from '../types';
+
+interface AccountMenuProps {
+  user: User | null;
+  // Until the first account exists the menu creates it instead of signing in.
+  setup: boolean;
+  onChange: (user: User | null) => void;
+}
+
+const inputClass = "w-full px-4 py-3 rounded-xl bg-gray-50 border-transparent focus:bg-white focus:ring-4 focus:ring-indigo-500/5 transition-all outline-none font-medium text-sm shadow-sm";
+const labelClass = "text-[10px] font-black uppercase tracking-[0.2em] text-gray-400";
+
+export default function AccountMenu({ user, setup, onChange }: AccountMenuProps) {
+  const [open, setOpen] = useState(false);
+  const [name, setName] = useState('');
+  const [password, setPassword] = useState('');
+  const [busy, setBusy] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const submit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (busy) return;
+    setBusy(true);
+    setError(null);
+    try {
+      onChange(setup ? await api.setUp(name, password) : await api.signIn(name, password));
+      setOpen(false);
+      setPassword('');
+    } catch (err) {
+      console.error("Sign-in error:", err);
+      setError(api.errorMessage(err, setup ? "Failed to create the account." : "Failed to sign in."));
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const signOut = async () => {
+    try {
+      await api.signOut();
+      onChange(null);
+    } catch (err) {
+      console.error("Sign-out error:", err);
+    }
+  };
+
+  if (user) {
+    return (
+      <div className="flex items-center gap-2">
+        <span className="flex items-center gap-2 text-sm font-semibold">
+          <UserRound className="w-4 h-4 text-gray-400" />
+          {user.name}
+        </span>
+        <button
+          onClick={signOut}
+          className="p-2 rounded-xl text-gray-300 hover:text-indigo-600 hover:bg-indigo-50 transition-all"
+          title="Sign out"
+        >
+          <LogOut className="w-4 h-4" />
+        </button>
+      </div>
+    );
+  }
+
+  return (
+    <div className="relative">
+      <button
+        onClick={() => setOpen(!open)}
+        className="text-sm font-semibold hover:text-indigo-600 transition-colors"
+      >
+        {setup ? 'Set up' : 'Sign in'}
+      </button>
+      {open && (
+        <form
+          onSubmit={submit}
+          className="absolute right-0 top-10 w-72 bg-white p-6 rounded-[2rem] border border-gray-100 shadow-xl space-y-4"
+        >
+          {setup && (
+            <p className="text-xs font-bold text-gray-400">Create the first account. It can add everyone else from Settings.</p>
+          )}
+          <div className="space-y-2">
+            <label className={labelClass}>Name</label>
+            <input
+              className={inputClass}
+              value={name}
+              maxLength={MAX_USER_NAME}
+              autoComplete="username"
+              onChange={(e) => setName(e.target.value)}
+              autoFocus
+            />
+          </div>
+          <div className="space-y-2">
+            <label className={labelClass}>Password</label>
+            <input
+              type="password"
+              className={inputClass}
+              value={password}
+              minLength={MIN_PASSWORD_LENGTH}
+              maxLength={MAX_PASSWORD_LENGTH}
+              autoComplete={setup ? 'new-password' : 'current-password'}
+              onChange={(e) => setPassword(e.target.value)}
+            />
+          </div>
+          {error && (
+            <p className="text-xs font-bold text-red-600">{error}</p>
+          )}
+          <button
+            type="submit"
+            disabled={busy || !name.trim() || password.length < MIN_PASSWORD_LENGTH}
+            className="w-full py-3 bg-black hover:bg-gray-900 disabled:bg-gray-200 text-white font-bold rounded-xl transition-all flex items-center justify-center gap-2 text-sm"
+          >
+            {busy && <Loader2 className="w-4 h-4 animate-spin" />}
+            {setup ? 'Create account' : 'Sign in'}
+          </button>
+          {!setup && (
+            <p className="text-center text-[10px] font-bold text-gray-300">No account? Ask an admin to add you.</p>
+          )}
+        </form>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,264 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import React, { useRef, useState } from 'react';
+import { AlertCircle, CheckCircle, ExternalLink, FileSpreadsheet, Loader2, RotateCcw, Upload, X } from "lucide-react";
+import * as api from '../api';
+import { BATCH_CONCURRENCY, MAX_BATCH_ROWS, batchTemplate, batchToCsv, batchToJson, parseBatchCsv, runPool } from '../lib/batch';
+import type { BatchResult, BatchRow, BatchSettings } from '../lib/batch';
+import { downloadFile, slugify } from '../lib/download';
+import { DEFAULT_VARIATIONS, getPlatform } from '../lib/platforms';
+import type { SavedRun, ScriptVariation } from '../types';
+
+interface BatchPanelProps {
+  // Platform, variation count, storyboard, language and brand from the form;
+  // read when a file is loaded and applied to every row.
+  getSettings: () => BatchSettings;
+  onSaved: () => void;
+  onOpen: (run: SavedRun) => void;
+}
+
+type RowStatus = 'invalid' | 'queued' | 'running' | 'done' | 'failed';
+
+interface RowState extends BatchRow {
+  status: RowStatus;
+  error?: string;
+  variations?: ScriptVariation[];
+  run?: SavedRun;
+}
+
+const STATUS_STYLES: Record<RowStatus, string> = {
+  invalid: 'bg-amber-50 text-amber-600',
+  queued: 'bg-gray-50 text-gray-400',
+  running: 'bg-indigo-50 text-indigo-600',
+  done: 'bg-green-50 text-green-600',
+  failed: 'bg-red-50 text-red-600',
+};
+
+export default function BatchPanel({ getSettings, onSaved, onOpen }: BatchPanelProps) {
+  const [rows, setRows] = useState<RowState[]>([]);
+  const [settings, setSettings] = useState<BatchSettings | null>(null);
+  const [fileName, setFileName] = useState('');
+  const [fileError, setFileError] = useState<string | null>(null);
+  const [running, setRunning] = useState(false);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const request = useRef<AbortController | null>(null);
+  // Bumped when the rows are replaced, so late results from a cleared batch
+  // are dropped instead of landing on the new rows.
+  const batchEpoch = useRef(0);
+
+  const loadFile = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+
+    const current = getSettings();
+    try {
+      const parsed = parseBatchCsv(await file.text(), current);
+      batchEpoch.current++;
+      setRows(parsed.map(row => ({ ...row, status: row.problem ? 'invalid' : 'queued' })));
+      setSettings(current);
+      setFileName(file.name);
+      setFileError(null);
+    } catch (err) {
+      setFileError(err instanceof Error ? err.message : "Failed to read the CSV file.");
+    }
+  };
+
+  const runRow = async (idx: number, signal: AbortSignal) => {
+    const { input } = rows[idx];
+    const epoch = batchEpoch.current;
+    const updateRow = (patch: Partial<RowState>) => {
+      if (epoch !== batchEpoch.current) return;
+      setRows(prev => prev.map((row, i) => i === idx ? { ...row, ...patch } : row));
+    };
+
+    updateRow({ status: 'running', error: undefined });
+    try {
+      const { variations, promptVersion } = await api.generateScripts(input, { signal });
+      updateRow({ status: 'done', variations });
+      try {
+        updateRow({ run: await api.saveRun(input, variations, promptVersion) });
+        onSaved();
+      } catch (err) {
+        console.error("Batch save error:", err);
+        updateRow({ error: api.errorMessage(err, "Generated, but saving to your library failed.") });
+      }
+    } catch (err) {
+      if (signal.aborted) {
+        updateRow({ status: 'queued' });
+        return;
+      }
+      console.error("Batch row error:", err);
+      updateRow({ status: 'failed', error: api.errorMessage(err, "Generation failed.") });
+    }
+  };
+
+  const run = async (indices: number[]) => {
+    if (indices.length === 0) return;
+    const controller = new AbortController();
+    request.current = controller;
+    setRunning(true);
+    await runPool(indices, BATCH_CONCURRENCY, idx => runRow(idx, controller.signal), controller.signal);
+    if (request.current === controller) {
+      request.current = null;
+      setRunning(false);
+    }
+  };
+
+  const cancel = () => {
+    request.current?.abort();
+    request.current = null;
+    setRunning(false);
+  };
+
+  const clear = () => {
+    cancel();
+    batchEpoch.current++;
+    setRows([]);
+    setSettings(null);
+    setFileName('');
+  };
+
+  const indicesWhere = (status: RowStatus) =>
+    rows.flatMap((row, idx) => row.status === status ? [idx] : []);
+
+  const results: BatchResult[] = rows.flatMap(row => row.variations ? [{ input: row.input, variations: row.variations }] : []);
+  const runnable = rows.filter(row => row.status !== 'invalid').length;
+  const done = rows.filter(row => row.status === 'done').length;
+  const failed = indicesWhere('failed');
+  const exportName = slugify(fileName.replace(/\.csv$/i, ''));
+
+  const exportButtonClass = "flex items-center gap-2 px-4 py-2 rounded-xl text-xs font-bold bg-gray-50 text-gray-500 hover:bg-indigo-50 hover:text-indigo-600 transition-all";
+
+  return (
+    <div className="space-y-6">
+      <input type="file" ref={fileInputRef} onChange={loadFile} accept=".csv,text/csv" className="hidden" />
+
+      {rows.length === 0 ? (
+        <div
+          onClick={() => fileInputRef.current?.click()}
+          className="flex flex-col items-center justify-center h-[400px] bg-gray-50/30 rounded-[2.5rem] border border-dashed border-gray-200 text-center px-10 cursor-pointer hover:border-indigo-400 hover:bg-gray-50 transition-all"
+        >
+          <Upload className="w-8 h-8 text-gray-200 mb-4" />
+          <p className="text-gray-400 text-sm font-bold">Upload a CSV to generate scripts for a whole catalog.</p>
+          <p className="text-gray-300 text-xs mt-2">
+            Columns: productName, productUrl, mainProblem, keyBenefit, tone, duration. Up to {MAX_BATCH_ROWS} rows.
+          </p>
+          <button
+            onClick={(e) => { e.stopPropagation(); downloadFile('batch-template.csv', batchTemplate(), 'text/csv'); }}
+            className="mt-6 px-4 py-2 rounded-xl text-[10px] font-black uppercase tracking-widest text-indigo-600 hover:bg-indigo-50 transition-all"
+          >
+            Download template
+          </button>
+          {fileError && (
+            <p className="mt-4 text-xs font-bold text-red-600">{fileError}</p>
+          )}
+        </div>
+      ) : (
+        <>
+          <div className="bg-white p-6 rounded-[2rem] border border-gray-100 shadow-sm space-y-4">
+            <div className="flex items-center justify-between gap-4">
+              <div className="min-w-0">
+                <p className="font-bold text-gray-900 truncate flex items-center gap-2">
+                  <FileSpreadsheet className="w-4 h-4 text-gray-300" /> {fileName}
+                </p>
+                {settings && (
+                  <p className="text-[10px] font-black uppercase tracking-widest text-gray-300 mt-1">
+                    {getPlatform(settings.platform).label} · {settings.variationCount ?? DEFAULT_VARIATIONS} scripts per product · {rows.length} rows
+                  </p>
+                )}
+              </div>
+              <div className="flex items-center gap-2">
+                <button
+                  onClick={running ? cancel : () => run(indicesWhere('queued'))}
+                  disabled={!running && indicesWhere('queued').length === 0}
+                  className="px-5 py-3 bg-black hover:bg-gray-900 disabled:bg-gray-200 text-white text-xs font-bold rounded-xl transition-all flex items-center gap-2"
+                >
+                  {running ? <><Loader2 className="w-4 h-4 animate-spin" /> Cancel</> : done > 0 ? 'Resume' : 'Run Batch'}
+                </button>
+                <button
+                  onClick={clear}
+                  className="p-3 rounded-xl text-gray-300 hover:text-red-600 hover:bg-red-50 transition-all"
+                  title="Clear batch"
+                >
+                  <X className="w-4 h-4" />
+                </button>
+              </div>
+            </div>
+
+            <div className="h-1.5 bg-gray-50 rounded-full overflow-hidden">
+              <div className="h-full bg-indigo-600 transition-all" style={{ width: `${runnable ? (done / runnable) * 100 : 0}%` }} />
+            </div>
+            <div className="flex items-center justify-between gap-4">
+              <p className="text-[10px] font-black uppercase tracking-widest text-gray-400">
+                {done}/{runnable} done
+                {failed.length > 0 && <span className="text-red-500"> · {failed.length} failed</span>}
+                {runnable < rows.length && <span className="text-amber-500"> · {rows.length - runnable} skipped</span>}
+              </p>
+              <div className="flex items-center gap-2">
+                {failed.length > 0 && !running && (
+                  <button onClick={() => run(failed)} className={exportButtonClass}>
+                    <RotateCcw className="w-4 h-4" /> Retry failed
+                  </button>
+                )}
+                {results.length > 0 && (
+                  <>
+                    <button onClick={() => downloadFile(`${exportName}-scripts.csv`, batchToCsv(results), 'text/csv')} className={exportButtonClass}>
+                      CSV
+                    </button>
+                    <button onClick={() => downloadFile(`${exportName}-scripts.json`, batchToJson(results), 'application/json')} className={exportButtonClass}>
+                      JSON
+                    </button>
+                  </>
+                )}
+              </div>
+            </div>
+          </div>
+
+          <div className="space-y-2">
+            {rows.map((row, idx) => (
+              <div key={row.row} className="bg-white px-6 py-4 rounded-2xl border border-gray-100 shadow-sm flex items-start gap-4">
+                <span className="w-8 h-8 shrink-0 bg-gray-50 rounded-lg flex items-center justify-center text-xs font-black text-gray-400">{String(row.row).padStart(2, '0')}</span>
+                <div className="flex-1 min-w-0">
+                  <p className="font-bold text-gray-900 truncate">{row.input.productName || '—'}</p>
+                  <p className="text-[10px] font-black uppercase tracking-widest text-gray-300 mt-0.5">{row.input.toneStyle} · {row.input.duration}s</p>
+                  {(row.problem || row.error) && (
+                    <p className={`text-xs font-bold mt-1 flex items-center gap-1.5 ${row.status === 'invalid' ? 'text-amber-600' : 'text-red-600'}`}>
+                      <AlertCircle className="w-3 h-3 shrink-0" /> {row.problem ?? row.error}
+                    </p>
+                  )}
+                </div>
+                <span className={`px-2 py-1 rounded-lg text-[9px] font-black uppercase tracking-widest flex items-center gap-1 ${STATUS_STYLES[row.status]}`}>
+                  {row.status === 'running' && <Loader2 className="w-3 h-3 animate-spin" />}
+                  {row.status === 'done' && <CheckCircle className="w-3 h-3" />}
+                  {row.status}
+                </span>
+                {row.status === 'failed' && !running && (
+                  <button
+                    onClick={() => run([idx])}
+                    className="p-2 rounded-xl text-gray-300 hover:text-indigo-600 hover:bg-indigo-50 transition-all"
+                    title="Retry this row"
+                  >
+                    <RotateCcw className="w-4 h-4" />
+                  </button>
+                )}
+                {row.run && (
+                  <button
+                    onClick={() => onOpen(row.run!)}
+                    className="p-2 rounded-xl text-gray-300 hover:text-indigo-600 hover:bg-indigo-50 transition-all"
+                    title="Open in results"
+                  >
+                    <ExternalLink className="w-4 h-4" />
+                  </button>
+                )}
+              </div>
+            ))}
+          </div>
+        </>
+      )}
+    </div>
+  );
+}
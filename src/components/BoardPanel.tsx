@@ -0,0 +1,190 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import React, { useEffect, useState } from 'react';
+import { KanbanSquare, Loader2, MessageSquare, Search, Star } from "lucide-react";
+import * as api from '../api';
+import { describeChange, SCRIPT_STATUSES, STATUS_LABELS } from '../lib/approval';
+import type { ScriptStatus } from '../lib/approval';
+import ScriptReview from './ScriptReview';
+import type { ActivityEntry, BoardItem, SavedVariation, User } from '../types';
+
+interface BoardPanelProps {
+  user: User | null;
+  // Bumped by the parent whenever a run is saved or changed elsewhere.
+  refreshKey: number;
+  onOpenRun: (runId: number) => void;
+  onChange: (variation: SavedVariation) => void;
+}
+
+const labelClass = "text-[10px] font-black uppercase tracking-[0.2em] text-gray-400";
+
+const STATUS_DOTS: Record<ScriptStatus, string> = {
+  'draft': 'bg-gray-300',
+  'in-review': 'bg-indigo-500',
+  'changes-requested': 'bg-amber-500',
+  'approved': 'bg-green-500',
+  'filmed': 'bg-black',
+};
+
+const formatTime = (iso: string) =>
+  new Date(iso).toLocaleString(undefined, { month: 'short', day: 'numeric', hour: 'numeric', minute: '2-digit' });
+
+export default function BoardPanel({ user, refreshKey, onOpenRun, onChange }: BoardPanelProps) {
+  const [status, setStatus] = useState<ScriptStatus | null>(null);
+  const [query, setQuery] = useState('');
+  const [items, setItems] = useState<BoardItem[]>([]);
+  const [activity, setActivity] = useState<ActivityEntry[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [selectedId, setSelectedId] = useState<number | null>(null);
+  const [version, setVersion] = useState(0);
+
+  useEffect(() => {
+    let cancelled = false;
+    const timer = setTimeout(async () => {
+      setLoading(true);
+      try {
+        const [board, recent] = await Promise.all([
+          api.getBoard({ status: status ?? undefined, query }),
+          api.listActivity(),
+        ]);
+        if (!cancelled) {
+          setItems(board);
+          setActivity(recent);
+          setError(null);
+        }
+      } catch (err) {
+        console.error("Board load error:", err);
+        if (!cancelled) setError(api.errorMessage(err, "Failed to load the review board."));
+      } finally {
+        if (!cancelled) setLoading(false);
+      }
+    }, 250);
+    return () => {
+      cancelled = true;
+      clearTimeout(timer);
+    };
+  }, [status, query, refreshKey, version]);
+
+  const selected = items.find(item => item.variation.id === selectedId);
+
+  const changeVariation = (variation: SavedVariation) => {
+    setItems(prev => prev.map(item => item.variation.id === variation.id ? { ...item, variation } : item));
+    onChange(variation);
+  };
+
+  if (selected) {
+    return (
+      <ScriptReview
+        item={selected}
+        user={user}
+        onBack={() => { setSelectedId(null); setVersion(v => v + 1); }}
+        onChange={changeVariation}
+        onOpenRun={onOpenRun}
+      />
+    );
+  }
+
+  const columns = status ? [status] : SCRIPT_STATUSES;
+
+  return (
+    <div className="space-y-6">
+      <div className="relative">
+        <Search className="w-4 h-4 text-gray-300 absolute left-5 top-1/2 -translate-y-1/2" />
+        <input
+          type="search"
+          placeholder="Search by product..."
+          className="w-full pl-12 pr-5 py-4 rounded-2xl bg-gray-50 border-transparent focus:bg-white focus:ring-4 focus:ring-indigo-500/5 transition-all outline-none font-medium text-sm shadow-sm"
+          value={query}
+          onChange={(e) => setQuery(e.target.value)}
+        />
+      </div>
+
+      <div className="flex flex-wrap gap-2">
+        {[null, ...SCRIPT_STATUSES].map(option => (
+          <button
+            key={option ?? 'all'}
+            onClick={() => setStatus(option)}
+            className={`px-4 py-2 rounded-xl text-xs font-bold transition-all ${status === option ? 'bg-black text-white' : 'bg-gray-50 text-gray-500 hover:bg-indigo-50 hover:text-indigo-600'}`}
+          >
+            {option ? STATUS_LABELS[option] : 'All'}
+          </button>
+        ))}
+      </div>
+
+      {error && (
+        <p className="text-xs font-bold text-red-600">{error}</p>
+      )}
+
+      {loading && items.length === 0 ? (
+        <div className="flex items-center justify-center h-40">
+          <Loader2 className="w-5 h-5 text-gray-300 animate-spin" />
+        </div>
+      ) : items.length === 0 ? (
+        <div className="flex flex-col items-center justify-center h-[400px] bg-gray-50/30 rounded-[2.5rem] border border-dashed border-gray-200 text-center px-10">
+          <KanbanSquare className="w-8 h-8 text-gray-200 mb-4" />
+          <p className="text-gray-400 text-sm font-bold">{query || status ? 'No matching scripts.' : 'No saved scripts yet.'}</p>
+          <p className="text-gray-300 text-xs mt-2">Every saved script starts here as a draft, ready to send for review.</p>
+        </div>
+      ) : (
+        <div className={status ? 'space-y-3' : 'flex gap-4 overflow-x-auto pb-2'}>
+          {columns.map(column => {
+            const cards = items.filter(item => item.variation.status === column);
+            return (
+              <div key={column} className={status ? 'space-y-3' : 'w-60 shrink-0 space-y-3'}>
+                <div className="flex items-center gap-2 px-1">
+                  <span className={`w-2 h-2 rounded-full ${STATUS_DOTS[column]}`} />
+                  <span className={labelClass}>{STATUS_LABELS[column]}</span>
+                  <span className="text-[10px] font-black text-gray-300">{cards.length}</span>
+                </div>
+                {cards.map(item => (
+                  <button
+                    key={item.variation.id}
+                    onClick={() => setSelectedId(item.variation.id)}
+                    className="w-full text-left bg-white p-5 rounded-2xl border border-gray-100 shadow-sm hover:border-indigo-200 transition-all space-y-2"
+                  >
+                    <p className="text-[10px] font-black uppercase tracking-widest text-gray-300 truncate">
+                      {item.productName} · {String(item.position + 1).padStart(2, '0')}
+                    </p>
+                    <p className="text-sm font-bold text-gray-900 italic line-clamp-3">"{item.variation.script.hook}"</p>
+                    <p className="flex items-center gap-3 text-[10px] font-bold text-gray-400">
+                      {item.variation.starred && <Star className="w-3 h-3 text-amber-400 fill-amber-400" />}
+                      {item.comments > 0 && (
+                        <span className="flex items-center gap-1">
+                          <MessageSquare className="w-3 h-3" />
+                          {item.comments}
+                        </span>
+                      )}
+                      <span>{formatTime(item.updatedAt)}</span>
+                    </p>
+                  </button>
+                ))}
+              </div>
+            );
+          })}
+        </div>
+      )}
+
+      {activity.length > 0 && (
+        <div className="bg-white p-6 rounded-[2rem] border border-gray-100 shadow-sm space-y-3">
+          <span className={labelClass}>Recent activity</span>
+          {activity.map(entry => (
+            <button
+              key={entry.id}
+              onClick={() => setSelectedId(entry.variationId ?? null)}
+              disabled={!items.some(item => item.variation.id === entry.variationId)}
+              className="block w-full text-left text-xs text-gray-500 enabled:hover:text-indigo-600 transition-colors"
+            >
+              <span className="font-bold text-gray-700">{entry.user ?? 'A guest'}</span> {describeChange(entry.change)}
+              <span className="text-gray-400"> · {entry.productName}</span>
+              <span className="text-gray-300"> · {formatTime(entry.createdAt)}</span>
+            </button>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
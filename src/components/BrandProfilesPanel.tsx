@@ -0,0 +1,235 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import React, { useState } from 'react';
+import { motion } from "motion/react";
+import { BadgeCheck, Loader2, Pencil, Plus, Trash2, X } from "lucide-react";
+import * as api from '../api';
+import type { BrandProfile, BrandProfileInput, User } from '../types';
+
+interface BrandProfilesPanelProps {
+  profiles: BrandProfile[];
+  // Profiles can be used signed out but only changed when signed in.
+  user: User | null;
+  onChange: (profiles: BrandProfile[]) => void;
+}
+
+// List fields are edited as plain text, one entry per line.
+interface Draft {
+  name: string;
+  voice: string;
+  examples: string;
+  bannedWords: string;
+  disclaimers: string;
+  prohibitedClaims: string;
+}
+
+const EMPTY_DRAFT: Draft = { name: '', voice: '', examples: '', bannedWords: '', disclaimers: '', prohibitedClaims: '' };
+
+const toDraft = (profile: BrandProfile): Draft => ({
+  name: profile.name,
+  voice: profile.voice,
+  examples: profile.examples.join('\n'),
+  bannedWords: profile.bannedWords.join('\n'),
+  disclaimers: profile.disclaimers.join('\n'),
+  prohibitedClaims: profile.prohibitedClaims.join('\n'),
+});
+
+const lines = (text: string) => text.split('\n').map(line => line.trim()).filter(Boolean);
+
+const fromDraft = (draft: Draft): BrandProfileInput => ({
+  name: draft.name.trim(),
+  voice: draft.voice.trim(),
+  examples: lines(draft.examples),
+  // Banned words are short, so commas are accepted as separators too.
+  bannedWords: lines(draft.bannedWords.replace(/,/g, '\n')),
+  disclaimers: lines(draft.disclaimers),
+  prohibitedClaims: lines(draft.prohibitedClaims),
+});
+
+const inputClass = "w-full px-5 py-4 rounded-2xl bg-gray-50 border-transparent focus:bg-white focus:ring-4 focus:ring-indigo-500/5 transition-all outline-none font-medium text-sm shadow-sm";
+const labelClass = "text-[10px] font-black uppercase tracking-[0.2em] text-gray-400";
+
+export default function BrandProfilesPanel({ profiles, user, onChange }: BrandProfilesPanelProps) {
+  // null: list only; 'new': creating; a number: editing that profile.
+  const [editing, setEditing] = useState<number | 'new' | null>(null);
+  const [draft, setDraft] = useState<Draft>(EMPTY_DRAFT);
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const field = (key: keyof Draft) => ({
+    value: draft[key],
+    onChange: (e: React.ChangeEvent<HTMLInputElement | HTMLTextAreaElement>) => setDraft({ ...draft, [key]: e.target.value }),
+  });
+
+  const startEdit = (profile: BrandProfile | null) => {
+    setEditing(profile ? profile.id : 'new');
+    setDraft(profile ? toDraft(profile) : EMPTY_DRAFT);
+    setError(null);
+  };
+
+  const save = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!draft.name.trim() || saving) return;
+    setSaving(true);
+    setError(null);
+    try {
+      if (editing === 'new') {
+        const created = await api.createBrandProfile(fromDraft(draft));
+        onChange([...profiles, created]);
+      } else if (editing !== null) {
+        const updated = await api.updateBrandProfile(editing, fromDraft(draft));
+        onChange(profiles.map(p => p.id === updated.id ? updated : p));
+      }
+      setEditing(null);
+    } catch (err) {
+      console.error("Brand profile save error:", err);
+      setError(api.errorMessage(err, "Failed to save the brand profile."));
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const remove = async (profile: BrandProfile) => {
+    if (!window.confirm(`Delete the brand profile "${profile.name}"? Saved runs keep their scripts.`)) return;
+    try {
+      await api.deleteBrandProfile(profile.id);
+      onChange(profiles.filter(p => p.id !== profile.id));
+      if (editing === profile.id) setEditing(null);
+    } catch (err) {
+      console.error("Brand profile delete error:", err);
+      setError(api.errorMessage(err, "Failed to delete the brand profile."));
+    }
+  };
+
+  if (editing !== null) {
+    return (
+      <form onSubmit={save} className="bg-white p-10 rounded-[2.5rem] border border-gray-100 shadow-sm space-y-6">
+        <div className="flex items-center justify-between">
+          <span className="text-[10px] font-black uppercase tracking-[0.2em] text-indigo-500">
+            {editing === 'new' ? 'New Brand Profile' : 'Edit Brand Profile'}
+          </span>
+          <button
+            type="button"
+            onClick={() => setEditing(null)}
+            className="p-3 rounded-xl text-gray-300 hover:text-gray-600 hover:bg-gray-50 transition-all"
+            title="Close"
+          >
+            <X className="w-4 h-4" />
+          </button>
+        </div>
+
+        <div className="space-y-2">
+          <label className={labelClass}>Name</label>
+          <input type="text" placeholder="e.g. Glow Skincare" className={inputClass} maxLength={100} {...field('name')} />
+        </div>
+        <div className="space-y-2">
+          <label className={labelClass}>Voice</label>
+          <textarea placeholder="Warm, science-backed, never pushy. Speaks like a friend who happens to be a dermatologist." className={`${inputClass} min-h-[80px] resize-none`} {...field('voice')} />
+        </div>
+        <div className="space-y-2">
+          <label className={labelClass}>Example Sentences (one per line)</label>
+          <textarea className={`${inputClass} min-h-[80px] resize-none`} {...field('examples')} />
+        </div>
+        <div className="grid grid-cols-2 gap-4">
+          <div className="space-y-2">
+            <label className={labelClass}>Banned Words</label>
+            <textarea placeholder={"miracle\ncheap"} className={`${inputClass} min-h-[100px] resize-none`} {...field('bannedWords')} />
+          </div>
+          <div className="space-y-2">
+            <label className={labelClass}>Prohibited Claims</label>
+            <textarea placeholder={"cures\nguaranteed\n/\\d+\\s*(lbs?|kg)/"} className={`${inputClass} min-h-[100px] resize-none font-mono`} {...field('prohibitedClaims')} />
+          </div>
+        </div>
+        <p className="text-[10px] font-bold text-gray-300 -mt-3">
+          Claims match as whole words, ignoring case. Wrap a line in slashes to use a regular expression.
+        </p>
+        <div className="space-y-2">
+          <label className={labelClass}>Required Disclaimers (one per line)</label>
+          <textarea placeholder="Results may vary." className={`${inputClass} min-h-[60px] resize-none`} {...field('disclaimers')} />
+        </div>
+
+        {error && (
+          <p className="text-xs font-bold text-red-600">{error}</p>
+        )}
+
+        <button
+          type="submit"
+          disabled={saving || !draft.name.trim()}
+          className="w-full py-4 bg-black hover:bg-gray-900 disabled:bg-gray-200 text-white font-bold rounded-2xl shadow-xl shadow-black/10 transition-all flex items-center justify-center gap-3 active:scale-[0.98]"
+        >
+          {saving && <Loader2 className="w-4 h-4 animate-spin" />}
+          Save Profile
+        </button>
+      </form>
+    );
+  }
+
+  return (
+    <div className="space-y-6">
+      {!user && (
+        <p className="text-xs font-bold text-gray-400">Sign in at the top of the page to add or change brand profiles.</p>
+      )}
+      <button
+        onClick={() => startEdit(null)}
+        disabled={!user}
+        className="w-full py-4 bg-black hover:bg-gray-900 disabled:bg-gray-200 text-white font-bold rounded-2xl shadow-xl shadow-black/10 transition-all flex items-center justify-center gap-3 active:scale-[0.98]"
+      >
+        <Plus className="w-4 h-4" />
+        New Brand Profile
+      </button>
+
+      {error && (
+        <p className="text-xs font-bold text-red-600">{error}</p>
+      )}
+
+      {profiles.length === 0 ? (
+        <div className="flex flex-col items-center justify-center h-[400px] bg-gray-50/30 rounded-[2.5rem] border border-dashed border-gray-200 text-center px-10">
+          <BadgeCheck className="w-8 h-8 text-gray-200 mb-4" />
+          <p className="text-gray-400 text-sm font-bold">No brand profiles yet.</p>
+          <p className="text-gray-300 text-xs mt-2">Scripts generated under a profile follow its voice and are checked against its rules.</p>
+        </div>
+      ) : (
+        <div className="space-y-4">
+          {profiles.map((profile, idx) => (
+            <motion.div
+              key={profile.id}
+              initial={{ opacity: 0, y: 10 }}
+              animate={{ opacity: 1, y: 0 }}
+              transition={{ delay: Math.min(idx, 10) * 0.03 }}
+              className="bg-white p-6 rounded-[2rem] border border-gray-100 shadow-sm flex items-center justify-between gap-4"
+            >
+              <div className="min-w-0">
+                <p className="font-bold text-gray-900 truncate">{profile.name}</p>
+                {profile.voice && <p className="text-sm text-gray-500 mt-1 truncate">{profile.voice}</p>}
+                <p className="text-[10px] font-black uppercase tracking-widest text-gray-300 mt-1">
+                  {profile.bannedWords.length} banned · {profile.prohibitedClaims.length} claims · {profile.disclaimers.length} disclaimers
+                </p>
+              </div>
+              {user && (
+                <div className="flex items-center gap-1">
+                  <button
+                    onClick={() => startEdit(profile)}
+                    className="p-3 rounded-xl text-gray-300 hover:text-indigo-600 hover:bg-indigo-50 transition-all"
+                    title="Edit profile"
+                  >
+                    <Pencil className="w-4 h-4" />
+                  </button>
+                  <button
+                    onClick={() => remove(profile)}
+                    className="p-3 rounded-xl text-gray-300 hover:text-red-600 hover:bg-red-50 transition-all"
+                    title="Delete profile"
+                  >
+                    <Trash2 className="w-4 h-4" />
+                  </button>
+                </div>
+              )}
+            </motion.div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
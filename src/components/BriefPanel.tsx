@@ -0,0 +1,295 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import React, { useEffect, useState } from 'react';
+import { motion } from "motion/react";
+import { Check, FileText, ImageOff, Loader2, X } from "lucide-react";
+import * as api from '../api';
+import { briefToHtml, briefToMarkdown, briefToPdf, canWritePdf, DEFAULT_BRIEF_SETTINGS, MAX_BRIEF_GUIDELINES } from '../lib/brief';
+import type { CreatorBrief } from '../lib/brief';
+import { downloadFile, slugify } from '../lib/download';
+import { toJpeg } from '../lib/images';
+import type { ProductImage } from '../lib/images';
+import type { BrandProfile, BriefSettings, ScriptRequest, ScriptVariation, User } from '../types';
+
+interface BriefPanelProps {
+  input: ScriptRequest;
+  variations: ScriptVariation[];
+  brand?: BrandProfile;
+  // Photos from the form; the creator gets one of them.
+  images: ProductImage[];
+  // The header and guidelines are shared, so only an admin's are saved.
+  user: User | null;
+  onClose: () => void;
+}
+
+type BriefFormat = 'md' | 'html' | 'pdf';
+
+const FORMATS: { id: BriefFormat; label: string }[] = [
+  { id: 'md', label: 'Markdown' },
+  { id: 'html', label: 'HTML' },
+  { id: 'pdf', label: 'PDF' },
+];
+
+const inputClass = "w-full px-5 py-4 rounded-2xl bg-gray-50 border-transparent focus:bg-white focus:ring-4 focus:ring-indigo-500/5 transition-all outline-none font-medium text-sm shadow-sm";
+const labelClass = "text-[10px] font-black uppercase tracking-[0.2em] text-gray-400";
+
+const toLines = (text: string) => text.split('\n').map(line => line.trim()).filter(Boolean).slice(0, MAX_BRIEF_GUIDELINES);
+
+// Opens the brief in a new window and prints it, so the browser's own fonts
+// render scripts the PDF writer cannot. False when a pop-up blocker stops it.
+const printHtml = (html: string) => {
+  const win = window.open('', '_blank');
+  if (!win) return false;
+  win.document.write(html);
+  win.document.close();
+  win.focus();
+  win.print();
+  return true;
+};
+
+export default function BriefPanel({ input, variations, brand, images, user, onClose }: BriefPanelProps) {
+  const isAdmin = user?.role === 'admin';
+  const [settings, setSettings] = useState<BriefSettings>(DEFAULT_BRIEF_SETTINGS);
+  // Guidelines are edited as plain text, one per line.
+  const [dos, setDos] = useState(DEFAULT_BRIEF_SETTINGS.dos.join('\n'));
+  const [donts, setDonts] = useState(DEFAULT_BRIEF_SETTINGS.donts.join('\n'));
+  const [saved, setSaved] = useState<BriefSettings | null>(null);
+  const [selected, setSelected] = useState<number[]>(() => variations.map((_, idx) => idx));
+  const [photoId, setPhotoId] = useState<string | null>(images[0]?.id ?? null);
+  const [exporting, setExporting] = useState<BriefFormat | null>(null);
+  const [notice, setNotice] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+    api.getBriefSettings()
+      .then(loaded => {
+        if (cancelled) return;
+        setSettings(loaded);
+        setDos(loaded.dos.join('\n'));
+        setDonts(loaded.donts.join('\n'));
+        setSaved(loaded);
+      })
+      .catch(err => {
+        console.error("Brief settings load error:", err);
+        if (!cancelled) setError(api.errorMessage(err, "Failed to load your brief header."));
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, []);
+
+  // A new generation or opened run replaces the scripts.
+  useEffect(() => {
+    setSelected(variations.map((_, idx) => idx));
+  }, [variations]);
+
+  const photo = images.find(image => image.id === photoId);
+
+  const toggle = (idx: number) =>
+    setSelected(prev => prev.includes(idx) ? prev.filter(i => i !== idx) : [...prev, idx].sort((a, b) => a - b));
+
+  const exportBrief = async (format: BriefFormat) => {
+    const current: BriefSettings = {
+      ...settings,
+      agencyName: settings.agencyName.trim(),
+      contact: settings.contact.trim(),
+      dos: toLines(dos),
+      donts: toLines(donts),
+    };
+    const brief: CreatorBrief = {
+      settings: current,
+      input,
+      variations: selected.map(idx => variations[idx]),
+      brand,
+      photo: photo?.dataUrl,
+      createdAt: new Date(),
+    };
+    const filename = `${slugify(input.productName)}-brief.${format}`;
+
+    setExporting(format);
+    setNotice(null);
+    setError(null);
+    try {
+      if (format === 'md') {
+        downloadFile(filename, briefToMarkdown(brief), 'text/markdown');
+      } else if (format === 'html') {
+        downloadFile(filename, briefToHtml(brief), 'text/html');
+      } else if (canWritePdf(brief)) {
+        const jpeg = brief.photo ? await toJpeg(brief.photo) : undefined;
+        downloadFile(filename, briefToPdf(brief, jpeg), 'application/pdf');
+      } else if (!printHtml(briefToHtml(brief))) {
+        setError("Allow pop-ups for this site to print the brief as a PDF.");
+        return;
+      } else {
+        setNotice("This brief uses characters the built-in PDF fonts can't show, so it opened for printing instead. Choose \"Save as PDF\" as the printer.");
+      }
+    } catch (err) {
+      console.error("Brief export error:", err);
+      setError("Failed to create the brief.");
+      return;
+    } finally {
+      setExporting(null);
+    }
+
+    // Keep the header and guidelines for the next brief.
+    if (isAdmin && JSON.stringify(current) !== JSON.stringify(saved)) {
+      try {
+        setSaved(await api.updateBriefSettings(current));
+      } catch (err) {
+        console.error("Brief settings save error:", err);
+        setError(api.errorMessage(err, "The brief was created, but its header could not be saved."));
+      }
+    }
+  };
+
+  return (
+    <motion.div
+      initial={{ opacity: 0, y: -8 }}
+      animate={{ opacity: 1, y: 0 }}
+      exit={{ opacity: 0, y: -8 }}
+      className="bg-white p-8 rounded-[2.5rem] border border-gray-100 shadow-sm space-y-6"
+    >
+      <div className="flex items-center justify-between">
+        <span className="text-[10px] font-black uppercase tracking-[0.2em] text-indigo-500 flex items-center gap-1.5">
+          <FileText className="w-3.5 h-3.5" /> Creator brief
+        </span>
+        <button
+          onClick={onClose}
+          className="p-1.5 rounded-lg text-gray-300 hover:text-gray-600 hover:bg-gray-50 transition-all"
+          title="Close"
+        >
+          <X className="w-4 h-4" />
+        </button>
+      </div>
+
+      <div className="grid grid-cols-[1fr_1fr_72px] gap-4">
+        <div className="space-y-2">
+          <label className={labelClass}>Agency</label>
+          <input
+            type="text"
+            className={inputClass}
+            placeholder="Your agency name"
+            value={settings.agencyName}
+            onChange={(e) => setSettings({ ...settings, agencyName: e.target.value })}
+            maxLength={100}
+          />
+        </div>
+        <div className="space-y-2">
+          <label className={labelClass}>Contact</label>
+          <input
+            type="text"
+            className={inputClass}
+            placeholder="briefs@agency.com"
+            value={settings.contact}
+            onChange={(e) => setSettings({ ...settings, contact: e.target.value })}
+            maxLength={200}
+          />
+        </div>
+        <div className="space-y-2">
+          <label className={labelClass}>Color</label>
+          <input
+            type="color"
+            className="w-full h-[52px] rounded-2xl bg-gray-50 p-1.5 cursor-pointer shadow-sm"
+            value={settings.accentColor}
+            onChange={(e) => setSettings({ ...settings, accentColor: e.target.value })}
+          />
+        </div>
+      </div>
+
+      <div className="grid grid-cols-2 gap-4">
+        <div className="space-y-2">
+          <label className={labelClass}>Do's (one per line)</label>
+          <textarea className={`${inputClass} min-h-[120px] resize-none`} value={dos} onChange={(e) => setDos(e.target.value)} />
+        </div>
+        <div className="space-y-2">
+          <label className={labelClass}>Don'ts (one per line)</label>
+          <textarea className={`${inputClass} min-h-[120px] resize-none`} value={donts} onChange={(e) => setDonts(e.target.value)} />
+        </div>
+      </div>
+      {brand && (
+        <p className="text-[10px] font-bold text-gray-300 -mt-3">
+          Disclaimers, banned words and prohibited claims from "{brand.name}" are added to these.
+        </p>
+      )}
+      {!isAdmin && (
+        <p className="text-[10px] font-bold text-gray-300 -mt-3">
+          Changes here apply to this brief only; an admin's are saved for the next one.
+        </p>
+      )}
+
+      <div className="space-y-2">
+        <label className={labelClass}>Scripts · {selected.length}/{variations.length}</label>
+        <div className="space-y-1.5">
+          {variations.map((v, idx) => (
+            <button
+              key={idx}
+              onClick={() => toggle(idx)}
+              className={`w-full flex items-center gap-3 px-4 py-2.5 rounded-xl text-left text-xs font-medium transition-all ${selected.includes(idx) ? 'bg-indigo-50 text-indigo-900' : 'bg-gray-50 text-gray-400 hover:text-gray-600'}`}
+            >
+              <span className={`shrink-0 w-4 h-4 rounded-md flex items-center justify-center ${selected.includes(idx) ? 'bg-indigo-600 text-white' : 'bg-white border border-gray-200'}`}>
+                {selected.includes(idx) && <Check className="w-3 h-3" />}
+              </span>
+              <span className="shrink-0 font-black">{idx + 1}</span>
+              <span className="truncate">{v.hook}</span>
+            </button>
+          ))}
+        </div>
+      </div>
+
+      <div className="space-y-2">
+        <label className={labelClass}>Product Photo</label>
+        {images.length === 0 ? (
+          <p className="text-xs font-bold text-gray-300">Upload a product photo in the form to include it.</p>
+        ) : (
+          <div className="flex items-center gap-2">
+            <button
+              onClick={() => setPhotoId(null)}
+              className={`w-14 h-14 rounded-xl flex items-center justify-center border-2 transition-all ${photoId === null ? 'border-indigo-500 bg-indigo-50 text-indigo-500' : 'border-transparent bg-gray-50 text-gray-300 hover:text-gray-500'}`}
+              title="No photo"
+            >
+              <ImageOff className="w-4 h-4" />
+            </button>
+            {images.map(image => (
+              <button
+                key={image.id}
+                onClick={() => setPhotoId(image.id)}
+                className={`w-14 h-14 rounded-xl overflow-hidden border-2 transition-all ${photoId === image.id ? 'border-indigo-500' : 'border-transparent opacity-60 hover:opacity-100'}`}
+                title={image.name}
+              >
+                <img src={image.dataUrl} alt={image.name} className="w-full h-full object-cover" />
+              </button>
+            ))}
+          </div>
+        )}
+      </div>
+
+      {notice && (
+        <p className="text-xs font-bold text-amber-600">{notice}</p>
+      )}
+      {error && (
+        <p className="text-xs font-bold text-red-600">{error}</p>
+      )}
+
+      <div className="grid grid-cols-3 gap-3">
+        {FORMATS.map(format => (
+          <button
+            key={format.id}
+            onClick={() => exportBrief(format.id)}
+            disabled={exporting !== null || selected.length === 0}
+            className="py-4 bg-indigo-600 hover:bg-indigo-700 disabled:bg-gray-200 text-white font-bold rounded-2xl transition-all flex items-center justify-center gap-2 text-sm"
+          >
+            {exporting === format.id ? <Loader2 className="w-4 h-4 animate-spin" /> : <FileText className="w-4 h-4" />}
+            {format.label}
+          </button>
+        ))}
+      </div>
+      <p className="text-[10px] font-bold text-gray-300 text-center">
+        The header and guidelines are kept for your next brief.
+      </p>
+    </motion.div>
+  );
+}
@@ -0,0 +1,61 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import React from 'react';
+import { MessageSquareQuote, X } from "lucide-react";
+import { MAX_CUSTOMER_QUOTES } from '../lib/reviews';
+import type { CustomerQuote, ReviewTheme } from '../types';
+
+interface CustomerQuotesCardProps {
+  quotes: CustomerQuote[];
+  onRemove: (quote: CustomerQuote) => void;
+  onClear: () => void;
+}
+
+const THEME_BADGES: Record<ReviewTheme, { label: string; className: string }> = {
+  pain: { label: 'Pain', className: 'bg-red-50 text-red-500' },
+  outcome: { label: 'Outcome', className: 'bg-green-50 text-green-600' },
+  objection: { label: 'Objection', className: 'bg-amber-50 text-amber-600' },
+};
+
+export default function CustomerQuotesCard({ quotes, onRemove, onClear }: CustomerQuotesCardProps) {
+  return (
+    <div className="p-5 rounded-2xl bg-gray-50 space-y-3">
+      <div className="flex items-center justify-between gap-3">
+        <span className="text-[10px] font-black uppercase tracking-[0.2em] text-indigo-500 flex items-center gap-1.5">
+          <MessageSquareQuote className="w-3 h-3" /> Customer voice · {quotes.length}/{MAX_CUSTOMER_QUOTES}
+        </span>
+        <button
+          onClick={onClear}
+          className="text-[10px] font-black uppercase tracking-widest text-gray-300 hover:text-red-600 transition-colors"
+        >
+          Clear
+        </button>
+      </div>
+
+      <ul className="space-y-2">
+        {quotes.map(quote => (
+          <li key={quote.text} className="flex items-start gap-2 group/quote">
+            <span className={`shrink-0 px-1.5 py-0.5 rounded-md text-[9px] font-black uppercase tracking-widest ${THEME_BADGES[quote.theme].className}`}>
+              {THEME_BADGES[quote.theme].label}
+            </span>
+            <p className="flex-1 min-w-0 text-xs text-gray-600 italic">"{quote.text}"</p>
+            <button
+              onClick={() => onRemove(quote)}
+              className="p-1 rounded-lg text-gray-300 hover:text-red-600 hover:bg-red-50 opacity-0 group-hover/quote:opacity-100 transition-all"
+              title="Remove quote"
+            >
+              <X className="w-3 h-3" />
+            </button>
+          </li>
+        ))}
+      </ul>
+
+      <p className="text-[10px] font-bold text-gray-300">
+        Scripts echo this wording so they sound like real customers.
+      </p>
+    </div>
+  );
+}
@@ -0,0 +1,191 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import React, { useEffect, useState } from 'react';
+import { motion, AnimatePresence } from "motion/react";
+import { Search, Star, Trash2, RotateCcw, Loader2, History } from "lucide-react";
+import * as api from '../api';
+import { LANGUAGES } from '../lib/languages';
+import { getPlatform } from '../lib/platforms';
+import type { SavedRun, SavedVariation } from '../types';
+
+interface HistoryPanelProps {
+  // Bumped by the parent whenever a run is saved or starred elsewhere.
+  refreshKey: number;
+  activeRunId: number | null;
+  onOpen: (run: SavedRun) => void;
+  onDeleted: (runId: number) => void;
+  onStarChange: (variation: SavedVariation) => void;
+}
+
+const formatDate = (iso: string) =>
+  new Date(iso).toLocaleString(undefined, { month: 'short', day: 'numeric', hour: 'numeric', minute: '2-digit' });
+
+export default function HistoryPanel({ refreshKey, activeRunId, onOpen, onDeleted, onStarChange }: HistoryPanelProps) {
+  const [query, setQuery] = useState('');
+  const [starredOnly, setStarredOnly] = useState(false);
+  const [runs, setRuns] = useState<SavedRun[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [expandedId, setExpandedId] = useState<number | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+    const timer = setTimeout(async () => {
+      setLoading(true);
+      try {
+        const result = await api.listRuns({ query, starredOnly });
+        if (!cancelled) {
+          setRuns(result);
+          setError(null);
+        }
+      } catch (err) {
+        console.error("Library load error:", err);
+        if (!cancelled) setError(api.errorMessage(err, "Failed to load your script library."));
+      } finally {
+        if (!cancelled) setLoading(false);
+      }
+    }, 250);
+    return () => {
+      cancelled = true;
+      clearTimeout(timer);
+    };
+  }, [query, starredOnly, refreshKey]);
+
+  const toggleStar = async (variation: SavedVariation) => {
+    try {
+      const updated = await api.setStarred(variation.id, !variation.starred);
+      setRuns(prev => prev.map(run => ({
+        ...run,
+        variations: run.variations.map(v => v.id === updated.id ? updated : v),
+      })));
+      onStarChange(updated);
+    } catch (err) {
+      console.error("Star error:", err);
+      setError(api.errorMessage(err, "Failed to update favorite."));
+    }
+  };
+
+  const removeRun = async (run: SavedRun) => {
+    if (!window.confirm(`Delete the run for "${run.input.productName}"? This cannot be undone.`)) return;
+    try {
+      await api.deleteRun(run.id);
+      setRuns(prev => prev.filter(r => r.id !== run.id));
+      onDeleted(run.id);
+    } catch (err) {
+      console.error("Delete error:", err);
+      setError(api.errorMessage(err, "Failed to delete run."));
+    }
+  };
+
+  return (
+    <div className="space-y-6">
+      <div className="flex gap-3">
+        <div className="flex-1 relative">
+          <Search className="w-4 h-4 text-gray-300 absolute left-5 top-1/2 -translate-y-1/2" />
+          <input
+            type="search"
+            placeholder="Search by product..."
+            className="w-full pl-12 pr-5 py-4 rounded-2xl bg-gray-50 border-transparent focus:bg-white focus:ring-4 focus:ring-indigo-500/5 transition-all outline-none font-medium text-sm shadow-sm"
+            value={query}
+            onChange={(e) => setQuery(e.target.value)}
+          />
+        </div>
+        <button
+          onClick={() => setStarredOnly(!starredOnly)}
+          className={`px-4 rounded-2xl flex items-center gap-2 text-xs font-bold transition-all shadow-sm ${starredOnly ? 'bg-amber-50 text-amber-600' : 'bg-gray-50 text-gray-400 hover:text-gray-600'}`}
+          title="Only runs with starred variations"
+        >
+          <Star className={`w-4 h-4 ${starredOnly ? 'fill-amber-400' : ''}`} />
+          Starred
+        </button>
+      </div>
+
+      {error && (
+        <p className="text-xs font-bold text-red-600">{error}</p>
+      )}
+
+      {loading && runs.length === 0 ? (
+        <div className="flex items-center justify-center h-40">
+          <Loader2 className="w-5 h-5 text-gray-300 animate-spin" />
+        </div>
+      ) : runs.length === 0 ? (
+        <div className="flex flex-col items-center justify-center h-[400px] bg-gray-50/30 rounded-[2.5rem] border border-dashed border-gray-200">
+          <History className="w-8 h-8 text-gray-200 mb-4" />
+          <p className="text-gray-400 text-sm font-bold">{query || starredOnly ? 'No matching runs.' : 'No saved runs yet.'}</p>
+          <p className="text-gray-300 text-xs mt-2">Every generation is saved here automatically.</p>
+        </div>
+      ) : (
+        <div className="space-y-4">
+          {runs.map(run => {
+            const expanded = expandedId === run.id;
+            const starredCount = run.variations.filter(v => v.starred).length;
+            return (
+              <div
+                key={run.id}
+                className={`bg-white rounded-[2rem] border shadow-sm transition-all ${activeRunId === run.id ? 'border-indigo-200' : 'border-gray-100'}`}
+              >
+                <div className="p-6 flex items-center justify-between gap-4">
+                  <button onClick={() => setExpandedId(expanded ? null : run.id)} className="flex-1 text-left min-w-0">
+                    <p className="font-bold text-gray-900 truncate">{run.input.productName}</p>
+                    <p className="text-[10px] font-black uppercase tracking-widest text-gray-300 mt-1">
+                      {formatDate(run.createdAt)} · {getPlatform(run.input.platform).label} · {run.input.language && run.input.language !== 'en' ? `${LANGUAGES[run.input.language].nativeLabel} · ` : ''}{run.input.toneStyle} · {run.input.duration}s · {run.variations.length} scripts{run.promptVersion ? ` · Prompt v${run.promptVersion}` : ''}
+                      {starredCount > 0 && <span className="text-amber-500"> · {starredCount} starred</span>}
+                    </p>
+                  </button>
+                  <div className="flex items-center gap-1">
+                    <button
+                      onClick={() => onOpen(run)}
+                      className="p-3 rounded-xl text-gray-300 hover:text-indigo-600 hover:bg-indigo-50 transition-all"
+                      title="Re-open in form"
+                    >
+                      <RotateCcw className="w-4 h-4" />
+                    </button>
+                    <button
+                      onClick={() => removeRun(run)}
+                      className="p-3 rounded-xl text-gray-300 hover:text-red-600 hover:bg-red-50 transition-all"
+                      title="Delete run"
+                    >
+                      <Trash2 className="w-4 h-4" />
+                    </button>
+                  </div>
+                </div>
+
+                <AnimatePresence>
+                  {expanded && (
+                    <motion.div
+                      initial={{ height: 0, opacity: 0 }}
+                      animate={{ height: 'auto', opacity: 1 }}
+                      exit={{ height: 0, opacity: 0 }}
+                      className="overflow-hidden"
+                    >
+                      <div className="px-6 pb-6 space-y-3">
+                        {run.variations.map((v, idx) => (
+                          <div key={v.id} className="flex items-start gap-3 p-4 bg-gray-50/60 rounded-2xl">
+                            <button
+                              onClick={() => toggleStar(v)}
+                              className={`mt-0.5 transition-colors ${v.starred ? 'text-amber-400' : 'text-gray-300 hover:text-amber-400'}`}
+                              title={v.starred ? 'Unstar' : 'Star'}
+                            >
+                              <Star className={`w-4 h-4 ${v.starred ? 'fill-amber-400' : ''}`} />
+                            </button>
+                            <div className="min-w-0 text-sm">
+                              <p className="font-bold text-gray-900 italic">{String(idx + 1).padStart(2, '0')} · "{v.script.hook}"</p>
+                              <p className="text-gray-500 mt-1">{v.script.cta}</p>
+                            </div>
+                          </div>
+                        ))}
+                      </div>
+                    </motion.div>
+                  )}
+                </AnimatePresence>
+              </div>
+            );
+          })}
+        </div>
+      )}
+    </div>
+  );
+}
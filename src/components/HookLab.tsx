@@ -0,0 +1,181 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import React, { useRef, useState } from 'react';
+import { motion } from "motion/react";
+import { FlaskConical, Loader2, Pin, ArrowRight } from "lucide-react";
+import * as api from '../api';
+import { DEFAULT_HOOKS, HOOK_FRAMEWORK_IDS, HOOK_FRAMEWORKS, MAX_HOOKS, MIN_HOOKS } from '../lib/hooks';
+import type { HookFramework } from '../lib/hooks';
+import type { HookIdea, ScriptRequest } from '../types';
+
+interface HookLabProps {
+  // Returns null (and surfaces its own error) when the form is incomplete.
+  getInput: () => ScriptRequest | null;
+  onBuildScript: (hook: HookIdea) => void;
+  generating: boolean;
+}
+
+type Filter = HookFramework | 'all' | 'pinned';
+
+const sameHook = (a: HookIdea, b: HookIdea) => a.text === b.text && a.framework === b.framework;
+
+export default function HookLab({ getInput, onBuildScript, generating }: HookLabProps) {
+  const [hooks, setHooks] = useState<HookIdea[]>([]);
+  const [pinned, setPinned] = useState<HookIdea[]>([]);
+  const [filter, setFilter] = useState<Filter>('all');
+  const [count, setCount] = useState(DEFAULT_HOOKS);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const request = useRef<AbortController | null>(null);
+
+  const isPinned = (hook: HookIdea) => pinned.some(p => sameHook(p, hook));
+
+  // Pinned hooks survive a new batch; everything else is replaced.
+  const allHooks = [...pinned, ...hooks.filter(h => !isPinned(h))];
+  const visible = allHooks.filter(h =>
+    filter === 'all' ? true : filter === 'pinned' ? isPinned(h) : h.framework === filter
+  );
+
+  const generate = async () => {
+    const input = getInput();
+    if (!input) return;
+
+    request.current?.abort();
+    const controller = new AbortController();
+    request.current = controller;
+    setLoading(true);
+    setError(null);
+
+    try {
+      const result = await api.generateHooks(input, count, controller.signal);
+      if (!controller.signal.aborted) setHooks(result);
+    } catch (err) {
+      if (controller.signal.aborted) return;
+      console.error("Hook lab error:", err);
+      setError(api.errorMessage(err, "Failed to generate hooks. Please try again."));
+    } finally {
+      if (request.current === controller) {
+        request.current = null;
+        setLoading(false);
+      }
+    }
+  };
+
+  const cancel = () => {
+    request.current?.abort();
+    request.current = null;
+    setLoading(false);
+  };
+
+  const togglePin = (hook: HookIdea) => {
+    setPinned(prev => prev.some(p => sameHook(p, hook)) ? prev.filter(p => !sameHook(p, hook)) : [...prev, hook]);
+  };
+
+  const chip = (value: Filter, label: string, total: number) => (
+    <button
+      key={value}
+      onClick={() => setFilter(value)}
+      className={`px-3 py-1.5 rounded-full text-[10px] font-black uppercase tracking-widest transition-all ${filter === value ? 'bg-indigo-600 text-white' : 'bg-gray-50 text-gray-400 hover:text-gray-600'}`}
+    >
+      {label} <span className="opacity-60">{total}</span>
+    </button>
+  );
+
+  return (
+    <div className="space-y-6">
+      <div className="flex gap-3">
+        <select
+          className="px-5 py-4 rounded-2xl bg-gray-50 border-transparent focus:bg-white focus:ring-4 focus:ring-indigo-500/5 transition-all outline-none appearance-none cursor-pointer font-medium text-sm shadow-sm"
+          value={count}
+          onChange={(e) => setCount(Number(e.target.value))}
+          disabled={loading}
+        >
+          {Array.from({ length: MAX_HOOKS - MIN_HOOKS + 1 }, (_, i) => MIN_HOOKS + i).map(n => (
+            <option key={n} value={n}>{n} hooks</option>
+          ))}
+        </select>
+        <button
+          onClick={loading ? cancel : generate}
+          className="flex-1 py-4 bg-black hover:bg-gray-900 text-white font-bold rounded-2xl shadow-xl shadow-black/10 transition-all flex items-center justify-center gap-3 active:scale-[0.98]"
+        >
+          {loading ? (
+            <>
+              <Loader2 className="w-4 h-4 animate-spin" />
+              Cancel
+            </>
+          ) : (
+            <>
+              <FlaskConical className="w-4 h-4" />
+              {hooks.length > 0 ? 'New Batch' : 'Generate Hooks'}
+            </>
+          )}
+        </button>
+      </div>
+
+      {error && (
+        <p className="text-xs font-bold text-red-600">{error}</p>
+      )}
+
+      {allHooks.length > 0 && (
+        <div className="flex flex-wrap gap-2">
+          {chip('all', 'All', allHooks.length)}
+          {pinned.length > 0 && chip('pinned', 'Pinned', pinned.length)}
+          {HOOK_FRAMEWORK_IDS.map(id => {
+            const total = allHooks.filter(h => h.framework === id).length;
+            return total > 0 ? chip(id, HOOK_FRAMEWORKS[id].label, total) : null;
+          })}
+        </div>
+      )}
+
+      {allHooks.length === 0 ? (
+        <div className="flex flex-col items-center justify-center h-[400px] bg-gray-50/30 rounded-[2.5rem] border border-dashed border-gray-200 text-center px-10">
+          <FlaskConical className="w-8 h-8 text-gray-200 mb-4" />
+          <p className="text-gray-400 text-sm font-bold">Test a batch of hook angles before writing full scripts.</p>
+          <p className="text-gray-300 text-xs mt-2">Uses the product details from the form.</p>
+        </div>
+      ) : (
+        <div className="space-y-3">
+          {visible.map((hook, idx) => {
+            const pinnedHook = isPinned(hook);
+            return (
+              <motion.div
+                key={`${hook.framework}:${hook.text}`}
+                initial={{ opacity: 0, y: 10 }}
+                animate={{ opacity: 1, y: 0 }}
+                transition={{ delay: Math.min(idx, 10) * 0.03 }}
+                className={`bg-white p-6 rounded-[2rem] border shadow-sm flex items-start gap-4 group ${pinnedHook ? 'border-indigo-200' : 'border-gray-100'}`}
+              >
+                <div className="flex-1 min-w-0 space-y-2">
+                  <span className="inline-block px-2 py-1 bg-indigo-50 text-indigo-600 rounded-lg text-[9px] font-black uppercase tracking-widest">
+                    {HOOK_FRAMEWORKS[hook.framework].label}
+                  </span>
+                  <p className="text-base font-bold leading-snug text-gray-900 italic">"{hook.text}"</p>
+                </div>
+                <div className="flex items-center gap-1">
+                  <button
+                    onClick={() => togglePin(hook)}
+                    className={`p-3 rounded-xl transition-all ${pinnedHook ? 'text-indigo-600 bg-indigo-50' : 'text-gray-300 hover:text-indigo-600 hover:bg-indigo-50'}`}
+                    title={pinnedHook ? 'Unpin' : 'Pin'}
+                  >
+                    <Pin className={`w-4 h-4 ${pinnedHook ? 'fill-indigo-600' : ''}`} />
+                  </button>
+                  <button
+                    onClick={() => onBuildScript(hook)}
+                    disabled={generating}
+                    className="p-3 rounded-xl text-gray-300 hover:text-indigo-600 hover:bg-indigo-50 disabled:hover:bg-transparent disabled:hover:text-gray-300 transition-all"
+                    title="Build a full script around this hook"
+                  >
+                    <ArrowRight className="w-4 h-4" />
+                  </button>
+                </div>
+              </motion.div>
+            );
+          })}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,342 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import React, { useRef, useState } from 'react';
+import { AlertCircle, ExternalLink, Grid3x3, Loader2, RotateCcw, Users } from "lucide-react";
+import * as api from '../api';
+import { ANGLE_IDS, ANGLES } from '../lib/angles';
+import type { AngleId } from '../lib/angles';
+import { BATCH_CONCURRENCY, runPool } from '../lib/batch';
+import { downloadFile, slugify } from '../lib/download';
+import { cellKey, matrixCells, matrixToCsv, matrixToJson, MAX_CELL_VARIATIONS, MAX_MATRIX_PERSONAS } from '../lib/matrix';
+import type { MatrixCell } from '../lib/matrix';
+import { numberVariations } from '../lib/remix';
+import type { Persona, SavedRun, ScriptRequest, ScriptVariation } from '../types';
+
+interface MatrixPanelProps {
+  personas: Persona[];
+  // Returns null (and surfaces its own error) when the form is incomplete.
+  getInput: () => ScriptRequest | null;
+  onSaved: () => void;
+  onOpen: (run: SavedRun) => void;
+  onManagePersonas: () => void;
+}
+
+type CellStatus = 'queued' | 'running' | 'done' | 'failed';
+
+interface CellState {
+  status: CellStatus;
+  variations?: ScriptVariation[];
+  error?: string;
+}
+
+// The matrix as it was started; later changes to the pickers or personas
+// do not reshape it.
+interface Matrix {
+  input: ScriptRequest;
+  personas: { id: number; name: string }[];
+  angles: AngleId[];
+  cells: MatrixCell[];
+}
+
+const chipClass = (active: boolean) =>
+  `px-3 py-1.5 rounded-full text-[10px] font-black uppercase tracking-widest transition-all ${active ? 'bg-indigo-600 text-white' : 'bg-gray-50 text-gray-400 hover:text-gray-600'}`;
+const labelClass = "text-[10px] font-black uppercase tracking-[0.2em] text-gray-400";
+const exportButtonClass = "flex items-center gap-2 px-4 py-2 rounded-xl text-xs font-bold bg-gray-50 text-gray-500 hover:bg-indigo-50 hover:text-indigo-600 transition-all";
+
+export default function MatrixPanel({ personas, getInput, onSaved, onOpen, onManagePersonas }: MatrixPanelProps) {
+  const [selected, setSelected] = useState<number[]>([]);
+  const [angles, setAngles] = useState<AngleId[]>([...ANGLE_IDS]);
+  const [perCell, setPerCell] = useState(1);
+  const [matrix, setMatrix] = useState<Matrix | null>(null);
+  const [cells, setCells] = useState<Record<string, CellState>>({});
+  const [running, setRunning] = useState(false);
+  const [run, setRun] = useState<SavedRun | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const request = useRef<AbortController | null>(null);
+  // Finished cells, readable once a pass ends; state updates land later.
+  const finished = useRef(new Map<string, ScriptVariation[]>());
+  const promptVersion = useRef<number | undefined>(undefined);
+  // Bumped when the matrix is replaced, so late results from the old one are
+  // dropped.
+  const matrixEpoch = useRef(0);
+
+  // Personas deleted since they were picked drop out.
+  const chosen = selected.filter(id => personas.some(p => p.id === id));
+
+  const togglePersona = (id: number) => {
+    setSelected(chosen.includes(id) ? chosen.filter(p => p !== id) : [...chosen, id].slice(-MAX_MATRIX_PERSONAS));
+  };
+
+  const toggleAngle = (angle: AngleId) => {
+    setAngles(prev => prev.includes(angle) ? prev.filter(a => a !== angle) : ANGLE_IDS.filter(a => a === angle || prev.includes(a)));
+  };
+
+  const save = async (current: Matrix, epoch: number) => {
+    // Every cell numbers its scripts from 1.
+    const variations = numberVariations(current.cells.flatMap(cell => finished.current.get(cellKey(cell)) ?? []));
+    try {
+      const saved = await api.saveRun(current.input, variations, promptVersion.current);
+      if (epoch !== matrixEpoch.current) return;
+      setRun(saved);
+      onSaved();
+    } catch (err) {
+      console.error("Matrix save error:", err);
+      setError(api.errorMessage(err, "Scripts generated, but saving them to your library failed."));
+    }
+  };
+
+  const runCells = async (current: Matrix, targets: MatrixCell[]) => {
+    if (targets.length === 0) return;
+    const controller = new AbortController();
+    request.current = controller;
+    const epoch = matrixEpoch.current;
+    setRunning(true);
+    setError(null);
+
+    const updateCell = (cell: MatrixCell, patch: CellState) => {
+      if (epoch !== matrixEpoch.current) return;
+      setCells(prev => ({ ...prev, [cellKey(cell)]: patch }));
+    };
+
+    await runPool(targets, BATCH_CONCURRENCY, async cell => {
+      updateCell(cell, { status: 'running' });
+      try {
+        const result = await api.generateScripts(
+          { ...current.input, personaId: cell.personaId, angle: cell.angle },
+          { signal: controller.signal },
+        );
+        if (epoch !== matrixEpoch.current) return;
+        finished.current.set(cellKey(cell), result.variations);
+        promptVersion.current = result.promptVersion;
+        updateCell(cell, { status: 'done', variations: result.variations });
+      } catch (err) {
+        if (controller.signal.aborted) {
+          updateCell(cell, { status: 'queued' });
+          return;
+        }
+        console.error("Matrix cell error:", err);
+        updateCell(cell, { status: 'failed', error: api.errorMessage(err, "Generation failed.") });
+      }
+    }, controller.signal);
+
+    if (request.current === controller) {
+      request.current = null;
+      setRunning(false);
+    }
+    if (!controller.signal.aborted && epoch === matrixEpoch.current
+      && current.cells.every(cell => finished.current.has(cellKey(cell)))) {
+      await save(current, epoch);
+    }
+  };
+
+  const generate = () => {
+    const input = getInput();
+    if (!input) return;
+    const picked = personas.filter(p => chosen.includes(p.id));
+    const next: Matrix = {
+      // Each cell sets its own persona and angle; a hook from the Hook Lab
+      // would make every cell open the same way.
+      input: { ...input, variationCount: perCell, personaId: undefined, angle: undefined, fixedHook: undefined },
+      personas: picked.map(({ id, name }) => ({ id, name })),
+      angles,
+      cells: matrixCells(picked.map(p => p.id), angles),
+    };
+    matrixEpoch.current++;
+    finished.current = new Map();
+    promptVersion.current = undefined;
+    setMatrix(next);
+    setCells(Object.fromEntries(next.cells.map(cell => [cellKey(cell), { status: 'queued' as CellStatus }])));
+    setRun(null);
+    runCells(next, next.cells);
+  };
+
+  const cancel = () => {
+    request.current?.abort();
+    request.current = null;
+    setRunning(false);
+  };
+
+  const cellsWhere = (...statuses: CellStatus[]) =>
+    matrix ? matrix.cells.filter(cell => statuses.includes(cells[cellKey(cell)]?.status)) : [];
+
+  const done = cellsWhere('done').length;
+  const failed = cellsWhere('failed');
+  const pending = cellsWhere('queued', 'failed');
+  const results = matrix ? matrix.cells.flatMap(cell => cells[cellKey(cell)]?.variations ?? []) : [];
+  const exportName = slugify(`${matrix?.input.productName ?? ''} matrix`);
+
+  return (
+    <div className="space-y-6">
+      <div className="bg-white p-6 rounded-[2rem] border border-gray-100 shadow-sm space-y-5">
+        <div className="space-y-3">
+          <div className="flex items-center justify-between">
+            <span className={labelClass}>Personas (up to {MAX_MATRIX_PERSONAS})</span>
+            <button
+              onClick={onManagePersonas}
+              className="text-[10px] font-black uppercase tracking-widest text-indigo-600 hover:text-indigo-800 transition-colors"
+            >
+              Manage
+            </button>
+          </div>
+          {personas.length === 0 ? (
+            <button
+              onClick={onManagePersonas}
+              className="w-full p-4 rounded-2xl border border-dashed border-gray-200 text-xs font-bold text-gray-400 hover:border-indigo-400 hover:text-indigo-600 transition-all flex items-center justify-center gap-2"
+            >
+              <Users className="w-4 h-4" /> Create a persona to get started
+            </button>
+          ) : (
+            <div className="flex flex-wrap gap-2">
+              {personas.map(persona => (
+                <button key={persona.id} onClick={() => togglePersona(persona.id)} className={chipClass(chosen.includes(persona.id))}>
+                  {persona.name}
+                </button>
+              ))}
+            </div>
+          )}
+        </div>
+
+        <div className="space-y-3">
+          <span className={labelClass}>Angles</span>
+          <div className="flex flex-wrap gap-2">
+            {ANGLE_IDS.map(angle => (
+              <button key={angle} onClick={() => toggleAngle(angle)} className={chipClass(angles.includes(angle))} title={ANGLES[angle].description}>
+                {ANGLES[angle].label}
+              </button>
+            ))}
+          </div>
+        </div>
+
+        <div className="flex gap-3">
+          <select
+            className="px-5 py-4 rounded-2xl bg-gray-50 border-transparent focus:bg-white focus:ring-4 focus:ring-indigo-500/5 transition-all outline-none appearance-none cursor-pointer font-medium text-sm shadow-sm"
+            value={perCell}
+            onChange={(e) => setPerCell(Number(e.target.value))}
+            disabled={running}
+          >
+            {Array.from({ length: MAX_CELL_VARIATIONS }, (_, i) => i + 1).map(n => (
+              <option key={n} value={n}>{n} per cell</option>
+            ))}
+          </select>
+          <button
+            onClick={running ? cancel : generate}
+            disabled={!running && (chosen.length === 0 || angles.length === 0)}
+            className="flex-1 py-4 bg-black hover:bg-gray-900 disabled:bg-gray-200 text-white font-bold rounded-2xl shadow-xl shadow-black/10 transition-all flex items-center justify-center gap-3 active:scale-[0.98]"
+          >
+            {running ? (
+              <>
+                <Loader2 className="w-4 h-4 animate-spin" />
+                Cancel
+              </>
+            ) : (
+              <>
+                <Grid3x3 className="w-4 h-4" />
+                Generate {chosen.length * angles.length * perCell} Scripts
+              </>
+            )}
+          </button>
+        </div>
+      </div>
+
+      {error && (
+        <p className="text-xs font-bold text-red-600">{error}</p>
+      )}
+
+      {!matrix ? (
+        <div className="flex flex-col items-center justify-center h-[300px] bg-gray-50/30 rounded-[2.5rem] border border-dashed border-gray-200 text-center px-10">
+          <Grid3x3 className="w-8 h-8 text-gray-200 mb-4" />
+          <p className="text-gray-400 text-sm font-bold">Cross your personas with creative angles and compare the scripts side by side.</p>
+          <p className="text-gray-300 text-xs mt-2">Uses the product details and settings from the form.</p>
+        </div>
+      ) : (
+        <>
+          <div className="flex items-center justify-between gap-4">
+            <p className="text-[10px] font-black uppercase tracking-widest text-gray-400">
+              {done}/{matrix.cells.length} cells done
+              {failed.length > 0 && <span className="text-red-500"> · {failed.length} failed</span>}
+            </p>
+            <div className="flex items-center gap-2">
+              {pending.length > 0 && !running && (
+                <button onClick={() => runCells(matrix, pending)} className={exportButtonClass}>
+                  <RotateCcw className="w-4 h-4" /> {failed.length === pending.length ? 'Retry failed' : 'Resume'}
+                </button>
+              )}
+              {results.length > 0 && (
+                <>
+                  <button onClick={() => downloadFile(`${exportName}.csv`, matrixToCsv(results), 'text/csv')} className={exportButtonClass}>
+                    CSV
+                  </button>
+                  <button onClick={() => downloadFile(`${exportName}.json`, matrixToJson(results), 'application/json')} className={exportButtonClass}>
+                    JSON
+                  </button>
+                </>
+              )}
+              {run && (
+                <button onClick={() => onOpen(run)} className={exportButtonClass}>
+                  <ExternalLink className="w-4 h-4" /> Open in results
+                </button>
+              )}
+            </div>
+          </div>
+
+          <div className="overflow-x-auto pb-2">
+            <div
+              className="grid gap-3 min-w-max"
+              style={{ gridTemplateColumns: `120px repeat(${matrix.angles.length}, minmax(220px, 1fr))` }}
+            >
+              <div />
+              {matrix.angles.map(angle => (
+                <span key={angle} className={`${labelClass} px-2`}>{ANGLES[angle].label}</span>
+              ))}
+              {matrix.personas.map(persona => (
+                <React.Fragment key={persona.id}>
+                  <p className="text-sm font-bold text-gray-900 pt-4 pr-2 break-words">{persona.name}</p>
+                  {matrix.angles.map(angle => {
+                    const cell = { personaId: persona.id, angle };
+                    const state = cells[cellKey(cell)];
+                    return (
+                      <div key={angle} className="bg-white p-4 rounded-2xl border border-gray-100 shadow-sm space-y-3 min-h-[120px]">
+                        {state?.status === 'done' ? (
+                          state.variations!.map((v, idx) => (
+                            <div key={idx} className={`space-y-1 ${idx > 0 ? 'pt-3 border-t border-gray-50' : ''}`}>
+                              <p className="text-sm font-bold leading-snug text-gray-900 italic">"{v.hook}"</p>
+                              <p className="text-xs text-gray-500 leading-relaxed">{v.problem} {v.solution}</p>
+                              <p className="text-xs font-bold text-indigo-600">{v.cta}</p>
+                            </div>
+                          ))
+                        ) : state?.status === 'failed' ? (
+                          <div className="space-y-2">
+                            <p className="text-xs font-bold text-red-600 flex items-start gap-1.5">
+                              <AlertCircle className="w-3 h-3 shrink-0 mt-0.5" /> {state.error}
+                            </p>
+                            {!running && (
+                              <button
+                                onClick={() => runCells(matrix, [cell])}
+                                className="text-[10px] font-black uppercase tracking-widest text-gray-400 hover:text-indigo-600 transition-colors flex items-center gap-1"
+                              >
+                                <RotateCcw className="w-3 h-3" /> Retry
+                              </button>
+                            )}
+                          </div>
+                        ) : (
+                          <div className="h-full flex items-center justify-center text-gray-200">
+                            {state?.status === 'running'
+                              ? <Loader2 className="w-5 h-5 text-indigo-600 animate-spin" />
+                              : <span className="text-[10px] font-black uppercase tracking-widest">Queued</span>}
+                          </div>
+                        )}
+                      </div>
+                    );
+                  })}
+                </React.Fragment>
+              ))}
+            </div>
+          </div>
+        </>
+      )}
+    </div>
+  );
+}
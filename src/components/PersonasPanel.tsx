@@ -0,0 +1,225 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import React, { useState } from 'react';
+import { motion } from "motion/react";
+import { Loader2, Pencil, Plus, Trash2, Users, X } from "lucide-react";
+import * as api from '../api';
+import type { Persona, PersonaInput, User } from '../types';
+
+interface PersonasPanelProps {
+  personas: Persona[];
+  // Personas can be used signed out but only changed when signed in.
+  user: User | null;
+  onChange: (personas: Persona[]) => void;
+}
+
+// Objections are edited as plain text, one per line.
+interface Draft {
+  name: string;
+  ageRange: string;
+  situation: string;
+  objections: string;
+  scrollsOn: string;
+}
+
+const EMPTY_DRAFT: Draft = { name: '', ageRange: '', situation: '', objections: '', scrollsOn: '' };
+
+const toDraft = (persona: Persona): Draft => ({
+  name: persona.name,
+  ageRange: persona.ageRange,
+  situation: persona.situation,
+  objections: persona.objections.join('\n'),
+  scrollsOn: persona.scrollsOn,
+});
+
+const fromDraft = (draft: Draft): PersonaInput => ({
+  name: draft.name.trim(),
+  ageRange: draft.ageRange.trim(),
+  situation: draft.situation.trim(),
+  objections: draft.objections.split('\n').map(line => line.trim()).filter(Boolean),
+  scrollsOn: draft.scrollsOn.trim(),
+});
+
+const inputClass = "w-full px-5 py-4 rounded-2xl bg-gray-50 border-transparent focus:bg-white focus:ring-4 focus:ring-indigo-500/5 transition-all outline-none font-medium text-sm shadow-sm";
+const labelClass = "text-[10px] font-black uppercase tracking-[0.2em] text-gray-400";
+
+export default function PersonasPanel({ personas, user, onChange }: PersonasPanelProps) {
+  // null: list only; 'new': creating; a number: editing that persona.
+  const [editing, setEditing] = useState<number | 'new' | null>(null);
+  const [draft, setDraft] = useState<Draft>(EMPTY_DRAFT);
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const field = (key: keyof Draft) => ({
+    value: draft[key],
+    onChange: (e: React.ChangeEvent<HTMLInputElement | HTMLTextAreaElement>) => setDraft({ ...draft, [key]: e.target.value }),
+  });
+
+  const startEdit = (persona: Persona | null) => {
+    setEditing(persona ? persona.id : 'new');
+    setDraft(persona ? toDraft(persona) : EMPTY_DRAFT);
+    setError(null);
+  };
+
+  const save = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!draft.name.trim() || saving) return;
+    setSaving(true);
+    setError(null);
+    try {
+      if (editing === 'new') {
+        const created = await api.createPersona(fromDraft(draft));
+        onChange([...personas, created]);
+      } else if (editing !== null) {
+        const updated = await api.updatePersona(editing, fromDraft(draft));
+        onChange(personas.map(p => p.id === updated.id ? updated : p));
+      }
+      setEditing(null);
+    } catch (err) {
+      console.error("Persona save error:", err);
+      setError(api.errorMessage(err, "Failed to save the persona."));
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const remove = async (persona: Persona) => {
+    if (!window.confirm(`Delete the persona "${persona.name}"? Saved scripts keep its name.`)) return;
+    try {
+      await api.deletePersona(persona.id);
+      onChange(personas.filter(p => p.id !== persona.id));
+      if (editing === persona.id) setEditing(null);
+    } catch (err) {
+      console.error("Persona delete error:", err);
+      setError(api.errorMessage(err, "Failed to delete the persona."));
+    }
+  };
+
+  if (editing !== null) {
+    return (
+      <form onSubmit={save} className="bg-white p-10 rounded-[2.5rem] border border-gray-100 shadow-sm space-y-6">
+        <div className="flex items-center justify-between">
+          <span className="text-[10px] font-black uppercase tracking-[0.2em] text-indigo-500">
+            {editing === 'new' ? 'New Persona' : 'Edit Persona'}
+          </span>
+          <button
+            type="button"
+            onClick={() => setEditing(null)}
+            className="p-3 rounded-xl text-gray-300 hover:text-gray-600 hover:bg-gray-50 transition-all"
+            title="Close"
+          >
+            <X className="w-4 h-4" />
+          </button>
+        </div>
+
+        <div className="grid grid-cols-[1fr_140px] gap-4">
+          <div className="space-y-2">
+            <label className={labelClass}>Name</label>
+            <input type="text" placeholder="e.g. Busy new mom" className={inputClass} maxLength={100} {...field('name')} />
+          </div>
+          <div className="space-y-2">
+            <label className={labelClass}>Age Range</label>
+            <input type="text" placeholder="28-38" className={inputClass} maxLength={50} {...field('ageRange')} />
+          </div>
+        </div>
+        <div className="space-y-2">
+          <label className={labelClass}>Situation</label>
+          <textarea placeholder="First baby, back at work part-time, no time for a 10-step routine and feels she's let herself go." className={`${inputClass} min-h-[80px] resize-none`} maxLength={1000} {...field('situation')} />
+        </div>
+        <div className="space-y-2">
+          <label className={labelClass}>Objections (one per line)</label>
+          <textarea placeholder={"Too expensive for something I'll forget to use\nNot safe while breastfeeding?"} className={`${inputClass} min-h-[80px] resize-none`} {...field('objections')} />
+        </div>
+        <div className="space-y-2">
+          <label className={labelClass}>Where They Scroll</label>
+          <input type="text" placeholder="Instagram Reels during night feeds, TikTok on lunch break" className={inputClass} maxLength={300} {...field('scrollsOn')} />
+        </div>
+
+        {error && (
+          <p className="text-xs font-bold text-red-600">{error}</p>
+        )}
+
+        <button
+          type="submit"
+          disabled={saving || !draft.name.trim()}
+          className="w-full py-4 bg-black hover:bg-gray-900 disabled:bg-gray-200 text-white font-bold rounded-2xl shadow-xl shadow-black/10 transition-all flex items-center justify-center gap-3 active:scale-[0.98]"
+        >
+          {saving && <Loader2 className="w-4 h-4 animate-spin" />}
+          Save Persona
+        </button>
+      </form>
+    );
+  }
+
+  return (
+    <div className="space-y-6">
+      {!user && (
+        <p className="text-xs font-bold text-gray-400">Sign in at the top of the page to add or change personas.</p>
+      )}
+      <button
+        onClick={() => startEdit(null)}
+        disabled={!user}
+        className="w-full py-4 bg-black hover:bg-gray-900 disabled:bg-gray-200 text-white font-bold rounded-2xl shadow-xl shadow-black/10 transition-all flex items-center justify-center gap-3 active:scale-[0.98]"
+      >
+        <Plus className="w-4 h-4" />
+        New Persona
+      </button>
+
+      {error && (
+        <p className="text-xs font-bold text-red-600">{error}</p>
+      )}
+
+      {personas.length === 0 ? (
+        <div className="flex flex-col items-center justify-center h-[400px] bg-gray-50/30 rounded-[2.5rem] border border-dashed border-gray-200 text-center px-10">
+          <Users className="w-8 h-8 text-gray-200 mb-4" />
+          <p className="text-gray-400 text-sm font-bold">No personas yet.</p>
+          <p className="text-gray-300 text-xs mt-2">Scripts written for a persona speak to them instead of a guessed audience.</p>
+        </div>
+      ) : (
+        <div className="space-y-4">
+          {personas.map((persona, idx) => (
+            <motion.div
+              key={persona.id}
+              initial={{ opacity: 0, y: 10 }}
+              animate={{ opacity: 1, y: 0 }}
+              transition={{ delay: Math.min(idx, 10) * 0.03 }}
+              className="bg-white p-6 rounded-[2rem] border border-gray-100 shadow-sm flex items-center justify-between gap-4"
+            >
+              <div className="min-w-0">
+                <p className="font-bold text-gray-900 truncate">
+                  {persona.name}
+                  {persona.ageRange && <span className="ml-2 text-xs font-bold text-gray-400">{persona.ageRange}</span>}
+                </p>
+                {persona.situation && <p className="text-sm text-gray-500 mt-1 truncate">{persona.situation}</p>}
+                <p className="text-[10px] font-black uppercase tracking-widest text-gray-300 mt-1 truncate">
+                  {persona.objections.length} objections{persona.scrollsOn && ` · ${persona.scrollsOn}`}
+                </p>
+              </div>
+              {user && (
+                <div className="flex items-center gap-1">
+                  <button
+                    onClick={() => startEdit(persona)}
+                    className="p-3 rounded-xl text-gray-300 hover:text-indigo-600 hover:bg-indigo-50 transition-all"
+                    title="Edit persona"
+                  >
+                    <Pencil className="w-4 h-4" />
+                  </button>
+                  <button
+                    onClick={() => remove(persona)}
+                    className="p-3 rounded-xl text-gray-300 hover:text-red-600 hover:bg-red-50 transition-all"
+                    title="Delete persona"
+                  >
+                    <Trash2 className="w-4 h-4" />
+                  </button>
+                </div>
+              )}
+            </motion.div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,82 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import React from 'react';
+import { Globe, Loader2, Plus, Star, X } from "lucide-react";
+import { formatPrice, formatRating } from '../lib/productPage';
+import type { ProductPage } from '../types';
+
+interface ProductPageCardProps {
+  page: ProductPage;
+  // Image being downloaded into the photo gallery, if any.
+  addingImage: string | null;
+  canAddImages: boolean;
+  onAddImage: (url: string) => void;
+  onRemove: () => void;
+}
+
+export default function ProductPageCard({ page, addingImage, canAddImages, onAddImage, onRemove }: ProductPageCardProps) {
+  const details = [page.brand, page.price && formatPrice(page.price)].filter(Boolean);
+
+  return (
+    <div className="p-5 rounded-2xl bg-gray-50 space-y-3">
+      <div className="flex items-start justify-between gap-3">
+        <div className="min-w-0">
+          <span className="text-[10px] font-black uppercase tracking-[0.2em] text-indigo-500 flex items-center gap-1.5">
+            <Globe className="w-3 h-3" /> From the page
+          </span>
+          <p className="font-bold text-sm text-gray-900 mt-1 truncate" title={page.title}>{page.title}</p>
+          {(details.length > 0 || page.rating) && (
+            <p className="text-xs text-gray-500 mt-0.5 flex items-center gap-1.5">
+              {details.join(' · ')}
+              {page.rating && (
+                <span className="flex items-center gap-1">
+                  {details.length > 0 && '· '}<Star className="w-3 h-3 fill-amber-400 text-amber-400" /> {formatRating(page.rating)}
+                </span>
+              )}
+            </p>
+          )}
+        </div>
+        <button
+          onClick={onRemove}
+          className="p-1.5 rounded-lg text-gray-300 hover:text-red-600 hover:bg-red-50 transition-all"
+          title="Don't use page details"
+        >
+          <X className="w-3.5 h-3.5" />
+        </button>
+      </div>
+
+      {page.features.length > 0 && (
+        <ul className="text-xs text-gray-500 space-y-1 list-disc pl-4">
+          {page.features.slice(0, 3).map(feature => <li key={feature} className="truncate">{feature}</li>)}
+          {page.features.length > 3 && <li className="list-none -ml-4 text-gray-300 font-bold">+{page.features.length - 3} more</li>}
+        </ul>
+      )}
+
+      {page.images.length > 0 && (
+        <div className="flex gap-2 overflow-x-auto">
+          {page.images.map(url => (
+            <button
+              key={url}
+              onClick={() => onAddImage(url)}
+              disabled={!canAddImages || addingImage !== null}
+              className="group/page relative shrink-0 w-14 h-14 rounded-xl overflow-hidden bg-white border border-gray-100 disabled:opacity-50 disabled:cursor-not-allowed"
+              title={canAddImages ? "Add to photos and analyze" : "The photo gallery is full"}
+            >
+              <img src={url} alt="" loading="lazy" referrerPolicy="no-referrer" className="w-full h-full object-cover" />
+              <div className={`absolute inset-0 bg-black/50 flex items-center justify-center transition-opacity ${addingImage === url ? 'opacity-100' : 'opacity-0 group-hover/page:opacity-100'}`}>
+                {addingImage === url ? <Loader2 className="w-4 h-4 text-white animate-spin" /> : <Plus className="w-4 h-4 text-white" />}
+              </div>
+            </button>
+          ))}
+        </div>
+      )}
+
+      <p className="text-[10px] font-bold text-gray-300">
+        These details are sent with every generation so prices and specs stay accurate.
+      </p>
+    </div>
+  );
+}
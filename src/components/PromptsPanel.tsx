@@ -0,0 +1,287 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import React, { useEffect, useRef, useState } from 'react';
+import { AlertCircle, FileCode, History, Loader2, RotateCcw } from "lucide-react";
+import * as api from '../api';
+import { MAX_TEMPLATE_LENGTH, PROMPT_TEMPLATE_IDS, PROMPT_TEMPLATES, unknownVariables } from '../lib/prompts';
+import type { PromptTemplateId, PromptTemplateVersion } from '../lib/prompts';
+import type { ScriptRequest, User } from '../types';
+
+interface PromptsPanelProps {
+  // The form as it stands; the preview renders against it.
+  getInput: () => ScriptRequest;
+  // Anyone can preview; only admins save, since every generation uses the
+  // newest version.
+  user: User | null;
+}
+
+// Stands in for the product fields until the form has been filled in.
+const SAMPLE_PRODUCT: Pick<ScriptRequest, 'productName' | 'mainProblem' | 'keyBenefit'> = {
+  productName: 'Glow Serum',
+  mainProblem: 'Dull, dry skin by mid-afternoon',
+  keyBenefit: 'Visibly hydrated skin that lasts all day',
+};
+
+const PREVIEW_DELAY_MS = 400;
+
+const inputClass = "w-full px-5 py-4 rounded-2xl bg-gray-50 border-transparent focus:bg-white focus:ring-4 focus:ring-indigo-500/5 transition-all outline-none font-medium text-sm shadow-sm";
+const labelClass = "text-[10px] font-black uppercase tracking-[0.2em] text-gray-400";
+
+const formatDate = (iso: string) =>
+  new Date(iso).toLocaleString(undefined, { month: 'short', day: 'numeric', hour: 'numeric', minute: '2-digit' });
+
+export default function PromptsPanel({ getInput, user }: PromptsPanelProps) {
+  const isAdmin = user?.role === 'admin';
+  const [template, setTemplate] = useState<PromptTemplateId>('generateScripts');
+  // Newest first; versions[0] is in use.
+  const [versions, setVersions] = useState<PromptTemplateVersion[]>([]);
+  const [text, setText] = useState('');
+  const [note, setNote] = useState('');
+  const [preview, setPreview] = useState<string | null>(null);
+  const [previewError, setPreviewError] = useState<string | null>(null);
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const editorRef = useRef<HTMLTextAreaElement>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+    setVersions([]);
+    setText('');
+    setError(null);
+    api.listPromptVersions(template)
+      .then(loaded => {
+        if (cancelled) return;
+        setVersions(loaded);
+        setText(loaded[0].text);
+        setNote('');
+      })
+      .catch(err => {
+        if (cancelled) return;
+        console.error("Prompt template load error:", err);
+        setError(api.errorMessage(err, "Failed to load the prompt template."));
+      });
+    return () => { cancelled = true; };
+  }, [template]);
+
+  const info = PROMPT_TEMPLATES[template];
+  const active = versions[0];
+  const unknown = unknownVariables(template, text);
+  const changed = !!active && !!text.trim() && text.trim() !== active.text.trim();
+
+  // Re-rendered on the server shortly after typing stops, so the preview
+  // matches what the model will be sent.
+  useEffect(() => {
+    if (!text.trim() || unknown.length > 0) {
+      setPreview(null);
+      return;
+    }
+    const controller = new AbortController();
+    const timer = setTimeout(() => {
+      const input = getInput();
+      const filled = input.productName && input.mainProblem && input.keyBenefit;
+      api.previewPrompt(template, text, filled ? input : { ...input, ...SAMPLE_PRODUCT }, controller.signal)
+        .then(prompt => {
+          setPreview(prompt);
+          setPreviewError(null);
+        })
+        .catch(err => {
+          if (controller.signal.aborted) return;
+          setPreviewError(api.errorMessage(err, "Failed to render the preview."));
+        });
+    }, PREVIEW_DELAY_MS);
+    return () => {
+      clearTimeout(timer);
+      controller.abort();
+    };
+  }, [template, text, unknown.length]);
+
+  // Puts the variable at the cursor, replacing any selection.
+  const insertVariable = (name: string) => {
+    const editor = editorRef.current;
+    const token = `{{${name}}}`;
+    const start = editor?.selectionStart ?? text.length;
+    const end = editor?.selectionEnd ?? text.length;
+    setText(text.slice(0, start) + token + text.slice(end));
+    requestAnimationFrame(() => {
+      editor?.focus();
+      editor?.setSelectionRange(start + token.length, start + token.length);
+    });
+  };
+
+  const saveVersion = async (versionText: string, versionNote: string) => {
+    setSaving(true);
+    setError(null);
+    try {
+      const saved = await api.savePromptVersion(template, versionText, versionNote);
+      setVersions(prev => [saved, ...prev]);
+      setText(saved.text);
+      setNote('');
+    } catch (err) {
+      console.error("Prompt template save error:", err);
+      setError(api.errorMessage(err, "Failed to save the prompt template."));
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const save = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (saving || !changed || unknown.length > 0) return;
+    saveVersion(text, note.trim());
+  };
+
+  // Rolling back saves the old text as a new version, so history only grows.
+  const rollBack = (version: PromptTemplateVersion) => {
+    if (saving) return;
+    if (!window.confirm(`Use version ${version.version} for all new generations?`)) return;
+    saveVersion(version.text, version.version === 0 ? 'Reset to built-in' : `Rolled back to v${version.version}`);
+  };
+
+  return (
+    <div className="space-y-6">
+      <div className="flex gap-2">
+        {PROMPT_TEMPLATE_IDS.map(id => (
+          <button
+            key={id}
+            onClick={() => setTemplate(id)}
+            className={`px-4 py-2 rounded-xl text-xs font-bold transition-all ${template === id ? 'bg-indigo-600 text-white' : 'bg-gray-50 text-gray-500 hover:bg-indigo-50 hover:text-indigo-600'}`}
+          >
+            {PROMPT_TEMPLATES[id].label}
+          </button>
+        ))}
+      </div>
+
+      <form onSubmit={save} className="bg-white p-10 rounded-[2.5rem] border border-gray-100 shadow-sm space-y-6">
+        <div className="flex items-center justify-between gap-4">
+          <span className="text-[10px] font-black uppercase tracking-[0.2em] text-indigo-500 flex items-center gap-2">
+            <FileCode className="w-3.5 h-3.5" /> {info.label}
+          </span>
+          {active && (
+            <span className="text-[10px] font-black uppercase tracking-widest text-gray-300">
+              In use: {active.version === 0 ? 'built-in' : `v${active.version}`}
+            </span>
+          )}
+        </div>
+        <p className="text-xs text-gray-400 -mt-3">{info.description}</p>
+
+        <div className="space-y-2">
+          <label className={labelClass}>Template</label>
+          <textarea
+            ref={editorRef}
+            value={text}
+            onChange={(e) => setText(e.target.value)}
+            disabled={!active}
+            maxLength={MAX_TEMPLATE_LENGTH}
+            spellCheck={false}
+            className={`${inputClass} min-h-[320px] resize-y font-mono text-xs leading-relaxed`}
+          />
+          {unknown.length > 0 && (
+            <p className="text-xs font-bold text-amber-600 flex items-center gap-1.5">
+              <AlertCircle className="w-3 h-3 shrink-0" />
+              Unknown {unknown.length === 1 ? 'variable' : 'variables'}: {unknown.map(name => `{{${name}}}`).join(', ')}
+            </p>
+          )}
+        </div>
+
+        <div className="space-y-2">
+          <label className={labelClass}>Variables (click to insert)</label>
+          <div className="flex flex-wrap gap-2">
+            {info.variables.map(variable => (
+              <button
+                key={variable.name}
+                type="button"
+                onClick={() => insertVariable(variable.name)}
+                title={variable.description}
+                className="px-2.5 py-1 rounded-lg bg-gray-50 text-[11px] font-mono text-gray-500 hover:bg-indigo-50 hover:text-indigo-600 transition-all"
+              >
+                {`{{${variable.name}}}`}
+              </button>
+            ))}
+          </div>
+        </div>
+
+        <div className="space-y-2">
+          <label className={labelClass}>Preview</label>
+          <pre className="px-5 py-4 rounded-2xl bg-gray-50 text-xs text-gray-600 whitespace-pre-wrap font-mono max-h-[320px] overflow-y-auto min-h-[80px]">
+            {previewError
+              ? <span className="text-red-600 font-bold">{previewError}</span>
+              : unknown.length > 0 ? 'Fix the unknown variables to see the preview.'
+              : preview ?? <Loader2 className="w-4 h-4 text-gray-300 animate-spin" />}
+          </pre>
+          <p className="text-[10px] font-bold text-gray-300">
+            Rendered with the details in the form, or a sample product while it is empty.
+          </p>
+        </div>
+
+        <div className="space-y-2">
+          <label className={labelClass}>Change Note</label>
+          <input
+            type="text"
+            placeholder="e.g. Shorter hooks, more social proof"
+            className={inputClass}
+            maxLength={200}
+            value={note}
+            onChange={(e) => setNote(e.target.value)}
+          />
+        </div>
+
+        {error && (
+          <p className="text-xs font-bold text-red-600">{error}</p>
+        )}
+        {!isAdmin && (
+          <p className="text-[10px] font-bold text-gray-300">Only an admin can change the prompt templates.</p>
+        )}
+
+        <button
+          type="submit"
+          disabled={!isAdmin || saving || !changed || unknown.length > 0}
+          className="w-full py-4 bg-black hover:bg-gray-900 disabled:bg-gray-200 text-white font-bold rounded-2xl shadow-xl shadow-black/10 transition-all flex items-center justify-center gap-3 active:scale-[0.98]"
+        >
+          {saving && <Loader2 className="w-4 h-4 animate-spin" />}
+          Save as New Version
+        </button>
+      </form>
+
+      {versions.length > 0 && (
+        <div className="space-y-2">
+          <span className={`${labelClass} flex items-center gap-2`}>
+            <History className="w-3.5 h-3.5" /> Versions
+          </span>
+          {versions.map((version, idx) => (
+            <div key={version.version} className="bg-white px-6 py-4 rounded-2xl border border-gray-100 shadow-sm flex items-center gap-4">
+              <span className="w-10 h-8 shrink-0 bg-gray-50 rounded-lg flex items-center justify-center text-xs font-black text-gray-400">
+                v{version.version}
+              </span>
+              <div className="flex-1 min-w-0">
+                <p className="font-bold text-gray-900 text-sm truncate">{version.note || 'No note'}</p>
+                <p className="text-[10px] font-black uppercase tracking-widest text-gray-300 mt-0.5">
+                  {version.createdAt ? formatDate(version.createdAt) : 'Ships with the app'}
+                  {idx === 0 && <span className="text-indigo-500"> · In use</span>}
+                </p>
+              </div>
+              <button
+                onClick={() => setText(version.text)}
+                className="px-3 py-2 rounded-xl text-[10px] font-black uppercase tracking-widest text-gray-400 hover:text-indigo-600 hover:bg-indigo-50 transition-all"
+              >
+                Load
+              </button>
+              {idx > 0 && isAdmin && (
+                <button
+                  onClick={() => rollBack(version)}
+                  disabled={saving}
+                  className="p-2 rounded-xl text-gray-300 hover:text-indigo-600 hover:bg-indigo-50 transition-all"
+                  title="Roll back to this version"
+                >
+                  <RotateCcw className="w-4 h-4" />
+                </button>
+              )}
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
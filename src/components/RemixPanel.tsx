@@ -0,0 +1,212 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import React, { useEffect, useRef, useState } from 'react';
+import { motion } from "motion/react";
+import { Loader2, Plus, Shuffle, Undo2, Wand2, X } from "lucide-react";
+import * as api from '../api';
+import { composeRemix } from '../lib/remix';
+import { SECTION_LABELS, SECTIONS } from '../types';
+import type { RemixSources, ScriptRequest, ScriptSection, ScriptVariation } from '../types';
+
+interface RemixPanelProps {
+  input: ScriptRequest;
+  variations: ScriptVariation[];
+  // Rejects when the remix could not be saved; the panel stays open.
+  onSave: (remix: ScriptVariation) => Promise<void>;
+  onClose: () => void;
+}
+
+const labelClass = "text-[10px] font-black uppercase tracking-[0.2em] text-gray-400";
+
+const number = (id: number) => String(id).padStart(2, '0');
+
+export default function RemixPanel({ input, variations, onSave, onClose }: RemixPanelProps) {
+  const [sources, setSources] = useState<Partial<RemixSources>>({});
+  // Set once the joins have been rewritten; cleared when a section changes.
+  const [smoothed, setSmoothed] = useState<ScriptVariation | null>(null);
+  const [dragging, setDragging] = useState<{ section: ScriptSection; id: number } | null>(null);
+  const [dropTarget, setDropTarget] = useState<ScriptSection | null>(null);
+  const [smoothing, setSmoothing] = useState(false);
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const request = useRef<AbortController | null>(null);
+
+  useEffect(() => () => request.current?.abort(), []);
+
+  // Sources are looked up each render, so edits made to a card meanwhile
+  // show up in the remix.
+  const sourceOf = (section: ScriptSection) => variations.find(v => v.id === sources[section]);
+  const complete = SECTIONS.every(section => sourceOf(section));
+  const remix = smoothed ?? (complete ? composeRemix(variations, sources as RemixSources) : null);
+
+  const pick = (section: ScriptSection, id: number | undefined) => {
+    request.current?.abort();
+    setSources(prev => ({ ...prev, [section]: id }));
+    setSmoothed(null);
+    setError(null);
+  };
+
+  const drop = (section: ScriptSection) => (e: React.DragEvent) => {
+    e.preventDefault();
+    if (dragging?.section === section) pick(section, dragging.id);
+    setDragging(null);
+    setDropTarget(null);
+  };
+
+  const smooth = async () => {
+    if (!remix) return;
+    request.current?.abort();
+    const controller = new AbortController();
+    request.current = controller;
+    setSmoothing(true);
+    setError(null);
+    try {
+      const result = await api.smoothRemix(input, remix, controller.signal);
+      if (!controller.signal.aborted) setSmoothed(result);
+    } catch (err) {
+      if (controller.signal.aborted) return;
+      console.error("Smoothing error:", err);
+      setError(api.errorMessage(err, "Failed to smooth the transitions."));
+    } finally {
+      if (request.current === controller) {
+        request.current = null;
+        setSmoothing(false);
+      }
+    }
+  };
+
+  const save = async () => {
+    if (!remix || saving) return;
+    setSaving(true);
+    setError(null);
+    try {
+      await onSave(remix);
+    } catch (err) {
+      console.error("Remix save error:", err);
+      setError(api.errorMessage(err, "Failed to save the remix."));
+      setSaving(false);
+    }
+  };
+
+  return (
+    <motion.div
+      initial={{ opacity: 0, y: -8 }}
+      animate={{ opacity: 1, y: 0 }}
+      exit={{ opacity: 0, y: -8 }}
+      className="bg-white p-8 rounded-[2.5rem] border border-gray-100 shadow-sm space-y-6"
+    >
+      <div className="flex items-center justify-between">
+        <span className="text-[10px] font-black uppercase tracking-[0.2em] text-indigo-500 flex items-center gap-1.5">
+          <Shuffle className="w-3.5 h-3.5" /> Remix builder
+        </span>
+        <button
+          onClick={onClose}
+          className="p-1.5 rounded-lg text-gray-300 hover:text-gray-600 hover:bg-gray-50 transition-all"
+          title="Close"
+        >
+          <X className="w-4 h-4" />
+        </button>
+      </div>
+      <p className="text-xs font-bold text-gray-400">
+        Drag a section from any script into its slot, or click it, to build a new script from the best parts.
+      </p>
+
+      {SECTIONS.map(section => {
+        const source = sourceOf(section);
+        return (
+          <div key={section} className="space-y-3">
+            <span className={labelClass}>{SECTION_LABELS[section]}</span>
+            <div
+              onDragOver={(e) => {
+                if (dragging?.section !== section) return;
+                e.preventDefault();
+                setDropTarget(section);
+              }}
+              onDragLeave={() => setDropTarget(null)}
+              onDrop={drop(section)}
+              className={`min-h-16 p-4 rounded-2xl border-2 border-dashed transition-all flex items-start justify-between gap-3 ${dropTarget === section ? 'border-indigo-400 bg-indigo-50/60' : source ? 'border-indigo-100 bg-indigo-50/30' : dragging?.section === section ? 'border-indigo-200' : 'border-gray-100'}`}
+            >
+              {!source ? (
+                <p className="text-xs font-bold text-gray-300">Drop a {SECTION_LABELS[section].toLowerCase()} here</p>
+              ) : (
+                <>
+                  <p className="text-sm text-gray-700 leading-relaxed">
+                    <span className="mr-2 text-[10px] font-black text-indigo-400">{number(source.id)}</span>
+                    {remix ? remix[section] : source[section]}
+                  </p>
+                  <button
+                    onClick={() => pick(section, undefined)}
+                    className="shrink-0 text-gray-300 hover:text-gray-600 transition-colors"
+                    title="Clear"
+                  >
+                    <X className="w-3.5 h-3.5" />
+                  </button>
+                </>
+              )}
+            </div>
+            <div className="grid grid-cols-2 gap-2">
+              {variations.map(v => (
+                <button
+                  key={v.id}
+                  draggable
+                  onDragStart={(e) => {
+                    e.dataTransfer.setData('text/plain', v[section]);
+                    e.dataTransfer.effectAllowed = 'copy';
+                    setDragging({ section, id: v.id });
+                  }}
+                  onDragEnd={() => { setDragging(null); setDropTarget(null); }}
+                  onClick={() => pick(section, v.id)}
+                  className={`p-3 rounded-xl text-left text-xs cursor-grab active:cursor-grabbing transition-all ${source?.id === v.id ? 'bg-indigo-50 text-indigo-700 ring-1 ring-indigo-200' : 'bg-gray-50 text-gray-500 hover:bg-indigo-50/60'}`}
+                  title={v[section]}
+                >
+                  <span className="line-clamp-2">
+                    <span className="mr-1.5 text-[10px] font-black text-gray-300">{number(v.id)}</span>
+                    {v[section]}
+                  </span>
+                </button>
+              ))}
+            </div>
+          </div>
+        );
+      })}
+
+      {error && (
+        <p className="text-xs font-bold text-red-600">{error}</p>
+      )}
+
+      <div className="grid grid-cols-2 gap-4">
+        {smoothed ? (
+          <button
+            onClick={() => setSmoothed(null)}
+            className="py-4 bg-gray-50 hover:bg-gray-100 text-gray-600 font-bold rounded-2xl transition-all flex items-center justify-center gap-2 text-sm"
+            title="Go back to the sections exactly as written"
+          >
+            <Undo2 className="w-4 h-4" />
+            Undo smoothing
+          </button>
+        ) : (
+          <button
+            onClick={smooth}
+            disabled={!remix || smoothing}
+            className="py-4 bg-gray-50 hover:bg-indigo-50 hover:text-indigo-600 disabled:opacity-50 disabled:hover:bg-gray-50 disabled:hover:text-gray-600 text-gray-600 font-bold rounded-2xl transition-all flex items-center justify-center gap-2 text-sm"
+            title="Have the AI rewrite the joins between sections so the script reads naturally"
+          >
+            {smoothing ? <Loader2 className="w-4 h-4 animate-spin" /> : <Wand2 className="w-4 h-4" />}
+            Smooth transitions
+          </button>
+        )}
+        <button
+          onClick={save}
+          disabled={!remix || smoothing || saving}
+          className="py-4 bg-indigo-600 hover:bg-indigo-700 disabled:bg-gray-200 text-white font-bold rounded-2xl transition-all flex items-center justify-center gap-2 text-sm"
+        >
+          {saving ? <Loader2 className="w-4 h-4 animate-spin" /> : <Plus className="w-4 h-4" />}
+          Save as new variation
+        </button>
+      </div>
+    </motion.div>
+  );
+}
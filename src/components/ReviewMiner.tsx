@@ -0,0 +1,199 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import React, { useRef, useState } from 'react';
+import { motion } from "motion/react";
+import { ArrowRight, Loader2, MessageSquareQuote, Plus, Upload } from "lucide-react";
+import * as api from '../api';
+import { MAX_REVIEWS, parseReviews, REVIEW_THEME_LABELS } from '../lib/reviews';
+import { REVIEW_THEMES } from '../types';
+import type { CustomerQuote, ReviewCluster } from '../types';
+
+interface ReviewMinerProps {
+  productName: string;
+  // Quotes already attached to the form, to mark clusters as used.
+  quotes: CustomerQuote[];
+  // Adds the cluster's quotes; pain points and outcomes also fill the
+  // problem or benefit field.
+  onUseCluster: (cluster: ReviewCluster) => void;
+}
+
+const CLUSTER_ACTIONS: Record<ReviewCluster['theme'], string> = {
+  pain: 'Use as problem',
+  outcome: 'Use as benefit',
+  objection: 'Add quotes',
+};
+
+export default function ReviewMiner({ productName, quotes, onUseCluster }: ReviewMinerProps) {
+  const [text, setText] = useState('');
+  const [clusters, setClusters] = useState<ReviewCluster[]>([]);
+  // Number of reviews behind the clusters shown.
+  const [mined, setMined] = useState<number | null>(null);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const request = useRef<AbortController | null>(null);
+
+  const parsed = parseReviews(text);
+
+  const loadFile = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+    try {
+      setText(await file.text());
+      setError(null);
+    } catch (err) {
+      console.error("Review file error:", err);
+      setError("Failed to read the file.");
+    }
+  };
+
+  const mine = async () => {
+    if (parsed.reviews.length === 0) return;
+
+    request.current?.abort();
+    const controller = new AbortController();
+    request.current = controller;
+    setLoading(true);
+    setError(null);
+
+    try {
+      const result = await api.mineReviews(parsed.reviews, productName.trim() || undefined, controller.signal);
+      if (controller.signal.aborted) return;
+      setClusters(result);
+      setMined(parsed.reviews.length);
+    } catch (err) {
+      if (controller.signal.aborted) return;
+      console.error("Review mining error:", err);
+      setError(api.errorMessage(err, "Failed to analyze the reviews. Please try again."));
+    } finally {
+      if (request.current === controller) {
+        request.current = null;
+        setLoading(false);
+      }
+    }
+  };
+
+  const cancel = () => {
+    request.current?.abort();
+    request.current = null;
+    setLoading(false);
+  };
+
+  const isUsed = (cluster: ReviewCluster) =>
+    cluster.quotes.every(quote => quotes.some(q => q.text === quote));
+
+  return (
+    <div className="space-y-6">
+      <input type="file" ref={fileInputRef} onChange={loadFile} accept=".csv,.txt,text/csv,text/plain" className="hidden" />
+
+      <div className="bg-white p-6 rounded-[2rem] border border-gray-100 shadow-sm space-y-4">
+        <textarea
+          placeholder="Paste customer reviews, one per paragraph, or upload a Shopify or Amazon review export..."
+          className="w-full px-5 py-4 rounded-2xl bg-gray-50 border-transparent focus:bg-white focus:ring-4 focus:ring-indigo-500/5 transition-all outline-none font-medium text-sm min-h-[180px] resize-y shadow-sm"
+          value={text}
+          onChange={(e) => setText(e.target.value)}
+          disabled={loading}
+        />
+        <div className="flex items-center justify-between gap-4">
+          <p className="text-[10px] font-black uppercase tracking-widest text-gray-300">
+            {parsed.reviews.length} {parsed.reviews.length === 1 ? 'review' : 'reviews'}
+            {parsed.total > MAX_REVIEWS && <span className="text-amber-500"> · first {MAX_REVIEWS} of {parsed.total} used</span>}
+          </p>
+          <button
+            onClick={() => fileInputRef.current?.click()}
+            disabled={loading}
+            className="flex items-center gap-2 px-4 py-2 rounded-xl text-xs font-bold bg-gray-50 text-gray-500 hover:bg-indigo-50 hover:text-indigo-600 transition-all"
+          >
+            <Upload className="w-4 h-4" />
+            Upload CSV or text
+          </button>
+        </div>
+        <button
+          onClick={loading ? cancel : mine}
+          disabled={!loading && parsed.reviews.length === 0}
+          className="w-full py-4 bg-black hover:bg-gray-900 disabled:bg-gray-200 text-white font-bold rounded-2xl shadow-xl shadow-black/10 transition-all flex items-center justify-center gap-3 active:scale-[0.98]"
+        >
+          {loading ? (
+            <>
+              <Loader2 className="w-4 h-4 animate-spin" />
+              Cancel
+            </>
+          ) : (
+            <>
+              <MessageSquareQuote className="w-4 h-4" />
+              {clusters.length > 0 ? 'Analyze Again' : 'Find Themes'}
+            </>
+          )}
+        </button>
+      </div>
+
+      {error && (
+        <p className="text-xs font-bold text-red-600">{error}</p>
+      )}
+
+      {mined === null ? (
+        <div className="flex flex-col items-center justify-center h-[260px] bg-gray-50/30 rounded-[2.5rem] border border-dashed border-gray-200 text-center px-10">
+          <MessageSquareQuote className="w-8 h-8 text-gray-200 mb-4" />
+          <p className="text-gray-400 text-sm font-bold">Write scripts in your customers' own words.</p>
+          <p className="text-gray-300 text-xs mt-2">Reviews are grouped into pain points, desired outcomes and objections, with verbatim quotes.</p>
+        </div>
+      ) : clusters.length === 0 ? (
+        <div className="flex flex-col items-center justify-center h-[200px] bg-gray-50/30 rounded-[2.5rem] border border-dashed border-gray-200 text-center px-10">
+          <p className="text-gray-400 text-sm font-bold">No recurring themes found in {mined} reviews.</p>
+          <p className="text-gray-300 text-xs mt-2">Try adding more reviews, or ones with more detail.</p>
+        </div>
+      ) : (
+        REVIEW_THEMES.map(theme => {
+          const group = clusters.filter(cluster => cluster.theme === theme);
+          if (group.length === 0) return null;
+          return (
+            <div key={theme} className="space-y-3">
+              <span className="text-[10px] font-black uppercase tracking-[0.2em] text-gray-400">{REVIEW_THEME_LABELS[theme]}</span>
+              {group.map((cluster, idx) => {
+                const used = isUsed(cluster);
+                return (
+                  <motion.div
+                    key={`${cluster.theme}:${cluster.label}`}
+                    initial={{ opacity: 0, y: 10 }}
+                    animate={{ opacity: 1, y: 0 }}
+                    transition={{ delay: Math.min(idx, 10) * 0.03 }}
+                    className={`bg-white p-6 rounded-[2rem] border shadow-sm space-y-3 ${used ? 'border-indigo-200' : 'border-gray-100'}`}
+                  >
+                    <div className="flex items-start justify-between gap-4">
+                      <div className="min-w-0 space-y-1">
+                        <p className="font-bold text-gray-900">
+                          {cluster.label}
+                          <span className="ml-2 text-[10px] font-black uppercase tracking-widest text-gray-300">
+                            {cluster.mentions} of {mined}
+                          </span>
+                        </p>
+                        <p className="text-sm font-medium text-gray-600">{cluster.summary}</p>
+                      </div>
+                      <button
+                        onClick={() => onUseCluster(cluster)}
+                        className="shrink-0 flex items-center gap-1.5 px-3 py-2 rounded-xl text-[10px] font-black uppercase tracking-widest text-indigo-600 hover:bg-indigo-50 transition-all"
+                        title={theme === 'objection' ? 'Attach these quotes to the brief' : 'Fill in the form and attach these quotes'}
+                      >
+                        {theme === 'objection' ? <Plus className="w-3.5 h-3.5" /> : <ArrowRight className="w-3.5 h-3.5" />}
+                        {CLUSTER_ACTIONS[theme]}
+                      </button>
+                    </div>
+                    <ul className="space-y-1.5">
+                      {cluster.quotes.map(quote => (
+                        <li key={quote} className="text-xs text-gray-500 italic border-l-2 border-gray-100 pl-3">"{quote}"</li>
+                      ))}
+                    </ul>
+                  </motion.div>
+                );
+              })}
+            </div>
+          );
+        })
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,253 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import React, { useEffect, useRef, useState } from 'react';
+import { ArrowLeft, Loader2, MessageSquare, RotateCcw, Send, Trash2 } from "lucide-react";
+import * as api from '../api';
+import { canReview, describeChange, MAX_COMMENT_LENGTH, REVIEW_DECISIONS, SCRIPT_STATUSES, STATUS_LABELS } from '../lib/approval';
+import type { ScriptStatus } from '../lib/approval';
+import { SECTION_LABELS, SECTIONS } from '../types';
+import type { ActivityEntry, BoardItem, SavedVariation, ScriptComment, ScriptSection, User } from '../types';
+
+interface ScriptReviewProps {
+  item: BoardItem;
+  user: User | null;
+  onBack: () => void;
+  onChange: (variation: SavedVariation) => void;
+  onOpenRun: (runId: number) => void;
+}
+
+const labelClass = "text-[10px] font-black uppercase tracking-[0.2em] text-gray-400";
+
+const formatTime = (iso: string) =>
+  new Date(iso).toLocaleString(undefined, { month: 'short', day: 'numeric', hour: 'numeric', minute: '2-digit' });
+
+export default function ScriptReview({ item, user, onBack, onChange, onOpenRun }: ScriptReviewProps) {
+  const { variation } = item;
+  const [comments, setComments] = useState<ScriptComment[]>([]);
+  const [activity, setActivity] = useState<ActivityEntry[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [commenting, setCommenting] = useState<ScriptSection | null>(null);
+  const [draft, setDraft] = useState('');
+  const [busy, setBusy] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const request = useRef<AbortController | null>(null);
+
+  const load = async () => {
+    request.current?.abort();
+    const controller = new AbortController();
+    request.current = controller;
+    try {
+      const review = await api.getReview(variation.id, controller.signal);
+      if (controller.signal.aborted) return;
+      setComments(review.comments);
+      setActivity(review.activity);
+    } catch (err) {
+      if (controller.signal.aborted) return;
+      console.error("Review load error:", err);
+      setError(api.errorMessage(err, "Failed to load comments."));
+    } finally {
+      if (request.current === controller) {
+        request.current = null;
+        setLoading(false);
+      }
+    }
+  };
+
+  useEffect(() => {
+    setLoading(true);
+    setCommenting(null);
+    load();
+    return () => request.current?.abort();
+  }, [variation.id]);
+
+  const changeStatus = async (status: ScriptStatus) => {
+    if (busy || status === variation.status) return;
+    setBusy(true);
+    setError(null);
+    try {
+      onChange(await api.setStatus(variation.id, status));
+      load();
+    } catch (err) {
+      console.error("Status change error:", err);
+      setError(api.errorMessage(err, "Failed to change the status."));
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const submitComment = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (busy || !commenting || !draft.trim()) return;
+    setBusy(true);
+    setError(null);
+    try {
+      const comment = await api.addComment(variation.id, commenting, draft);
+      setComments(prev => [...prev, comment]);
+      setCommenting(null);
+      setDraft('');
+      load();
+    } catch (err) {
+      console.error("Comment error:", err);
+      setError(api.errorMessage(err, "Failed to add the comment."));
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const removeComment = async (comment: ScriptComment) => {
+    if (!window.confirm('Delete this comment?')) return;
+    try {
+      await api.deleteComment(comment.id);
+      setComments(prev => prev.filter(c => c.id !== comment.id));
+    } catch (err) {
+      console.error("Comment delete error:", err);
+      setError(api.errorMessage(err, "Failed to delete the comment."));
+    }
+  };
+
+  return (
+    <div className="space-y-6">
+      <div className="flex items-center justify-between gap-4">
+        <button
+          onClick={onBack}
+          className="flex items-center gap-2 text-xs font-bold text-gray-400 hover:text-indigo-600 transition-colors"
+        >
+          <ArrowLeft className="w-4 h-4" />
+          Board
+        </button>
+        <button
+          onClick={() => onOpenRun(item.runId)}
+          className="flex items-center gap-2 px-4 py-2 rounded-xl text-xs font-bold bg-gray-50 text-gray-500 hover:bg-indigo-50 hover:text-indigo-600 transition-all"
+          title="Open the whole run in the results view"
+        >
+          <RotateCcw className="w-4 h-4" />
+          Open run
+        </button>
+      </div>
+
+      <div className="bg-white p-8 rounded-[2.5rem] border border-gray-100 shadow-sm space-y-6">
+        <div>
+          <span className={labelClass}>{item.productName} · Script {String(item.position + 1).padStart(2, '0')}</span>
+          <p className="mt-2 text-xl font-black tracking-tight text-gray-900 italic">"{variation.script.hook}"</p>
+        </div>
+
+        <div className="space-y-3">
+          <span className={labelClass}>Status</span>
+          <div className="flex flex-wrap gap-2">
+            {SCRIPT_STATUSES.map(status => (
+              <button
+                key={status}
+                onClick={() => changeStatus(status)}
+                disabled={!user || busy || (REVIEW_DECISIONS.includes(status) && !canReview(user.role))}
+                className={`px-4 py-2 rounded-xl text-xs font-bold transition-all ${variation.status === status ? 'bg-black text-white' : 'bg-gray-50 text-gray-500 hover:bg-indigo-50 hover:text-indigo-600 disabled:hover:bg-gray-50 disabled:hover:text-gray-500'}`}
+              >
+                {STATUS_LABELS[status]}
+              </button>
+            ))}
+          </div>
+          {!user ? (
+            <p className="text-[10px] font-bold text-gray-300">Sign in at the top of the page to change the status or comment.</p>
+          ) : !canReview(user.role) && (
+            <p className="text-[10px] font-bold text-gray-300">Only reviewers can approve a script or request changes.</p>
+          )}
+        </div>
+
+        {error && (
+          <p className="text-xs font-bold text-red-600">{error}</p>
+        )}
+
+        <div className="space-y-5">
+          {SECTIONS.map(section => {
+            const sectionComments = comments.filter(c => c.section === section);
+            return (
+              <div key={section} className="space-y-3">
+                <div className="flex items-center justify-between gap-4">
+                  <span className={labelClass}>{SECTION_LABELS[section]}</span>
+                  {user && commenting !== section && (
+                    <button
+                      onClick={() => { setCommenting(section); setDraft(''); }}
+                      className="flex items-center gap-1.5 text-[10px] font-black uppercase tracking-widest text-gray-300 hover:text-indigo-600 transition-colors"
+                    >
+                      <MessageSquare className="w-3.5 h-3.5" />
+                      Comment
+                    </button>
+                  )}
+                </div>
+                <p className="text-sm text-gray-700 leading-relaxed">{variation.script[section]}</p>
+
+                {sectionComments.map(comment => (
+                  <div key={comment.id} className="ml-4 p-4 bg-indigo-50/50 rounded-2xl text-sm space-y-1">
+                    <div className="flex items-center justify-between gap-3">
+                      <span className="text-xs font-bold text-gray-700">
+                        {comment.author ?? 'Deleted user'}
+                        <span className="font-medium text-gray-400"> · {formatTime(comment.createdAt)}</span>
+                      </span>
+                      {user && comment.authorId === user.id && (
+                        <button
+                          onClick={() => removeComment(comment)}
+                          className="text-gray-300 hover:text-red-600 transition-colors"
+                          title="Delete comment"
+                        >
+                          <Trash2 className="w-3.5 h-3.5" />
+                        </button>
+                      )}
+                    </div>
+                    <p className="text-gray-600 whitespace-pre-wrap">{comment.body}</p>
+                  </div>
+                ))}
+
+                {commenting === section && (
+                  <form onSubmit={submitComment} className="ml-4 space-y-2">
+                    <textarea
+                      className="w-full px-4 py-3 rounded-2xl bg-gray-50 border-transparent focus:bg-white focus:ring-4 focus:ring-indigo-500/5 transition-all outline-none font-medium text-sm shadow-sm resize-none"
+                      rows={3}
+                      maxLength={MAX_COMMENT_LENGTH}
+                      placeholder={`What should change in the ${SECTION_LABELS[section].toLowerCase()}?`}
+                      value={draft}
+                      onChange={(e) => setDraft(e.target.value)}
+                      autoFocus
+                    />
+                    <div className="flex justify-end gap-2">
+                      <button
+                        type="button"
+                        onClick={() => setCommenting(null)}
+                        className="px-4 py-2 rounded-xl text-xs font-bold text-gray-400 hover:text-gray-600 transition-colors"
+                      >
+                        Cancel
+                      </button>
+                      <button
+                        type="submit"
+                        disabled={busy || !draft.trim()}
+                        className="flex items-center gap-2 px-4 py-2 rounded-xl text-xs font-bold bg-black hover:bg-gray-900 disabled:bg-gray-200 text-white transition-all"
+                      >
+                        {busy ? <Loader2 className="w-3.5 h-3.5 animate-spin" /> : <Send className="w-3.5 h-3.5" />}
+                        Comment
+                      </button>
+                    </div>
+                  </form>
+                )}
+              </div>
+            );
+          })}
+        </div>
+      </div>
+
+      <div className="bg-white p-6 rounded-[2rem] border border-gray-100 shadow-sm space-y-3">
+        <span className={labelClass}>Activity</span>
+        {loading ? (
+          <Loader2 className="w-4 h-4 text-gray-300 animate-spin" />
+        ) : activity.length === 0 ? (
+          <p className="text-xs font-bold text-gray-300">No changes since the script was saved.</p>
+        ) : activity.map(entry => (
+          <p key={entry.id} className="text-xs text-gray-500">
+            <span className="font-bold text-gray-700">{entry.user ?? 'A guest'}</span> {describeChange(entry.change)}
+            <span className="text-gray-300"> · {formatTime(entry.createdAt)}</span>
+          </p>
+        ))}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,146 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import React, { useEffect, useState } from 'react';
+import { CheckCircle, Cpu, Loader2 } from "lucide-react";
+import * as api from '../api';
+import { DEFAULT_OPENAI_BASE_URL, PROVIDER_IDS, PROVIDERS } from '../lib/providers';
+import type { ProviderId } from '../lib/providers';
+import type { ProviderSettings, User } from '../types';
+
+interface SettingsPanelProps {
+  user: User | null;
+}
+
+const inputClass = "w-full px-5 py-4 rounded-2xl bg-gray-50 border-transparent focus:bg-white focus:ring-4 focus:ring-indigo-500/5 transition-all outline-none font-medium text-sm shadow-sm";
+const labelClass = "text-[10px] font-black uppercase tracking-[0.2em] text-gray-400";
+
+export default function SettingsPanel({ user }: SettingsPanelProps) {
+  const [draft, setDraft] = useState<ProviderSettings | null>(null);
+  const [saving, setSaving] = useState(false);
+  const [saved, setSaved] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    api.getProviderSettings()
+      .then(setDraft)
+      .catch(err => {
+        console.error("Provider settings load error:", err);
+        setError(api.errorMessage(err, "Failed to load the provider settings."));
+      });
+  }, []);
+
+  const update = (patch: Partial<ProviderSettings>) => {
+    setDraft(prev => prev && { ...prev, ...patch });
+    setSaved(false);
+  };
+
+  // Switching provider resets the model, which rarely carries over.
+  const pickProvider = (provider: ProviderId) => {
+    if (provider === draft?.provider) return;
+    update({
+      provider,
+      model: PROVIDERS[provider].defaultModel,
+      baseUrl: PROVIDERS[provider].usesBaseUrl ? draft?.baseUrl ?? DEFAULT_OPENAI_BASE_URL : undefined,
+    });
+  };
+
+  const save = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!draft || saving) return;
+    setSaving(true);
+    setError(null);
+    try {
+      const next = await api.updateProviderSettings(draft);
+      setDraft(next);
+      setSaved(true);
+    } catch (err) {
+      console.error("Provider settings save error:", err);
+      setError(api.errorMessage(err, "Failed to save the provider settings."));
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  if (!draft) {
+    return (
+      <div className="flex flex-col items-center justify-center h-[400px] bg-gray-50/30 rounded-[2.5rem] border border-dashed border-gray-200 text-center px-10">
+        {error ? <p className="text-xs font-bold text-red-600">{error}</p> : <Loader2 className="w-6 h-6 text-gray-300 animate-spin" />}
+      </div>
+    );
+  }
+
+  const info = PROVIDERS[draft.provider];
+  const isAdmin = user?.role === 'admin';
+
+  return (
+    <form onSubmit={save} className="bg-white p-10 rounded-[2.5rem] border border-gray-100 shadow-sm space-y-6">
+      <span className="text-[10px] font-black uppercase tracking-[0.2em] text-indigo-500 flex items-center gap-2">
+        <Cpu className="w-3.5 h-3.5" /> Model Provider
+      </span>
+
+      <div className="space-y-3">
+        {PROVIDER_IDS.map(id => (
+          <button
+            key={id}
+            type="button"
+            onClick={() => pickProvider(id)}
+            className={`w-full text-left p-5 rounded-2xl border transition-all ${draft.provider === id ? 'border-indigo-600 bg-indigo-50/50' : 'border-gray-100 hover:border-gray-200'}`}
+          >
+            <p className={`font-bold ${draft.provider === id ? 'text-indigo-600' : 'text-gray-900'}`}>{PROVIDERS[id].label}</p>
+            <p className="text-xs text-gray-400 mt-1">{PROVIDERS[id].description}</p>
+          </button>
+        ))}
+      </div>
+
+      <div className="space-y-2">
+        <label className={labelClass}>Model</label>
+        <input
+          type="text"
+          list="provider-models"
+          className={inputClass}
+          maxLength={100}
+          value={draft.model}
+          onChange={(e) => update({ model: e.target.value })}
+        />
+        <datalist id="provider-models">
+          {info.models.map(model => <option key={model} value={model} />)}
+        </datalist>
+      </div>
+
+      {info.usesBaseUrl && (
+        <div className="space-y-2">
+          <label className={labelClass}>Base URL</label>
+          <input
+            type="url"
+            placeholder={DEFAULT_OPENAI_BASE_URL}
+            className={inputClass}
+            value={draft.baseUrl ?? ''}
+            onChange={(e) => update({ baseUrl: e.target.value })}
+          />
+          <p className="text-[10px] font-bold text-gray-300">
+            The part before /chat/completions. OPENAI_API_KEY is only sent when this matches the server's OPENAI_BASE_URL. This provider cannot browse, so URL analysis only works on pages whose product details can be read from their markup.
+          </p>
+        </div>
+      )}
+
+      {error && (
+        <p className="text-xs font-bold text-red-600">{error}</p>
+      )}
+      {!isAdmin && (
+        <p className="text-[10px] font-bold text-gray-300">Only an admin can change the model provider.</p>
+      )}
+
+      <button
+        type="submit"
+        disabled={!isAdmin || saving || !draft.model.trim()}
+        className="w-full py-4 bg-black hover:bg-gray-900 disabled:bg-gray-200 text-white font-bold rounded-2xl shadow-xl shadow-black/10 transition-all flex items-center justify-center gap-3 active:scale-[0.98]"
+      >
+        {saving ? <Loader2 className="w-4 h-4 animate-spin" /> : saved && <CheckCircle className="w-4 h-4" />}
+        {saved ? 'Saved' : 'Save Settings'}
+      </button>
+    </form>
+  );
+}
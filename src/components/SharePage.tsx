@@ -0,0 +1,171 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import React, { useEffect, useState } from 'react';
+import { AlertCircle, CheckCircle, Copy, Loader2, Printer, Star, Zap } from "lucide-react";
+import * as api from '../api';
+import { getLanguage } from '../lib/languages';
+import { getPlatform } from '../lib/platforms';
+import { formatPrice, formatRating } from '../lib/productPage';
+import { campaignText, copyText, variationText } from '../lib/share';
+import VariationCard from './VariationCard';
+import type { SharedCampaign } from '../types';
+
+interface SharePageProps {
+  token: string;
+}
+
+const formatDate = (iso: string) =>
+  new Date(iso).toLocaleDateString(undefined, { month: 'short', day: 'numeric', year: 'numeric' });
+
+// The read-only view behind a share link. It needs no account and offers
+// copying and printing only.
+export default function SharePage({ token }: SharePageProps) {
+  const [campaign, setCampaign] = useState<SharedCampaign | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  // Index of the copied card, -1 for "Copy All".
+  const [copiedId, setCopiedId] = useState<number | null>(null);
+
+  useEffect(() => {
+    const controller = new AbortController();
+    api.getSharedCampaign(token, controller.signal)
+      .then(result => {
+        setCampaign(result);
+        document.title = `${result.title} · vidpromt`;
+      })
+      .catch(err => {
+        if (api.isAbortError(err)) return;
+        console.error("Shared campaign load error:", err);
+        setError(err instanceof api.ApiError && err.code === 'NOT_FOUND'
+          ? "This link does not exist. Check that it was copied in full."
+          : api.errorMessage(err, "Failed to load the shared scripts."));
+      });
+    return () => controller.abort();
+  }, [token]);
+
+  const copy = (text: string, id: number) => {
+    copyText(text).then(() => {
+      setCopiedId(id);
+      setTimeout(() => setCopiedId(null), 2000);
+    }).catch(err => {
+      console.error('Failed to copy: ', err);
+    });
+  };
+
+  const input = campaign?.input;
+  const facts = input?.productFacts;
+  const details = input && [
+    getPlatform(input.platform).label,
+    ...(input.language && input.language !== 'en' ? [getLanguage(input.language).label] : []),
+    input.toneStyle,
+    `${input.duration}s`,
+  ];
+
+  return (
+    <div className="min-h-screen bg-[#FDFDFD] text-[#1A1A1A] font-sans selection:bg-indigo-100 print:bg-white">
+      <header className="border-b border-gray-100 print:hidden">
+        <div className="max-w-4xl mx-auto px-8 h-20 flex items-center justify-between">
+          <a href="/" className="flex items-center gap-2.5">
+            <div className="w-9 h-9 bg-black rounded-xl flex items-center justify-center shadow-lg shadow-black/10">
+              <Zap className="w-5 h-5 text-white fill-white" />
+            </div>
+            <span className="text-2xl font-black tracking-tighter">vidpromt</span>
+          </a>
+          {campaign && (
+            <div className="flex items-center gap-2">
+              <button
+                onClick={() => copy(campaignText(campaign.variations), -1)}
+                className={`flex items-center gap-2 px-4 py-2 rounded-xl text-xs font-bold transition-all ${copiedId === -1 ? 'bg-green-50 text-green-600' : 'bg-gray-50 text-gray-500 hover:bg-indigo-50 hover:text-indigo-600'}`}
+              >
+                {copiedId === -1 ? <CheckCircle className="w-4 h-4" /> : <Copy className="w-4 h-4" />}
+                {copiedId === -1 ? 'All Copied' : 'Copy All'}
+              </button>
+              <button
+                onClick={() => window.print()}
+                className="flex items-center gap-2 px-4 py-2 rounded-xl text-xs font-bold bg-gray-50 text-gray-500 hover:bg-indigo-50 hover:text-indigo-600 transition-all"
+              >
+                <Printer className="w-4 h-4" />
+                Print
+              </button>
+            </div>
+          )}
+        </div>
+      </header>
+
+      <main className="max-w-4xl mx-auto px-8 py-16 space-y-10 print:px-0 print:py-0 print:space-y-6">
+        {error ? (
+          <div className="flex flex-col items-center justify-center h-[400px] bg-gray-50/30 rounded-[2.5rem] border border-dashed border-gray-200 text-center px-8">
+            <AlertCircle className="w-8 h-8 text-gray-300 mb-4" />
+            <p className="text-gray-500 text-sm font-bold">{error}</p>
+            <p className="text-gray-300 text-xs mt-2">Ask whoever sent it for a new link.</p>
+          </div>
+        ) : !campaign || !input ? (
+          <div className="flex items-center justify-center h-[400px]">
+            <Loader2 className="w-8 h-8 text-indigo-600 animate-spin" />
+          </div>
+        ) : (
+          <>
+            <section className="space-y-6 print:break-after-avoid">
+              <div className="space-y-2">
+                <span className="text-[10px] font-black uppercase tracking-[0.2em] text-indigo-500">UGC Scripts</span>
+                <h1 className="text-4xl font-black tracking-tight leading-tight">{campaign.title}</h1>
+                <p className="text-xs font-bold text-gray-400">
+                  Shared {formatDate(campaign.createdAt)}
+                  {campaign.expiresAt && <span className="print:hidden"> · Link expires {formatDate(campaign.expiresAt)}</span>}
+                </p>
+              </div>
+
+              <div className="bg-white p-8 rounded-[2.5rem] border border-gray-100 shadow-sm grid gap-6 sm:grid-cols-2 print:shadow-none print:p-6 print:rounded-2xl">
+                <div className="space-y-1 sm:col-span-2">
+                  <span className="text-[10px] font-black uppercase tracking-[0.2em] text-gray-400">Product</span>
+                  <p className="font-bold text-gray-900">
+                    {input.productUrl ? (
+                      <a href={input.productUrl} target="_blank" rel="noreferrer" className="hover:text-indigo-600 transition-colors">{input.productName}</a>
+                    ) : input.productName}
+                  </p>
+                  {facts && (facts.price || facts.rating) && (
+                    <p className="text-xs text-gray-500 flex items-center gap-1.5">
+                      {facts.price && formatPrice(facts.price)}
+                      {facts.price && facts.rating && ' · '}
+                      {facts.rating && <><Star className="w-3 h-3 fill-amber-400 text-amber-400" /> {formatRating(facts.rating)}</>}
+                    </p>
+                  )}
+                </div>
+                <div className="space-y-1">
+                  <span className="text-[10px] font-black uppercase tracking-[0.2em] text-gray-400">Problem</span>
+                  <p className="text-sm font-medium text-gray-600">{input.mainProblem}</p>
+                </div>
+                <div className="space-y-1">
+                  <span className="text-[10px] font-black uppercase tracking-[0.2em] text-gray-400">Benefit</span>
+                  <p className="text-sm font-medium text-gray-600">{input.keyBenefit}</p>
+                </div>
+                <div className="flex flex-wrap gap-2 sm:col-span-2">
+                  {details!.map(detail => (
+                    <span key={detail} className="px-3 py-1 bg-indigo-50 text-indigo-600 rounded-full text-[10px] font-black uppercase tracking-widest">{detail}</span>
+                  ))}
+                </div>
+              </div>
+            </section>
+
+            <div className="grid gap-8 print:gap-6">
+              {campaign.variations.map((v, idx) => (
+                <VariationCard
+                  key={idx}
+                  variation={v}
+                  index={idx}
+                  productName={input.productName}
+                  duration={input.duration}
+                  language={input.language}
+                  copied={copiedId === idx}
+                  onCopy={() => copy(variationText(v), idx)}
+                />
+              ))}
+            </div>
+          </>
+        )}
+      </main>
+    </div>
+  );
+}
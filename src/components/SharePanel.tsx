@@ -0,0 +1,236 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import React, { useEffect, useState } from 'react';
+import { motion } from "motion/react";
+import { Ban, CheckCircle, Copy, ExternalLink, Link2, Loader2, X } from "lucide-react";
+import * as api from '../api';
+import { copyText, isExpired, MAX_SHARE_TITLE, SHARE_EXPIRY_OPTIONS, shareUrl } from '../lib/share';
+import type { ScriptRequest, ScriptVariation, ShareLink, User } from '../types';
+
+interface SharePanelProps {
+  // The campaign as shown in the results; links store a copy of it.
+  input: ScriptRequest;
+  variations: ScriptVariation[];
+  // Links belong to the account that created them.
+  user: User | null;
+  onClose: () => void;
+}
+
+const inputClass = "w-full px-5 py-4 rounded-2xl bg-gray-50 border-transparent focus:bg-white focus:ring-4 focus:ring-indigo-500/5 transition-all outline-none font-medium text-sm shadow-sm";
+const labelClass = "text-[10px] font-black uppercase tracking-[0.2em] text-gray-400";
+
+const formatDate = (iso: string) =>
+  new Date(iso).toLocaleString(undefined, { month: 'short', day: 'numeric', hour: 'numeric', minute: '2-digit' });
+
+const linkStatus = (link: ShareLink) =>
+  link.revokedAt ? { label: 'Revoked', className: 'text-red-500' }
+    : isExpired(link.expiresAt) ? { label: 'Expired', className: 'text-gray-400' }
+    : { label: link.expiresAt ? `Expires ${formatDate(link.expiresAt)}` : 'Never expires', className: 'text-green-600' };
+
+export default function SharePanel({ input, variations, user, onClose }: SharePanelProps) {
+  const [title, setTitle] = useState('');
+  // Days until the link stops working; 0 keeps it open until revoked.
+  const [expiresInDays, setExpiresInDays] = useState(0);
+  const [links, setLinks] = useState<ShareLink[]>([]);
+  const [created, setCreated] = useState<ShareLink | null>(null);
+  const [creating, setCreating] = useState(false);
+  const [copiedToken, setCopiedToken] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    setLinks([]);
+    setCreated(null);
+    if (!user) return;
+    let cancelled = false;
+    api.listShares()
+      .then(loaded => {
+        if (!cancelled) setLinks(loaded);
+      })
+      .catch(err => {
+        console.error("Share links load error:", err);
+        if (!cancelled) setError(api.errorMessage(err, "Failed to load your share links."));
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [user?.id]);
+
+  const copyLink = (token: string) => {
+    copyText(shareUrl(token)).then(() => {
+      setCopiedToken(token);
+      setTimeout(() => setCopiedToken(null), 2000);
+    }).catch(err => {
+      console.error('Failed to copy: ', err);
+    });
+  };
+
+  const create = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setCreating(true);
+    setError(null);
+    try {
+      const link = await api.createShare({
+        title: title.trim() || undefined,
+        input,
+        variations,
+        expiresInDays: expiresInDays || undefined,
+      });
+      setCreated(link);
+      setLinks(prev => [link, ...prev]);
+      copyLink(link.token);
+    } catch (err) {
+      console.error("Share error:", err);
+      setError(api.errorMessage(err, "Failed to create the share link."));
+    } finally {
+      setCreating(false);
+    }
+  };
+
+  const revoke = async (link: ShareLink) => {
+    if (!window.confirm(`Turn off the link for "${link.title}"? Anyone who has it will no longer see the scripts.`)) return;
+    try {
+      const updated = await api.revokeShare(link.token);
+      setLinks(prev => prev.map(l => l.token === updated.token ? updated : l));
+      setCreated(current => current?.token === updated.token ? null : current);
+    } catch (err) {
+      console.error("Revoke error:", err);
+      setError(api.errorMessage(err, "Failed to revoke the link."));
+    }
+  };
+
+  return (
+    <motion.div
+      initial={{ opacity: 0, y: -8 }}
+      animate={{ opacity: 1, y: 0 }}
+      exit={{ opacity: 0, y: -8 }}
+      className="bg-white p-8 rounded-[2.5rem] border border-gray-100 shadow-sm space-y-6"
+    >
+      <div className="flex items-center justify-between">
+        <span className="text-[10px] font-black uppercase tracking-[0.2em] text-indigo-500 flex items-center gap-1.5">
+          <Link2 className="w-3.5 h-3.5" /> Share read-only link
+        </span>
+        <button
+          onClick={onClose}
+          className="p-1.5 rounded-lg text-gray-300 hover:text-gray-600 hover:bg-gray-50 transition-all"
+          title="Close"
+        >
+          <X className="w-4 h-4" />
+        </button>
+      </div>
+
+      {!user && (
+        <p className="text-xs font-bold text-gray-400">Sign in at the top of the page to create and manage share links.</p>
+      )}
+
+      <form onSubmit={create} className="grid grid-cols-[1fr_160px] gap-4 items-end">
+        <div className="space-y-2">
+          <label className={labelClass}>Title</label>
+          <input
+            type="text"
+            className={inputClass}
+            placeholder={input.productName}
+            value={title}
+            onChange={(e) => setTitle(e.target.value)}
+            maxLength={MAX_SHARE_TITLE}
+          />
+        </div>
+        <div className="space-y-2">
+          <label className={labelClass}>Expires</label>
+          <select
+            className={`${inputClass} appearance-none cursor-pointer`}
+            value={expiresInDays}
+            onChange={(e) => setExpiresInDays(Number(e.target.value))}
+          >
+            <option value={0}>Never</option>
+            {SHARE_EXPIRY_OPTIONS.map(days => (
+              <option key={days} value={days}>In {days} {days === 1 ? 'day' : 'days'}</option>
+            ))}
+          </select>
+        </div>
+        <button
+          type="submit"
+          disabled={!user || creating || variations.length === 0}
+          className="col-span-2 py-4 bg-indigo-600 hover:bg-indigo-700 disabled:bg-gray-200 text-white font-bold rounded-2xl transition-all flex items-center justify-center gap-2 text-sm"
+        >
+          {creating ? <Loader2 className="w-4 h-4 animate-spin" /> : <Link2 className="w-4 h-4" />}
+          Create link for {variations.length} {variations.length === 1 ? 'script' : 'scripts'}
+        </button>
+      </form>
+
+      {created && (
+        <div className="p-4 bg-indigo-50/60 rounded-2xl flex items-center gap-3">
+          <input
+            type="text"
+            readOnly
+            value={shareUrl(created.token)}
+            onFocus={(e) => e.target.select()}
+            className="flex-1 min-w-0 bg-transparent outline-none text-sm font-bold text-indigo-700"
+          />
+          <button
+            onClick={() => copyLink(created.token)}
+            className={`p-2 rounded-xl transition-all ${copiedToken === created.token ? 'text-green-600 bg-green-50' : 'text-indigo-400 hover:text-indigo-600 hover:bg-white'}`}
+            title="Copy link"
+          >
+            {copiedToken === created.token ? <CheckCircle className="w-4 h-4" /> : <Copy className="w-4 h-4" />}
+          </button>
+          <a
+            href={shareUrl(created.token)}
+            target="_blank"
+            rel="noreferrer"
+            className="p-2 rounded-xl text-indigo-400 hover:text-indigo-600 hover:bg-white transition-all"
+            title="Open link"
+          >
+            <ExternalLink className="w-4 h-4" />
+          </a>
+        </div>
+      )}
+
+      {error && (
+        <p className="text-xs font-bold text-red-600">{error}</p>
+      )}
+
+      {links.length > 0 && (
+        <div className="space-y-2">
+          <span className={labelClass}>Your links</span>
+          <div className="divide-y divide-gray-50">
+            {links.map(link => {
+              const status = linkStatus(link);
+              const active = !link.revokedAt && !isExpired(link.expiresAt);
+              return (
+                <div key={link.token} className="py-3 flex items-center justify-between gap-4">
+                  <div className="min-w-0">
+                    <p className="text-sm font-bold text-gray-900 truncate">{link.title}</p>
+                    <p className="text-[10px] font-black uppercase tracking-widest text-gray-300 mt-0.5">
+                      {formatDate(link.createdAt)} · {link.variationCount} scripts · <span className={status.className}>{status.label}</span>
+                    </p>
+                  </div>
+                  {active && (
+                    <div className="flex items-center gap-1">
+                      <button
+                        onClick={() => copyLink(link.token)}
+                        className={`p-2 rounded-xl transition-all ${copiedToken === link.token ? 'text-green-600 bg-green-50' : 'text-gray-300 hover:text-indigo-600 hover:bg-indigo-50'}`}
+                        title="Copy link"
+                      >
+                        {copiedToken === link.token ? <CheckCircle className="w-4 h-4" /> : <Copy className="w-4 h-4" />}
+                      </button>
+                      <button
+                        onClick={() => revoke(link)}
+                        className="p-2 rounded-xl text-gray-300 hover:text-red-600 hover:bg-red-50 transition-all"
+                        title="Revoke link"
+                      >
+                        <Ban className="w-4 h-4" />
+                      </button>
+                    </div>
+                  )}
+                </div>
+              );
+            })}
+          </div>
+        </div>
+      )}
+    </motion.div>
+  );
+}
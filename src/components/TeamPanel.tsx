@@ -0,0 +1,158 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import React, { useEffect, useState } from 'react';
+import { Loader2, Plus, Users } from "lucide-react";
+import * as api from '../api';
+import { MAX_PASSWORD_LENGTH, MAX_USER_NAME, MIN_PASSWORD_LENGTH, ROLE_LABELS, USER_ROLES } from '../lib/approval';
+import type { UserRole } from '../lib/approval';
+import type { User } from '../types';
+
+interface TeamPanelProps {
+  // The signed-in admin.
+  user: User;
+  // Called when admins change their own role.
+  onUserChange: (user: User) => void;
+}
+
+const inputClass = "w-full px-5 py-4 rounded-2xl bg-gray-50 border-transparent focus:bg-white focus:ring-4 focus:ring-indigo-500/5 transition-all outline-none font-medium text-sm shadow-sm";
+const labelClass = "text-[10px] font-black uppercase tracking-[0.2em] text-gray-400";
+
+export default function TeamPanel({ user, onUserChange }: TeamPanelProps) {
+  const [users, setUsers] = useState<User[] | null>(null);
+  const [name, setName] = useState('');
+  const [password, setPassword] = useState('');
+  const [role, setRole] = useState<UserRole>('member');
+  const [busy, setBusy] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    api.listUsers()
+      .then(setUsers)
+      .catch(err => {
+        console.error("Users load error:", err);
+        setError(api.errorMessage(err, "Failed to load the accounts."));
+      });
+  }, []);
+
+  const add = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (busy) return;
+    setBusy(true);
+    setError(null);
+    try {
+      const added = await api.addUser(name, password, role);
+      setUsers(prev => [...(prev ?? []), added].sort((a, b) => a.name.localeCompare(b.name)));
+      setName('');
+      setPassword('');
+      setRole('member');
+    } catch (err) {
+      console.error("Add user error:", err);
+      setError(api.errorMessage(err, "Failed to add the account."));
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const changeRole = async (member: User, next: UserRole) => {
+    setError(null);
+    try {
+      const updated = await api.setRole(member.id, next);
+      setUsers(prev => prev && prev.map(u => u.id === updated.id ? updated : u));
+      if (updated.id === user.id) onUserChange(updated);
+    } catch (err) {
+      console.error("Role change error:", err);
+      setError(api.errorMessage(err, "Failed to change the role."));
+    }
+  };
+
+  return (
+    <div className="bg-white p-10 rounded-[2.5rem] border border-gray-100 shadow-sm space-y-6">
+      <span className="text-[10px] font-black uppercase tracking-[0.2em] text-indigo-500 flex items-center gap-2">
+        <Users className="w-3.5 h-3.5" /> Team
+      </span>
+      <p className="text-xs font-bold text-gray-400">
+        Reviewers can approve scripts or request changes. Admins can also add people and change the app's settings.
+      </p>
+
+      {users === null ? (
+        !error && <Loader2 className="w-5 h-5 text-gray-300 animate-spin" />
+      ) : (
+        <div className="space-y-2">
+          {users.map(member => (
+            <div key={member.id} className="flex items-center justify-between gap-4 p-4 bg-gray-50 rounded-2xl">
+              <span className="text-sm font-bold text-gray-700">
+                {member.name}
+                {member.id === user.id && <span className="font-medium text-gray-400"> · you</span>}
+              </span>
+              <select
+                className="px-3 py-2 rounded-xl bg-white text-xs font-bold text-gray-600 outline-none"
+                value={member.role}
+                onChange={(e) => changeRole(member, e.target.value as UserRole)}
+              >
+                {USER_ROLES.map(option => (
+                  <option key={option} value={option}>{ROLE_LABELS[option]}</option>
+                ))}
+              </select>
+            </div>
+          ))}
+        </div>
+      )}
+
+      <form onSubmit={add} className="space-y-4">
+        <div className="grid grid-cols-2 gap-4">
+          <div className="space-y-2">
+            <label className={labelClass}>Name</label>
+            <input
+              className={inputClass}
+              value={name}
+              maxLength={MAX_USER_NAME}
+              autoComplete="off"
+              onChange={(e) => setName(e.target.value)}
+            />
+          </div>
+          <div className="space-y-2">
+            <label className={labelClass}>Password</label>
+            <input
+              type="password"
+              className={inputClass}
+              value={password}
+              minLength={MIN_PASSWORD_LENGTH}
+              maxLength={MAX_PASSWORD_LENGTH}
+              autoComplete="new-password"
+              onChange={(e) => setPassword(e.target.value)}
+            />
+          </div>
+        </div>
+        <div className="space-y-2">
+          <label className={labelClass}>Role</label>
+          <div className="flex gap-2">
+            {USER_ROLES.map(option => (
+              <button
+                key={option}
+                type="button"
+                onClick={() => setRole(option)}
+                className={`px-4 py-2 rounded-xl text-xs font-bold transition-all ${role === option ? 'bg-black text-white' : 'bg-gray-50 text-gray-500 hover:bg-indigo-50 hover:text-indigo-600'}`}
+              >
+                {ROLE_LABELS[option]}
+              </button>
+            ))}
+          </div>
+        </div>
+        {error && (
+          <p className="text-xs font-bold text-red-600">{error}</p>
+        )}
+        <button
+          type="submit"
+          disabled={busy || !name.trim() || password.length < MIN_PASSWORD_LENGTH}
+          className="w-full py-4 bg-indigo-600 hover:bg-indigo-700 disabled:bg-gray-200 text-white font-bold rounded-2xl transition-all flex items-center justify-center gap-2 text-sm"
+        >
+          {busy ? <Loader2 className="w-4 h-4 animate-spin" /> : <Plus className="w-4 h-4" />}
+          Add account
+        </button>
+      </form>
+    </div>
+  );
+}
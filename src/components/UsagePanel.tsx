@@ -0,0 +1,285 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import React, { useEffect, useRef, useState } from 'react';
+import { BarChart3, CheckCircle, Loader2, RefreshCw } from "lucide-react";
+import * as api from '../api';
+import { formatCost, formatTokens, MAX_DAILY_TOKENS, TASK_LABELS, USAGE_HISTORY_DAYS } from '../lib/usage';
+import type { UsageQuotas, UsageReport, UsageTotals, User } from '../types';
+
+interface UsagePanelProps {
+  user: User | null;
+}
+
+const inputClass = "w-full px-5 py-4 rounded-2xl bg-gray-50 border-transparent focus:bg-white focus:ring-4 focus:ring-indigo-500/5 transition-all outline-none font-medium text-sm shadow-sm";
+const labelClass = "text-[10px] font-black uppercase tracking-[0.2em] text-gray-400";
+
+const tokensOf = (totals: UsageTotals) => totals.inputTokens + totals.outputTokens;
+
+const formatTime = (iso: string) =>
+  new Date(iso).toLocaleString(undefined, { month: 'short', day: 'numeric', hour: 'numeric', minute: '2-digit' });
+
+// Quotas are edited as text so a blank field can mean "no limit".
+const toDraft = (quotas: UsageQuotas) => ({
+  user: quotas.userDailyTokens ? String(quotas.userDailyTokens) : '',
+  global: quotas.globalDailyTokens ? String(quotas.globalDailyTokens) : '',
+});
+
+const fromDraft = (value: string) => {
+  const tokens = Math.round(Number(value.replace(/[,\s]/g, '')));
+  return tokens > 0 ? tokens : undefined;
+};
+
+export default function UsagePanel({ user }: UsagePanelProps) {
+  const [report, setReport] = useState<UsageReport | null>(null);
+  const [loading, setLoading] = useState(false);
+  const [draft, setDraft] = useState({ user: '', global: '' });
+  const [saving, setSaving] = useState(false);
+  const [saved, setSaved] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const request = useRef<AbortController | null>(null);
+
+  const load = async () => {
+    request.current?.abort();
+    const controller = new AbortController();
+    request.current = controller;
+    setLoading(true);
+    try {
+      const loaded = await api.getUsage(controller.signal);
+      if (controller.signal.aborted) return;
+      setReport(loaded);
+      setDraft(toDraft(loaded.quotas));
+      setError(null);
+    } catch (err) {
+      if (controller.signal.aborted) return;
+      console.error("Usage load error:", err);
+      setError(api.errorMessage(err, "Failed to load usage."));
+    } finally {
+      if (request.current === controller) {
+        request.current = null;
+        setLoading(false);
+      }
+    }
+  };
+
+  useEffect(() => {
+    if (!user) {
+      setReport(null);
+      return;
+    }
+    load();
+    return () => request.current?.abort();
+  }, [user?.id, user?.role]);
+
+  const saveQuotas = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (saving) return;
+    setSaving(true);
+    setError(null);
+    try {
+      const quotas = await api.updateUsageQuotas({ userDailyTokens: fromDraft(draft.user), globalDailyTokens: fromDraft(draft.global) });
+      setReport(prev => prev && { ...prev, quotas });
+      setDraft(toDraft(quotas));
+      setSaved(true);
+    } catch (err) {
+      console.error("Quota save error:", err);
+      setError(api.errorMessage(err, "Failed to save the limits."));
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  if (!user) {
+    return (
+      <div className="flex flex-col items-center justify-center h-[400px] bg-gray-50/30 rounded-[2.5rem] border border-dashed border-gray-200 text-center px-10">
+        <BarChart3 className="w-8 h-8 text-gray-200 mb-4" />
+        <p className="text-gray-400 text-sm font-bold">Sign in to see usage.</p>
+        <p className="text-gray-300 text-xs mt-2">Admins also see each user's usage and the most recent calls.</p>
+      </div>
+    );
+  }
+
+  if (!report) {
+    return (
+      <div className="flex flex-col items-center justify-center h-[400px] bg-gray-50/30 rounded-[2.5rem] border border-dashed border-gray-200 text-center px-10">
+        {error ? <p className="text-xs font-bold text-red-600">{error}</p> : <Loader2 className="w-6 h-6 text-gray-300 animate-spin" />}
+      </div>
+    );
+  }
+
+  const isAdmin = user?.role === 'admin';
+  const busiestDay = Math.max(1, ...report.days.map(tokensOf));
+
+  return (
+    <div className="space-y-6">
+      <div className="flex items-center justify-between gap-4">
+        <p className="text-xs font-bold text-gray-400">
+          Counted as <span className="text-gray-600">{report.user}</span>. Days are UTC.
+        </p>
+        <button
+          onClick={load}
+          disabled={loading}
+          className="flex items-center gap-2 px-4 py-2 rounded-xl text-xs font-bold bg-gray-50 text-gray-500 hover:bg-indigo-50 hover:text-indigo-600 disabled:opacity-50 transition-all"
+        >
+          <RefreshCw className={`w-4 h-4 ${loading ? 'animate-spin' : ''}`} />
+          Refresh
+        </button>
+      </div>
+
+      {error && (
+        <p className="text-xs font-bold text-red-600">{error}</p>
+      )}
+
+      <div className="grid grid-cols-2 gap-4">
+        {([
+          ['You today', report.today.user, report.quotas.userDailyTokens],
+          ['Everyone today', report.today.global, report.quotas.globalDailyTokens],
+        ] as const).map(([label, totals, limit]) => {
+          const share = limit ? Math.min(1, tokensOf(totals) / limit) : 0;
+          return (
+            <div key={label} className="bg-white p-6 rounded-[2rem] border border-gray-100 shadow-sm space-y-3">
+              <span className={labelClass}>{label}</span>
+              <p className="text-2xl font-black tracking-tight text-gray-900">
+                {formatTokens(tokensOf(totals))}
+                <span className="ml-1.5 text-xs font-bold text-gray-300">{limit ? `of ${formatTokens(limit)} tokens` : 'tokens'}</span>
+              </p>
+              {limit && (
+                <div className="h-1.5 rounded-full bg-gray-100 overflow-hidden">
+                  <div className={`h-full rounded-full ${share >= 1 ? 'bg-red-500' : share >= 0.8 ? 'bg-amber-500' : 'bg-indigo-600'}`} style={{ width: `${share * 100}%` }} />
+                </div>
+              )}
+              <p className="text-[10px] font-black uppercase tracking-widest text-gray-300">
+                {totals.calls} calls{totals.failed > 0 && ` · ${totals.failed} failed`} · {formatCost(totals.cost)}
+              </p>
+            </div>
+          );
+        })}
+      </div>
+
+      <form onSubmit={saveQuotas} className="bg-white p-6 rounded-[2rem] border border-gray-100 shadow-sm space-y-4">
+        <span className={labelClass}>Daily token limits</span>
+        <div className="grid grid-cols-[1fr_1fr_auto] gap-4 items-end">
+          <div className="space-y-2">
+            <label className={labelClass}>Per user</label>
+            <input
+              type="number"
+              disabled={!isAdmin}
+              min={1}
+              max={MAX_DAILY_TOKENS}
+              className={inputClass}
+              placeholder="No limit"
+              value={draft.user}
+              onChange={(e) => { setDraft({ ...draft, user: e.target.value }); setSaved(false); }}
+            />
+          </div>
+          <div className="space-y-2">
+            <label className={labelClass}>Everyone</label>
+            <input
+              type="number"
+              disabled={!isAdmin}
+              min={1}
+              max={MAX_DAILY_TOKENS}
+              className={inputClass}
+              placeholder="No limit"
+              value={draft.global}
+              onChange={(e) => { setDraft({ ...draft, global: e.target.value }); setSaved(false); }}
+            />
+          </div>
+          <button
+            type="submit"
+            disabled={!isAdmin || saving}
+            className="px-6 py-4 bg-black hover:bg-gray-900 disabled:bg-gray-200 text-white font-bold rounded-2xl transition-all flex items-center justify-center gap-2 text-sm"
+          >
+            {saving ? <Loader2 className="w-4 h-4 animate-spin" /> : saved ? <CheckCircle className="w-4 h-4" /> : null}
+            {saved ? 'Saved' : 'Save'}
+          </button>
+        </div>
+        <p className="text-[10px] font-bold text-gray-300">
+          Once a limit is reached, AI requests are refused until midnight UTC. Leave a field empty for no limit.
+          {!isAdmin && ' Only an admin can change the limits.'}
+        </p>
+      </form>
+
+      {report.days.length === 0 ? (
+        <div className="flex flex-col items-center justify-center h-[240px] bg-gray-50/30 rounded-[2.5rem] border border-dashed border-gray-200 text-center px-10">
+          <BarChart3 className="w-8 h-8 text-gray-200 mb-4" />
+          <p className="text-gray-400 text-sm font-bold">No AI calls in the last {USAGE_HISTORY_DAYS} days.</p>
+          <p className="text-gray-300 text-xs mt-2">Every analysis, generation and rewrite is logged here with its tokens and estimated cost.</p>
+        </div>
+      ) : (
+        <>
+          <div className="bg-white p-6 rounded-[2rem] border border-gray-100 shadow-sm space-y-3">
+            <span className={labelClass}>Daily totals · last {USAGE_HISTORY_DAYS} days</span>
+            {report.days.map(day => (
+              <div key={day.day} className="grid grid-cols-[90px_1fr_80px_70px] gap-4 items-center text-xs">
+                <span className="font-bold text-gray-500">{day.day}</span>
+                <div className="h-2 rounded-full bg-gray-50 overflow-hidden">
+                  <div className="h-full rounded-full bg-indigo-600" style={{ width: `${tokensOf(day) / busiestDay * 100}%` }} />
+                </div>
+                <span className="text-right font-bold text-gray-700" title={`${day.inputTokens.toLocaleString()} in, ${day.outputTokens.toLocaleString()} out`}>
+                  {formatTokens(tokensOf(day))}
+                </span>
+                <span className="text-right font-black text-gray-900">{formatCost(day.cost)}</span>
+              </div>
+            ))}
+          </div>
+
+          <div className={`grid ${report.users ? 'grid-cols-2' : 'grid-cols-1'} gap-4`}>
+            <div className="bg-white p-6 rounded-[2rem] border border-gray-100 shadow-sm space-y-3">
+              <span className={labelClass}>Cost per product</span>
+              {report.products.map(product => (
+                <div key={product.product} className="flex items-center justify-between gap-3 text-xs">
+                  <span className={`truncate font-bold ${product.product ? 'text-gray-700' : 'text-gray-300'}`}>{product.product || 'Analysis and other'}</span>
+                  <span className="shrink-0 text-gray-400">{product.calls} calls · {formatTokens(tokensOf(product))}</span>
+                  <span className="shrink-0 w-14 text-right font-black text-gray-900">{formatCost(product.cost)}</span>
+                </div>
+              ))}
+            </div>
+            {report.users && (
+              <div className="bg-white p-6 rounded-[2rem] border border-gray-100 shadow-sm space-y-3">
+                <span className={labelClass}>Users today</span>
+                {report.users.length === 0 ? (
+                  <p className="text-xs font-bold text-gray-300">No calls yet today.</p>
+                ) : report.users.map(user => (
+                  <div key={user.user} className="flex items-center justify-between gap-3 text-xs">
+                    <span className="truncate font-bold text-gray-700">{user.user}</span>
+                    <span className="shrink-0 text-gray-400">{user.calls} calls · {formatTokens(tokensOf(user))}</span>
+                    <span className="shrink-0 w-14 text-right font-black text-gray-900">{formatCost(user.cost)}</span>
+                  </div>
+                ))}
+              </div>
+            )}
+          </div>
+
+          {report.recent && (
+            <div className="bg-white p-6 rounded-[2rem] border border-gray-100 shadow-sm space-y-3">
+              <span className={labelClass}>Recent calls</span>
+              {report.recent.map(call => (
+                <div key={call.id} className="grid grid-cols-[110px_1fr_110px_90px_60px] gap-3 items-center text-xs">
+                  <span className="text-gray-400">{formatTime(call.createdAt)}</span>
+                  <span className="truncate">
+                    <span className="font-bold text-gray-700">{TASK_LABELS[call.task] ?? call.task}</span>
+                    {call.product && <span className="text-gray-400"> · {call.product}</span>}
+                    <span className="text-gray-300"> · {call.model}</span>
+                  </span>
+                  <span className="text-right text-gray-500" title={call.estimated ? 'Estimated from the text; the provider reported no usage.' : undefined}>
+                    {call.estimated && '~'}{formatTokens(call.inputTokens)} in · {formatTokens(call.outputTokens)} out
+                  </span>
+                  <span className="text-right text-gray-400">{(call.latencyMs / 1000).toFixed(1)}s</span>
+                  <span className={`text-right text-[10px] font-black uppercase tracking-widest ${call.errorCode ? 'text-red-500' : 'text-green-600'}`} title={call.errorCode}>
+                    {call.errorCode ? 'Failed' : 'OK'}
+                  </span>
+                </div>
+              ))}
+            </div>
+          )}
+          <p className="text-[10px] font-bold text-gray-300">
+            Costs are estimates from list prices. Models without a known price, such as local ones, count as free.
+          </p>
+        </>
+      )}
+    </div>
+  );
+}
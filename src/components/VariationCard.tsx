@@ -0,0 +1,537 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import React, { useState } from 'react';
+import { motion, AnimatePresence } from "motion/react";
+import { CheckCircle, Copy, Star, Download, Clapperboard, AlignLeft, RefreshCw, Loader2, Undo2, Wand2, ShieldCheck, ShieldAlert, Languages, X, Timer, Scissors, Gauge, Sparkles } from "lucide-react";
+import { ANGLES } from '../lib/angles';
+import { buildCues, toSrt, toTeleprompter, toWebVtt } from '../lib/captions';
+import { highlightSegments } from '../lib/compliance';
+import type { ComplianceReport } from '../lib/compliance';
+import { DEFAULT_LANGUAGE, LANGUAGE_IDS, LANGUAGES } from '../lib/languages';
+import type { LanguageId } from '../lib/languages';
+import { downloadFile, slugify } from '../lib/download';
+import { isOverLength } from '../lib/pacing';
+import type { Timeline } from '../lib/pacing';
+import { remixSummary } from '../lib/remix';
+import { MAX_SCORE, SCORE_CRITERIA_INFO } from '../lib/scoring';
+import type { ScriptScore } from '../lib/scoring';
+import { SECTION_LABELS } from '../types';
+import type { LocalizedVariation, SavedVariation, ScriptSection, ScriptVariation } from '../types';
+
+interface VariationCardProps {
+  variation: ScriptVariation;
+  index: number;
+  productName: string;
+  duration: string;
+  // Language the variation was written in.
+  language?: LanguageId;
+  copied: boolean;
+  onCopy: () => void;
+  saved?: SavedVariation;
+  onToggleStar?: (saved: SavedVariation) => void;
+  onRegenerateSection?: (section: ScriptSection) => Promise<void>;
+  // Resolves to false when the rewrite failed, so the instruction is kept.
+  onRefine?: (instruction: string) => Promise<boolean>;
+  undoCount?: number;
+  onUndo?: () => void;
+  // Present when the run was generated under a brand profile.
+  compliance?: ComplianceReport;
+  onFixCompliance?: () => Promise<void>;
+  // Estimated spoken length against the chosen duration.
+  timeline?: Timeline;
+  onTrim?: () => Promise<void>;
+  score?: ScriptScore;
+  // When set, shown next to the original.
+  localized?: LocalizedVariation;
+  onLocalize?: (language: LanguageId) => Promise<void>;
+  onCloseLocalized?: () => void;
+  // While the generation is still streaming, fields may be partial and all
+  // actions are hidden.
+  streaming?: boolean;
+}
+
+type CardAction = ScriptSection | 'refine' | 'fix' | 'localize' | 'trim';
+
+const TIMELINE_COLORS: Record<ScriptSection, string> = {
+  hook: 'bg-indigo-600',
+  problem: 'bg-indigo-400',
+  solution: 'bg-indigo-300',
+  cta: 'bg-indigo-200',
+};
+
+const placeholder = <span className="block h-4 w-2/3 my-1.5 bg-gray-100 rounded-full animate-pulse" />;
+
+const formatSeconds = (seconds: number) => `${Number(seconds.toFixed(1))}s`;
+
+const scoreColor = (score: number) =>
+  score >= 7.5 ? { text: 'text-green-600', bg: 'bg-green-50', bar: 'bg-green-500' }
+    : score >= 5 ? { text: 'text-amber-600', bg: 'bg-amber-50', bar: 'bg-amber-400' }
+    : { text: 'text-red-600', bg: 'bg-red-50', bar: 'bg-red-400' };
+
+const EXPORT_FORMATS = [
+  { ext: 'srt', label: 'SRT captions', mime: 'application/x-subrip', render: toSrt },
+  { ext: 'vtt', label: 'WebVTT captions', mime: 'text/vtt', render: toWebVtt },
+  { ext: 'txt', label: 'Teleprompter text', mime: 'text/plain', render: toTeleprompter },
+] as const;
+
+export default function VariationCard({
+  variation: v,
+  index: idx,
+  productName,
+  duration,
+  language = DEFAULT_LANGUAGE,
+  copied,
+  onCopy,
+  saved,
+  onToggleStar,
+  onRegenerateSection,
+  onRefine,
+  undoCount = 0,
+  onUndo,
+  compliance,
+  onFixCompliance,
+  timeline,
+  onTrim,
+  score,
+  localized,
+  onLocalize,
+  onCloseLocalized,
+  streaming = false,
+}: VariationCardProps) {
+  const [exportOpen, setExportOpen] = useState(false);
+  const [localizeOpen, setLocalizeOpen] = useState(false);
+  const [showShots, setShowShots] = useState(false);
+  const [showScore, setShowScore] = useState(false);
+  const [busy, setBusy] = useState<CardAction | null>(null);
+  const [instruction, setInstruction] = useState('');
+  const hasShots = !!v.shots?.length;
+  const violationCount = compliance ? compliance.matches.length + compliance.missingDisclaimers.length : 0;
+  const overLength = !!timeline && isOverLength(timeline);
+  // The bar spans the target or the script, whichever is longer.
+  const timelineScale = timeline ? Math.max(timeline.seconds, timeline.targetSeconds) : 1;
+
+  const runAction = async (action: CardAction, fn: () => Promise<void>) => {
+    setBusy(action);
+    try {
+      await fn();
+    } finally {
+      setBusy(null);
+    }
+  };
+
+  const submitRefine = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!onRefine || !instruction.trim() || busy) return;
+    runAction('refine', async () => {
+      if (await onRefine(instruction.trim())) setInstruction('');
+    });
+  };
+
+  const sectionLabel = (section: ScriptSection, label: string, className = 'text-gray-300') => (
+    <div className="flex items-center justify-between">
+      <span className={`text-[9px] font-black uppercase tracking-widest ${className}`}>{label}</span>
+      {onRegenerateSection && !streaming && (
+        <button
+          onClick={() => runAction(section, () => onRegenerateSection(section))}
+          disabled={!!busy}
+          className={`p-1.5 rounded-lg text-gray-300 hover:text-indigo-600 hover:bg-indigo-50 disabled:hover:bg-transparent disabled:hover:text-gray-300 transition-all ${busy === section ? 'opacity-100' : 'opacity-0 group-hover:opacity-100'}`}
+          title={`Regenerate ${SECTION_LABELS[section]} only`}
+        >
+          {busy === section ? <Loader2 className="w-3.5 h-3.5 animate-spin" /> : <RefreshCw className="w-3.5 h-3.5" />}
+        </button>
+      )}
+    </div>
+  );
+
+  // Section text with brand rule violations marked inline.
+  const sectionText = (section: ScriptSection) => {
+    const text = v[section];
+    if (!text) return placeholder;
+    const matches = streaming ? [] : compliance?.matches.filter(m => m.section === section) ?? [];
+    if (matches.length === 0) return text;
+    return highlightSegments(text, matches).map((segment, i) => segment.match ? (
+      <mark
+        key={i}
+        className="bg-red-100 text-red-700 rounded px-0.5"
+        title={`${segment.match.kind === 'claim' ? 'Prohibited claim' : 'Banned word'}: ${segment.match.rule}`}
+      >
+        {segment.text}
+      </mark>
+    ) : segment.text);
+  };
+
+  const exportAs = (format: typeof EXPORT_FORMATS[number], version: ScriptVariation, versionLanguage: LanguageId) => {
+    const cues = buildCues(version, Number(duration), LANGUAGES[versionLanguage]);
+    const suffix = versionLanguage === language ? '' : `-${versionLanguage}`;
+    downloadFile(`${slugify(productName)}-v${idx + 1}${suffix}.${format.ext}`, format.render(cues), format.mime);
+    setExportOpen(false);
+  };
+
+  const localizeTo = (target: LanguageId) => {
+    setLocalizeOpen(false);
+    if (onLocalize) runAction('localize', () => onLocalize(target));
+  };
+
+  const exportGroup = (version: ScriptVariation, versionLanguage: LanguageId) =>
+    EXPORT_FORMATS.map(format => (
+      <button
+        key={`${versionLanguage}-${format.ext}`}
+        onClick={() => exportAs(format, version, versionLanguage)}
+        className="w-full text-left px-4 py-2.5 rounded-xl text-xs font-bold text-gray-600 hover:bg-indigo-50 hover:text-indigo-600 transition-colors flex items-center justify-between"
+      >
+        {format.label}
+        <span className="text-[9px] font-black uppercase tracking-widest text-gray-300">.{format.ext}</span>
+      </button>
+    ));
+
+  const script = (
+    <div className="space-y-6">
+      <div className="space-y-2">
+        {sectionLabel('hook', 'The Hook')}
+        <p className="text-lg font-bold leading-snug text-gray-900 italic">{v.hook ? <>"{sectionText('hook')}"</> : placeholder}</p>
+      </div>
+      <div className="space-y-2">
+        {sectionLabel('problem', 'The Problem')}
+        <p className="text-base font-medium leading-relaxed text-gray-600">{sectionText('problem')}</p>
+      </div>
+      <div className="space-y-2">
+        {sectionLabel('solution', 'The Solution')}
+        <p className="text-base font-medium leading-relaxed text-gray-600">{sectionText('solution')}</p>
+      </div>
+      <div className="pt-4 border-t border-gray-50">
+        {sectionLabel('cta', 'Call to Action', 'text-indigo-300')}
+        <p className="text-lg font-black text-indigo-600 mt-1">{sectionText('cta')}</p>
+      </div>
+    </div>
+  );
+
+  return (
+    <motion.div
+      initial={{ opacity: 0, y: 30 }}
+      animate={{ opacity: 1, y: 0 }}
+      transition={{ delay: idx * 0.15, type: "spring", stiffness: 100 }}
+      className="bg-white p-10 rounded-[2.5rem] border border-gray-100 shadow-sm hover:shadow-xl hover:shadow-indigo-500/5 transition-all group relative print:shadow-none print:break-inside-avoid print:p-6 print:rounded-2xl"
+    >
+      <div className="flex items-center justify-between mb-8">
+        <div className="flex items-center gap-3">
+          <span className="w-8 h-8 bg-gray-50 rounded-lg flex items-center justify-center text-xs font-black text-gray-400">{String(idx + 1).padStart(2, '0')}</span>
+          <span
+            className="text-[10px] font-black uppercase tracking-[0.2em] text-indigo-500"
+            title={v.remix && remixSummary(v.remix)}
+          >
+            {[v.remix && 'Remix', v.persona?.name, v.angle && ANGLES[v.angle].label].filter(Boolean).join(' · ') || 'UGC Variation'}
+          </span>
+          {score && !streaming && (
+            <button
+              onClick={() => setShowScore(!showScore)}
+              className={`px-2.5 py-1 rounded-lg text-[10px] font-black uppercase tracking-widest flex items-center gap-1.5 transition-all ${scoreColor(score.overall).text} ${scoreColor(score.overall).bg}`}
+              title={showScore ? 'Hide score breakdown' : 'Show score breakdown'}
+            >
+              <Gauge className="w-3.5 h-3.5" />
+              {score.overall.toFixed(1)}
+              {score.graded && <Sparkles className="w-3 h-3" />}
+            </button>
+          )}
+        </div>
+        {!streaming && (
+          <div className="flex items-center gap-1 print:hidden">
+            {onUndo && undoCount > 0 && (
+              <button
+                onClick={onUndo}
+                disabled={!!busy}
+                className="p-3 rounded-xl text-gray-300 hover:text-indigo-600 hover:bg-indigo-50 transition-all flex items-center gap-1"
+                title="Undo last revision"
+              >
+                <Undo2 className="w-5 h-5" />
+                <span className="text-[10px] font-black">{undoCount}</span>
+              </button>
+            )}
+            {hasShots && (
+              <button
+                onClick={() => setShowShots(!showShots)}
+                className={`p-3 rounded-xl transition-all ${showShots ? 'text-indigo-600 bg-indigo-50' : 'text-gray-300 hover:text-indigo-600 hover:bg-indigo-50'}`}
+                title={showShots ? 'Show script' : 'Show shot list'}
+              >
+                {showShots ? <AlignLeft className="w-5 h-5" /> : <Clapperboard className="w-5 h-5" />}
+              </button>
+            )}
+            {saved && onToggleStar && (
+              <button
+                onClick={() => onToggleStar(saved)}
+                className={`p-3 rounded-xl transition-all ${saved.starred ? 'text-amber-400 bg-amber-50' : 'text-gray-300 hover:text-amber-400 hover:bg-amber-50'}`}
+                title={saved.starred ? 'Unstar' : 'Star'}
+              >
+                <Star className={`w-5 h-5 ${saved.starred ? 'fill-amber-400' : ''}`} />
+              </button>
+            )}
+            {onLocalize && (
+              <div className="relative">
+                <button
+                  onClick={() => setLocalizeOpen(!localizeOpen)}
+                  disabled={!!busy}
+                  className={`p-3 rounded-xl transition-all ${localizeOpen || localized ? 'text-indigo-600 bg-indigo-50' : 'text-gray-300 hover:text-indigo-600 hover:bg-indigo-50'}`}
+                  title="Translate"
+                >
+                  {busy === 'localize' ? <Loader2 className="w-5 h-5 animate-spin" /> : <Languages className="w-5 h-5" />}
+                </button>
+                <AnimatePresence>
+                  {localizeOpen && (
+                    <motion.div
+                      initial={{ opacity: 0, y: -4 }}
+                      animate={{ opacity: 1, y: 0 }}
+                      exit={{ opacity: 0, y: -4 }}
+                      className="absolute right-0 top-full mt-2 w-48 bg-white rounded-2xl border border-gray-100 shadow-xl shadow-black/5 p-1.5 z-20"
+                    >
+                      {LANGUAGE_IDS.filter(id => id !== language).map(id => (
+                        <button
+                          key={id}
+                          onClick={() => localizeTo(id)}
+                          className="w-full text-left px-4 py-2.5 rounded-xl text-xs font-bold text-gray-600 hover:bg-indigo-50 hover:text-indigo-600 transition-colors flex items-center justify-between"
+                        >
+                          {LANGUAGES[id].nativeLabel}
+                          <span className="text-[9px] font-black uppercase tracking-widest text-gray-300">{id}</span>
+                        </button>
+                      ))}
+                    </motion.div>
+                  )}
+                </AnimatePresence>
+              </div>
+            )}
+            <div className="relative">
+              <button
+                onClick={() => setExportOpen(!exportOpen)}
+                className={`p-3 rounded-xl transition-all ${exportOpen ? 'text-indigo-600 bg-indigo-50' : 'text-gray-300 hover:text-indigo-600 hover:bg-indigo-50'}`}
+                title="Export"
+              >
+                <Download className="w-5 h-5" />
+              </button>
+              <AnimatePresence>
+                {exportOpen && (
+                  <motion.div
+                    initial={{ opacity: 0, y: -4 }}
+                    animate={{ opacity: 1, y: 0 }}
+                    exit={{ opacity: 0, y: -4 }}
+                    className="absolute right-0 top-full mt-2 w-48 bg-white rounded-2xl border border-gray-100 shadow-xl shadow-black/5 p-1.5 z-20"
+                  >
+                    {localized ? (
+                      <>
+                        <p className="px-4 pt-2 pb-1 text-[9px] font-black uppercase tracking-widest text-gray-300">{LANGUAGES[language].nativeLabel}</p>
+                        {exportGroup(v, language)}
+                        <p className="px-4 pt-2 pb-1 text-[9px] font-black uppercase tracking-widest text-gray-300">{LANGUAGES[localized.language].nativeLabel}</p>
+                        {exportGroup(localized.variation, localized.language)}
+                      </>
+                    ) : exportGroup(v, language)}
+                  </motion.div>
+                )}
+              </AnimatePresence>
+            </div>
+            <button
+              onClick={onCopy}
+              className={`p-3 rounded-xl transition-all ${copied ? 'text-green-600 bg-green-50' : 'text-gray-300 hover:text-indigo-600 hover:bg-indigo-50'}`}
+              title="Copy Script"
+            >
+              {copied ? <CheckCircle className="w-5 h-5" /> : <Copy className="w-5 h-5" />}
+            </button>
+          </div>
+        )}
+      </div>
+
+      {showShots && hasShots ? (
+        <div className="overflow-x-auto -mx-2">
+          <table className="w-full text-left text-sm">
+            <thead>
+              <tr className="text-[9px] font-black text-gray-300 uppercase tracking-widest">
+                <th className="px-2 pb-3 font-black">Time</th>
+                <th className="px-2 pb-3 font-black">Shot</th>
+                <th className="px-2 pb-3 font-black">On-screen Text</th>
+                <th className="px-2 pb-3 font-black">Direction</th>
+                <th className="px-2 pb-3 font-black">Line</th>
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-gray-50">
+              {v.shots!.map((shot, i) => (
+                <tr key={i} className="align-top">
+                  <td className="px-2 py-3 text-xs font-bold text-gray-400 whitespace-nowrap">{formatSeconds(shot.start)}–{formatSeconds(shot.end)}</td>
+                  <td className="px-2 py-3">
+                    <span className="inline-block px-2 py-1 bg-indigo-50 text-indigo-600 rounded-lg text-[10px] font-black uppercase tracking-wider whitespace-nowrap">{shot.shotType}</span>
+                  </td>
+                  <td className="px-2 py-3 font-bold text-gray-900">{shot.overlay || '—'}</td>
+                  <td className="px-2 py-3 text-gray-600">{shot.direction}</td>
+                  <td className="px-2 py-3 text-gray-500">
+                    <span className="block text-[9px] font-black text-gray-300 uppercase tracking-widest mb-1">{SECTION_LABELS[shot.section]}</span>
+                    {v[shot.section]}
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      ) : localized && !streaming ? (
+        <div className="grid grid-cols-2 gap-8">
+          <div className="space-y-4 min-w-0">
+            <span className="text-[10px] font-black uppercase tracking-[0.2em] text-gray-400">{LANGUAGES[language].nativeLabel} · Original</span>
+            {script}
+          </div>
+          <div className="space-y-4 min-w-0 pl-8 border-l border-gray-50">
+            <div className="flex items-center justify-between">
+              <span className="text-[10px] font-black uppercase tracking-[0.2em] text-indigo-500">{LANGUAGES[localized.language].nativeLabel}</span>
+              {onCloseLocalized && (
+                <button
+                  onClick={onCloseLocalized}
+                  className="p-1.5 rounded-lg text-gray-300 hover:text-gray-600 hover:bg-gray-50 transition-all"
+                  title="Hide translation"
+                >
+                  <X className="w-3.5 h-3.5" />
+                </button>
+              )}
+            </div>
+            <div className="space-y-6">
+              <div className="space-y-2">
+                <span className="text-[9px] font-black uppercase tracking-widest text-gray-300">The Hook</span>
+                <p className="text-lg font-bold leading-snug text-gray-900 italic">"{localized.variation.hook}"</p>
+              </div>
+              <div className="space-y-2">
+                <span className="text-[9px] font-black uppercase tracking-widest text-gray-300">The Problem</span>
+                <p className="text-base font-medium leading-relaxed text-gray-600">{localized.variation.problem}</p>
+              </div>
+              <div className="space-y-2">
+                <span className="text-[9px] font-black uppercase tracking-widest text-gray-300">The Solution</span>
+                <p className="text-base font-medium leading-relaxed text-gray-600">{localized.variation.solution}</p>
+              </div>
+              <div className="pt-4 border-t border-gray-50">
+                <span className="text-[9px] font-black uppercase tracking-widest text-indigo-300">Call to Action</span>
+                <p className="text-lg font-black text-indigo-600 mt-1">{localized.variation.cta}</p>
+              </div>
+            </div>
+          </div>
+        </div>
+      ) : script}
+
+      {score && showScore && !streaming && (
+        <div className="mt-8 p-5 bg-gray-50/60 rounded-2xl space-y-3">
+          {score.criteria.map(c => (
+            <div key={c.criterion} className="grid grid-cols-[120px_1fr_36px] gap-x-3 gap-y-1 items-center">
+              <span className="text-[9px] font-black uppercase tracking-widest text-gray-400">{SCORE_CRITERIA_INFO[c.criterion].label}</span>
+              <div className="h-1.5 bg-white rounded-full overflow-hidden">
+                <div className={`h-full rounded-full ${scoreColor(c.score).bar}`} style={{ width: `${(c.score / MAX_SCORE) * 100}%` }} />
+              </div>
+              <span className={`text-xs font-black text-right ${scoreColor(c.score).text}`}>{c.score.toFixed(1)}</span>
+              <p className="col-start-2 col-span-2 text-xs text-gray-500" title={c.model ? `Heuristics ${c.heuristic.toFixed(1)} · AI ${c.model.score.toFixed(1)}` : undefined}>
+                {c.note}
+                {c.model && (
+                  <span className="flex items-start gap-1.5 mt-1 text-indigo-500">
+                    <Sparkles className="w-3 h-3 mt-0.5 shrink-0" /> {c.model.note}
+                  </span>
+                )}
+              </p>
+            </div>
+          ))}
+        </div>
+      )}
+
+      {timeline && !streaming && (
+        <div className="mt-8 space-y-2">
+          <div className="flex items-center justify-between gap-4">
+            <span className={`text-[10px] font-black uppercase tracking-widest flex items-center gap-1.5 ${overLength ? 'text-amber-600' : 'text-gray-400'}`}>
+              <Timer className="w-3.5 h-3.5" />
+              ~{formatSeconds(timeline.seconds)} of {timeline.targetSeconds}s
+              {overLength && <> · {formatSeconds(timeline.seconds - timeline.targetSeconds)} over</>}
+            </span>
+            {overLength && onTrim && (
+              <button
+                onClick={() => runAction('trim', onTrim)}
+                disabled={!!busy}
+                className="px-4 py-2 bg-amber-500 hover:bg-amber-600 disabled:bg-gray-200 text-white rounded-xl text-[10px] font-black uppercase tracking-widest transition-all flex items-center gap-2 whitespace-nowrap"
+                title={`Shorten the longest sections to about ${timeline.budget} ${LANGUAGES[language].unit}`}
+              >
+                {busy === 'trim' ? <Loader2 className="w-3.5 h-3.5 animate-spin" /> : <Scissors className="w-3.5 h-3.5" />}
+                Trim to fit
+              </button>
+            )}
+          </div>
+          <div className="relative">
+            <div className="h-2 flex bg-gray-50 rounded-full overflow-hidden">
+              {timeline.sections.map(s => (
+                <div
+                  key={s.section}
+                  className={`h-full ${TIMELINE_COLORS[s.section]}`}
+                  style={{ width: `${(s.seconds / timelineScale) * 100}%` }}
+                  title={`${SECTION_LABELS[s.section]}: ~${formatSeconds(s.seconds)} (${s.units} ${LANGUAGES[language].unit})`}
+                />
+              ))}
+            </div>
+            {overLength && (
+              <div
+                className="absolute -top-1 -bottom-1 w-0.5 bg-amber-500 rounded-full"
+                style={{ left: `${(timeline.targetSeconds / timelineScale) * 100}%` }}
+                title={`Target: ${timeline.targetSeconds}s`}
+              />
+            )}
+          </div>
+          <div className="flex flex-wrap gap-x-4 gap-y-1">
+            {timeline.sections.map(s => (
+              <span key={s.section} className="text-[9px] font-black uppercase tracking-widest text-gray-300 flex items-center gap-1.5">
+                <span className={`w-2 h-2 rounded-full ${TIMELINE_COLORS[s.section]}`} />
+                {SECTION_LABELS[s.section]} {formatSeconds(s.seconds)}
+              </span>
+            ))}
+          </div>
+        </div>
+      )}
+
+      {compliance && !streaming && (violationCount === 0 ? (
+        <p className="mt-8 text-[10px] font-black uppercase tracking-widest text-green-600 flex items-center gap-1.5">
+          <ShieldCheck className="w-3.5 h-3.5" /> Brand compliant
+        </p>
+      ) : (
+        <div className="mt-8 p-4 bg-red-50/50 border border-red-100 rounded-2xl flex items-start justify-between gap-4">
+          <div className="text-xs font-bold text-red-600 space-y-1 min-w-0">
+            <p className="flex items-center gap-2">
+              <ShieldAlert className="w-4 h-4" />
+              {violationCount} brand rule {violationCount === 1 ? 'violation' : 'violations'}
+            </p>
+            {compliance.missingDisclaimers.map(disclaimer => (
+              <p key={disclaimer} className="font-medium">Missing disclaimer: "{disclaimer}"</p>
+            ))}
+          </div>
+          {onFixCompliance && (
+            <button
+              onClick={() => runAction('fix', onFixCompliance)}
+              disabled={!!busy}
+              className="px-4 py-2 bg-red-600 hover:bg-red-700 disabled:bg-gray-200 text-white rounded-xl text-[10px] font-black uppercase tracking-widest transition-all flex items-center gap-2 whitespace-nowrap"
+              title="Rewrite the flagged phrases and add missing disclaimers"
+            >
+              {busy === 'fix' ? <Loader2 className="w-3.5 h-3.5 animate-spin" /> : <Wand2 className="w-3.5 h-3.5" />}
+              Auto-fix
+            </button>
+          )}
+        </div>
+      ))}
+
+      {onRefine && !streaming && (
+        <form onSubmit={submitRefine} className="mt-8 flex gap-2 print:hidden">
+          <input
+            type="text"
+            placeholder='Refine: "make the hook a question", "shorter CTA"...'
+            className="flex-1 px-4 py-3 rounded-xl bg-gray-50 border-transparent focus:bg-white focus:ring-4 focus:ring-indigo-500/5 transition-all outline-none font-medium text-xs"
+            value={instruction}
+            onChange={(e) => setInstruction(e.target.value)}
+            disabled={busy === 'refine'}
+            maxLength={500}
+          />
+          <button
+            type="submit"
+            disabled={!!busy || !instruction.trim()}
+            className="px-4 bg-indigo-600 hover:bg-indigo-700 disabled:bg-gray-200 text-white rounded-xl transition-all flex items-center justify-center"
+            title="Rewrite this variation"
+          >
+            {busy === 'refine' ? <Loader2 className="w-4 h-4 animate-spin" /> : <Wand2 className="w-4 h-4" />}
+          </button>
+        </form>
+      )}
+    </motion.div>
+  );
+}
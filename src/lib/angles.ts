@@ -0,0 +1,17 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+// Creative angles for the persona matrix. The descriptions are sent to the
+// model verbatim, so keep them short and concrete.
+
+export const ANGLE_IDS = ['pain-first', 'aspiration', 'social-proof', 'comparison'] as const;
+export type AngleId = typeof ANGLE_IDS[number];
+
+export const ANGLES: Record<AngleId, { label: string; description: string }> = {
+  'pain-first': { label: 'Pain First', description: 'Open on the frustration and make it vivid before the product appears.' },
+  aspiration: { label: 'Aspiration', description: 'Lead with the life after: the result and how it feels, then show how to get there.' },
+  'social-proof': { label: 'Social Proof', description: 'Build on other people: reviews, sell-outs, friends asking, numbers of users. Never invent figures the brief does not give.' },
+  comparison: { label: 'Comparison', description: 'Contrast it with what they use now or the usual alternative, without naming competitor brands.' },
+};
@@ -0,0 +1,60 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+// The approval workflow saved scripts go through before filming, and the
+// limits on the local accounts and comments used to review them.
+
+import { SECTION_LABELS } from '../types';
+import type { ActivityChange } from '../types';
+
+// In workflow order; a script can be moved to any status from any other.
+export const SCRIPT_STATUSES = ['draft', 'in-review', 'changes-requested', 'approved', 'filmed'] as const;
+export type ScriptStatus = typeof SCRIPT_STATUSES[number];
+
+export const STATUS_LABELS: Record<ScriptStatus, string> = {
+  'draft': 'Draft',
+  'in-review': 'In review',
+  'changes-requested': 'Changes requested',
+  'approved': 'Approved',
+  'filmed': 'Filmed',
+};
+
+// Reviewers decide whether a script is ready; admins also manage accounts
+// and the app's settings. Everyone signed in can edit, star and comment.
+export const USER_ROLES = ['member', 'reviewer', 'admin'] as const;
+export type UserRole = typeof USER_ROLES[number];
+
+export const ROLE_LABELS: Record<UserRole, string> = {
+  'member': 'Member',
+  'reviewer': 'Reviewer',
+  'admin': 'Admin',
+};
+
+// The statuses that record a review decision, which members cannot set.
+export const REVIEW_DECISIONS: readonly ScriptStatus[] = ['changes-requested', 'approved'];
+
+export const canReview = (role: UserRole) => role !== 'member';
+
+export const MAX_USER_NAME = 40;
+export const MIN_PASSWORD_LENGTH = 8;
+export const MAX_PASSWORD_LENGTH = 200;
+export const MAX_COMMENT_LENGTH = 2000;
+
+export const describeChange = (change: ActivityChange) => {
+  switch (change.type) {
+    case 'status':
+      return `moved it from ${STATUS_LABELS[change.from]} to ${STATUS_LABELS[change.to]}`;
+    case 'comment':
+      return `commented on the ${SECTION_LABELS[change.section].toLowerCase()}`;
+    case 'edit':
+      return 'edited the script';
+    case 'star':
+      return change.starred ? 'starred it' : 'removed the star';
+    case 'added':
+      return 'added it to the run';
+    case 'run-deleted':
+      return 'deleted the run';
+  }
+};
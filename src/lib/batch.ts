@@ -0,0 +1,132 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+// Batch mode: one generation per CSV row. Rows are parsed and checked here so
+// invalid ones can be shown before anything is sent to the API.
+
+import { parseCsv, toCsv } from './csv';
+import { getPlatform } from './platforms';
+import { TONES } from '../types';
+import type { ScriptRequest, ScriptVariation } from '../types';
+
+export const BATCH_CONCURRENCY = 3;
+export const MAX_BATCH_ROWS = 200;
+
+export const BATCH_COLUMNS = ['productName', 'productUrl', 'mainProblem', 'keyBenefit', 'tone', 'duration'] as const;
+type BatchColumn = typeof BATCH_COLUMNS[number];
+
+const REQUIRED_COLUMNS: BatchColumn[] = ['productName', 'mainProblem', 'keyBenefit'];
+
+// Form settings that apply to every row in the batch.
+export type BatchSettings = Pick<ScriptRequest, 'platform' | 'variationCount' | 'storyboard' | 'language' | 'wordsPerSecond' | 'brandProfileId'>;
+
+export interface BatchRow {
+  // 1-based position among the data rows of the file.
+  row: number;
+  input: ScriptRequest;
+  // Why the row cannot be sent; such rows are never run.
+  problem?: string;
+}
+
+export interface BatchResult {
+  input: ScriptRequest;
+  variations: ScriptVariation[];
+}
+
+const isHttpUrl = (value: string) => {
+  try {
+    return ['http:', 'https:'].includes(new URL(value).protocol);
+  } catch {
+    return false;
+  }
+};
+
+// Throws for problems with the file as a whole (no header, missing columns,
+// too many rows); problems with single rows are reported on the row.
+export const parseBatchCsv = (text: string, settings: BatchSettings): BatchRow[] => {
+  const [header, ...records] = parseCsv(text);
+  if (!header) throw new Error('The CSV file is empty.');
+
+  const columnIndex = (name: string) => header.findIndex(cell => cell.trim().toLowerCase() === name.toLowerCase());
+  const columns = Object.fromEntries(BATCH_COLUMNS.map(column => [column, columnIndex(column)])) as Record<BatchColumn, number>;
+  // The form calls it toneStyle; accept either.
+  if (columns.tone < 0) columns.tone = columnIndex('toneStyle');
+
+  const missing = REQUIRED_COLUMNS.filter(column => columns[column] < 0);
+  if (missing.length > 0) {
+    throw new Error(`Missing ${missing.length === 1 ? 'column' : 'columns'}: ${missing.join(', ')}.`);
+  }
+  if (records.length === 0) throw new Error('The CSV file has a header but no rows.');
+  if (records.length > MAX_BATCH_ROWS) throw new Error(`A batch can have at most ${MAX_BATCH_ROWS} rows.`);
+
+  const platform = getPlatform(settings.platform);
+  return records.map((record, idx) => {
+    const cell = (column: BatchColumn) => columns[column] < 0 ? '' : (record[columns[column]] ?? '').trim();
+    const toneCell = cell('tone');
+    const tone = TONES.find(t => t.toLowerCase() === toneCell.toLowerCase());
+    const duration = cell('duration').replace(/\s*s(ec(ond)?s?)?$/i, '');
+    const productUrl = cell('productUrl');
+
+    const problems: string[] = [];
+    if (REQUIRED_COLUMNS.some(column => !cell(column))) {
+      problems.push(`${REQUIRED_COLUMNS.join(', ')} are required`);
+    }
+    if (toneCell && !tone) problems.push(`tone must be one of ${TONES.join(', ')}`);
+    if (duration && !platform.durations.includes(duration)) {
+      problems.push(`duration must be one of ${platform.durations.join(', ')} for ${platform.label}`);
+    }
+    if (productUrl && !isHttpUrl(productUrl)) problems.push('productUrl must be an http(s) URL');
+
+    return {
+      row: idx + 1,
+      input: {
+        productName: cell('productName'),
+        productUrl: productUrl || undefined,
+        mainProblem: cell('mainProblem'),
+        keyBenefit: cell('keyBenefit'),
+        toneStyle: tone ?? TONES[0],
+        duration: duration || platform.defaultDuration,
+        ...settings,
+      },
+      problem: problems.length > 0 ? `${problems.join('; ')}.` : undefined,
+    };
+  });
+};
+
+export const batchTemplate = () => toCsv([[...BATCH_COLUMNS]]);
+
+// Exports are flat: one record per variation, with its product repeated.
+const EXPORT_COLUMNS = ['productName', 'productUrl', 'tone', 'duration', 'variation', 'hook', 'problem', 'solution', 'cta'] as const;
+
+const exportRecords = (results: BatchResult[]) =>
+  results.flatMap(({ input, variations }) => variations.map((v, idx) => ({
+    productName: input.productName,
+    productUrl: input.productUrl ?? '',
+    tone: input.toneStyle,
+    duration: input.duration,
+    variation: idx + 1,
+    hook: v.hook,
+    problem: v.problem,
+    solution: v.solution,
+    cta: v.cta,
+  })));
+
+export const batchToCsv = (results: BatchResult[]) =>
+  toCsv([[...EXPORT_COLUMNS], ...exportRecords(results).map(record => EXPORT_COLUMNS.map(column => record[column]))]);
+
+export const batchToJson = (results: BatchResult[]) =>
+  JSON.stringify(exportRecords(results), null, 2);
+
+// Runs `worker` over the items with at most `limit` in flight. The worker is
+// expected to handle its own errors; aborting stops new items from starting.
+export const runPool = async <T>(items: T[], limit: number, worker: (item: T) => Promise<void>, signal?: AbortSignal) => {
+  let next = 0;
+  const lane = async () => {
+    while (next < items.length && !signal?.aborted) {
+      await worker(items[next++]);
+    }
+  };
+  await Promise.all(Array.from({ length: Math.min(limit, items.length) }, lane));
+};
@@ -0,0 +1,293 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+// Creator briefs: the product, the story, the specs, the chosen scripts and
+// the do's and don'ts in one document a hired creator can work from. The
+// content is assembled once into sections and rendered as Markdown,
+// standalone HTML or a PDF.
+
+import { ANGLES } from './angles';
+import { getLanguage } from './languages';
+import { canEncode, createPdf, hexColor, PAGE_HEIGHT, PAGE_WIDTH, textWidth, wrapText } from './pdf';
+import type { PdfColor, PdfFont, PdfImage } from './pdf';
+import { getPlatform } from './platforms';
+import { SECTION_LABELS, SECTIONS } from '../types';
+import type { BrandProfile, BriefSettings, ScriptRequest, ScriptVariation } from '../types';
+
+export const MAX_BRIEF_GUIDELINES = 20;
+export const MAX_BRIEF_GUIDELINE_LENGTH = 300;
+
+export const DEFAULT_BRIEF_SETTINGS: BriefSettings = {
+  agencyName: '',
+  contact: '',
+  accentColor: '#4f46e5',
+  dos: [
+    'Film vertically (9:16) in natural light.',
+    'Show the product within the first 3 seconds.',
+    'Talk to the camera like you are telling a friend.',
+    'Keep the meaning of each line; small changes in wording are fine.',
+  ],
+  donts: [
+    "Don't show other brands' logos or products.",
+    "Don't add claims that aren't in the script.",
+    "Don't use copyrighted music.",
+  ],
+};
+
+export interface CreatorBrief {
+  settings: BriefSettings;
+  input: ScriptRequest;
+  variations: ScriptVariation[];
+  // Its banned words, disclaimers and claims are added to the guidelines.
+  brand?: BrandProfile;
+  // Data URL of the product photo.
+  photo?: string;
+  createdAt: Date;
+}
+
+interface BriefSection {
+  heading: string;
+  fields: [string, string][];
+  items: string[];
+  // The product photo goes at the top of this section.
+  photo?: boolean;
+}
+
+const scriptHeading = (v: ScriptVariation, idx: number) =>
+  [`Script ${idx + 1}`, v.persona?.name, v.angle && ANGLES[v.angle].label].filter(Boolean).join(' · ');
+
+const shotLine = (shot: NonNullable<ScriptVariation['shots']>[number]) =>
+  `${shot.start}-${shot.end}s, ${shot.shotType}: ${shot.direction}${shot.overlay ? ` (on screen: "${shot.overlay}")` : ''}`;
+
+// Regex claims are for the compliance checker, not for people.
+const plainClaims = (brand: BrandProfile) => brand.prohibitedClaims.filter(claim => !/^\/.+\/[a-z]*$/.test(claim));
+
+const guidelines = ({ settings, brand }: CreatorBrief) => ({
+  dos: [
+    ...settings.dos,
+    ...(brand?.disclaimers ?? []).map(disclaimer => `Say this word for word: "${disclaimer}"`),
+  ],
+  donts: [
+    ...settings.donts,
+    ...(brand && brand.bannedWords.length > 0 ? [`Don't say: ${brand.bannedWords.join(', ')}`] : []),
+    ...(brand ? plainClaims(brand) : []).map(claim => `Don't claim: ${claim}`),
+  ],
+});
+
+const briefSections = (brief: CreatorBrief): BriefSection[] => {
+  const { input, variations, brand } = brief;
+  const price = input.productFacts?.price;
+  const language = getLanguage(input.language);
+  const { dos, donts } = guidelines(brief);
+
+  const sections: BriefSection[] = [
+    {
+      heading: 'Product',
+      fields: [
+        ['Name', input.productName],
+        ...(input.productUrl ? [['Link', input.productUrl] as [string, string]] : []),
+        ...(price ? [['Price', [price.currency, price.amount].filter(Boolean).join(' ')] as [string, string]] : []),
+      ],
+      items: [],
+      photo: !!brief.photo,
+    },
+    {
+      heading: 'The Story',
+      fields: [
+        ['Problem', input.mainProblem],
+        ['Benefit', input.keyBenefit],
+        ...(input.secondaryBenefits?.length ? [['Also worth mentioning', input.secondaryBenefits.join('; ')] as [string, string]] : []),
+      ],
+      items: [],
+    },
+    {
+      heading: 'Specs',
+      fields: [
+        ['Platform', getPlatform(input.platform).label],
+        ['Length', `${input.duration} seconds`],
+        ['Tone', input.toneStyle],
+        ...(language.id !== 'en' ? [['Language', language.label] as [string, string]] : []),
+        ...(brand?.voice ? [['Brand voice', brand.voice] as [string, string]] : []),
+      ],
+      items: [],
+    },
+    ...variations.map((v, idx) => ({
+      heading: scriptHeading(v, idx),
+      fields: SECTIONS.map(section => [SECTION_LABELS[section], v[section]] as [string, string]),
+      items: (v.shots ?? []).map(shotLine),
+    })),
+  ];
+  if (dos.length > 0) sections.push({ heading: "Do's", fields: [], items: dos });
+  if (donts.length > 0) sections.push({ heading: "Don'ts", fields: [], items: donts });
+  return sections;
+};
+
+const briefTitle = (brief: CreatorBrief) => `Creator Brief: ${brief.input.productName}`;
+
+const briefDate = (brief: CreatorBrief) =>
+  brief.createdAt.toLocaleDateString(undefined, { year: 'numeric', month: 'long', day: 'numeric' });
+
+// Black or white, whichever reads better on the accent colour.
+const textOn = (hex: string) => {
+  const { r, g, b } = hexColor(hex);
+  return 0.299 * r + 0.587 * g + 0.114 * b > 160 ? '#111111' : '#ffffff';
+};
+
+// Headings sit on white, where a pale accent would disappear.
+const headingColor = (hex: string) => textOn(hex) === '#ffffff' ? hex : '#1a1a1a';
+
+export const briefToMarkdown = (brief: CreatorBrief): string => {
+  const { agencyName, contact } = brief.settings;
+  const lines = [`# ${briefTitle(brief)}`, ''];
+  if (agencyName || contact) lines.push([agencyName && `**${agencyName}**`, contact].filter(Boolean).join(' · '), '');
+  lines.push(`_Prepared ${briefDate(brief)}_`);
+
+  for (const section of briefSections(brief)) {
+    lines.push('', `## ${section.heading}`, '');
+    if (section.photo) lines.push(`![${brief.input.productName}](${brief.photo})`, '');
+    for (const [label, value] of section.fields) lines.push(`**${label}:** ${value}`, '');
+    if (section.items.length > 0) lines.push(...section.items.map(item => `- ${item}`), '');
+    lines.pop();
+  }
+  return `${lines.join('\n')}\n`;
+};
+
+const escapeHtml = (text: string) =>
+  text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+
+// Self-contained: styles are inline and the photo is embedded, so the file
+// can be emailed or printed to PDF from any browser.
+export const briefToHtml = (brief: CreatorBrief): string => {
+  const { agencyName, contact, accentColor } = brief.settings;
+  const sections = briefSections(brief).map(section => [
+    '<section>',
+    `<h2>${escapeHtml(section.heading)}</h2>`,
+    section.photo ? `<img class="photo" src="${brief.photo}" alt="${escapeHtml(brief.input.productName)}">` : '',
+    ...section.fields.map(([label, value]) => `<div class="field"><span>${escapeHtml(label)}</span><p>${escapeHtml(value)}</p></div>`),
+    section.items.length > 0 ? `<ul>${section.items.map(item => `<li>${escapeHtml(item)}</li>`).join('')}</ul>` : '',
+    '</section>',
+  ].filter(Boolean).join('\n')).join('\n');
+
+  return `<!DOCTYPE html>
+<html lang="${brief.input.language ?? 'en'}">
+<head>
+<meta charset="utf-8">
+<title>${escapeHtml(briefTitle(brief))}</title>
+<style>
+  @page { size: A4; margin: 16mm; }
+  * { box-sizing: border-box; }
+  body { margin: 0 auto; max-width: 760px; padding: 32px; font: 14px/1.5 -apple-system, BlinkMacSystemFont, "Segoe UI", Helvetica, Arial, sans-serif; color: #1a1a1a; }
+  header { background: ${accentColor}; color: ${textOn(accentColor)}; padding: 20px 24px; border-radius: 12px; }
+  header strong { display: block; font-size: 18px; }
+  header small { opacity: 0.85; }
+  h1 { font-size: 26px; margin: 28px 0 4px; }
+  .date { color: #888; font-size: 12px; margin: 0 0 8px; }
+  h2 { color: ${headingColor(accentColor)}; font-size: 15px; text-transform: uppercase; letter-spacing: 0.08em; margin: 28px 0 12px; }
+  section { break-inside: avoid; }
+  .field { margin-bottom: 10px; }
+  .field span { display: block; font-size: 10px; font-weight: 700; text-transform: uppercase; letter-spacing: 0.12em; color: #999; }
+  .field p { margin: 2px 0 0; white-space: pre-wrap; }
+  .photo { display: block; max-width: 220px; max-height: 220px; border-radius: 12px; margin-bottom: 14px; }
+  ul { margin: 0; padding-left: 20px; }
+  li { margin-bottom: 4px; }
+  @media print { body { padding: 0; max-width: none; } header { -webkit-print-color-adjust: exact; print-color-adjust: exact; } }
+</style>
+</head>
+<body>
+${agencyName || contact ? `<header>${agencyName ? `<strong>${escapeHtml(agencyName)}</strong>` : ''}${contact ? `<small>${escapeHtml(contact)}</small>` : ''}</header>` : ''}
+<h1>${escapeHtml(briefTitle(brief))}</h1>
+<p class="date">Prepared ${escapeHtml(briefDate(brief))}</p>
+${sections}
+</body>
+</html>
+`;
+};
+
+const briefText = (brief: CreatorBrief) =>
+  [brief.settings.agencyName, brief.settings.contact, briefTitle(brief), briefDate(brief), ...briefSections(brief).flatMap(section => [
+    section.heading,
+    ...section.fields.flat(),
+    ...section.items,
+  ])].join('\n');
+
+// The PDF writer only has the standard Western fonts; briefs in other scripts
+// are printed from the HTML instead.
+export const canWritePdf = (brief: CreatorBrief) => canEncode(briefText(brief));
+
+const MARGIN = 48;
+const CONTENT_WIDTH = PAGE_WIDTH - MARGIN * 2;
+const GRAY: PdfColor = { r: 140, g: 140, b: 140 };
+const INK: PdfColor = { r: 26, g: 26, b: 26 };
+const MAX_PHOTO_EDGE = 170;
+
+// `photo` is the brief's photo as JPEG; see toJpeg() in images.ts.
+export const briefToPdf = (brief: CreatorBrief, photo?: PdfImage): Uint8Array => {
+  const { agencyName, contact, accentColor } = brief.settings;
+  const accent = hexColor(accentColor);
+  const onAccent = hexColor(textOn(accentColor));
+  const heading = hexColor(headingColor(accentColor));
+  const pdf = createPdf();
+  let y = MARGIN;
+
+  // Starts a new page unless `height` more points fit on this one.
+  const ensure = (height: number) => {
+    if (y + height <= PAGE_HEIGHT - MARGIN) return;
+    pdf.addPage();
+    y = MARGIN;
+  };
+
+  const paragraph = (text: string, size: number, { font = 'regular', color = INK, indent = 0, gap = 4 }: { font?: PdfFont; color?: PdfColor; indent?: number; gap?: number } = {}) => {
+    for (const line of wrapText(text, font, size, CONTENT_WIDTH - indent)) {
+      ensure(size * 1.4);
+      pdf.text(line, MARGIN + indent, y, { font, size, color });
+      y += size * 1.4;
+    }
+    y += gap;
+  };
+
+  pdf.addPage();
+  if (agencyName || contact) {
+    const height = agencyName && contact ? 54 : 40;
+    pdf.rect(MARGIN, y, CONTENT_WIDTH, height, accent);
+    let lineY = y + 14;
+    if (agencyName) {
+      pdf.text(wrapText(agencyName, 'bold', 14, CONTENT_WIDTH - 32)[0], MARGIN + 16, lineY, { font: 'bold', size: 14, color: onAccent });
+      lineY += 20;
+    }
+    if (contact) pdf.text(wrapText(contact, 'regular', 9, CONTENT_WIDTH - 32)[0], MARGIN + 16, lineY, { size: 9, color: onAccent });
+    y += height + 24;
+  }
+  paragraph(briefTitle(brief), 20, { font: 'bold', gap: 2 });
+  paragraph(`Prepared ${briefDate(brief)}`, 9, { color: GRAY, gap: 8 });
+
+  for (const section of briefSections(brief)) {
+    // Keep the heading with at least the first lines below it.
+    y += 14;
+    ensure(60);
+    pdf.text(section.heading.toUpperCase(), MARGIN, y, { font: 'bold', size: 11, color: heading });
+    y += 22;
+
+    if (section.photo && photo) {
+      const scale = Math.min(MAX_PHOTO_EDGE / photo.width, MAX_PHOTO_EDGE / photo.height, 1);
+      const width = photo.width * scale;
+      const height = photo.height * scale;
+      ensure(height);
+      pdf.image(photo, MARGIN, y, width, height);
+      y += height + 12;
+    }
+    for (const [label, value] of section.fields) {
+      ensure(30);
+      pdf.text(label.toUpperCase(), MARGIN, y, { font: 'bold', size: 7, color: GRAY });
+      y += 11;
+      paragraph(value, 10, { gap: 8 });
+    }
+    for (const item of section.items) {
+      ensure(14);
+      pdf.text('•', MARGIN + 2, y, { size: 10, color: heading });
+      paragraph(item, 10, { indent: textWidth('•', 'regular', 10) + 10, gap: 2 });
+    }
+  }
+  return pdf.save();
+};
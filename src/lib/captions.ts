@@ -0,0 +1,93 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { countUnits, LANGUAGES } from './languages';
+import type { Language } from './languages';
+import { SECTIONS, SECTION_LABELS } from '../types';
+import type { ScriptSection, ScriptVariation } from '../types';
+
+export interface CaptionCue {
+  section: ScriptSection;
+  start: number;
+  end: number;
+  text: string;
+}
+
+const MAX_WORDS_PER_CUE = 7;
+// About as much screen width as seven English words.
+const MAX_CHARS_PER_CUE = 16;
+
+// Splits items into chunks of at most `max`, spreading them evenly rather
+// than leaving a short tail.
+const evenChunks = <T>(items: T[], max: number): T[][] => {
+  const parts = Math.ceil(items.length / max);
+  const size = Math.ceil(items.length / parts);
+  const chunks: T[][] = [];
+  for (let i = 0; i < items.length; i += size) {
+    chunks.push(items.slice(i, i + size));
+  }
+  return chunks;
+};
+
+// Splits a section into sentence-aligned cues. Languages written without
+// spaces are split by characters instead of words.
+const chunkSection = (text: string, language: Language): string[] => {
+  if (language.unit === 'characters') {
+    const sentences = text.trim().split(/(?<=[。！？!?…])/).map(s => s.trim()).filter(Boolean);
+    return sentences.flatMap(sentence => evenChunks([...sentence], MAX_CHARS_PER_CUE).map(chars => chars.join('')));
+  }
+  const sentences = text.trim().split(/(?<=[.!?…])\s+/).filter(Boolean);
+  return sentences.flatMap(sentence =>
+    evenChunks(sentence.split(/\s+/).filter(Boolean), MAX_WORDS_PER_CUE).map(words => words.join(' '))
+  );
+};
+
+// Cue timings are proportional to spoken length (words, or characters for
+// CJK), scaled so the last cue ends exactly at the target duration.
+export const buildCues = (variation: ScriptVariation, durationSeconds: number, language: Language = LANGUAGES.en): CaptionCue[] => {
+  const chunks = SECTIONS.flatMap(section =>
+    chunkSection(variation[section], language).map(text => ({ section, text, units: Math.max(1, countUnits(text, language)) }))
+  );
+  const totalUnits = chunks.reduce((sum, c) => sum + c.units, 0);
+  if (totalUnits === 0) return [];
+
+  const secondsPerUnit = durationSeconds / totalUnits;
+  let cursor = 0;
+  return chunks.map(({ section, text, units }) => {
+    const start = cursor;
+    cursor += units * secondsPerUnit;
+    return { section, text, start, end: cursor };
+  });
+};
+
+const formatTimestamp = (seconds: number, separator: ',' | '.') => {
+  const totalMs = Math.round(seconds * 1000);
+  const ms = totalMs % 1000;
+  const totalSeconds = Math.floor(totalMs / 1000);
+  const pad = (n: number, width = 2) => String(n).padStart(width, '0');
+  return `${pad(Math.floor(totalSeconds / 3600))}:${pad(Math.floor(totalSeconds / 60) % 60)}:${pad(totalSeconds % 60)}${separator}${pad(ms, 3)}`;
+};
+
+const formatClock = (seconds: number) =>
+  `${Math.floor(seconds / 60)}:${String(Math.floor(seconds % 60)).padStart(2, '0')}`;
+
+export const toSrt = (cues: CaptionCue[]) =>
+  cues.map((cue, i) =>
+    `${i + 1}\n${formatTimestamp(cue.start, ',')} --> ${formatTimestamp(cue.end, ',')}\n${cue.text}\n`
+  ).join('\n');
+
+export const toWebVtt = (cues: CaptionCue[]) =>
+  `WEBVTT\n\n` + cues.map((cue, i) =>
+    `${cue.section}-${i + 1}\n${formatTimestamp(cue.start, '.')} --> ${formatTimestamp(cue.end, '.')}\n${cue.text}\n`
+  ).join('\n');
+
+export const toTeleprompter = (cues: CaptionCue[]) =>
+  SECTIONS.map(section => {
+    const sectionCues = cues.filter(c => c.section === section);
+    if (sectionCues.length === 0) return '';
+    const start = sectionCues[0].start;
+    const end = sectionCues[sectionCues.length - 1].end;
+    return `[${SECTION_LABELS[section].toUpperCase()} ${formatClock(start)}-${formatClock(end)}]\n${sectionCues.map(c => c.text).join('\n')}\n`;
+  }).filter(Boolean).join('\n');
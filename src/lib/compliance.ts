@@ -0,0 +1,97 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+// Checks scripts against a brand profile. Runs in the browser for inline
+// highlights and on the server before and after an auto-fix.
+
+import { SECTIONS } from '../types';
+import type { BrandProfile, ScriptSection, ScriptVariation } from '../types';
+
+export interface ComplianceMatch {
+  section: ScriptSection;
+  kind: 'banned-word' | 'claim';
+  // The profile entry that matched, as written.
+  rule: string;
+  start: number;
+  end: number;
+}
+
+export interface ComplianceReport {
+  matches: ComplianceMatch[];
+  missingDisclaimers: string[];
+}
+
+const escapeRegExp = (text: string) => text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+// "/.../flags" is used as a regular expression; anything else matches as a
+// whole word or phrase, ignoring case. Returns null for an invalid regex.
+export const patternToRegExp = (pattern: string): RegExp | null => {
+  const literal = /^\/(.+)\/([a-z]*)$/.exec(pattern);
+  try {
+    if (literal) {
+      const flags = new Set([...literal[2].replace(/[gy]/g, ''), 'g', 'i']);
+      return new RegExp(literal[1], [...flags].join(''));
+    }
+    const phrase = escapeRegExp(pattern.trim()).replace(/\s+/g, '\\s+');
+    if (!phrase) return null;
+    const start = /^\w/.test(pattern.trim()) ? '\\b' : '';
+    const end = /\w$/.test(pattern.trim()) ? '\\b' : '';
+    return new RegExp(`${start}${phrase}${end}`, 'gi');
+  } catch {
+    return null;
+  }
+};
+
+const findAll = (text: string, pattern: string) => {
+  const regex = patternToRegExp(pattern);
+  if (!regex) return [];
+  return [...text.matchAll(regex)]
+    .filter(m => m[0].length > 0)
+    .map(m => ({ start: m.index!, end: m.index! + m[0].length }));
+};
+
+const normalize = (text: string) =>
+  text.toLowerCase().replace(/\s+/g, ' ').replace(/[\s.!?]+$/, '').trim();
+
+export const checkCompliance = (variation: Partial<ScriptVariation>, profile: BrandProfile): ComplianceReport => {
+  const matches: ComplianceMatch[] = [];
+  for (const section of SECTIONS) {
+    const text = variation[section] ?? '';
+    for (const rule of profile.bannedWords) {
+      matches.push(...findAll(text, rule).map(range => ({ section, kind: 'banned-word' as const, rule, ...range })));
+    }
+    for (const rule of profile.prohibitedClaims) {
+      matches.push(...findAll(text, rule).map(range => ({ section, kind: 'claim' as const, rule, ...range })));
+    }
+  }
+
+  const script = normalize(SECTIONS.map(section => variation[section] ?? '').join(' '));
+  const missingDisclaimers = profile.disclaimers.filter(d => !script.includes(normalize(d)));
+
+  return { matches, missingDisclaimers };
+};
+
+export const isCompliant = (report: ComplianceReport) =>
+  report.matches.length === 0 && report.missingDisclaimers.length === 0;
+
+// Splits a section into plain and flagged runs for rendering. When matches
+// overlap, the one that starts first wins.
+export const highlightSegments = (text: string, matches: ComplianceMatch[]) => {
+  const segments: { text: string; match?: ComplianceMatch }[] = [];
+  let cursor = 0;
+  for (const match of [...matches].sort((a, b) => a.start - b.start)) {
+    if (match.start < cursor) continue;
+    if (match.start > cursor) segments.push({ text: text.slice(cursor, match.start) });
+    segments.push({ text: text.slice(match.start, match.end), match });
+    cursor = match.end;
+  }
+  if (cursor < text.length) segments.push({ text: text.slice(cursor) });
+  return segments;
+};
+
+// Last resort after an auto-fix: disclaimers the model still left out are
+// appended to the CTA verbatim.
+export const appendDisclaimers = (variation: ScriptVariation, disclaimers: string[]): ScriptVariation =>
+  disclaimers.length === 0 ? variation : { ...variation, cta: [variation.cta.trim(), ...disclaimers].join(' ') };
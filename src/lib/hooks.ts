@@ -0,0 +1,32 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+// Hook frameworks used by the hook lab. The descriptions are sent to the model
+// verbatim, so keep them short and concrete.
+
+export const HOOK_FRAMEWORK_IDS = [
+  'question',
+  'pov',
+  'bold-claim',
+  'statistic',
+  'negative',
+  'storytime',
+  'pattern-interrupt',
+] as const;
+export type HookFramework = typeof HOOK_FRAMEWORK_IDS[number];
+
+export const HOOK_FRAMEWORKS: Record<HookFramework, { label: string; description: string }> = {
+  question: { label: 'Question', description: 'Opens with a question the viewer silently answers "yes" to.' },
+  pov: { label: 'POV', description: 'Starts with "POV:" and drops the viewer into a relatable moment.' },
+  'bold-claim': { label: 'Bold Claim', description: 'A confident, specific promise or contrarian statement.' },
+  statistic: { label: 'Statistic', description: 'Leads with a striking number or measurable result.' },
+  negative: { label: 'Negative', description: 'Warns against a mistake or tells people what to stop doing.' },
+  storytime: { label: 'Storytime', description: 'Teases a personal story that demands to be finished.' },
+  'pattern-interrupt': { label: 'Stop Scrolling', description: 'A direct pattern interrupt, e.g. "Stop scrolling if...".' },
+};
+
+export const MIN_HOOKS = 10;
+export const MAX_HOOKS = 20;
+export const DEFAULT_HOOKS = 12;
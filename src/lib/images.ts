@@ -0,0 +1,71 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+// Product photos are downscaled in the browser before upload; phone photos
+// are several MB each and the model gains nothing from the extra pixels.
+
+import type { PdfImage } from './pdf';
+
+export const IMAGE_MIME_TYPES = ['image/jpeg', 'image/png', 'image/webp', 'image/heic', 'image/heif'] as const;
+export type ImageMimeType = typeof IMAGE_MIME_TYPES[number];
+
+export const MAX_IMAGES = 6;
+const MAX_EDGE = 1280;
+const QUALITY = 0.85;
+
+export interface ProductImage {
+  id: string;
+  name: string;
+  mimeType: ImageMimeType;
+  // Full data URL, used both for the thumbnail and the upload.
+  dataUrl: string;
+}
+
+export const mimeTypeOf = (dataUrl: string) => /^data:([^;,]+)/.exec(dataUrl)?.[1] ?? '';
+
+// Re-encodes the file so its longest edge is at most MAX_EDGE. Photos become
+// JPEG; PNG and WebP become WebP so transparency survives. Browsers that
+// cannot encode WebP fall back to PNG, so the MIME type is read back from the
+// data URL rather than assumed.
+export const resizeImage = async (file: File): Promise<ProductImage> => {
+  const bitmap = await createImageBitmap(file).catch(() => {
+    throw new Error(`"${file.name}" could not be read as an image.`);
+  });
+  const scale = Math.min(1, MAX_EDGE / Math.max(bitmap.width, bitmap.height));
+  const canvas = document.createElement('canvas');
+  canvas.width = Math.round(bitmap.width * scale);
+  canvas.height = Math.round(bitmap.height * scale);
+  canvas.getContext('2d')!.drawImage(bitmap, 0, 0, canvas.width, canvas.height);
+  bitmap.close();
+
+  const keepsAlpha = file.type === 'image/png' || file.type === 'image/webp';
+  const dataUrl = canvas.toDataURL(keepsAlpha ? 'image/webp' : 'image/jpeg', QUALITY);
+  return {
+    id: crypto.randomUUID(),
+    name: file.name,
+    mimeType: mimeTypeOf(dataUrl) as ImageMimeType,
+    dataUrl,
+  };
+};
+
+// Flattened onto white and re-encoded as JPEG, the one format the PDF writer
+// embeds as-is.
+export const toJpeg = async (dataUrl: string): Promise<PdfImage> => {
+  const bitmap = await createImageBitmap(await (await fetch(dataUrl)).blob());
+  const canvas = document.createElement('canvas');
+  canvas.width = bitmap.width;
+  canvas.height = bitmap.height;
+  const context = canvas.getContext('2d')!;
+  context.fillStyle = '#ffffff';
+  context.fillRect(0, 0, canvas.width, canvas.height);
+  context.drawImage(bitmap, 0, 0);
+  bitmap.close();
+  const base64 = canvas.toDataURL('image/jpeg', QUALITY).split(',')[1];
+  return {
+    data: Uint8Array.from(atob(base64), char => char.charCodeAt(0)),
+    width: canvas.width,
+    height: canvas.height,
+  };
+};
@@ -0,0 +1,54 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+// Target languages for generation and localization. Length budgets are
+// derived from the platform's pacing: word-based languages scale the word
+// count, Japanese is budgeted in characters because it has no spaces.
+
+import type { PlatformPreset } from './platforms';
+
+export const LANGUAGE_IDS = ['en', 'es', 'pt', 'de', 'fr', 'ja'] as const;
+export type LanguageId = typeof LANGUAGE_IDS[number];
+
+export interface Language {
+  id: LanguageId;
+  // English name, used in prompts.
+  label: string;
+  nativeLabel: string;
+  unit: 'words' | 'characters';
+  // Units spoken in the time an English speaker says one word. German words
+  // are long, so fewer fit; Japanese gets several characters per word.
+  rate: number;
+}
+
+export const LANGUAGES: Record<LanguageId, Language> = {
+  en: { id: 'en', label: 'English', nativeLabel: 'English', unit: 'words', rate: 1 },
+  es: { id: 'es', label: 'Spanish', nativeLabel: 'Español', unit: 'words', rate: 1.05 },
+  pt: { id: 'pt', label: 'Portuguese', nativeLabel: 'Português', unit: 'words', rate: 1 },
+  de: { id: 'de', label: 'German', nativeLabel: 'Deutsch', unit: 'words', rate: 0.85 },
+  fr: { id: 'fr', label: 'French', nativeLabel: 'Français', unit: 'words', rate: 1.05 },
+  ja: { id: 'ja', label: 'Japanese', nativeLabel: '日本語', unit: 'characters', rate: 2.8 },
+};
+
+export const DEFAULT_LANGUAGE: LanguageId = 'en';
+
+export const getLanguage = (id: string | undefined): Language =>
+  LANGUAGES[id as LanguageId] ?? LANGUAGES[DEFAULT_LANGUAGE];
+
+export const unitsPerSecond = (platform: PlatformPreset, language: Language) =>
+  Math.round(platform.wordsPerSecond * language.rate * 10) / 10;
+
+export const lengthBudget = (platform: PlatformPreset, duration: string, language: Language) =>
+  Math.max(1, Math.round(Number(duration) * platform.wordsPerSecond * language.rate));
+
+export const hookBudget = (platform: PlatformPreset, language: Language) =>
+  Math.max(Math.ceil(3 * language.rate), Math.round(platform.hookSeconds * platform.wordsPerSecond * language.rate));
+
+// Counts in the language's budget unit. Punctuation is not spoken, so CJK
+// counts skip it along with whitespace.
+export const countUnits = (text: string, language: Language) =>
+  language.unit === 'characters'
+    ? text.replace(/[\s\p{P}]/gu, '').length
+    : text.trim().split(/\s+/).filter(Boolean).length;
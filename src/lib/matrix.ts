@@ -0,0 +1,53 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+// The persona × angle matrix: one generation per cell, each request set to
+// a single persona and angle. Results are compared side by side and saved
+// together as one run.
+
+import { ANGLES } from './angles';
+import type { AngleId } from './angles';
+import { toCsv } from './csv';
+import type { ScriptVariation } from '../types';
+
+export const MAX_MATRIX_PERSONAS = 4;
+export const MAX_CELL_VARIATIONS = 3;
+
+export interface MatrixCell {
+  personaId: number;
+  angle: AngleId;
+}
+
+export const cellKey = ({ personaId, angle }: MatrixCell) => `${personaId}:${angle}`;
+
+// Row by row, so a persona's cells finish close together.
+export const matrixCells = (personaIds: number[], angles: AngleId[]): MatrixCell[] =>
+  personaIds.flatMap(personaId => angles.map(angle => ({ personaId, angle })));
+
+// Exports have one record per variation, labelled with its cell.
+const EXPORT_COLUMNS = ['persona', 'angle', 'variation', 'hook', 'problem', 'solution', 'cta'] as const;
+
+const exportRecords = (variations: ScriptVariation[]) => {
+  const counts = new Map<string, number>();
+  return variations.map(v => {
+    const cell = `${v.persona?.id}:${v.angle}`;
+    counts.set(cell, (counts.get(cell) ?? 0) + 1);
+    return {
+      persona: v.persona?.name ?? '',
+      angle: v.angle ? ANGLES[v.angle].label : '',
+      variation: counts.get(cell)!,
+      hook: v.hook,
+      problem: v.problem,
+      solution: v.solution,
+      cta: v.cta,
+    };
+  });
+};
+
+export const matrixToCsv = (variations: ScriptVariation[]) =>
+  toCsv([[...EXPORT_COLUMNS], ...exportRecords(variations).map(record => EXPORT_COLUMNS.map(column => record[column]))]);
+
+export const matrixToJson = (variations: ScriptVariation[]) =>
+  JSON.stringify(exportRecords(variations), null, 2);
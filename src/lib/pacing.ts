@@ -0,0 +1,76 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+// Spoken-length estimates for a finished script. The prompt only asks the
+// model for a length; these numbers are what the card checks it against.
+
+import { countUnits, lengthBudget } from './languages';
+import type { Language } from './languages';
+import type { PlatformPreset } from './platforms';
+import { SECTIONS } from '../types';
+import type { ScriptSection, ScriptVariation } from '../types';
+
+// Scripts are only flagged once they run this far over; the estimate is not
+// more precise than that.
+const TOLERANCE_SECONDS = 0.5;
+
+export interface SectionTiming {
+  section: ScriptSection;
+  units: number;
+  start: number;
+  seconds: number;
+}
+
+export interface Timeline {
+  sections: SectionTiming[];
+  units: number;
+  seconds: number;
+  // What the chosen duration allows, in the language's unit.
+  budget: number;
+  targetSeconds: number;
+}
+
+export const estimateTimeline = (
+  variation: ScriptVariation,
+  platform: PlatformPreset,
+  duration: string,
+  language: Language
+): Timeline => {
+  const rate = platform.wordsPerSecond * language.rate;
+  let start = 0;
+  const sections = SECTIONS.map(section => {
+    const units = countUnits(variation[section], language);
+    const timing = { section, units, start, seconds: units / rate };
+    start += timing.seconds;
+    return timing;
+  });
+  return {
+    sections,
+    units: sections.reduce((sum, s) => sum + s.units, 0),
+    seconds: start,
+    budget: lengthBudget(platform, duration, language),
+    targetSeconds: Number(duration),
+  };
+};
+
+export const isOverLength = (timeline: Timeline) =>
+  timeline.seconds > timeline.targetSeconds + TOLERANCE_SECONDS;
+
+// How long each section may be for the script to fit: units are taken from
+// whichever section is currently longest until the total is within budget.
+// Only sections that have to shrink are returned.
+export const trimTargets = (timeline: Timeline): Partial<Record<ScriptSection, number>> => {
+  const units = Object.fromEntries(timeline.sections.map(s => [s.section, s.units])) as Record<ScriptSection, number>;
+  let total = timeline.units;
+  while (total > timeline.budget) {
+    const longest = SECTIONS.reduce((a, b) => units[b] > units[a] ? b : a);
+    if (units[longest] <= 1) break;
+    units[longest]--;
+    total--;
+  }
+  return Object.fromEntries(timeline.sections
+    .filter(s => units[s.section] < s.units)
+    .map(s => [s.section, units[s.section]]));
+};
@@ -0,0 +1,145 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+// Parses a JSON document that may be cut off at any point, as happens while a
+// model response is still streaming. Open strings are returned as far as they
+// go, open objects/arrays keep the members parsed so far, and a value that is
+// cut mid-token (a number or literal) is dropped until it completes.
+
+interface Parsed {
+  value: unknown;
+  complete: boolean;
+}
+
+const LITERALS: Record<string, unknown> = { true: true, false: false, null: null };
+
+class PartialParser {
+  private i = 0;
+
+  constructor(private readonly text: string) {}
+
+  parse(): unknown {
+    return this.value()?.value;
+  }
+
+  private get done() {
+    return this.i >= this.text.length;
+  }
+
+  private skipWhitespace() {
+    while (!this.done && /\s/.test(this.text[this.i])) this.i++;
+  }
+
+  private value(): Parsed | undefined {
+    this.skipWhitespace();
+    if (this.done) return undefined;
+
+    const ch = this.text[this.i];
+    if (ch === '{') return this.object();
+    if (ch === '[') return this.array();
+    if (ch === '"') return this.string();
+    return this.scalar();
+  }
+
+  private object(): Parsed {
+    const result: Record<string, unknown> = {};
+    this.i++;
+    while (true) {
+      this.skipWhitespace();
+      if (this.done) return { value: result, complete: false };
+      if (this.text[this.i] === '}') {
+        this.i++;
+        return { value: result, complete: true };
+      }
+      if (this.text[this.i] === ',') {
+        this.i++;
+        continue;
+      }
+
+      const key = this.string();
+      if (!key.complete) return { value: result, complete: false };
+      this.skipWhitespace();
+      if (this.done || this.text[this.i] !== ':') return { value: result, complete: false };
+      this.i++;
+
+      const member = this.value();
+      if (!member) return { value: result, complete: false };
+      result[key.value as string] = member.value;
+      if (!member.complete) return { value: result, complete: false };
+    }
+  }
+
+  private array(): Parsed {
+    const result: unknown[] = [];
+    this.i++;
+    while (true) {
+      this.skipWhitespace();
+      if (this.done) return { value: result, complete: false };
+      if (this.text[this.i] === ']') {
+        this.i++;
+        return { value: result, complete: true };
+      }
+      if (this.text[this.i] === ',') {
+        this.i++;
+        continue;
+      }
+
+      const item = this.value();
+      if (!item) return { value: result, complete: false };
+      result.push(item.value);
+      if (!item.complete) return { value: result, complete: false };
+    }
+  }
+
+  private string(): Parsed {
+    let result = '';
+    this.i++;
+    while (!this.done) {
+      const ch = this.text[this.i];
+      if (ch === '"') {
+        this.i++;
+        return { value: result, complete: true };
+      }
+      if (ch === '\\') {
+        const escape = this.text.slice(this.i, this.i + 6);
+        // An escape sequence split across chunks is dropped until it completes.
+        if (escape.length < 2 || (escape[1] === 'u' && escape.length < 6)) break;
+        try {
+          result += JSON.parse(`"${escape[1] === 'u' ? escape : escape.slice(0, 2)}"`);
+        } catch {
+          result += escape[1];
+        }
+        this.i += escape[1] === 'u' ? 6 : 2;
+        continue;
+      }
+      result += ch;
+      this.i++;
+    }
+    this.i = this.text.length;
+    return { value: result, complete: false };
+  }
+
+  private scalar(): Parsed | undefined {
+    const match = /^(-?\d+(?:\.\d+)?(?:[eE][+-]?\d+)?|true|false|null)/.exec(this.text.slice(this.i));
+    if (!match) {
+      // Unknown token: stop parsing here.
+      this.i = this.text.length;
+      return undefined;
+    }
+    this.i += match[0].length;
+    // A token touching the end of the input may still be growing ("12" -> "125").
+    if (this.done) return undefined;
+    const token = match[0];
+    return { value: token in LITERALS ? LITERALS[token] : Number(token), complete: true };
+  }
+}
+
+export const parsePartialJson = (text: string): unknown => {
+  try {
+    return JSON.parse(text);
+  } catch {
+    return new PartialParser(text).parse();
+  }
+};
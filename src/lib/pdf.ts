@@ -0,0 +1,212 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+// A minimal PDF writer for text documents with JPEG photos. It uses the
+// standard Helvetica fonts, which every viewer has, so nothing is embedded;
+// the trade-off is that only WinAnsi (Western European) text can be written.
+// Callers check canEncode() first.
+
+export type PdfFont = 'regular' | 'bold';
+
+export interface PdfColor {
+  r: number;
+  g: number;
+  b: number;
+}
+
+export interface PdfImage {
+  // Baseline JPEG bytes; written as-is.
+  data: Uint8Array;
+  width: number;
+  height: number;
+}
+
+// A4 in points.
+export const PAGE_WIDTH = 595.28;
+export const PAGE_HEIGHT = 841.89;
+
+// Advance widths per 1000 units for codes 32-126, from the Adobe AFM files.
+const WIDTHS: Record<PdfFont, number[]> = {
+  regular: [
+    278, 278, 355, 556, 556, 889, 667, 191, 333, 333, 389, 584, 278, 333, 278, 278,
+    556, 556, 556, 556, 556, 556, 556, 556, 556, 556, 278, 278, 584, 584, 584, 556,
+    1015, 667, 667, 722, 722, 667, 611, 778, 722, 278, 500, 667, 556, 833, 722, 778,
+    667, 778, 722, 667, 611, 722, 667, 944, 667, 667, 611, 278, 278, 278, 469, 556,
+    333, 556, 556, 500, 556, 556, 278, 556, 556, 222, 222, 500, 222, 833, 556, 556,
+    556, 556, 333, 500, 278, 556, 500, 722, 500, 500, 500, 334, 260, 334, 584,
+  ],
+  bold: [
+    278, 333, 474, 556, 556, 889, 722, 238, 333, 333, 389, 584, 278, 333, 278, 278,
+    556, 556, 556, 556, 556, 556, 556, 556, 556, 556, 333, 333, 584, 584, 584, 611,
+    975, 722, 722, 722, 722, 667, 611, 778, 722, 278, 556, 722, 611, 833, 722, 778,
+    667, 778, 722, 667, 611, 722, 667, 944, 667, 667, 611, 333, 278, 333, 584, 556,
+    333, 556, 611, 556, 611, 556, 333, 611, 611, 278, 278, 556, 278, 889, 611, 611,
+    611, 611, 389, 556, 333, 611, 556, 778, 556, 556, 500, 389, 280, 389, 584,
+  ],
+};
+
+// WinAnsi codes for the characters outside Latin-1 that scripts commonly use.
+const WIN_ANSI_EXTRAS: Record<string, number> = {
+  '€': 0x80, '…': 0x85, '‘': 0x91, '’': 0x92, '“': 0x93, '”': 0x94, '•': 0x95, '–': 0x96, '—': 0x97, '™': 0x99,
+};
+
+const EXTRA_WIDTHS: Record<string, number> = { '…': 1000, '•': 350, '—': 1000, '™': 1000 };
+
+const winAnsiCode = (char: string) => {
+  const code = char.codePointAt(0)!;
+  if ((code >= 32 && code <= 126) || (code >= 0xa0 && code <= 0xff)) return code;
+  return WIN_ANSI_EXTRAS[char];
+};
+
+export const canEncode = (text: string) =>
+  [...text.replace(/\s/g, ' ')].every(char => winAnsiCode(char) !== undefined);
+
+const charWidth = (char: string, font: PdfFont) => {
+  const code = char.charCodeAt(0);
+  if (code >= 32 && code <= 126) return WIDTHS[font][code - 32];
+  if (EXTRA_WIDTHS[char]) return EXTRA_WIDTHS[char];
+  // Accented letters are as wide as their base letter.
+  const base = char.normalize('NFD').charCodeAt(0);
+  return base >= 32 && base <= 126 ? WIDTHS[font][base - 32] : 556;
+};
+
+export const textWidth = (text: string, font: PdfFont, size: number) =>
+  [...text].reduce((sum, char) => sum + charWidth(char, font), 0) * size / 1000;
+
+// Breaks on spaces; words longer than the line are split where they overflow.
+export const wrapText = (text: string, font: PdfFont, size: number, maxWidth: number): string[] => {
+  const lines: string[] = [];
+  for (const paragraph of text.split('\n')) {
+    let line = '';
+    for (const word of paragraph.split(/\s+/).filter(Boolean)) {
+      const candidate = line ? `${line} ${word}` : word;
+      if (textWidth(candidate, font, size) <= maxWidth) {
+        line = candidate;
+        continue;
+      }
+      if (line) lines.push(line);
+      line = '';
+      let rest = word;
+      while (textWidth(rest, font, size) > maxWidth) {
+        let cut = rest.length - 1;
+        while (cut > 1 && textWidth(rest.slice(0, cut), font, size) > maxWidth) cut--;
+        lines.push(rest.slice(0, cut));
+        rest = rest.slice(cut);
+      }
+      line = rest;
+    }
+    lines.push(line);
+  }
+  return lines;
+};
+
+// One byte per character, as PDF strings and the file itself are written.
+const encodeText = (text: string) =>
+  [...text.replace(/\s/g, ' ')].map(char => {
+    const code = winAnsiCode(char) ?? 0x3f;
+    const byte = String.fromCharCode(code);
+    return byte === '(' || byte === ')' || byte === '\\' ? `\\${byte}` : byte;
+  }).join('');
+
+const bytesOf = (text: string) => Uint8Array.from(text, char => char.charCodeAt(0));
+
+const rgb = ({ r, g, b }: PdfColor) => [r, g, b].map(c => (c / 255).toFixed(3)).join(' ');
+
+export const hexColor = (hex: string): PdfColor => {
+  const value = parseInt(hex.replace('#', ''), 16);
+  return { r: (value >> 16) & 0xff, g: (value >> 8) & 0xff, b: value & 0xff };
+};
+
+// Coordinates are in points from the top-left corner, the way layouts are
+// usually written; they are flipped to PDF's bottom-left origin here.
+export const createPdf = () => {
+  const pages: string[][] = [];
+  const images: PdfImage[] = [];
+
+  const current = () => {
+    if (pages.length === 0) pages.push([]);
+    return pages[pages.length - 1];
+  };
+
+  return {
+    addPage() {
+      pages.push([]);
+    },
+
+    get pageCount() {
+      return pages.length;
+    },
+
+    text(text: string, x: number, y: number, { font = 'regular', size = 10, color = { r: 0, g: 0, b: 0 } }: { font?: PdfFont; size?: number; color?: PdfColor } = {}) {
+      current().push(`BT /${font === 'bold' ? 'F2' : 'F1'} ${size} Tf ${rgb(color)} rg ${x.toFixed(2)} ${(PAGE_HEIGHT - y - size).toFixed(2)} Td (${encodeText(text)}) Tj ET`);
+    },
+
+    rect(x: number, y: number, width: number, height: number, color: PdfColor) {
+      current().push(`${rgb(color)} rg ${x.toFixed(2)} ${(PAGE_HEIGHT - y - height).toFixed(2)} ${width.toFixed(2)} ${height.toFixed(2)} re f`);
+    },
+
+    image(image: PdfImage, x: number, y: number, width: number, height: number) {
+      images.push(image);
+      current().push(`q ${width.toFixed(2)} 0 0 ${height.toFixed(2)} ${x.toFixed(2)} ${(PAGE_HEIGHT - y - height).toFixed(2)} cm /Im${images.length} Do Q`);
+    },
+
+    save(): Uint8Array {
+      const chunks: Uint8Array[] = [];
+      const offsets: number[] = [];
+      let length = 0;
+      const write = (chunk: string | Uint8Array) => {
+        const bytes = typeof chunk === 'string' ? bytesOf(chunk) : chunk;
+        chunks.push(bytes);
+        length += bytes.length;
+      };
+      const object = (id: number, body: string) => {
+        offsets[id] = length;
+        write(`${id} 0 obj\n${body}\nendobj\n`);
+      };
+
+      // 1 catalog, 2 page tree, 3-4 fonts, then images, then a page and its
+      // content stream per page.
+      const firstImage = 5;
+      const firstPage = firstImage + images.length;
+      const pageIds = pages.map((_, idx) => firstPage + idx * 2);
+      const xObjects = images.map((_, idx) => `/Im${idx + 1} ${firstImage + idx} 0 R`).join(' ');
+
+      write('%PDF-1.4\n%\xe2\xe3\xcf\xd3\n');
+      object(1, '<< /Type /Catalog /Pages 2 0 R >>');
+      object(2, `<< /Type /Pages /Kids [${pageIds.map(id => `${id} 0 R`).join(' ')}] /Count ${pages.length} >>`);
+      object(3, '<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica /Encoding /WinAnsiEncoding >>');
+      object(4, '<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica-Bold /Encoding /WinAnsiEncoding >>');
+      images.forEach((image, idx) => {
+        offsets[firstImage + idx] = length;
+        write(`${firstImage + idx} 0 obj\n<< /Type /XObject /Subtype /Image /Width ${image.width} /Height ${image.height} /ColorSpace /DeviceRGB /BitsPerComponent 8 /Filter /DCTDecode /Length ${image.data.length} >>\nstream\n`);
+        write(image.data);
+        write('\nendstream\nendobj\n');
+      });
+      pages.forEach((operations, idx) => {
+        const content = operations.join('\n');
+        object(pageIds[idx], `<< /Type /Page /Parent 2 0 R /MediaBox [0 0 ${PAGE_WIDTH} ${PAGE_HEIGHT}] /Resources << /Font << /F1 3 0 R /F2 4 0 R >> /XObject << ${xObjects} >> >> /Contents ${pageIds[idx] + 1} 0 R >>`);
+        object(pageIds[idx] + 1, `<< /Length ${content.length} >>\nstream\n${content}\nendstream`);
+      });
+
+      const xref = length;
+      const count = firstPage + pages.length * 2;
+      write(`xref\n0 ${count}\n0000000000 65535 f \n`);
+      for (let id = 1; id < count; id++) {
+        write(`${String(offsets[id]).padStart(10, '0')} 00000 n \n`);
+      }
+      write(`trailer\n<< /Size ${count} /Root 1 0 R >>\nstartxref\n${xref}\n%%EOF\n`);
+
+      const file = new Uint8Array(length);
+      let offset = 0;
+      for (const chunk of chunks) {
+        file.set(chunk, offset);
+        offset += chunk.length;
+      }
+      return file;
+    },
+  };
+};
+
+export type PdfWriter = ReturnType<typeof createPdf>;
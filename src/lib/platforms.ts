@@ -0,0 +1,96 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+// Platform presets shared by the form and the server-side prompts. Each preset
+// decides which lengths are offered, how fast the creator is assumed to talk
+// (in English words; see languages.ts for other locales) and the structural
+// rules the model has to follow.
+
+export const PLATFORM_IDS = ['tiktok', 'reels', 'shorts', 'youtube-bumper', 'meta-feed'] as const;
+export type PlatformId = typeof PLATFORM_IDS[number];
+
+export interface PlatformPreset {
+  id: PlatformId;
+  label: string;
+  durations: string[];
+  defaultDuration: string;
+  wordsPerSecond: number;
+  // The hook has to land within this many seconds.
+  hookSeconds: number;
+  ctaTiming: string;
+  rules: string[];
+}
+
+export const PLATFORMS: Record<PlatformId, PlatformPreset> = {
+  tiktok: {
+    id: 'tiktok',
+    label: 'TikTok',
+    durations: ['10', '15', '30', '60'],
+    defaultDuration: '15',
+    wordsPerSecond: 2.6,
+    hookSeconds: 2,
+    ctaTiming: 'CTA in the final 2-3 seconds.',
+    rules: ['Fast cuts and a native, unpolished creator voice.', 'Pattern interrupt in the very first line.'],
+  },
+  reels: {
+    id: 'reels',
+    label: 'Instagram Reels',
+    durations: ['15', '30', '60'],
+    defaultDuration: '15',
+    wordsPerSecond: 2.5,
+    hookSeconds: 3,
+    ctaTiming: 'CTA in the final 3 seconds.',
+    rules: ['Aspirational, visually led storytelling.', 'Lines should work as on-screen captions.'],
+  },
+  shorts: {
+    id: 'shorts',
+    label: 'YouTube Shorts',
+    durations: ['15', '30', '60'],
+    defaultDuration: '30',
+    wordsPerSecond: 2.5,
+    hookSeconds: 3,
+    ctaTiming: 'CTA in the final 3-5 seconds.',
+    rules: ['Slightly more explanatory; viewers stay for a payoff.', 'Loopable ending that flows back into the hook.'],
+  },
+  'youtube-bumper': {
+    id: 'youtube-bumper',
+    label: 'YouTube 6s Bumper',
+    durations: ['6'],
+    defaultDuration: '6',
+    wordsPerSecond: 2.5,
+    hookSeconds: 1,
+    ctaTiming: 'CTA is the last 1-2 seconds, no more than 4 words.',
+    rules: ['Unskippable pre-roll: one idea only.', 'Problem and solution are a single short phrase each.', 'Name the product within the first 2 seconds.'],
+  },
+  'meta-feed': {
+    id: 'meta-feed',
+    label: 'Meta Feed',
+    durations: ['30', '60'],
+    defaultDuration: '30',
+    wordsPerSecond: 2.3,
+    hookSeconds: 3,
+    ctaTiming: 'Introduce the CTA at the midpoint and repeat it at the end.',
+    rules: ['Designed for sound-off viewing: every line must make sense as a caption.', 'Include one concrete proof point (number, result or testimonial).'],
+  },
+};
+
+export const DEFAULT_PLATFORM: PlatformId = 'tiktok';
+
+export const MIN_VARIATIONS = 1;
+export const MAX_VARIATIONS = 10;
+export const DEFAULT_VARIATIONS = 3;
+
+// Bounds for the user's speaking rate, in English words per second.
+export const MIN_WORDS_PER_SECOND = 1.5;
+export const MAX_WORDS_PER_SECOND = 4;
+
+export const getPlatform = (id: string | undefined): PlatformPreset =>
+  PLATFORMS[id as PlatformId] ?? PLATFORMS[DEFAULT_PLATFORM];
+
+// The preset with its speaking rate replaced by the user's, when they set one.
+export const pacedPlatform = (id: string | undefined, wordsPerSecond?: number): PlatformPreset => {
+  const platform = getPlatform(id);
+  return wordsPerSecond ? { ...platform, wordsPerSecond } : platform;
+};
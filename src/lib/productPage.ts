@@ -0,0 +1,31 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+// Formatting for facts read from product pages, shared by the form's page
+// card and the prompts so both describe the page the same way.
+
+import type { ProductFacts, ProductPage } from '../types';
+
+export const MAX_PAGE_FEATURES = 10;
+export const MAX_PAGE_IMAGES = 8;
+
+// "$29.99" when the currency is known to the browser, "29.99 XYZ" otherwise.
+export const formatPrice = ({ amount, currency }: NonNullable<ProductFacts['price']>) => {
+  const value = Number(amount);
+  if (currency && Number.isFinite(value)) {
+    try {
+      return new Intl.NumberFormat('en-US', { style: 'currency', currency }).format(value);
+    } catch {
+      // Not an ISO 4217 code; fall through.
+    }
+  }
+  return currency ? `${amount} ${currency}` : amount;
+};
+
+// "4.6/5 from 1,203 reviews"
+export const formatRating = ({ value, count, best = 5 }: NonNullable<ProductFacts['rating']>) =>
+  `${Math.round(value * 10) / 10}/${best}${count ? ` from ${count.toLocaleString('en-US')} ${count === 1 ? 'review' : 'reviews'}` : ''}`;
+
+export const factsFromPage = ({ url: _url, images: _images, ...facts }: ProductPage): ProductFacts => facts;
@@ -0,0 +1,157 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+// Editable prompt templates. The built-in text below is version 0; saved
+// edits become numbered versions on the server and the newest one is used.
+// Templates refer to request data through {{variables}}, which the server
+// fills in when the prompt is sent.
+
+export const PROMPT_TEMPLATE_IDS = ['analyzeImage', 'analyzeUrl', 'generateScripts'] as const;
+export type PromptTemplateId = typeof PROMPT_TEMPLATE_IDS[number];
+
+export const MAX_TEMPLATE_LENGTH = 20000;
+
+export interface PromptVariable {
+  name: string;
+  description: string;
+}
+
+export interface PromptTemplateInfo {
+  id: PromptTemplateId;
+  label: string;
+  description: string;
+  variables: PromptVariable[];
+  defaultText: string;
+}
+
+const ANALYSIS_FIELDS = `Return a JSON object with:
+- productName: Name/type of product.
+- mainProblem: The specific pain point this product solves.
+- keyBenefit: The primary selling point.
+- secondaryBenefits: Up to 4 further selling points, short phrases. Empty if none are clear.
+- visibleFeatures: Up to 6 things a viewer would notice on camera (packaging, texture, colour, size, applicator...). Empty if none are visible.
+
+Be concise and marketing-focused.`;
+
+export const PROMPT_TEMPLATES: Record<PromptTemplateId, PromptTemplateInfo> = {
+  analyzeImage: {
+    id: 'analyzeImage',
+    label: 'Photo Analysis',
+    description: 'Reads product details from uploaded photos.',
+    variables: [
+      { name: 'imageCount', description: 'Number of photos sent' },
+      { name: 'images', description: '"this product image", or a description of several photos' },
+    ],
+    defaultText: `Analyze {{images}}. Extract details for a UGC video script.
+${ANALYSIS_FIELDS}`,
+  },
+  analyzeUrl: {
+    id: 'analyzeUrl',
+    label: 'Page Analysis',
+    description: 'Reads product details from a product page.',
+    variables: [
+      { name: 'url', description: 'The product page URL' },
+      { name: 'pageContent', description: "Title, price, rating, features and description read from the page's structured data, when found" },
+    ],
+    defaultText: `Analyze the content of this URL: {{url}}. Extract details for a UGC video script.
+{{pageContent}}
+
+${ANALYSIS_FIELDS}`,
+  },
+  generateScripts: {
+    id: 'generateScripts',
+    label: 'Script Generation',
+    description: 'Writes the script variations. Saved runs record the version used.',
+    variables: [
+      { name: 'count', description: 'Number of scripts requested' },
+      { name: 'scripts', description: '"script" or "scripts", to match the count' },
+      { name: 'productName', description: 'Product name' },
+      { name: 'productUrl', description: 'Product page URL, may be empty' },
+      { name: 'productContext', description: 'A "Product URL for context" line when a URL was given' },
+      { name: 'mainProblem', description: 'The problem the product solves' },
+      { name: 'keyBenefit', description: 'The main benefit' },
+      { name: 'extraDetails', description: 'Secondary benefits and visible features, when known' },
+      { name: 'productFacts', description: 'Price, rating and features read from the product page, when analyzed' },
+      { name: 'customerQuotes', description: 'Customer review quotes picked in the Reviews tab, when there are any' },
+      { name: 'audience', description: 'Who to write for: the chosen persona, or left to the model' },
+      { name: 'personaRules', description: 'Details of the chosen persona, when there is one' },
+      { name: 'angleRules', description: 'The creative angle, when one is chosen' },
+      { name: 'toneStyle', description: 'Tone of voice' },
+      { name: 'duration', description: 'Target length in seconds' },
+      { name: 'wordLimit', description: 'Spoken length budget, e.g. "~38 words"' },
+      { name: 'fixedHookRule', description: 'The rule for a hook picked in Hook Lab, when there is one' },
+      { name: 'languageRules', description: 'Target-language instructions; empty for English' },
+      { name: 'platformRules', description: 'Pacing and format rules for the platform' },
+      { name: 'brandRules', description: 'Brand profile rules, when a profile is selected' },
+      { name: 'storyboardRules', description: 'Shot list instructions, when storyboard mode is on' },
+      { name: 'outputFormat', description: 'The JSON shape the response must have' },
+    ],
+    defaultText: `Generate {{count}} professional UGC video {{scripts}} for "{{productName}}".
+{{productContext}}
+Problem: {{mainProblem}}
+Benefit: {{keyBenefit}}
+{{extraDetails}}
+Tone: {{toneStyle}}
+Duration: {{duration}}s ({{wordLimit}}).
+
+{{productFacts}}
+
+{{customerQuotes}}
+
+CONTEXT:
+{{audience}}
+- Structure: Hook → Problem → Solution → CTA.
+- Style: Natural, conversational, creator-led.
+- Ensure each script is distinct and creative.
+{{fixedHookRule}}
+
+{{personaRules}}
+
+{{angleRules}}
+
+{{languageRules}}
+
+{{platformRules}}
+
+{{brandRules}}
+
+{{storyboardRules}}
+
+STRICT JSON OUTPUT:
+{{outputFormat}}`,
+  },
+};
+
+export interface PromptTemplateVersion {
+  template: PromptTemplateId;
+  // 0 is the built-in text.
+  version: number;
+  text: string;
+  note: string;
+  createdAt?: string;
+}
+
+export const builtInVersion = (id: PromptTemplateId): PromptTemplateVersion => ({
+  template: id,
+  version: 0,
+  text: PROMPT_TEMPLATES[id].defaultText,
+  note: 'Built-in',
+});
+
+const VARIABLE_PATTERN = /\{\{\s*(\w+)\s*\}\}/g;
+
+// Names used in the text that the template does not provide.
+export const unknownVariables = (id: PromptTemplateId, text: string) => {
+  const known = new Set(PROMPT_TEMPLATES[id].variables.map(v => v.name));
+  return [...new Set([...text.matchAll(VARIABLE_PATTERN)].map(m => m[1]))].filter(name => !known.has(name));
+};
+
+// Fills in the variables. Optional blocks render empty, so runs of blank
+// lines they leave behind are collapsed.
+export const renderTemplate = (text: string, values: Record<string, string | number>) =>
+  text
+    .replace(VARIABLE_PATTERN, (match, name: string) => name in values ? String(values[name]) : match)
+    .replace(/\n[ \t]*(\n[ \t]*){2,}/g, '\n\n')
+    .trim();
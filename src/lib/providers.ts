@@ -0,0 +1,55 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+// Model providers the server can send prompts to. Shared so the settings panel
+// and the server's validation agree on what can be picked.
+
+export const PROVIDER_IDS = ['gemini', 'openai', 'mock'] as const;
+export type ProviderId = typeof PROVIDER_IDS[number];
+
+export interface ProviderInfo {
+  id: ProviderId;
+  label: string;
+  description: string;
+  defaultModel: string;
+  // Suggestions for the model field; any name the provider accepts works.
+  models: string[];
+  usesBaseUrl: boolean;
+  // Whether the provider can read a product page by itself.
+  canBrowse: boolean;
+}
+
+export const PROVIDERS: Record<ProviderId, ProviderInfo> = {
+  gemini: {
+    id: 'gemini',
+    label: 'Google Gemini',
+    description: 'Needs GEMINI_API_KEY on the server.',
+    defaultModel: 'gemini-3-flash-preview',
+    models: ['gemini-3-flash-preview', 'gemini-2.5-flash', 'gemini-2.5-pro'],
+    usesBaseUrl: false,
+    canBrowse: true,
+  },
+  openai: {
+    id: 'openai',
+    label: 'OpenAI-compatible',
+    description: 'Any /chat/completions endpoint: OpenAI, Ollama, llama.cpp, LM Studio. Sends OPENAI_API_KEY only to the OPENAI_BASE_URL set on the server.',
+    defaultModel: 'llama3.1',
+    models: ['llama3.1', 'qwen2.5', 'gpt-4o-mini'],
+    usesBaseUrl: true,
+    canBrowse: false,
+  },
+  mock: {
+    id: 'mock',
+    label: 'Offline Mock',
+    description: 'Deterministic fixture data. No network or API key; for demos and testing.',
+    defaultModel: 'fixtures',
+    models: ['fixtures'],
+    usesBaseUrl: false,
+    canBrowse: true,
+  },
+};
+
+export const DEFAULT_PROVIDER: ProviderId = 'gemini';
+export const DEFAULT_OPENAI_BASE_URL = 'http://localhost:11434/v1';
@@ -0,0 +1,42 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+// Composite scripts assembled from the sections of other variations.
+
+import { SECTION_LABELS, SECTIONS } from '../types';
+import type { RemixSources, ScriptVariation } from '../types';
+
+// Remix sources refer to variations by id, and ids the model picks can
+// repeat, so variations are numbered by position wherever a set of them is
+// put together.
+export const numberVariations = (variations: ScriptVariation[]): ScriptVariation[] =>
+  variations.map((v, idx) => ({ ...v, id: idx + 1 }));
+
+// Builds the remix with each section copied from the variation with the
+// given id. Storyboard shots are dropped, since their timings belonged to
+// the sources; persona and angle are kept when every source shares them.
+export const composeRemix = (variations: ScriptVariation[], sources: RemixSources): ScriptVariation => {
+  const byId = new Map(variations.map(v => [v.id, v]));
+  const picked = SECTIONS.map(section => byId.get(sources[section]));
+  if (picked.some(v => !v)) throw new Error('A remix source is missing.');
+  const [hook, problem, solution, cta] = picked as ScriptVariation[];
+  const persona = [problem, solution, cta].every(v => v.persona?.id === hook.persona?.id) ? hook.persona : undefined;
+  const angle = [problem, solution, cta].every(v => v.angle === hook.angle) ? hook.angle : undefined;
+
+  return {
+    id: Math.max(0, ...variations.map(v => v.id)) + 1,
+    hook: hook.hook,
+    problem: problem.problem,
+    solution: solution.solution,
+    cta: cta.cta,
+    ...(persona ? { persona } : {}),
+    ...(angle ? { angle } : {}),
+    remix: { sources, smoothed: false },
+  };
+};
+
+export const remixSummary = ({ sources, smoothed }: NonNullable<ScriptVariation['remix']>) =>
+  SECTIONS.map(section => `${SECTION_LABELS[section]} from ${String(sources[section]).padStart(2, '0')}`).join(', ') +
+  (smoothed ? ', transitions smoothed' : '');
@@ -0,0 +1,77 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+// Customer reviews for voice-of-customer mining: reading pasted text or store
+// exports into a list of reviews, and checking that quotes the model picks
+// really appear in them.
+
+import { parseCsv } from './csv';
+import type { CustomerQuote, ReviewCluster, ReviewTheme } from '../types';
+
+export const MAX_REVIEWS = 300;
+export const MAX_REVIEW_LENGTH = 2000;
+export const MAX_CUSTOMER_QUOTES = 12;
+export const MAX_QUOTE_LENGTH = 300;
+
+export const REVIEW_THEME_LABELS: Record<ReviewTheme, string> = {
+  pain: 'Pain points',
+  outcome: 'Desired outcomes',
+  objection: 'Objections',
+};
+
+// Column names used by Shopify review apps (Judge.me, Yotpo, Loox) and
+// Amazon review exports, most specific first.
+const BODY_COLUMNS = ['review body', 'review_body', 'body', 'review', 'review text', 'review_text', 'content', 'text', 'comment', 'comments'];
+const TITLE_COLUMNS = ['review title', 'review_title', 'title', 'headline', 'summary'];
+
+const collapse = (text: string) => text.replace(/\s+/g, ' ').trim();
+
+const fromCsv = (text: string): string[] | null => {
+  const [header, ...rows] = parseCsv(text);
+  if (!header || header.length < 2) return null;
+  const names = header.map(cell => cell.trim().toLowerCase());
+  const body = BODY_COLUMNS.map(column => names.indexOf(column)).find(idx => idx >= 0);
+  if (body === undefined) return null;
+  const title = TITLE_COLUMNS.map(column => names.indexOf(column)).find(idx => idx >= 0 && idx !== body);
+  return rows.map(row => {
+    const reviewTitle = title === undefined ? '' : collapse(row[title] ?? '');
+    const reviewBody = collapse(row[body] ?? '');
+    if (!reviewTitle || reviewBody.toLowerCase().startsWith(reviewTitle.toLowerCase())) return reviewBody;
+    return `${reviewTitle}${/[.!?]$/.test(reviewTitle) ? '' : '.'} ${reviewBody}`;
+  });
+};
+
+// A CSV export with a review column, or plain text with one review per
+// paragraph (or per line, when there are no blank lines). Duplicates and
+// empty entries are dropped; `total` counts what was found before the cap.
+export const parseReviews = (text: string): { reviews: string[]; total: number } => {
+  const blocks = fromCsv(text)
+    ?? (/\n\s*\n/.test(text) ? text.split(/\n\s*\n/) : text.split('\n')).map(collapse);
+  const unique = [...new Set(blocks.filter(review => review.length >= 3))];
+  return {
+    reviews: unique.slice(0, MAX_REVIEWS).map(review => review.slice(0, MAX_REVIEW_LENGTH)),
+    total: unique.length,
+  };
+};
+
+// Case, whitespace and quote style do not count as changes to a quote.
+const normalizeQuote = (text: string) =>
+  collapse(text).toLowerCase().replace(/[‘’]/g, "'").replace(/[“”]/g, '"').replace(/^["'\s]+|["'.\s…]+$/g, '');
+
+// Indexes of the reviews that contain the quote; empty if it was not copied
+// word for word.
+export const quoteSources = (quote: string, reviews: string[]): number[] => {
+  const needle = normalizeQuote(quote);
+  if (!needle) return [];
+  return reviews.flatMap((review, idx) => normalizeQuote(review).includes(needle) ? [idx] : []);
+};
+
+// Adds a cluster's quotes to those already picked, keeping the first
+// MAX_CUSTOMER_QUOTES.
+export const addClusterQuotes = (current: CustomerQuote[], cluster: ReviewCluster): CustomerQuote[] => {
+  const seen = new Set(current.map(quote => quote.text));
+  const added = cluster.quotes.filter(text => !seen.has(text)).map(text => ({ theme: cluster.theme, text }));
+  return [...current, ...added].slice(0, MAX_CUSTOMER_QUOTES);
+};
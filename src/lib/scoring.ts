@@ -0,0 +1,319 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+// Scores a finished script so a run's variations can be compared. Every
+// criterion gets a local heuristic score; the four that need judgement can
+// also be graded by the model against a rubric, and the two are averaged.
+// Readability and length are measured, so they stay local.
+
+import { countUnits, getLanguage, hookBudget } from './languages';
+import type { Language, LanguageId } from './languages';
+import { estimateTimeline, isOverLength } from './pacing';
+import { pacedPlatform } from './platforms';
+import type { ScriptRequest, ScriptVariation } from '../types';
+
+export const SCORE_CRITERIA = ['hook', 'problem', 'benefit', 'cta', 'readability', 'fit'] as const;
+export type ScoreCriterion = typeof SCORE_CRITERIA[number];
+
+export const GRADED_CRITERIA = ['hook', 'problem', 'benefit', 'cta'] as const;
+export type GradedCriterion = typeof GRADED_CRITERIA[number];
+
+export const SCORE_CRITERIA_INFO: Record<ScoreCriterion, { label: string; rubric: string; weight: number }> = {
+  hook: { label: 'Hook strength', rubric: 'Would it stop the scroll in the first second or two? Short, specific and aimed at the viewer.', weight: 0.25 },
+  problem: { label: 'Problem clarity', rubric: 'Does the viewer recognise their own problem straight away?', weight: 0.15 },
+  benefit: { label: 'Benefit specificity', rubric: 'Is the payoff concrete (numbers, timeframes, tangible results) rather than vague praise?', weight: 0.2 },
+  cta: { label: 'CTA clarity', rubric: 'Is there exactly one clear action, and is it easy to take now?', weight: 0.15 },
+  readability: { label: 'Reading level', rubric: 'Short sentences and plain words that are easy to say and follow.', weight: 0.1 },
+  fit: { label: 'Duration fit', rubric: 'Spoken length against the target duration.', weight: 0.15 },
+};
+
+export const MAX_SCORE = 10;
+
+// A model's rubric grade for one variation, 0–10 per criterion.
+export type RubricGrade = Record<GradedCriterion, { score: number; note: string }>;
+
+export interface CriterionScore {
+  criterion: ScoreCriterion;
+  // Heuristic and model averaged when there is a grade, else the heuristic.
+  score: number;
+  heuristic: number;
+  // What the heuristics noticed.
+  note: string;
+  model?: { score: number; note: string };
+}
+
+export interface ScriptScore {
+  criteria: CriterionScore[];
+  // Weighted average of the criteria.
+  overall: number;
+  graded: boolean;
+}
+
+const clamp = (score: number) => Math.round(Math.max(0, Math.min(MAX_SCORE, score)) * 10) / 10;
+
+// Whole words, so "you" does not match inside "young".
+const wordPattern = (words: string[]) =>
+  new RegExp(`(?<![\\p{L}'])(?:${words.join('|')})(?![\\p{L}])`, 'iu');
+
+const SECOND_PERSON: Record<LanguageId, RegExp> = {
+  en: wordPattern(['you', 'your', "you're", 'yours', 'yourself', "you've", "you'll"]),
+  es: wordPattern(['tú', 'tu', 'tus', 'te', 'ti', 'usted', 'ustedes', 'su']),
+  pt: wordPattern(['você', 'vocês', 'seu', 'sua', 'seus', 'suas', 'te']),
+  de: wordPattern(['du', 'dein', 'deine', 'deinen', 'dich', 'dir', 'ihr', 'euch']),
+  fr: wordPattern(['tu', 'toi', 'ton', 'ta', 'tes', 'vous', 'votre', 'vos']),
+  ja: /あなた|君|きみ/u,
+};
+
+// The remaining word lists are English only; other languages are scored on
+// structure (length, questions, numbers, second person).
+const CTA_VERBS = wordPattern([
+  'tap', 'click', 'grab', 'get', 'try', 'shop', 'buy', 'order', 'hit', 'head', 'check', 'use', 'join',
+  'follow', 'comment', 'save', 'start', 'download', 'swipe', 'visit', 'go', 'claim', 'pick', 'snag', 'link',
+]);
+const CTA_PLACES = wordPattern(['link', 'below', 'bio', 'cart', 'site', 'store', 'app']);
+const URGENCY = wordPattern(['today', 'now', 'before', 'limited', 'while', 'last', 'tonight', 'sells? out']);
+const HOOK_INTERRUPTS = wordPattern(['stop', 'pov', 'nobody', 'secret', 'never', 'why', 'wait', 'unpopular', 'confession']);
+const VAGUE_PRAISE = wordPattern([
+  'amazing', 'incredible', 'awesome', 'great', 'perfect', 'best', 'life-changing', 'game.changer',
+  'revolutionary', 'magic', 'magical', 'unbelievable', 'insane',
+]);
+const TIMEFRAMES = wordPattern([
+  'seconds?', 'minutes?', 'hours?', 'days?', 'weeks?', 'months?', 'morning', 'night', 'overnight', 'daily',
+]);
+const STOPWORDS = new Set(['with', 'that', 'this', 'your', 'from', 'have', 'into', 'more', 'less', 'than', 'they', 'them', 'what', 'when', 'like', 'just', 'feel', 'make', 'makes']);
+
+const HAS_NUMBER = /\p{N}|%/u;
+const HAS_QUESTION = /[?？]/;
+
+const sentencesOf = (text: string) => text.split(/[.!?。！？]+/).map(s => s.trim()).filter(Boolean);
+
+// Lower-case words of four letters or more, for topic overlap.
+const contentWords = (text: string) =>
+  new Set(text.toLowerCase().split(/[^\p{L}\p{N}]+/u).filter(word => word.length >= 4 && !STOPWORDS.has(word)));
+
+const overlaps = (text: string, reference: string) => {
+  const words = contentWords(text);
+  return [...contentWords(reference)].some(word => words.has(word));
+};
+
+// Rough English syllable count: vowel groups, minus a silent final "e".
+const syllables = (word: string) => {
+  const cleaned = word.toLowerCase().replace(/[^a-z]/g, '');
+  if (cleaned.length <= 3) return 1;
+  const groups = cleaned.replace(/(?:[^laeiouy]es|ed|[^laeiouy]e)$/, '').replace(/^y/, '').match(/[aeiouy]{1,2}/g);
+  return Math.max(1, groups?.length ?? 1);
+};
+
+interface Scored {
+  score: number;
+  notes: string[];
+}
+
+const units = (text: string, language: Language) => `${countUnits(text, language)} ${language.unit}`;
+
+const scoreHook = (v: ScriptVariation, input: ScriptRequest, language: Language): Scored => {
+  const budget = hookBudget(pacedPlatform(input.platform, input.wordsPerSecond), language);
+  const length = countUnits(v.hook, language);
+  const notes: string[] = [];
+  let score = 5;
+  if (length <= budget) {
+    score += 2;
+    notes.push(`${units(v.hook, language)}, within the ${budget} budget`);
+  } else if (length > budget * 1.5) {
+    score -= 2;
+    notes.push(`${units(v.hook, language)}, too long to land fast`);
+  } else {
+    notes.push(`${units(v.hook, language)}, slightly long`);
+  }
+  if (HAS_QUESTION.test(v.hook)) {
+    score += 1.5;
+    notes.push('asks a question');
+  }
+  if (SECOND_PERSON[language.id].test(v.hook)) {
+    score += 1;
+    notes.push('speaks to the viewer');
+  }
+  if (HAS_NUMBER.test(v.hook)) {
+    score += 1;
+    notes.push('uses a number');
+  }
+  if (language.id === 'en' && HOOK_INTERRUPTS.test(v.hook)) {
+    score += 0.5;
+    notes.push('pattern interrupt');
+  }
+  return { score, notes };
+};
+
+const scoreProblem = (v: ScriptVariation, input: ScriptRequest, language: Language): Scored => {
+  const length = countUnits(v.problem, language) / language.rate;
+  const notes: string[] = [];
+  let score = 5;
+  if (length < 6) {
+    score -= 2;
+    notes.push('too thin to feel real');
+  } else if (length > 35) {
+    score -= 1.5;
+    notes.push('wordy');
+  } else {
+    score += 1.5;
+  }
+  if (overlaps(v.problem, input.mainProblem)) {
+    score += 1.5;
+    notes.push('names the stated problem');
+  } else {
+    notes.push("doesn't echo the stated problem");
+  }
+  if (SECOND_PERSON[language.id].test(v.problem) || HAS_QUESTION.test(v.problem)) {
+    score += 1;
+    notes.push('invites the viewer in');
+  }
+  if (HAS_NUMBER.test(v.problem) || (language.id === 'en' && TIMEFRAMES.test(v.problem))) {
+    score += 1;
+    notes.push('concrete details');
+  }
+  return { score, notes };
+};
+
+const scoreBenefit = (v: ScriptVariation, input: ScriptRequest, language: Language): Scored => {
+  const notes: string[] = [];
+  let score = 4.5;
+  if (HAS_NUMBER.test(v.solution)) {
+    score += 2;
+    notes.push('quantified');
+  }
+  if (language.id === 'en' && TIMEFRAMES.test(v.solution)) {
+    score += 1;
+    notes.push('gives a timeframe');
+  }
+  if (overlaps(v.solution, input.keyBenefit)) {
+    score += 1.5;
+    notes.push('states the key benefit');
+  } else {
+    notes.push('key benefit not stated');
+  }
+  if (v.solution.toLowerCase().includes(input.productName.toLowerCase())) {
+    score += 1;
+    notes.push('names the product');
+  }
+  const vague = language.id === 'en' ? v.solution.match(new RegExp(VAGUE_PRAISE.source, 'giu')) ?? [] : [];
+  if (vague.length > 0) {
+    score -= Math.min(2, vague.length);
+    notes.push(`vague praise ("${vague[0].toLowerCase()}")`);
+  }
+  return { score, notes };
+};
+
+const scoreCta = (v: ScriptVariation, language: Language): Scored => {
+  const length = countUnits(v.cta, language) / language.rate;
+  const asks = sentencesOf(v.cta).length;
+  const notes: string[] = [];
+  let score = 5;
+  if (language.id === 'en') {
+    const firstWords = v.cta.split(/\s+/).slice(0, 3).join(' ');
+    if (CTA_VERBS.test(firstWords)) {
+      score += 2;
+      notes.push('opens with an action');
+    } else {
+      notes.push('no clear action verb up front');
+    }
+    if (CTA_PLACES.test(v.cta)) {
+      score += 1;
+      notes.push('says where to go');
+    }
+    if (URGENCY.test(v.cta)) {
+      score += 1;
+      notes.push('adds urgency');
+    }
+  } else {
+    score += 1.5;
+  }
+  if (length <= 12) {
+    score += 1;
+    notes.push('short');
+  } else if (length > 20) {
+    score -= 2;
+    notes.push('long for a CTA');
+  }
+  if (asks > 2) {
+    score -= 1;
+    notes.push(`${asks} separate asks`);
+  }
+  return { score, notes };
+};
+
+const scoreReadability = (v: ScriptVariation, language: Language): Scored => {
+  const text = [v.hook, v.problem, v.solution, v.cta].join('. ');
+  const sentences = Math.max(1, sentencesOf(text).length);
+  if (language.id !== 'en') {
+    // Sentence length in English-word equivalents.
+    const perSentence = countUnits(text, language) / language.rate / sentences;
+    return {
+      score: 11 - perSentence / 2.5,
+      notes: [`~${Math.round(perSentence)} words per sentence`],
+    };
+  }
+  const words = text.split(/\s+/).filter(w => /[a-z]/i.test(w));
+  const perSentence = words.length / sentences;
+  const perWord = words.reduce((sum, word) => sum + syllables(word), 0) / Math.max(1, words.length);
+  // Flesch reading ease and Flesch–Kincaid grade.
+  const ease = 206.835 - 1.015 * perSentence - 84.6 * perWord;
+  const grade = Math.max(1, Math.round(0.39 * perSentence + 11.8 * perWord - 15.59));
+  return {
+    score: (ease - 30) / 6,
+    notes: [`grade ${grade} reading level`, `${Math.round(perSentence)} words per sentence`],
+  };
+};
+
+const scoreFit = (v: ScriptVariation, input: ScriptRequest, language: Language): Scored => {
+  const timeline = estimateTimeline(v, pacedPlatform(input.platform, input.wordsPerSecond), input.duration, language);
+  const ratio = timeline.seconds / timeline.targetSeconds;
+  const seconds = Math.round(timeline.seconds * 10) / 10;
+  if (isOverLength(timeline)) {
+    return { score: 10 - (ratio - 1) * 25, notes: [`~${seconds}s, ${Math.round((timeline.seconds - timeline.targetSeconds) * 10) / 10}s over ${timeline.targetSeconds}s`] };
+  }
+  if (ratio < 0.85) {
+    return { score: 10 - (0.85 - ratio) * 20, notes: [`~${seconds}s, leaves ${Math.round(timeline.targetSeconds - timeline.seconds)}s unused`] };
+  }
+  return { score: 10, notes: [`~${seconds}s of ${timeline.targetSeconds}s`] };
+};
+
+const sentence = (notes: string[]) => {
+  const text = notes.join(', ');
+  return text.charAt(0).toUpperCase() + text.slice(1);
+};
+
+// Heuristic score per criterion, 0–10.
+export const heuristicScores = (v: ScriptVariation, input: ScriptRequest): Record<ScoreCriterion, { score: number; note: string }> => {
+  const language = getLanguage(input.language);
+  const results: Record<ScoreCriterion, Scored> = {
+    hook: scoreHook(v, input, language),
+    problem: scoreProblem(v, input, language),
+    benefit: scoreBenefit(v, input, language),
+    cta: scoreCta(v, language),
+    readability: scoreReadability(v, language),
+    fit: scoreFit(v, input, language),
+  };
+  return Object.fromEntries(SCORE_CRITERIA.map(criterion => [
+    criterion,
+    { score: clamp(results[criterion].score), note: sentence(results[criterion].notes) },
+  ])) as Record<ScoreCriterion, { score: number; note: string }>;
+};
+
+export const scoreVariation = (v: ScriptVariation, input: ScriptRequest, grade?: RubricGrade): ScriptScore => {
+  const heuristics = heuristicScores(v, input);
+  const criteria = SCORE_CRITERIA.map((criterion): CriterionScore => {
+    const { score, note } = heuristics[criterion];
+    const model = grade?.[criterion as GradedCriterion];
+    return {
+      criterion,
+      score: model ? clamp((score + model.score) / 2) : score,
+      heuristic: score,
+      note,
+      ...(model ? { model: { score: clamp(model.score), note: model.note } } : {}),
+    };
+  });
+  const overall = criteria.reduce((sum, c) => sum + c.score * SCORE_CRITERIA_INFO[c.criterion].weight, 0);
+  return { criteria, overall: clamp(overall), graded: !!grade };
+};
@@ -0,0 +1,47 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+// Read-only campaign links and the plain-text copies shared from them and
+// from the results view.
+
+import type { ScriptVariation } from '../types';
+
+export const MAX_SHARE_TITLE = 120;
+export const MAX_SHARE_EXPIRY_DAYS = 365;
+// Offered in the share dialog; the API accepts any whole number of days up
+// to the maximum.
+export const SHARE_EXPIRY_OPTIONS = [1, 7, 30] as const;
+
+// Served by the app itself, see src/main.tsx.
+export const SHARE_PATH = /^\/s\/([\w-]+)\/?$/;
+
+export const shareUrl = (token: string) => `${window.location.origin}/s/${token}`;
+
+export const variationText = (v: ScriptVariation) =>
+  `Hook: ${v.hook}\nProblem: ${v.problem}\nSolution: ${v.solution}\nCTA: ${v.cta}`;
+
+export const campaignText = (variations: ScriptVariation[]) =>
+  variations.map((v, i) => `Variation ${i + 1}:\n${variationText(v)}`).join('\n\n---\n\n');
+
+export const isExpired = (expiresAt: string | undefined, now = Date.now()) =>
+  !!expiresAt && Date.parse(expiresAt) <= now;
+
+// Falls back to a hidden textarea where the async clipboard API is missing
+// (plain-http hosts).
+export const copyText = async (text: string) => {
+  if (navigator.clipboard) {
+    await navigator.clipboard.writeText(text);
+    return;
+  }
+  const textArea = document.createElement('textarea');
+  textArea.value = text;
+  document.body.appendChild(textArea);
+  textArea.select();
+  try {
+    if (!document.execCommand('copy')) throw new Error('Copy command was rejected.');
+  } finally {
+    document.body.removeChild(textArea);
+  }
+};
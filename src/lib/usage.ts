@@ -0,0 +1,46 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+// Token usage and estimated cost of model calls. Prices are list prices in US
+// dollars per million tokens; models missing here (local ones, the mock) are
+// counted as free.
+
+export const MODEL_PRICES: Record<string, { input: number; output: number }> = {
+  'gemini-3-flash-preview': { input: 0.5, output: 3 },
+  'gemini-2.5-flash': { input: 0.3, output: 2.5 },
+  'gemini-2.5-pro': { input: 1.25, output: 10 },
+  'gpt-4o-mini': { input: 0.15, output: 0.6 },
+  'gpt-4o': { input: 2.5, output: 10 },
+};
+
+export const estimateCost = (model: string, inputTokens: number, outputTokens: number) => {
+  const price = MODEL_PRICES[model];
+  return price ? (inputTokens * price.input + outputTokens * price.output) / 1_000_000 : 0;
+};
+
+// Named after the ModelTask kinds on the server.
+export const TASK_LABELS: Record<string, string> = {
+  analysis: 'Product analysis',
+  scripts: 'Scripts',
+  hooks: 'Hooks',
+  section: 'Section rewrite',
+  revision: 'Revision',
+  transitions: 'Remix transitions',
+  localize: 'Translation',
+  grade: 'AI grading',
+  reviews: 'Review mining',
+};
+
+// The dashboard covers this many days, today included.
+export const USAGE_HISTORY_DAYS = 30;
+export const MAX_DAILY_TOKENS = 1_000_000_000;
+
+export const formatTokens = (tokens: number) =>
+  tokens >= 1_000_000 ? `${(tokens / 1_000_000).toFixed(1)}M`
+    : tokens >= 10_000 ? `${Math.round(tokens / 1000)}k`
+    : tokens.toLocaleString('en-US');
+
+export const formatCost = (dollars: number) =>
+  dollars === 0 ? '$0' : dollars < 0.01 ? '<$0.01' : `$${dollars.toFixed(2)}`;
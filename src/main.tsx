@@ -1,10 +1,15 @@
 import {StrictMode} from 'react';
 import {createRoot} from 'react-dom/client';
 import App from './App.tsx';
+import SharePage from './components/SharePage.tsx';
+import { SHARE_PATH } from './lib/share';
 import './index.css';
 
+// Share links (/s/<token>) open the read-only campaign page instead of the app.
+const shareToken = SHARE_PATH.exec(window.location.pathname)?.[1];
+
 createRoot(document.getElementById('root')!).render(
   <StrictMode>
-    <App />
+    {shareToken ? <SharePage token={shareToken} /> : <App />}
   </StrictMode>,
 );
@@ -0,0 +1,375 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+// Shared between the React app and the Express API in server/.
+
+import type { AngleId } from './lib/angles';
+import type { ScriptStatus, UserRole } from './lib/approval';
+import type { HookFramework } from './lib/hooks';
+import type { LanguageId } from './lib/languages';
+import type { PlatformId } from './lib/platforms';
+import type { ProviderId } from './lib/providers';
+
+export const SECTIONS = ['hook', 'problem', 'solution', 'cta'] as const;
+export type ScriptSection = typeof SECTIONS[number];
+
+export const SECTION_LABELS: Record<ScriptSection, string> = {
+  hook: 'Hook',
+  problem: 'Problem',
+  solution: 'Solution',
+  cta: 'CTA',
+};
+
+export const TONES = ['Energetic', 'Casual', 'Bold', 'Emotional'] as const;
+
+export const SHOT_TYPES = ['selfie', 'close-up product', 'b-roll', 'screen recording'] as const;
+export type ShotType = typeof SHOT_TYPES[number];
+
+export interface StoryboardShot {
+  section: ScriptSection;
+  shotType: ShotType;
+  overlay: string;
+  direction: string;
+  start: number;
+  end: number;
+}
+
+export interface ScriptVariation {
+  id: number;
+  hook: string;
+  problem: string;
+  solution: string;
+  cta: string;
+  // Only present when the run was generated in storyboard mode.
+  shots?: StoryboardShot[];
+  // Who and which angle the script was written for, when the request set them.
+  persona?: { id: number; name: string };
+  angle?: AngleId;
+  // Only present on scripts assembled in the remix builder.
+  remix?: { sources: RemixSources; smoothed: boolean };
+}
+
+// For each section of a remix, the id of the variation it was taken from.
+export type RemixSources = Record<ScriptSection, number>;
+
+export interface ProductAnalysis {
+  productName: string;
+  mainProblem: string;
+  keyBenefit: string;
+  secondaryBenefits: string[];
+  // Things a viewer can see in the photos: packaging, texture, colours, etc.
+  visibleFeatures: string[];
+}
+
+// What a product page states about itself, read from its structured data.
+// Sent with generation so prices, ratings and features come from the page
+// rather than the model's imagination.
+export interface ProductFacts {
+  title: string;
+  brand?: string;
+  description?: string;
+  // As written on the page, e.g. "29.99".
+  price?: { amount: string; currency?: string };
+  rating?: { value: number; count?: number; best?: number };
+  features: string[];
+}
+
+export interface ProductPage extends ProductFacts {
+  url: string;
+  // Absolute URLs, best first.
+  images: string[];
+}
+
+// Page extraction can fail (blocked, not a product page); the analysis then
+// comes from the model alone and `page` is unset.
+export interface UrlAnalysis extends ProductAnalysis {
+  page?: ProductPage;
+}
+
+export const REVIEW_THEMES = ['pain', 'outcome', 'objection'] as const;
+export type ReviewTheme = typeof REVIEW_THEMES[number];
+
+// A recurring theme in a set of customer reviews.
+export interface ReviewCluster {
+  theme: ReviewTheme;
+  // A few words, e.g. "Greasy finish".
+  label: string;
+  // One line in the customers' own terms, usable as the problem or benefit.
+  summary: string;
+  // Verbatim snippets from the reviews.
+  quotes: string[];
+  // Number of reviews that raise it.
+  mentions: number;
+}
+
+export interface CustomerQuote {
+  theme: ReviewTheme;
+  text: string;
+}
+
+export interface ScriptRequest {
+  productName: string;
+  productUrl?: string;
+  mainProblem: string;
+  keyBenefit: string;
+  secondaryBenefits?: string[];
+  visibleFeatures?: string[];
+  toneStyle: string;
+  duration: string;
+  platform?: PlatformId;
+  // Scripts are written natively in this language; English when unset.
+  language?: LanguageId;
+  // Speaking rate in English words per second; the platform's when unset.
+  wordsPerSecond?: number;
+  variationCount?: number;
+  storyboard?: boolean;
+  // Set when a script is built around a hook picked in the hook lab.
+  fixedHook?: string;
+  brandProfileId?: number;
+  // Speak to this persona instead of letting the model pick an audience.
+  personaId?: number;
+  angle?: AngleId;
+  productFacts?: ProductFacts;
+  // Real customer language, picked from mined reviews.
+  customerQuotes?: CustomerQuote[];
+}
+
+export interface BrandProfile {
+  id: number;
+  name: string;
+  voice: string;
+  examples: string[];
+  bannedWords: string[];
+  // Must appear word for word somewhere in the script.
+  disclaimers: string[];
+  // Plain phrases, or /regex/flags for things like before/after numbers.
+  prohibitedClaims: string[];
+}
+
+export type BrandProfileInput = Omit<BrandProfile, 'id'>;
+
+// A target viewer scripts can be written for.
+export interface Persona {
+  id: number;
+  name: string;
+  // Free text, e.g. "25-34".
+  ageRange: string;
+  // Their life and the moment they meet the product.
+  situation: string;
+  objections: string[];
+  // Platforms and moments, e.g. "TikTok on the commute".
+  scrollsOn: string;
+}
+
+export type PersonaInput = Omit<Persona, 'id'>;
+
+// Agency branding and standing guidelines for creator briefs, saved once for
+// the whole app.
+export interface BriefSettings {
+  agencyName: string;
+  // Shown under the name: an email, phone number or website.
+  contact: string;
+  // #rrggbb, for the header band and headings.
+  accentColor: string;
+  dos: string[];
+  donts: string[];
+}
+
+// Which provider and model the server sends prompts to.
+export interface ProviderSettings {
+  provider: ProviderId;
+  model: string;
+  // OpenAI-compatible endpoints only, e.g. http://localhost:11434/v1.
+  baseUrl?: string;
+}
+
+// A translation of a generated variation, shown next to the original.
+export interface LocalizedVariation {
+  language: LanguageId;
+  variation: ScriptVariation;
+}
+
+export interface HookIdea {
+  framework: HookFramework;
+  text: string;
+}
+
+export interface SavedVariation {
+  id: number;
+  starred: boolean;
+  status: ScriptStatus;
+  script: ScriptVariation;
+}
+
+export interface SavedRun {
+  id: number;
+  createdAt: string;
+  input: ScriptRequest;
+  // Version of the script generation prompt that produced the run; 0 is the
+  // built-in prompt. Unset for runs saved before templates were versioned.
+  promptVersion?: number;
+  variations: SavedVariation[];
+}
+
+// A campaign saved behind a read-only link. The input and variations are a
+// snapshot; later edits to the run do not change what the link shows.
+export interface SharedCampaign {
+  token: string;
+  title: string;
+  input: ScriptRequest;
+  variations: ScriptVariation[];
+  createdAt: string;
+  // Unset for links that never expire.
+  expiresAt?: string;
+}
+
+export interface ShareLink {
+  token: string;
+  title: string;
+  productName: string;
+  variationCount: number;
+  createdAt: string;
+  expiresAt?: string;
+  revokedAt?: string;
+}
+
+// A local account. Changing saved scripts, reviewing them and sharing them
+// need one; generating works signed out.
+export interface User {
+  id: number;
+  name: string;
+  role: UserRole;
+}
+
+export interface ScriptComment {
+  id: number;
+  variationId: number;
+  section: ScriptSection;
+  body: string;
+  // Unset once the author's account is gone.
+  authorId?: number;
+  author?: string;
+  createdAt: string;
+}
+
+export type ActivityChange =
+  | { type: 'status'; from: ScriptStatus; to: ScriptStatus }
+  | { type: 'comment'; section: ScriptSection }
+  | { type: 'edit' }
+  | { type: 'star'; starred: boolean }
+  | { type: 'added' }
+  | { type: 'run-deleted' };
+
+export interface ActivityEntry {
+  id: number;
+  // The run may since have been deleted.
+  runId: number;
+  // Unset for changes to the whole run, and once the script is deleted.
+  variationId?: number;
+  productName: string;
+  // Unset once the account that made the change is gone.
+  user?: string;
+  change: ActivityChange;
+  createdAt: string;
+}
+
+// A saved variation as a card on the review board.
+export interface BoardItem {
+  runId: number;
+  productName: string;
+  // Position of the variation within its run, from 0.
+  position: number;
+  variation: SavedVariation;
+  comments: number;
+  // The latest activity, or when the run was saved.
+  updatedAt: string;
+}
+
+export interface UsageTotals {
+  calls: number;
+  failed: number;
+  inputTokens: number;
+  outputTokens: number;
+  // Estimated, in US dollars.
+  cost: number;
+  avgLatencyMs: number;
+}
+
+// One attempt at a model call. Retries and repairs are logged separately
+// because each is billed.
+export interface ModelCallLog {
+  id: number;
+  createdAt: string;
+  user: string;
+  // The server's ModelTask kind, e.g. "scripts".
+  task: string;
+  provider: ProviderId;
+  model: string;
+  product?: string;
+  inputTokens: number;
+  outputTokens: number;
+  // Counted from the text because the provider reported no usage.
+  estimated: boolean;
+  cost: number;
+  latencyMs: number;
+  // Set when the call failed.
+  errorCode?: string;
+}
+
+// Tokens per UTC day; an unset limit is unlimited.
+export interface UsageQuotas {
+  userDailyTokens?: number;
+  globalDailyTokens?: number;
+}
+
+export interface UsageReport {
+  // Who the requester is counted as.
+  user: string;
+  quotas: UsageQuotas;
+  today: { user: UsageTotals; global: UsageTotals };
+  // Newest first; days without calls are left out.
+  days: (UsageTotals & { day: string })[];
+  // Over the same days, most expensive first.
+  products: (UsageTotals & { product: string })[];
+  // Admins only. Today only.
+  users?: (UsageTotals & { user: string })[];
+  // Admins only.
+  recent?: ModelCallLog[];
+}
+
+export type ApiErrorCode =
+  | 'INVALID_REQUEST'
+  | 'MISSING_API_KEY'
+  | 'MODEL_ERROR'
+  | 'MODEL_UNREACHABLE'
+  | 'QUOTA_EXCEEDED'
+  | 'SAFETY_BLOCKED'
+  | 'INVALID_MODEL_OUTPUT'
+  | 'FETCH_FAILED'
+  | 'NOT_FOUND'
+  // A share link that has expired or been revoked.
+  | 'LINK_EXPIRED'
+  | 'LINK_REVOKED'
+  // A daily token quota from the usage settings was used up.
+  | 'DAILY_LIMIT'
+  // Reviewing needs a signed-in user; some changes only their author may make.
+  | 'UNAUTHORIZED'
+  | 'FORBIDDEN'
+  | 'INTERNAL';
+
+export interface ApiErrorBody {
+  error: {
+    code: ApiErrorCode;
+    message: string;
+  };
+}
+
+// Newline-delimited events streamed by POST /api/generate-scripts.
+export type GenerationEvent =
+  | { type: 'delta'; text: string }
+  // The model call is being retried; text from earlier deltas is void.
+  | { type: 'restart' }
+  | { type: 'done'; variations: ScriptVariation[]; promptVersion: number }
+  | { type: 'error'; error: ApiErrorBody['error'] };